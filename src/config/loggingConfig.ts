@@ -1,10 +1,24 @@
 import { type Express } from 'express';
+import crypto from 'crypto';
 import morgan from 'morgan';
 import logger from '../logger';
 
 export class LoggingConfig {
   // Logging configuration
   static configureLoggingMiddleware(app: Express): void {
+    // Request ID, taken from a proxy if it sent a sane one, recorded in the audit log and returned to the client
+    app.use((req, res, next) => {
+      const incomingId = req.get('x-request-id');
+      const requestId =
+        incomingId && /^[\w-]{1,100}$/.test(incomingId)
+          ? incomingId
+          : crypto.randomUUID();
+
+      req.headers['x-request-id'] = requestId;
+      res.setHeader('X-Request-Id', requestId);
+      next();
+    });
+
     // Wire Morgan with Winston for logging
     app.use(
       morgan('combined', {
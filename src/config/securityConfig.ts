@@ -1,35 +1,102 @@
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import cors from 'cors';
-import { type Express } from 'express';
+import { type Express, type RequestHandler } from 'express';
+import { getRedisClient } from '../redis/redisClient';
+import { RedisRateLimitStore } from '../redis/redisRateLimitStore';
+import type {
+  AuthenticatedRequest,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+} from '../types/general';
 
 // Read and split allowed origins from .env
 const ALLOWED_ORIGINS = (process.env['ALLOWED_ORIGINS'] || '')
   .split(',')
   .map(origin => origin.trim());
 
+const DEFAULT_RATE_LIMIT_POLICIES: Record<
+  RateLimitPolicyName,
+  RateLimitPolicy
+> = {
+  global: {
+    max: 1000,
+    windowSeconds: 15 * 60,
+    message: 'Too many requests, please try again later.',
+  },
+  general: {
+    max: 100,
+    windowSeconds: 15 * 60,
+    message: 'Too many requests, please try again later.',
+  },
+  auth: {
+    max: 5,
+    windowSeconds: 15 * 60,
+    message: 'Too many authentication attempts, please try again later.',
+  },
+  // Account management of logged in users, counted per user so it does not use up the login attempts
+  account: {
+    max: 20,
+    windowSeconds: 15 * 60,
+    message: 'Too many account changes, please try again later.',
+  },
+  bulk: {
+    max: 10,
+    windowSeconds: 60 * 60,
+    message: 'Too many bulk requests, please try again later.',
+  },
+};
+
+// Limits can be overridden per policy, e.g. RATE_LIMIT_BULK_MAX and RATE_LIMIT_BULK_WINDOW (seconds)
+const getRateLimitPolicy = (name: RateLimitPolicyName): RateLimitPolicy => {
+  const policy = DEFAULT_RATE_LIMIT_POLICIES[name];
+  const max = process.env[`RATE_LIMIT_${name.toUpperCase()}_MAX`];
+  const window = process.env[`RATE_LIMIT_${name.toUpperCase()}_WINDOW`];
+
+  return {
+    ...policy,
+    max: max ? parseInt(max, 10) : policy.max,
+    windowSeconds: window ? parseInt(window, 10) : policy.windowSeconds,
+  };
+};
+
+// Authenticated requests are counted per user (the real user when impersonating) or API key, others per IP
+const getRateLimitKey = (req: AuthenticatedRequest): string => {
+  const user = req.impersonator ?? req.user;
+  if (user) return `user:${user.id}`;
+  if (req.apiKey) return `api-key:${req.apiKey.id}`;
+  return `ip:${req.ip}`;
+};
+
 export class SecurityConfig {
-  // Rate limiting configurations
-  static getAuthLimiter() {
-    return rateLimit({
-      windowMs: 15 * 60 * 1000, // 15 minutes
-      max: 5,
-      message: {
-        error: 'Too many authentication attempts, please try again later.',
-      },
-      standardHeaders: true,
-      legacyHeaders: false,
-    });
-  }
+  private static rateLimiters = new Map<RateLimitPolicyName, RequestHandler>();
+
+  // One limiter per policy, so every router using a policy shares its counters
+  static getRateLimiter(name: RateLimitPolicyName): RequestHandler {
+    let limiter = this.rateLimiters.get(name);
+
+    if (!limiter) {
+      // The Redis client loads the environment file, so it is created before the policy is read
+      const store = new RedisRateLimitStore(
+        getRedisClient(),
+        `rate_limit:${name}:`
+      );
+      const policy = getRateLimitPolicy(name);
+
+      limiter = rateLimit({
+        windowMs: policy.windowSeconds * 1000,
+        limit: policy.max,
+        message: { error: policy.message },
+        keyGenerator: getRateLimitKey,
+        store,
+        passOnStoreError: true, // Requests are not blocked while Redis is unavailable
+        standardHeaders: true,
+        legacyHeaders: false,
+      });
+      this.rateLimiters.set(name, limiter);
+    }
 
-  static getGeneralLimiter() {
-    return rateLimit({
-      windowMs: 15 * 60 * 1000, // 15 minutes
-      max: 100,
-      message: { error: 'Too many requests, please try again later.' },
-      standardHeaders: true,
-      legacyHeaders: false,
-    });
+    return limiter;
   }
 
   // Security middleware configuration
@@ -68,11 +135,16 @@ export class SecurityConfig {
         },
         credentials: true, // Allows cookies and Authorization headers
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
+        allowedHeaders: [
+          'Content-Type',
+          'Authorization',
+          'X-CSRF-Token',
+          'X-API-Key',
+        ],
       })
     );
 
-    // General rate limiting
-    app.use(this.getGeneralLimiter());
+    // Rate limiting of all requests by IP, routes add their own policies per user
+    app.use(this.getRateLimiter('global'));
   }
 }
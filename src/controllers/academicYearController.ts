@@ -0,0 +1,554 @@
+import { type Request, type Response } from 'express';
+import {
+  academicYearParamsSchema,
+  academicYearQuerySchema,
+  createAcademicYearSchema,
+  createTermSchema,
+  termParamsSchema,
+  updateAcademicYearSchema,
+  updateTermSchema,
+} from '../schemas/academicYearSchema';
+import { academicYearService } from '../services/academicYearService';
+import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+
+export class AcademicYearController {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await createAcademicYearSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('CREATE ACADEMIC YEAR', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const { startDate, endDate } = validationResult.data;
+
+        const overlappingYear =
+          await academicYearService.findOverlappingAcademicYear(
+            startDate,
+            endDate
+          );
+
+        if (overlappingYear) {
+          res.status(409).json({
+            success: false,
+            error: `Academic year overlaps with ${overlappingYear.name}`,
+          });
+          return;
+        }
+
+        const academicYear = await academicYearService.createAcademicYear(
+          validationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!academicYear) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year could not be created',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: academicYear,
+          message: 'Academic year created successfully',
+        });
+      } catch (error) {
+        handleError('Failed to create academic year', error, res);
+      }
+    }
+  }
+
+  async getAll(req: Request, res: Response): Promise<void> {
+    const validationResult = await academicYearQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (handleValidationError('GET ACADEMIC YEARS', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const result = await academicYearService.getAcademicYears(
+          validationResult.data
+        );
+
+        if (!result) {
+          res.status(404).json({
+            success: false,
+            message: 'No academic years found',
+          });
+          return;
+        }
+
+        const { academicYears, total } = result;
+        const limit = validationResult.data.limit || 10;
+        const page = validationResult.data.page || 1;
+        const totalPages = Math.ceil(total / limit);
+
+        res.status(200).json({
+          success: true,
+          data: academicYears,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+          },
+        });
+      } catch (error) {
+        handleError('Failed to fetch academic years', error, res);
+      }
+    }
+  }
+
+  // Returns the current academic year together with its current term, if one is set
+  async getCurrent(_req: Request, res: Response): Promise<void> {
+    try {
+      const academicYear = await academicYearService.getCurrentAcademicYear();
+
+      if (!academicYear) {
+        res.status(404).json({
+          success: false,
+          message: 'No current academic year is set',
+        });
+        return;
+      }
+
+      const currentTerm = await academicYearService.getCurrentTerm();
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...academicYear,
+          currentTerm:
+            currentTerm?.academicYearId === academicYear.id
+              ? currentTerm
+              : null,
+        },
+      });
+    } catch (error) {
+      handleError('Failed to fetch current academic year', error, res);
+    }
+  }
+
+  async getById(req: Request, res: Response): Promise<void> {
+    const validationResult = await academicYearParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET ACADEMIC YEAR', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const academicYear = await academicYearService.getAcademicYearById(
+          validationResult.data.id
+        );
+
+        if (!academicYear) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: academicYear,
+        });
+      } catch (error) {
+        handleError('Failed to fetch academic year', error, res);
+      }
+    }
+  }
+
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult =
+      await academicYearParamsSchema.safeParseAsync(req.params);
+    const bodyValidationResult = await updateAcademicYearSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError(
+        'UPDATE ACADEMIC YEAR',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('UPDATE ACADEMIC YEAR', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id } = paramsValidationResult.data;
+        const existingYear = await academicYearService.getAcademicYearById(id);
+
+        if (!existingYear) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year not found',
+          });
+          return;
+        }
+
+        // Dates which are not sent keep their stored value
+        const startDate =
+          bodyValidationResult.data.startDate ?? existingYear.startDate;
+        const endDate =
+          bodyValidationResult.data.endDate ?? existingYear.endDate;
+
+        if (
+          bodyValidationResult.data.startDate ||
+          bodyValidationResult.data.endDate
+        ) {
+          if (endDate <= startDate) {
+            res.status(400).json({
+              success: false,
+              message: 'End date must be after start date',
+            });
+            return;
+          }
+
+          const overlappingYear =
+            await academicYearService.findOverlappingAcademicYear(
+              startDate,
+              endDate,
+              id
+            );
+
+          if (overlappingYear) {
+            res.status(409).json({
+              success: false,
+              error: `Academic year overlaps with ${overlappingYear.name}`,
+            });
+            return;
+          }
+
+          if (
+            await academicYearService.hasTermsOutside(id, startDate, endDate)
+          ) {
+            res.status(400).json({
+              success: false,
+              message: 'Academic year dates must include all of its terms',
+            });
+            return;
+          }
+        }
+
+        const academicYear = await academicYearService.updateAcademicYear(
+          id,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!academicYear) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: academicYear,
+          message: 'Academic year updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update academic year', error, res);
+      }
+    }
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await academicYearParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('DELETE ACADEMIC YEAR', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const isDeleted = await academicYearService.deleteAcademicYear(
+          validationResult.data.id,
+          getAuditContext(req)
+        );
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: validationResult.data.id,
+          message: 'Academic year deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete academic year', error, res);
+      }
+    }
+  }
+
+  async getTerms(req: Request, res: Response): Promise<void> {
+    const validationResult = await academicYearParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET TERMS', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const academicYear = await academicYearService.getAcademicYearById(
+          validationResult.data.id
+        );
+
+        if (!academicYear) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year not found',
+          });
+          return;
+        }
+
+        const terms = await academicYearService.getTerms(academicYear.id);
+
+        res.status(200).json({
+          success: true,
+          data: terms ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch terms', error, res);
+      }
+    }
+  }
+
+  async createTerm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult =
+      await academicYearParamsSchema.safeParseAsync(req.params);
+    const bodyValidationResult = await createTermSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('CREATE TERM', paramsValidationResult, res) ||
+      handleValidationError('CREATE TERM', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id } = paramsValidationResult.data;
+        const { startDate, endDate } = bodyValidationResult.data;
+
+        const academicYear = await academicYearService.getAcademicYearById(id);
+
+        if (!academicYear) {
+          res.status(404).json({
+            success: false,
+            message: 'Academic year not found',
+          });
+          return;
+        }
+
+        if (
+          !(await academicYearService.isWithinAcademicYear(
+            id,
+            startDate,
+            endDate
+          ))
+        ) {
+          res.status(400).json({
+            success: false,
+            message: 'Term dates must be within the academic year',
+          });
+          return;
+        }
+
+        const overlappingTerm = await academicYearService.findOverlappingTerm(
+          id,
+          startDate,
+          endDate
+        );
+
+        if (overlappingTerm) {
+          res.status(409).json({
+            success: false,
+            error: `Term overlaps with ${overlappingTerm.name}`,
+          });
+          return;
+        }
+
+        const term = await academicYearService.createTerm(
+          id,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!term) {
+          res.status(404).json({
+            success: false,
+            message: 'Term could not be created',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: term,
+          message: 'Term created successfully',
+        });
+      } catch (error) {
+        handleError('Failed to create term', error, res);
+      }
+    }
+  }
+
+  async updateTerm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await termParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await updateTermSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('UPDATE TERM', paramsValidationResult, res) ||
+      handleValidationError('UPDATE TERM', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, termId } = paramsValidationResult.data;
+        const existingTerm = await academicYearService.getTermById(id, termId);
+
+        if (!existingTerm) {
+          res.status(404).json({
+            success: false,
+            message: 'Term not found',
+          });
+          return;
+        }
+
+        // Dates which are not sent keep their stored value
+        const startDate =
+          bodyValidationResult.data.startDate ?? existingTerm.startDate;
+        const endDate =
+          bodyValidationResult.data.endDate ?? existingTerm.endDate;
+
+        if (
+          bodyValidationResult.data.startDate ||
+          bodyValidationResult.data.endDate
+        ) {
+          if (endDate <= startDate) {
+            res.status(400).json({
+              success: false,
+              message: 'End date must be after start date',
+            });
+            return;
+          }
+
+          if (
+            !(await academicYearService.isWithinAcademicYear(
+              id,
+              startDate,
+              endDate
+            ))
+          ) {
+            res.status(400).json({
+              success: false,
+              message: 'Term dates must be within the academic year',
+            });
+            return;
+          }
+
+          const overlappingTerm = await academicYearService.findOverlappingTerm(
+            id,
+            startDate,
+            endDate,
+            termId
+          );
+
+          if (overlappingTerm) {
+            res.status(409).json({
+              success: false,
+              error: `Term overlaps with ${overlappingTerm.name}`,
+            });
+            return;
+          }
+        }
+
+        const term = await academicYearService.updateTerm(
+          id,
+          termId,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!term) {
+          res.status(404).json({
+            success: false,
+            message: 'Term not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: term,
+          message: 'Term updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update term', error, res);
+      }
+    }
+  }
+
+  async deleteTerm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await termParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('DELETE TERM', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, termId } = validationResult.data;
+        const isDeleted = await academicYearService.deleteTerm(
+          id,
+          termId,
+          getAuditContext(req)
+        );
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            message: 'Term not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: termId,
+          message: 'Term deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete term', error, res);
+      }
+    }
+  }
+}
+
+export const academicYearController = new AcademicYearController();
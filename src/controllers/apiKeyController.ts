@@ -0,0 +1,218 @@
+import { type Response } from 'express';
+import {
+  apiKeyParamsSchema,
+  apiKeyQuerySchema,
+  createApiKeySchema,
+} from '../schemas/apiKeySchema';
+import { apiKeyService } from '../services/apiKeyService';
+import { roleService } from '../services/roleService';
+import {
+  handleValidationError,
+  handleError,
+  handleScopeError,
+} from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { isUserAssignmentInScope } from '../utils/scopeUtils';
+import logger from '../logger';
+
+export class ApiKeyController {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await createApiKeySchema.safeParseAsync(req.body);
+
+    if (handleValidationError('CREATE API KEY', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        // API keys cannot be used to create further keys
+        if (!req.user) {
+          res.status(401).json({
+            success: false,
+            error: 'API keys can only be created by users',
+          });
+          return;
+        }
+
+        // Keys outlive the impersonation token, so they would keep the target user's access
+        if (req.impersonator) {
+          res.status(403).json({
+            success: false,
+            error: 'API keys cannot be created while impersonating',
+          });
+          return;
+        }
+
+        const { roleId, permissions, schoolId, regionId } =
+          validationResult.data;
+
+        if (
+          !(await isUserAssignmentInScope(req.dataScope, schoolId, regionId))
+        ) {
+          handleScopeError('API key scope is outside of your data scope', res);
+          return;
+        }
+
+        if (roleId && !(await roleService.getRoleById(roleId))) {
+          res.status(404).json({
+            success: false,
+            message: 'Role not found',
+          });
+          return;
+        }
+
+        // A key can never have more permissions than the user creating it
+        const keyPermissions = roleId
+          ? await roleService.getPermissionNames(roleId)
+          : (permissions ?? []);
+        const missingPermissions = keyPermissions.filter(
+          permission => !req.permissions?.includes(permission)
+        );
+
+        if (missingPermissions.length > 0) {
+          handleScopeError(
+            `Cannot grant permissions you do not have: ${missingPermissions.join(', ')}`,
+            res
+          );
+          return;
+        }
+
+        const result = await apiKeyService.createApiKey(
+          validationResult.data,
+          req.user.id
+        );
+
+        if (!result) {
+          res.status(404).json({
+            success: false,
+            message: 'API key could not be created',
+          });
+          return;
+        }
+
+        logger.info(
+          `API key ${result.apiKey.id} created by user ${req.user.id}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: { ...result.apiKey, key: result.key },
+          message:
+            'API key created successfully, store the key now as it cannot be shown again',
+        });
+      } catch (error) {
+        handleError('Failed to create API key', error, res);
+      }
+    }
+  }
+
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await apiKeyQuerySchema.safeParseAsync(req.query);
+
+    if (handleValidationError('GET API KEYS', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const result = await apiKeyService.getApiKeys(
+          validationResult.data,
+          req.dataScope
+        );
+
+        if (!result) {
+          res.status(404).json({
+            success: false,
+            message: 'No API keys found',
+          });
+          return;
+        }
+
+        const { apiKeys, total } = result;
+        const limit = validationResult.data.limit || 10;
+        const page = validationResult.data.page || 1;
+        const totalPages = Math.ceil(total / limit);
+
+        res.json({
+          success: true,
+          data: apiKeys,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+          },
+        });
+      } catch (error) {
+        handleError('Failed to fetch API keys', error, res);
+      }
+    }
+  }
+
+  async getById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await apiKeyParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET API KEY', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const apiKey = await apiKeyService.getApiKeyById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!apiKey) {
+          res.status(404).json({
+            success: false,
+            message: 'API key not found',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: apiKey,
+        });
+      } catch (error) {
+        handleError('Failed to fetch API key', error, res);
+      }
+    }
+  }
+
+  async revoke(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await apiKeyParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('REVOKE API KEY', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const apiKey = await apiKeyService.revokeApiKey(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!apiKey) {
+          res.status(404).json({
+            success: false,
+            message: 'API key not found or already revoked',
+          });
+          return;
+        }
+
+        logger.info(
+          `API key ${apiKey.id} revoked by ${req.user ? `user ${req.user.id}` : `API key ${req.apiKey?.id}`}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: apiKey,
+          message: 'API key revoked successfully',
+        });
+      } catch (error) {
+        handleError('Failed to revoke API key', error, res);
+      }
+    }
+  }
+}
+
+export const apiKeyController = new ApiKeyController();
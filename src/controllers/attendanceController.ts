@@ -0,0 +1,485 @@
+import { type Response } from 'express';
+import {
+  attendanceParamsSchema,
+  attendanceQuerySchema,
+  attendanceSummaryQuerySchema,
+  classAttendanceQuerySchema,
+  markClassAttendanceSchema,
+  recordAttendanceSchema,
+  updateAttendanceSchema,
+} from '../schemas/attendanceSchema';
+import { classParamsSchema } from '../schemas/classSchema';
+import { studentParamsSchema } from '../schemas/studentSchema';
+import { attendanceService } from '../services/attendanceService';
+import { classService } from '../services/classService';
+import { schoolService } from '../services/schoolService';
+import { studentService } from '../services/studentService';
+import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+
+export class AttendanceController {
+  async getStudentAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await attendanceQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET ATTENDANCE', paramsValidationResult, res) ||
+      handleValidationError('GET ATTENDANCE', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const records = await attendanceService.getStudentAttendance(
+          student.id,
+          queryValidationResult.data
+        );
+
+        res.status(200).json({
+          success: true,
+          data: records ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch attendance', error, res);
+      }
+    }
+  }
+
+  async getStudentAttendanceSummary(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await attendanceQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError(
+        'GET ATTENDANCE SUMMARY',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError(
+        'GET ATTENDANCE SUMMARY',
+        queryValidationResult,
+        res
+      )
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const summary = await attendanceService.getStudentAttendanceSummary(
+          student.id,
+          queryValidationResult.data
+        );
+
+        if (!summary) {
+          res.status(500).json({
+            success: false,
+            error: 'Failed to retrieve attendance summary',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: summary,
+          message: `Retrieved attendance summary for ${student.firstName} ${student.lastName}`,
+        });
+      } catch (error) {
+        handleError('Failed to fetch attendance summary', error, res);
+      }
+    }
+  }
+
+  async recordStudentAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await recordAttendanceSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('RECORD ATTENDANCE', paramsValidationResult, res) ||
+      handleValidationError('RECORD ATTENDANCE', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { date, period, status, excuseNote } = bodyValidationResult.data;
+
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        if (!student.schoolId) {
+          res.status(400).json({
+            success: false,
+            error: 'Student is not enrolled at a school',
+          });
+          return;
+        }
+
+        const result = await attendanceService.recordAttendance(
+          student.schoolId,
+          null,
+          { date, period },
+          [{ studentId: student.id, status, excuseNote }],
+          getAuditContext(req)
+        );
+
+        if (!result?.records?.[0]) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Attendance could not be recorded',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.records[0],
+          message: 'Attendance recorded successfully',
+        });
+      } catch (error) {
+        handleError('Failed to record attendance', error, res);
+      }
+    }
+  }
+
+  async updateStudentAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await attendanceParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await updateAttendanceSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('UPDATE ATTENDANCE', paramsValidationResult, res) ||
+      handleValidationError('UPDATE ATTENDANCE', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, attendanceId } = paramsValidationResult.data;
+        const student = await studentService.getStudentById(id, req.dataScope);
+        const record = student
+          ? await attendanceService.updateAttendance(
+              student.id,
+              attendanceId,
+              bodyValidationResult.data,
+              getAuditContext(req)
+            )
+          : undefined;
+
+        if (!record) {
+          res.status(404).json({
+            success: false,
+            error: 'Attendance record not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: record,
+          message: 'Attendance updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update attendance', error, res);
+      }
+    }
+  }
+
+  async deleteStudentAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await attendanceParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('DELETE ATTENDANCE', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const { id, attendanceId } = validationResult.data;
+        const student = await studentService.getStudentById(id, req.dataScope);
+        const isDeleted = student
+          ? await attendanceService.deleteAttendance(
+              student.id,
+              attendanceId,
+              getAuditContext(req)
+            )
+          : false;
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Attendance record not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: attendanceId,
+          message: 'Attendance deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete attendance', error, res);
+      }
+    }
+  }
+
+  async getClassAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult =
+      await classAttendanceQuerySchema.safeParseAsync(req.query);
+
+    if (
+      handleValidationError(
+        'GET CLASS ATTENDANCE',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('GET CLASS ATTENDANCE', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { date, period } = queryValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const register = await attendanceService.getClassAttendance(classId, {
+          date,
+          period: period ?? null,
+        });
+
+        res.status(200).json({
+          success: true,
+          data: register ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch class attendance', error, res);
+      }
+    }
+  }
+
+  // Takes the register of the whole class, students not listed in the records get the default status
+  async markClassAttendance(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await markClassAttendanceSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError(
+        'MARK CLASS ATTENDANCE',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('MARK CLASS ATTENDANCE', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { date, period, status, records } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const students = (await classService.getClassStudents(classId)) ?? [];
+        const classStudentIds = new Set(students.map(student => student.id));
+
+        const outsideIds = records
+          .map(record => record.studentId)
+          .filter(studentId => !classStudentIds.has(studentId));
+
+        if (outsideIds.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: `Students are not in the class: ${outsideIds.join(', ')}`,
+          });
+          return;
+        }
+
+        if (students.length === 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Class has no students',
+          });
+          return;
+        }
+
+        const recordsByStudent = new Map(
+          records.map(record => [record.studentId, record])
+        );
+
+        const result = await attendanceService.recordAttendance(
+          id,
+          classId,
+          { date, period },
+          students.map(
+            student =>
+              recordsByStudent.get(student.id) ?? {
+                studentId: student.id,
+                status,
+                excuseNote: null,
+              }
+          ),
+          getAuditContext(req)
+        );
+
+        if (!result?.records) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Attendance could not be recorded',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.records,
+          message: `Attendance recorded for ${result.records.length} students`,
+        });
+      } catch (error) {
+        handleError('Failed to record class attendance', error, res);
+      }
+    }
+  }
+
+  async getAttendanceSummary(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await attendanceSummaryQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (handleValidationError('GET ATTENDANCE SUMMARY', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const summary = await attendanceService.getAttendanceSummary(
+          validationResult.data,
+          req.dataScope
+        );
+
+        if (!summary) {
+          res.status(500).json({
+            success: false,
+            error: 'Failed to retrieve attendance summary',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: summary,
+          message: 'Attendance summary retrieved successfully',
+        });
+      } catch (error) {
+        handleError('Failed to fetch attendance summary', error, res);
+      }
+    }
+  }
+}
+
+export const attendanceController = new AttendanceController();
@@ -0,0 +1,62 @@
+import { type Response } from 'express';
+import { auditLogQuerySchema } from '../schemas/auditSchema';
+import { auditService } from '../services/auditService';
+import {
+  handleValidationError,
+  handleError,
+  handleScopeError,
+} from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+
+export class AuditController {
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await auditLogQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (handleValidationError('GET AUDIT LOG', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        // Entries are not tied to a school, so only ministry level users can read them
+        if (req.dataScope?.level !== 'ministry') {
+          handleScopeError(
+            'The audit log is only available to ministry level users',
+            res
+          );
+          return;
+        }
+
+        const result = await auditService.getAuditLog(validationResult.data);
+
+        if (!result) {
+          res.status(404).json({
+            success: false,
+            message: 'No audit log entries found',
+          });
+          return;
+        }
+
+        const { entries, total } = result;
+        const limit = validationResult.data.limit || 20;
+        const page = validationResult.data.page || 1;
+        const totalPages = Math.ceil(total / limit);
+
+        res.json({
+          success: true,
+          data: entries,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+          },
+        });
+      } catch (error) {
+        handleError('Failed to fetch audit log', error, res);
+      }
+    }
+  }
+}
+
+export const auditController = new AuditController();
@@ -3,11 +3,41 @@ import { handleValidationError } from '../errorHandler';
 import { type Request, type Response } from 'express';
 import { handleError } from '../errorHandler';
 import { userService } from '../services/userService';
-import { createUserSchema, type SafeUserOutput } from '../schemas/userSchema';
-import { loginSchema } from '../schemas/authSchema';
+import { roleService } from '../services/roleService';
+import { twoFactorService } from '../services/twoFactorService';
+import { oidcService } from '../services/oidcService';
+import { securityEventService } from '../services/securityEventService';
+import { studentService } from '../services/studentService';
+import { guardianService } from '../services/guardianService';
+import { guardianParamsSchema } from '../schemas/guardianSchema';
+import { RoleName } from '../types/database';
+import {
+  registerSchema,
+  userParamsSchema,
+  type SafeUserOutput,
+} from '../schemas/userSchema';
+import {
+  acceptInvitationSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  disableTwoFactorSchema,
+  oidcCallbackSchema,
+  resetPasswordSchema,
+  sessionParamsSchema,
+  twoFactorCodeBodySchema,
+  twoFactorLoginSchema,
+  verifyEmailSchema,
+} from '../schemas/authSchema';
 import { AuthService } from '../services/authService';
 import { getRedisClient } from '../redis/redisClient';
+import { getMailTransport } from '../mail/mailTransport';
+import { getNotificationTransport } from '../notifications/notificationTransport';
+import { getJwtKeyring } from '../jwt/jwtKeyring';
 import { AuthMiddleware } from '../middleware/authMiddleware';
+import logger from '../logger';
+import { isPasswordExpired } from '../utils/passwordPolicy';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class AuthController {
   public authService: AuthService;
@@ -40,9 +70,15 @@ export class AuthController {
     }
   };
 
+  // JSON Web Key Set with the public keys used to sign access tokens
+  getJwks = (_req: Request, res: Response): void => {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(200).json(this.authService.getJwks());
+  };
+
   // Register
   register = async (req: Request, res: Response): Promise<void> => {
-    const validationResult = await createUserSchema.safeParseAsync(req.body);
+    const validationResult = await registerSchema.safeParseAsync(req.body);
 
     if (handleValidationError('REGISTER USER', validationResult, res)) return;
 
@@ -60,7 +96,21 @@ export class AuthController {
           return;
         }
 
-        const createdUser = await userService.createUser(validationResult.data);
+        // Self-registered accounts get the lowest-privilege role, without a guardian link they see no data
+        const role = await roleService.getRoleByName(RoleName.Parent);
+
+        if (!role) {
+          res.status(500).json({
+            success: false,
+            error: 'Parent role is not configured',
+          });
+          return;
+        }
+
+        const createdUser = await userService.createUser(
+          { ...validationResult.data, roleId: role.id },
+          getAuditContext(req)
+        );
 
         if (!createdUser) {
           res.status(404).json({
@@ -71,28 +121,26 @@ export class AuthController {
         }
         const newUser: SafeUserOutput = createdUser;
 
-        // Generate tokens
-        const tokens = this.authService.generateTokens(createdUser.id);
-        const csrfToken = this.authService.generateCSRFToken();
-
-        await Promise.all([
-          this.authService.storeRefreshToken(
-            tokens.refreshToken,
-            createdUser.id
-          ),
-          this.authService.storeCSRFToken(csrfToken, createdUser.id),
-        ]);
-
-        this.authService.setSecureCookies(
+        const csrfToken = await this.startSession(
+          req,
           res,
-          tokens.accessToken,
-          tokens.refreshToken
+          createdUser.id,
+          'registration'
+        );
+
+        // New accounts are limited to the auth endpoints until the email address is verified
+        const verificationToken =
+          await this.authService.createEmailVerificationToken(createdUser.id);
+        await this.authService.sendVerificationEmail(
+          createdUser.email,
+          verificationToken
         );
 
         res.status(200).json({
           success: true,
           data: newUser, // TODO return user profile here
-          message: 'User registered successfully',
+          message:
+            'User registered successfully, please check your email to verify your address',
           csrfToken,
         });
       } catch (error) {
@@ -109,11 +157,30 @@ export class AuthController {
 
     if (validationResult.success) {
       try {
+        const lockoutTtl = await this.authService.getLoginLockoutTtl(
+          validationResult.data.email
+        );
+
+        if (lockoutTtl > 0) {
+          await securityEventService.record(req, {
+            eventType: 'loginFailed',
+            email: validationResult.data.email,
+            metadata: { reason: 'accountLocked' },
+          });
+          this.sendLockedResponse(res, lockoutTtl);
+          return;
+        }
+
         const user = await userService.getFullUserByEmail(
           validationResult.data.email
         );
 
         if (!user) {
+          await securityEventService.record(req, {
+            eventType: 'loginFailed',
+            email: validationResult.data.email,
+            metadata: { reason: 'unknownEmail' },
+          });
           res.status(404).json({
             success: false,
             message: 'User could not be found',
@@ -127,28 +194,169 @@ export class AuthController {
           user.passwordHash
         );
         if (!isValidPassword) {
+          const lockoutDuration = await this.authService.recordFailedLogin(
+            user.email
+          );
+
+          await securityEventService.record(req, {
+            eventType: 'loginFailed',
+            userId: user.id,
+            email: user.email,
+            metadata: {
+              reason: 'invalidPassword',
+              ...(lockoutDuration > 0 && { lockedFor: lockoutDuration }),
+            },
+          });
+
+          if (lockoutDuration > 0) {
+            logger.warn(
+              `Account of user ${user.id} locked for ${lockoutDuration}s after repeated failed login attempts from ${req.ip}`
+            );
+            this.sendLockedResponse(res, lockoutDuration);
+            return;
+          }
+
           res.status(401).json({ error: 'Invalid credentials' });
           return;
         }
 
-        // Generate tokens and set secure cookies
-        const tokens = this.authService.generateTokens(user.id);
-        const csrfToken = this.authService.generateCSRFToken();
+        // Users with two-factor authentication get a challenge token instead of a session
+        // Their failed attempts are only cleared once the second factor is verified as well
+        if (user.twoFactorEnabledAt) {
+          const challengeToken = await twoFactorService.createChallenge(
+            user.id
+          );
+
+          res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication code required',
+            twoFactorRequired: true,
+            challengeToken,
+          });
+          return;
+        }
+
+        await this.authService.clearFailedLogins(user.email);
+
+        const csrfToken = await this.startSession(
+          req,
+          res,
+          user.id,
+          'password'
+        );
+        const role = await roleService.getRoleById(user.roleId);
+
+        res.status(200).json({
+          success: true,
+          message: 'User logged in successfully',
+          emailVerified: user.emailVerifiedAt !== null,
+          twoFactorEnrollmentRequired: Boolean(role?.twoFactorRequired),
+          passwordChangeRequired: isPasswordExpired(user.passwordChangedAt),
+          csrfToken,
+        });
+      } catch (error) {
+        handleError('Failed to log in', error, res);
+      }
+    }
+  };
+
+  // Second login step, exchanges the challenge token and a TOTP or recovery code for a session
+  loginTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    const validationResult = await twoFactorLoginSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('LOGIN TWO FACTOR', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        // Wrong codes count towards the same lockout as wrong passwords
+        const challengeUserId = await twoFactorService.getChallengeUserId(
+          validationResult.data.challengeToken
+        );
+        const challengeUser = challengeUserId
+          ? await userService.getFullUserById(challengeUserId)
+          : undefined;
+
+        if (challengeUser) {
+          const lockoutTtl = await this.authService.getLoginLockoutTtl(
+            challengeUser.email
+          );
+
+          if (lockoutTtl > 0) {
+            await securityEventService.record(req, {
+              eventType: 'loginFailed',
+              userId: challengeUser.id,
+              email: challengeUser.email,
+              metadata: { reason: 'accountLocked' },
+            });
+            this.sendLockedResponse(res, lockoutTtl);
+            return;
+          }
+        }
+
+        const result = await twoFactorService.completeChallenge(
+          validationResult.data.challengeToken,
+          validationResult.data.code
+        );
+
+        if (!result.userId) {
+          const lockoutDuration = challengeUser
+            ? await this.authService.recordFailedLogin(challengeUser.email)
+            : 0;
+
+          await securityEventService.record(req, {
+            eventType: 'loginFailed',
+            ...(challengeUser && {
+              userId: challengeUser.id,
+              email: challengeUser.email,
+            }),
+            metadata: {
+              reason: 'invalidTwoFactorCode',
+              ...(lockoutDuration > 0 && { lockedFor: lockoutDuration }),
+            },
+          });
+
+          if (lockoutDuration > 0) {
+            logger.warn(
+              `Account of user ${challengeUser?.id} locked for ${lockoutDuration}s after repeated failed two-factor attempts from ${req.ip}`
+            );
+            this.sendLockedResponse(res, lockoutDuration);
+            return;
+          }
+
+          res.status(401).json({
+            success: false,
+            error: result.error,
+          });
+          return;
+        }
+
+        const user = await userService.getFullUserById(result.userId);
+
+        if (!user) {
+          res.status(404).json({
+            success: false,
+            message: 'User could not be found',
+          });
+          return;
+        }
 
-        await Promise.all([
-          this.authService.storeRefreshToken(tokens.refreshToken, user.id),
-          this.authService.storeCSRFToken(csrfToken, user.id),
-        ]);
+        await this.authService.clearFailedLogins(user.email);
 
-        this.authService.setSecureCookies(
+        const csrfToken = await this.startSession(
+          req,
           res,
-          tokens.accessToken,
-          tokens.refreshToken
+          user.id,
+          'twoFactor'
         );
 
         res.status(200).json({
           success: true,
           message: 'User logged in successfully',
+          emailVerified: user.emailVerifiedAt !== null,
+          passwordChangeRequired: isPasswordExpired(user.passwordChangedAt),
           csrfToken,
         });
       } catch (error) {
@@ -157,6 +365,307 @@ export class AuthController {
     }
   };
 
+  // Single sign-on, redirects the browser to the identity provider
+  oidcLogin = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (!oidcService.isEnabled()) {
+        res.status(404).json({
+          success: false,
+          error: 'Single sign-on is not configured',
+        });
+        return;
+      }
+
+      res.redirect(302, await oidcService.createAuthorizationUrl());
+    } catch (error) {
+      handleError('Failed to start single sign-on', error, res);
+    }
+  };
+
+  // Single sign-on callback, issues the same session as a password login
+  oidcCallback = async (req: Request, res: Response): Promise<void> => {
+    if (!oidcService.isEnabled()) {
+      res.status(404).json({
+        success: false,
+        error: 'Single sign-on is not configured',
+      });
+      return;
+    }
+
+    if (typeof req.query['error'] === 'string') {
+      res.status(401).json({
+        success: false,
+        error: `Single sign-on failed: ${req.query['error']}`,
+      });
+      return;
+    }
+
+    const validationResult = await oidcCallbackSchema.safeParseAsync(req.query);
+
+    if (handleValidationError('OIDC CALLBACK', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const claims = await oidcService.handleCallback(
+          validationResult.data.code,
+          validationResult.data.state
+        );
+
+        if (!claims) {
+          res.status(401).json({
+            success: false,
+            error: 'Invalid or expired single sign-on state',
+          });
+          return;
+        }
+
+        const user = await oidcService.resolveUser(
+          claims,
+          getAuditContext(req)
+        );
+
+        if (!user && !claims.emailVerified) {
+          logger.warn(
+            `Single sign-on for ${claims.email} rejected, the identity provider has not verified the email`
+          );
+          res.status(403).json({
+            success: false,
+            error: 'The identity provider has not verified your email address',
+          });
+          return;
+        }
+
+        if (!user) {
+          logger.warn(
+            `Single sign-on for ${claims.email} rejected, the account could not be linked to subject ${claims.subject}`
+          );
+          res.status(409).json({
+            success: false,
+            error:
+              'An account with this email already exists and could not be linked to the identity provider',
+          });
+          return;
+        }
+
+        // Two-factor authentication still applies to single sign-on logins
+        if (user.twoFactorEnabledAt) {
+          const challengeToken = await twoFactorService.createChallenge(
+            user.id
+          );
+
+          res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication code required',
+            twoFactorRequired: true,
+            challengeToken,
+          });
+          return;
+        }
+
+        const csrfToken = await this.startSession(req, res, user.id, 'oidc');
+        const role = await roleService.getRoleById(user.roleId);
+
+        res.status(200).json({
+          success: true,
+          message: 'User logged in successfully',
+          emailVerified: user.emailVerifiedAt !== null,
+          twoFactorEnrollmentRequired: Boolean(role?.twoFactorRequired),
+          csrfToken,
+        });
+      } catch (error) {
+        handleError('Failed to complete single sign-on', error, res);
+      }
+    }
+  };
+
+  // Two-factor enrollment, returns the secret and an otpauth URI for authenticator apps
+  enrollTwoFactor = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const enrollment = await twoFactorService.beginEnrollment(
+        req.user.id,
+        req.user.email
+      );
+
+      if (!enrollment) {
+        res.status(409).json({
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: enrollment,
+        message:
+          'Add the secret to your authenticator app and confirm with a code',
+      });
+    } catch (error) {
+      handleError('Failed to begin two-factor enrollment', error, res);
+    }
+  };
+
+  confirmTwoFactor = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await twoFactorCodeBodySchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('CONFIRM TWO FACTOR', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        if (!req.user) {
+          res.status(401).json({ error: 'User not authenticated' });
+          return;
+        }
+
+        const recoveryCodes = await twoFactorService.confirmEnrollment(
+          req.user.id,
+          validationResult.data.code
+        );
+
+        if (!recoveryCodes) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid code or no pending two-factor enrollment',
+          });
+          return;
+        }
+
+        logger.info(
+          `Two-factor authentication enabled for user ${req.user.id}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: { recoveryCodes },
+          message:
+            'Two-factor authentication enabled, store the recovery codes in a safe place',
+        });
+      } catch (error) {
+        handleError('Failed to confirm two-factor enrollment', error, res);
+      }
+    }
+  };
+
+  disableTwoFactor = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await disableTwoFactorSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('DISABLE TWO FACTOR', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        if (!req.user) {
+          res.status(401).json({ error: 'User not authenticated' });
+          return;
+        }
+
+        if (req.role?.twoFactorRequired) {
+          res.status(403).json({
+            success: false,
+            error: 'Two-factor authentication is required for your role',
+          });
+          return;
+        }
+
+        const user = await userService.getFullUserByEmail(req.user.email);
+        const isValidPassword =
+          user &&
+          (await this.authService.comparePassword(
+            validationResult.data.password,
+            user.passwordHash
+          ));
+        const isValidCode = await twoFactorService.verifyCode(
+          req.user.id,
+          validationResult.data.code
+        );
+
+        if (!isValidPassword || !isValidCode) {
+          res.status(401).json({ error: 'Invalid credentials' });
+          return;
+        }
+
+        await twoFactorService.disable(req.user.id);
+        logger.info(
+          `Two-factor authentication disabled for user ${req.user.id}`
+        );
+
+        res.status(200).json({
+          success: true,
+          message: 'Two-factor authentication disabled',
+        });
+      } catch (error) {
+        handleError('Failed to disable two-factor authentication', error, res);
+      }
+    }
+  };
+
+  regenerateRecoveryCodes = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await twoFactorCodeBodySchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('REGENERATE RECOVERY CODES', validationResult, res)
+    )
+      return;
+
+    if (validationResult.success) {
+      try {
+        if (!req.user) {
+          res.status(401).json({ error: 'User not authenticated' });
+          return;
+        }
+
+        const isValidCode = await twoFactorService.verifyCode(
+          req.user.id,
+          validationResult.data.code
+        );
+
+        if (!isValidCode) {
+          res.status(401).json({
+            success: false,
+            error: 'Invalid two-factor authentication code',
+          });
+          return;
+        }
+
+        const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+          req.user.id
+        );
+
+        res.status(200).json({
+          success: true,
+          data: { recoveryCodes },
+          message: 'Recovery codes regenerated, previous codes no longer work',
+        });
+      } catch (error) {
+        handleError('Failed to regenerate recovery codes', error, res);
+      }
+    }
+  };
+
   // Refresh tokens
   refreshToken = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -170,6 +679,11 @@ export class AuthController {
       const result = await this.authService.refreshTokens(refreshToken);
 
       if (!result.success) {
+        await securityEventService.record(req, {
+          eventType: 'tokenRefreshFailed',
+          userId: result.userId ?? null,
+          metadata: { reason: result.error },
+        });
         this.authService.clearAuthCookies(res);
         res.status(403).json({
           success: false,
@@ -185,6 +699,11 @@ export class AuthController {
         result.tokens!.refreshToken
       );
 
+      await securityEventService.record(req, {
+        eventType: 'tokenRefresh',
+        userId: result.userId ?? null,
+      });
+
       res.status(200).json({
         success: true,
         message: 'Tokens refreshed successfully',
@@ -195,21 +714,633 @@ export class AuthController {
     }
   };
 
-  // Logout
-  logout = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const refreshToken = req.cookies['refreshToken'];
+  // Verify email address with the token from the verification email
+  verifyEmail = async (req: Request, res: Response): Promise<void> => {
+    const validationResult = await verifyEmailSchema.safeParseAsync(req.body);
 
-      if (refreshToken) {
-        const storedUserId =
-          await this.authService.getRefreshTokenUserId(refreshToken);
-        if (storedUserId) {
-          await this.authService.deleteRefreshToken(refreshToken);
-          await this.authService.deleteCSRFToken(storedUserId);
+    if (handleValidationError('VERIFY EMAIL', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const userId = await this.authService.consumeEmailVerificationToken(
+          validationResult.data.token
+        );
+
+        if (!userId) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid or expired verification token',
+          });
+          return;
         }
-      }
 
-      this.authService.clearAuthCookies(res);
+        const user = await userService.markEmailVerified(parseInt(userId, 10), {
+          ...getAuditContext(req),
+          actorUserId: parseInt(userId, 10),
+        });
+
+        if (!user) {
+          res.status(404).json({
+            success: false,
+            message: 'User could not be found',
+          });
+          return;
+        }
+
+        logger.info(`Email address verified for user ${user.id}`);
+
+        res.status(200).json({
+          success: true,
+          data: user,
+          message: 'Email address verified successfully',
+        });
+      } catch (error) {
+        handleError('Failed to verify email address', error, res);
+      }
+    }
+  };
+
+  // Accept an account invitation by choosing a password, the invited email address is verified with it
+  acceptInvitation = async (req: Request, res: Response): Promise<void> => {
+    const validationResult = await acceptInvitationSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('ACCEPT INVITATION', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const userId = await this.authService.consumeAccountInvitationToken(
+          validationResult.data.token
+        );
+        const existingUser = userId
+          ? await userService.getUserById(parseInt(userId, 10))
+          : undefined;
+
+        // Links of earlier invitations cannot be used to take over an activated account
+        if (!existingUser || existingUser.emailVerifiedAt) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid or expired invitation token',
+          });
+          return;
+        }
+
+        const user = await userService.activateInvitedUser(
+          existingUser.id,
+          validationResult.data.password,
+          { ...getAuditContext(req), actorUserId: existingUser.id }
+        );
+
+        logger.info(`Invitation accepted by user ${existingUser.id}`);
+
+        res.status(200).json({
+          success: true,
+          data: user,
+          message: 'Account activated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to accept invitation', error, res);
+      }
+    }
+  };
+
+  // Resend the verification email to the logged in user
+  resendVerification = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      if (req.user.emailVerifiedAt) {
+        res.status(409).json({
+          success: false,
+          error: 'Email address is already verified',
+        });
+        return;
+      }
+
+      const token = await this.authService.createEmailVerificationToken(
+        req.user.id
+      );
+      await this.authService.sendVerificationEmail(req.user.email, token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error) {
+      handleError('Failed to send verification email', error, res);
+    }
+  };
+
+  // Admin: resend the verification email to a user
+  resendUserVerification = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await userParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('RESEND VERIFICATION', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const user = await userService.getUserById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!user) {
+          res.status(404).json({
+            success: false,
+            message: 'User not found',
+          });
+          return;
+        }
+
+        if (user.emailVerifiedAt) {
+          res.status(409).json({
+            success: false,
+            error: 'Email address is already verified',
+          });
+          return;
+        }
+
+        const token = await this.authService.createEmailVerificationToken(
+          user.id
+        );
+        await this.authService.sendVerificationEmail(user.email, token);
+
+        res.status(200).json({
+          success: true,
+          data: user.id,
+          message: 'Verification email sent',
+        });
+      } catch (error) {
+        handleError('Failed to send verification email', error, res);
+      }
+    }
+  };
+
+  // Admin: mark a user's email address as verified without a token
+  forceVerifyUser = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await userParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('FORCE VERIFY EMAIL', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const existingUser = await userService.getUserById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!existingUser) {
+          res.status(404).json({
+            success: false,
+            message: 'User not found',
+          });
+          return;
+        }
+
+        if (existingUser.emailVerifiedAt) {
+          res.status(409).json({
+            success: false,
+            error: 'Email address is already verified',
+          });
+          return;
+        }
+
+        const user = await userService.markEmailVerified(
+          existingUser.id,
+          getAuditContext(req)
+        );
+
+        logger.info(
+          `Email address of user ${existingUser.id} force verified by user ${req.user?.id}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: user,
+          message: 'Email address verified successfully',
+        });
+      } catch (error) {
+        handleError('Failed to verify email address', error, res);
+      }
+    }
+  };
+
+  // Admin: lift a login lockout before it expires
+  unlockUser = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await userParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('UNLOCK USER', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const user = await userService.getUserById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!user) {
+          res.status(404).json({
+            success: false,
+            message: 'User not found',
+          });
+          return;
+        }
+
+        await this.authService.unlockAccount(user.email);
+        logger.info(
+          `Account of user ${user.id} unlocked by user ${req.user?.id}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: user.id,
+          message: 'User account unlocked successfully',
+        });
+      } catch (error) {
+        handleError('Failed to unlock user account', error, res);
+      }
+    }
+  };
+
+  // Admin: create a parent portal account for a guardian of the student and send the invitation
+  // A pending invitation is sent again with a new link
+  inviteGuardian = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await guardianParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('INVITE GUARDIAN', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, guardianId } = validationResult.data;
+        const student = await studentService.getStudentById(id, req.dataScope);
+        const guardian = student
+          ? await guardianService.getStudentGuardian(student.id, guardianId)
+          : undefined;
+
+        if (!guardian) {
+          res.status(404).json({
+            success: false,
+            error: 'Guardian not found',
+          });
+          return;
+        }
+
+        if (!guardian.email) {
+          res.status(400).json({
+            success: false,
+            error: 'Guardian needs an email address to be invited',
+          });
+          return;
+        }
+
+        let user = await userService.getUserByGuardianId(guardian.id);
+
+        if (user?.emailVerifiedAt) {
+          res.status(409).json({
+            success: false,
+            error: 'Guardian already has an account',
+          });
+          return;
+        }
+
+        if (!user) {
+          const role = await roleService.getRoleByName(RoleName.Parent);
+
+          if (!role) {
+            res.status(500).json({
+              success: false,
+              error: 'Parent role is not configured',
+            });
+            return;
+          }
+
+          const result = await userService.createGuardianUser(
+            guardian,
+            role.id,
+            getAuditContext(req)
+          );
+
+          if (!result?.user) {
+            res.status(409).json({
+              success: false,
+              error: result?.error ?? 'Guardian account could not be created',
+            });
+            return;
+          }
+
+          user = result.user;
+        }
+
+        const token = await this.authService.createAccountInvitationToken(
+          user.id
+        );
+        await this.authService.sendAccountInvitation(
+          { email: guardian.email, phone: guardian.mobile ?? guardian.phone },
+          token
+        );
+
+        logger.info(
+          `Guardian ${guardian.id} invited as user ${user.id} by user ${req.user?.id}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: user,
+          message: 'Invitation sent',
+        });
+      } catch (error) {
+        handleError('Failed to invite guardian', error, res);
+      }
+    }
+  };
+
+  // Admin: issue a short-lived token to view the application as another user, only returned in the body so the real session is kept
+  impersonateUser = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await userParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('IMPERSONATE USER', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        if (!req.user || req.impersonator) {
+          res.status(403).json({
+            success: false,
+            error: 'Impersonation must be started by a logged in user',
+          });
+          return;
+        }
+
+        if (validationResult.data.id === req.user.id) {
+          res.status(400).json({
+            success: false,
+            error: 'Users cannot impersonate themselves',
+          });
+          return;
+        }
+
+        const user = await userService.getUserById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!user) {
+          res.status(404).json({
+            success: false,
+            message: 'User not found',
+          });
+          return;
+        }
+
+        const { accessToken, expiresIn } =
+          this.authService.generateImpersonationToken(req.user.id, user.id);
+        logger.warn(
+          `Impersonation started: user ${req.user.id} impersonating user ${user.id} from ${req.ip}`
+        );
+
+        res.status(200).json({
+          success: true,
+          data: { accessToken, expiresIn, user },
+          message: 'Impersonation token issued successfully',
+        });
+      } catch (error) {
+        handleError('Failed to impersonate user', error, res);
+      }
+    }
+  };
+
+  // Forgot password
+  forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    const validationResult = await forgotPasswordSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('FORGOT PASSWORD', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const user = await userService.getUserByEmail(
+          validationResult.data.email
+        );
+
+        if (user) {
+          const token = await this.authService.createPasswordResetToken(
+            user.id
+          );
+          await this.authService.sendPasswordResetEmail(user.email, token);
+          logger.info(`Password reset requested for user ${user.id}`);
+        }
+
+        // Same response whether or not the user exists, to avoid revealing registered emails
+        res.status(200).json({
+          success: true,
+          message:
+            'If an account with this email exists, a password reset link has been sent',
+        });
+      } catch (error) {
+        handleError('Failed to request password reset', error, res);
+      }
+    }
+  };
+
+  // Reset password
+  resetPassword = async (req: Request, res: Response): Promise<void> => {
+    const validationResult = await resetPasswordSchema.safeParseAsync(req.body);
+
+    if (handleValidationError('RESET PASSWORD', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        // Checked before the token is used up, so the user can choose another password
+        const tokenUserId = await this.authService.getPasswordResetTokenUserId(
+          validationResult.data.token
+        );
+
+        if (
+          tokenUserId &&
+          (await userService.isPasswordReused(
+            parseInt(tokenUserId, 10),
+            validationResult.data.password
+          ))
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'Password was used recently, please choose a different one',
+          });
+          return;
+        }
+
+        const userId = await this.authService.consumePasswordResetToken(
+          validationResult.data.token
+        );
+
+        if (!userId) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid or expired reset token',
+          });
+          return;
+        }
+
+        const isUpdated = await userService.updatePassword(
+          parseInt(userId, 10),
+          validationResult.data.password,
+          { ...getAuditContext(req), actorUserId: parseInt(userId, 10) }
+        );
+
+        if (!isUpdated) {
+          res.status(404).json({
+            success: false,
+            message: 'User could not be found',
+          });
+          return;
+        }
+
+        // Sign out every session which may have been opened with the old password
+        await this.authService.revokeAllUserSessions(parseInt(userId, 10));
+        await this.authService.deleteCSRFToken(userId);
+        this.authService.clearAuthCookies(res);
+
+        logger.info(`Password reset completed for user ${userId}`);
+
+        res.status(200).json({
+          success: true,
+          message: 'Password reset successfully',
+        });
+      } catch (error) {
+        handleError('Failed to reset password', error, res);
+      }
+    }
+  };
+
+  // Password change for the logged in user, other sessions are signed out
+  changePassword = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await changePasswordSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('CHANGE PASSWORD', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        if (!req.user) {
+          res.status(401).json({ error: 'User not authenticated' });
+          return;
+        }
+
+        const user = await userService.getFullUserById(req.user.id);
+
+        if (!user) {
+          res.status(404).json({
+            success: false,
+            message: 'User could not be found',
+          });
+          return;
+        }
+
+        const isValidPassword = await this.authService.comparePassword(
+          validationResult.data.currentPassword,
+          user.passwordHash
+        );
+        if (!isValidPassword) {
+          res.status(401).json({
+            success: false,
+            error: 'Current password is incorrect',
+          });
+          return;
+        }
+
+        if (
+          await userService.isPasswordReused(
+            user.id,
+            validationResult.data.newPassword
+          )
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'Password was used recently, please choose a different one',
+          });
+          return;
+        }
+
+        await userService.updatePassword(
+          user.id,
+          validationResult.data.newPassword,
+          getAuditContext(req)
+        );
+
+        const currentSession = await this.getCurrentSession(req);
+        const sessions = await this.authService.getUserSessions(user.id);
+        await Promise.all(
+          sessions
+            .filter(session => session.id !== currentSession?.sessionId)
+            .map(session => this.authService.revokeSession(user.id, session.id))
+        );
+
+        logger.info(`Password changed by user ${user.id}`);
+
+        res.status(200).json({
+          success: true,
+          message: 'Password changed successfully',
+        });
+      } catch (error) {
+        handleError('Failed to change password', error, res);
+      }
+    }
+  };
+
+  // Logout
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const refreshToken = req.cookies['refreshToken'];
+
+      if (refreshToken) {
+        const session =
+          await this.authService.getRefreshTokenSession(refreshToken);
+        if (session) {
+          await this.authService.revokeSession(
+            session.userId,
+            session.sessionId
+          );
+          await this.authService.deleteCSRFToken(session.userId.toString());
+          await securityEventService.record(req, {
+            eventType: 'logout',
+            userId: session.userId,
+          });
+        }
+      }
+
+      this.authService.clearAuthCookies(res);
 
       res.status(200).json({
         success: true,
@@ -227,10 +1358,12 @@ export class AuthController {
   ): Promise<void> => {
     try {
       if (req.user) {
-        await this.authService.deleteAllUserRefreshTokens(
-          req.user.id.toString()
-        );
+        await this.authService.revokeAllUserSessions(req.user.id);
         await this.authService.deleteCSRFToken(req.user.id.toString());
+        await securityEventService.record(req, {
+          eventType: 'logoutAll',
+          userId: req.user.id,
+        });
       }
 
       this.authService.clearAuthCookies(res);
@@ -243,9 +1376,140 @@ export class AuthController {
       handleError('Failed to log out from all devices', error, res);
     }
   };
+
+  // List the active sessions of the logged in user
+  getSessions = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const currentSession = await this.getCurrentSession(req);
+      const sessions = await this.authService.getUserSessions(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: sessions.map(session => ({
+          ...session,
+          current: session.id === currentSession?.sessionId,
+        })),
+      });
+    } catch (error) {
+      handleError('Failed to fetch sessions', error, res);
+    }
+  };
+
+  // Revoke a single session of the logged in user
+  revokeSession = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const validationResult = await sessionParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('REVOKE SESSION', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        if (!req.user) {
+          res.status(401).json({ error: 'User not authenticated' });
+          return;
+        }
+
+        const isRevoked = await this.authService.revokeSession(
+          req.user.id,
+          validationResult.data.id
+        );
+
+        if (!isRevoked) {
+          res.status(404).json({
+            success: false,
+            message: 'Session not found',
+          });
+          return;
+        }
+
+        const currentSession = await this.getCurrentSession(req);
+        if (!currentSession) {
+          // The revoked session was the one making this request
+          this.authService.clearAuthCookies(res);
+        }
+
+        res.status(200).json({
+          success: true,
+          data: validationResult.data.id,
+          message: 'Session revoked successfully',
+        });
+      } catch (error) {
+        handleError('Failed to revoke session', error, res);
+      }
+    }
+  };
+
+  private async getCurrentSession(
+    req: Request
+  ): Promise<{ sessionId: string; userId: number } | null> {
+    const refreshToken = req.cookies['refreshToken'];
+    if (typeof refreshToken !== 'string') return null;
+
+    return await this.authService.getRefreshTokenSession(refreshToken);
+  }
+
+  private sendLockedResponse(res: Response, retryAfter: number): void {
+    res.setHeader('Retry-After', retryAfter.toString());
+    res.status(423).json({
+      success: false,
+      error:
+        'Account temporarily locked due to too many failed login attempts, please try again later',
+      retryAfter,
+    });
+  }
+
+  // Issues tokens, opens a session and sets the auth cookies, returns the CSRF token
+  private async startSession(
+    req: Request,
+    res: Response,
+    userId: number,
+    method: 'password' | 'twoFactor' | 'oidc' | 'registration'
+  ): Promise<string> {
+    const tokens = this.authService.generateTokens(userId);
+    const csrfToken = this.authService.generateCSRFToken();
+
+    await Promise.all([
+      this.authService.createSession(userId, tokens.refreshToken, {
+        userAgent: req.get('user-agent') ?? 'unknown',
+        ip: req.ip ?? 'unknown',
+      }),
+      this.authService.storeCSRFToken(csrfToken, userId),
+    ]);
+
+    this.authService.setSecureCookies(
+      res,
+      tokens.accessToken,
+      tokens.refreshToken
+    );
+
+    await securityEventService.record(req, {
+      eventType: 'login',
+      userId,
+      metadata: { method },
+    });
+
+    return csrfToken;
+  }
 }
 
-const authService = new AuthService(getRedisClient());
+const authService = new AuthService(
+  getRedisClient(),
+  getMailTransport(),
+  getNotificationTransport(),
+  getJwtKeyring()
+);
 const authMiddleware = new AuthMiddleware(authService);
 export const authController = new AuthController(authService);
 export { authMiddleware };
@@ -0,0 +1,786 @@
+import { type Response } from 'express';
+import {
+  assignClassSubjectSchema,
+  classParamsSchema,
+  classQuerySchema,
+  classStudentParamsSchema,
+  classSubjectParamsSchema,
+  createClassSchema,
+  moveStudentSchema,
+  placeStudentsSchema,
+  updateClassSchema,
+  updateClassSubjectSchema,
+} from '../schemas/classSchema';
+import { schoolParamsSchema } from '../schemas/schoolSchema';
+import { classService } from '../services/classService';
+import { schoolService } from '../services/schoolService';
+import { academicYearService } from '../services/academicYearService';
+import { subjectService } from '../services/subjectService';
+import { teacherSchoolService } from '../services/teacherSchoolService';
+import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+
+export class ClassController {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await schoolParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await createClassSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('CREATE CLASS', paramsValidationResult, res) ||
+      handleValidationError('CREATE CLASS', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id } = paramsValidationResult.data;
+        const { academicYearId, homeroomTeacherId } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+
+        if (!school) {
+          res.status(404).json({
+            success: false,
+            error: 'School not found',
+          });
+          return;
+        }
+
+        const academicYear =
+          await academicYearService.getAcademicYearById(academicYearId);
+
+        if (!academicYear) {
+          res.status(400).json({
+            success: false,
+            error: 'Academic year not found',
+          });
+          return;
+        }
+
+        if (homeroomTeacherId) {
+          const activeTeachers =
+            await teacherSchoolService.getActiveTeachersBySchool(id);
+
+          if (
+            !activeTeachers?.some(
+              assignment => assignment.teacherId === homeroomTeacherId
+            )
+          ) {
+            res.status(400).json({
+              success: false,
+              error: 'Homeroom teacher must be an active teacher at the school',
+            });
+            return;
+          }
+        }
+
+        const createdClass = await classService.createClass(
+          id,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!createdClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Failed to create class',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: createdClass,
+          message: 'Class created successfully',
+        });
+      } catch (error) {
+        handleError('Failed to create class', error, res);
+      }
+    }
+  }
+
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await schoolParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await classQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET CLASSES', paramsValidationResult, res) ||
+      handleValidationError('GET CLASSES', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const school = await schoolService.getSchoolById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!school) {
+          res.status(404).json({
+            success: false,
+            error: 'School not found',
+          });
+          return;
+        }
+
+        const result = await classService.getClasses(
+          school.id,
+          queryValidationResult.data
+        );
+
+        if (!result) {
+          res.status(404).json({
+            success: false,
+            error: 'No classes found',
+          });
+          return;
+        }
+
+        const { classes, total } = result;
+        const limit = queryValidationResult.data.limit || 10;
+        const page = queryValidationResult.data.page || 1;
+        const totalPages = Math.ceil(total / limit);
+
+        res.status(200).json({
+          success: true,
+          data: classes,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+          },
+        });
+      } catch (error) {
+        handleError('Failed to fetch classes', error, res);
+      }
+    }
+  }
+
+  async getById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await classParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('GET CLASS', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const studentCount = await classService.countClassStudents(classId);
+
+        res.status(200).json({
+          success: true,
+          data: { ...foundClass, studentCount },
+        });
+      } catch (error) {
+        handleError('Failed to fetch class', error, res);
+      }
+    }
+  }
+
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await updateClassSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('UPDATE CLASS', paramsValidationResult, res) ||
+      handleValidationError('UPDATE CLASS', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { homeroomTeacherId, capacity } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const existingClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!existingClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        if (homeroomTeacherId) {
+          const activeTeachers =
+            await teacherSchoolService.getActiveTeachersBySchool(id);
+
+          if (
+            !activeTeachers?.some(
+              assignment => assignment.teacherId === homeroomTeacherId
+            )
+          ) {
+            res.status(400).json({
+              success: false,
+              error: 'Homeroom teacher must be an active teacher at the school',
+            });
+            return;
+          }
+        }
+
+        if (capacity !== undefined) {
+          const studentCount = await classService.countClassStudents(classId);
+
+          if (studentCount !== undefined && capacity < studentCount) {
+            res.status(400).json({
+              success: false,
+              error: `Capacity cannot be below the ${studentCount} students in the class`,
+            });
+            return;
+          }
+        }
+
+        const updatedClass = await classService.updateClass(
+          id,
+          classId,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!updatedClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: updatedClass,
+          message: 'Class updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update class', error, res);
+      }
+    }
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await classParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('DELETE CLASS', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const isDeleted = school
+          ? await classService.deleteClass(
+              school.id,
+              classId,
+              getAuditContext(req)
+            )
+          : false;
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: classId,
+          message: 'Class deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete class', error, res);
+      }
+    }
+  }
+
+  async getStudents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await classParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('GET CLASS STUDENTS', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const students = await classService.getClassStudents(classId);
+
+        res.status(200).json({
+          success: true,
+          data: students ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch class students', error, res);
+      }
+    }
+  }
+
+  async placeStudents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await placeStudentsSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('PLACE STUDENTS', paramsValidationResult, res) ||
+      handleValidationError('PLACE STUDENTS', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { studentIds } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        // Only students enrolled at the school can be placed in its classes
+        const outsideIds = await classService.getStudentsOutsideSchool(
+          id,
+          studentIds
+        );
+
+        if (outsideIds && outsideIds.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: `Students are not enrolled at the school: ${outsideIds.join(', ')}`,
+          });
+          return;
+        }
+
+        const result = await classService.placeStudents(
+          classId,
+          studentIds,
+          getAuditContext(req)
+        );
+
+        if (!result?.placements) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Students could not be placed',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.placements,
+          message: `${result.placements.length} students placed in class`,
+        });
+      } catch (error) {
+        handleError('Failed to place students in class', error, res);
+      }
+    }
+  }
+
+  async moveStudent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult =
+      await classStudentParamsSchema.safeParseAsync(req.params);
+    const bodyValidationResult = await moveStudentSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('MOVE STUDENT', paramsValidationResult, res) ||
+      handleValidationError('MOVE STUDENT', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId, studentId } = paramsValidationResult.data;
+        const targetClassId = bodyValidationResult.data.classId;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const [fromClass, toClass] = school
+          ? await Promise.all([
+              classService.getClassById(school.id, classId),
+              classService.getClassById(school.id, targetClassId),
+            ])
+          : [undefined, undefined];
+
+        if (!fromClass || !toClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        if (fromClass.id === toClass.id) {
+          res.status(400).json({
+            success: false,
+            error: 'Student is already in this class',
+          });
+          return;
+        }
+
+        if (fromClass.academicYearId !== toClass.academicYearId) {
+          res.status(400).json({
+            success: false,
+            error: 'Students can only be moved within the same academic year',
+          });
+          return;
+        }
+
+        const result = await classService.moveStudent(
+          fromClass.id,
+          toClass.id,
+          studentId,
+          getAuditContext(req)
+        );
+
+        if (!result?.placement) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Student could not be moved',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.placement,
+          message: 'Student moved successfully',
+        });
+      } catch (error) {
+        handleError('Failed to move student', error, res);
+      }
+    }
+  }
+
+  async removeStudent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await classStudentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('REMOVE STUDENT', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId, studentId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        const isRemoved = foundClass
+          ? await classService.removeStudent(
+              classId,
+              studentId,
+              getAuditContext(req)
+            )
+          : false;
+
+        if (!isRemoved) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found in class',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: studentId,
+          message: 'Student removed from class successfully',
+        });
+      } catch (error) {
+        handleError('Failed to remove student from class', error, res);
+      }
+    }
+  }
+
+  async getSubjects(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await classParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('GET CLASS SUBJECTS', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const subjects = await classService.getClassSubjects(classId);
+
+        res.status(200).json({
+          success: true,
+          data: subjects ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch class subjects', error, res);
+      }
+    }
+  }
+
+  async assignSubject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await assignClassSubjectSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('ASSIGN SUBJECT', paramsValidationResult, res) ||
+      handleValidationError('ASSIGN SUBJECT', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { subjectId, teacherId } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        if (!(await subjectService.getSubjectById(subjectId))) {
+          res.status(400).json({
+            success: false,
+            error: 'Subject not found',
+          });
+          return;
+        }
+
+        if (teacherId) {
+          const activeTeachers =
+            await teacherSchoolService.getActiveTeachersBySchool(id);
+
+          if (
+            !activeTeachers?.some(
+              assignment => assignment.teacherId === teacherId
+            )
+          ) {
+            res.status(400).json({
+              success: false,
+              error: 'Teacher must be an active teacher at the school',
+            });
+            return;
+          }
+        }
+
+        const result = await classService.assignSubject(
+          classId,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!result?.classSubject) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Subject could not be assigned',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.classSubject,
+          message: 'Subject assigned to class successfully',
+        });
+      } catch (error) {
+        handleError('Failed to assign subject to class', error, res);
+      }
+    }
+  }
+
+  async updateSubject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult =
+      await classSubjectParamsSchema.safeParseAsync(req.params);
+    const bodyValidationResult = await updateClassSubjectSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError(
+        'UPDATE CLASS SUBJECT',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('UPDATE CLASS SUBJECT', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId, classSubjectId } = paramsValidationResult.data;
+        const { teacherId } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        if (teacherId) {
+          const activeTeachers =
+            await teacherSchoolService.getActiveTeachersBySchool(id);
+
+          if (
+            !activeTeachers?.some(
+              assignment => assignment.teacherId === teacherId
+            )
+          ) {
+            res.status(400).json({
+              success: false,
+              error: 'Teacher must be an active teacher at the school',
+            });
+            return;
+          }
+        }
+
+        const classSubject = await classService.updateClassSubject(
+          classId,
+          classSubjectId,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!classSubject) {
+          res.status(404).json({
+            success: false,
+            error: 'Class subject not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: classSubject,
+          message: 'Class subject updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update class subject', error, res);
+      }
+    }
+  }
+
+  async removeSubject(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await classSubjectParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('REMOVE SUBJECT', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId, classSubjectId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        const isRemoved = foundClass
+          ? await classService.removeSubject(
+              classId,
+              classSubjectId,
+              getAuditContext(req)
+            )
+          : false;
+
+        if (!isRemoved) {
+          res.status(404).json({
+            success: false,
+            error: 'Class subject not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: classSubjectId,
+          message: 'Subject removed from class successfully',
+        });
+      } catch (error) {
+        handleError('Failed to remove subject from class', error, res);
+      }
+    }
+  }
+}
+
+export const classController = new ClassController();
@@ -0,0 +1,755 @@
+import { type Response } from 'express';
+import { classParamsSchema } from '../schemas/classSchema';
+import {
+  assessmentParamsSchema,
+  assessmentQuerySchema,
+  createAssessmentSchema,
+  enterGradesSchema,
+  gradeParamsSchema,
+  studentGradesQuerySchema,
+  termAveragesQuerySchema,
+  updateAssessmentSchema,
+} from '../schemas/gradeSchema';
+import { studentParamsSchema } from '../schemas/studentSchema';
+import { academicYearService } from '../services/academicYearService';
+import { classService } from '../services/classService';
+import { gradeService } from '../services/gradeService';
+import { gradingScaleService } from '../services/gradingScaleService';
+import { schoolService } from '../services/schoolService';
+import { studentService } from '../services/studentService';
+import {
+  handleValidationError,
+  handleError,
+  handleScopeError,
+} from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+import { canGradeSubject } from '../utils/scopeUtils';
+
+export class GradeController {
+  async getAssessments(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await assessmentQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET ASSESSMENTS', paramsValidationResult, res) ||
+      handleValidationError('GET ASSESSMENTS', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const assessments = await gradeService.getAssessments(
+          classId,
+          queryValidationResult.data
+        );
+
+        res.status(200).json({
+          success: true,
+          data: assessments ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch assessments', error, res);
+      }
+    }
+  }
+
+  async getAssessment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await assessmentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET ASSESSMENT', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId, assessmentId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+        const assessment = foundClass
+          ? await gradeService.getAssessmentById(classId, assessmentId)
+          : undefined;
+
+        if (!assessment) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: assessment,
+        });
+      } catch (error) {
+        handleError('Failed to fetch assessment', error, res);
+      }
+    }
+  }
+
+  async createAssessment(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await createAssessmentSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('CREATE ASSESSMENT', paramsValidationResult, res) ||
+      handleValidationError('CREATE ASSESSMENT', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { classSubjectId, termId, date } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const classSubject = await classService.getClassSubjectById(
+          classId,
+          classSubjectId
+        );
+
+        if (!classSubject) {
+          res.status(400).json({
+            success: false,
+            error: 'Subject is not taught in the class',
+          });
+          return;
+        }
+
+        if (
+          !canGradeSubject(req.role?.name, req.user, classSubject.teacherId)
+        ) {
+          handleScopeError('You can only grade the subjects you teach', res);
+          return;
+        }
+
+        const term = await academicYearService.getTermById(
+          foundClass.academicYearId,
+          termId
+        );
+
+        if (!term) {
+          res.status(400).json({
+            success: false,
+            error: 'Term not found in the academic year of the class',
+          });
+          return;
+        }
+
+        if (!(await academicYearService.isWithinTerm(term.id, date))) {
+          res.status(400).json({
+            success: false,
+            error: 'Assessment date must be within the term',
+          });
+          return;
+        }
+
+        const assessment = await gradeService.createAssessment(
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!assessment) {
+          res.status(500).json({
+            success: false,
+            error: 'Assessment could not be created',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: assessment,
+          message: 'Assessment created successfully',
+        });
+      } catch (error) {
+        handleError('Failed to create assessment', error, res);
+      }
+    }
+  }
+
+  async updateAssessment(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await assessmentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await updateAssessmentSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('UPDATE ASSESSMENT', paramsValidationResult, res) ||
+      handleValidationError('UPDATE ASSESSMENT', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId, assessmentId } = paramsValidationResult.data;
+        const { date } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+        const existingAssessment = foundClass
+          ? await gradeService.getAssessmentById(classId, assessmentId)
+          : undefined;
+
+        if (!existingAssessment) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        if (
+          !canGradeSubject(
+            req.role?.name,
+            req.user,
+            existingAssessment.teacherId
+          )
+        ) {
+          handleScopeError('You can only grade the subjects you teach', res);
+          return;
+        }
+
+        if (
+          date &&
+          !(await academicYearService.isWithinTerm(
+            existingAssessment.termId,
+            date
+          ))
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'Assessment date must be within the term',
+          });
+          return;
+        }
+
+        const result = await gradeService.updateAssessment(
+          assessmentId,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!result?.assessment) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Assessment could not be updated',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.assessment,
+          message: 'Assessment updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update assessment', error, res);
+      }
+    }
+  }
+
+  async deleteAssessment(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await assessmentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('DELETE ASSESSMENT', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId, assessmentId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+        const assessment = foundClass
+          ? await gradeService.getAssessmentById(classId, assessmentId)
+          : undefined;
+
+        if (!assessment) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        if (!canGradeSubject(req.role?.name, req.user, assessment.teacherId)) {
+          handleScopeError('You can only grade the subjects you teach', res);
+          return;
+        }
+
+        const isDeleted = await gradeService.deleteAssessment(
+          assessmentId,
+          getAuditContext(req)
+        );
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: assessmentId,
+          message: 'Assessment deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete assessment', error, res);
+      }
+    }
+  }
+
+  async getAssessmentGrades(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await assessmentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET GRADES', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId, assessmentId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+        const assessment = foundClass
+          ? await gradeService.getAssessmentById(classId, assessmentId)
+          : undefined;
+
+        if (!assessment) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        const grades = await gradeService.getAssessmentGrades(
+          classId,
+          assessmentId
+        );
+
+        res.status(200).json({
+          success: true,
+          data: grades ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch grades', error, res);
+      }
+    }
+  }
+
+  // Grades the listed students of the class, an existing grade of a student is replaced
+  async enterGrades(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await assessmentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await enterGradesSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('ENTER GRADES', paramsValidationResult, res) ||
+      handleValidationError('ENTER GRADES', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId, assessmentId } = paramsValidationResult.data;
+        const { grades } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+        const assessment = foundClass
+          ? await gradeService.getAssessmentById(classId, assessmentId)
+          : undefined;
+
+        if (!assessment) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        if (!canGradeSubject(req.role?.name, req.user, assessment.teacherId)) {
+          handleScopeError('You can only grade the subjects you teach', res);
+          return;
+        }
+
+        const students = (await classService.getClassStudents(classId)) ?? [];
+        const classStudentIds = new Set(students.map(student => student.id));
+
+        const outsideIds = grades
+          .map(grade => grade.studentId)
+          .filter(studentId => !classStudentIds.has(studentId));
+
+        if (outsideIds.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: `Students are not in the class: ${outsideIds.join(', ')}`,
+          });
+          return;
+        }
+
+        if (grades.some(grade => grade.score > assessment.maxScore)) {
+          res.status(400).json({
+            success: false,
+            error: `Scores must not exceed the max score of ${assessment.maxScore}`,
+          });
+          return;
+        }
+
+        const result = await gradeService.enterGrades(
+          assessmentId,
+          grades,
+          getAuditContext(req)
+        );
+
+        if (!result?.grades) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Grades could not be entered',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.grades,
+          message: `Grades entered for ${result.grades.length} students`,
+        });
+      } catch (error) {
+        handleError('Failed to enter grades', error, res);
+      }
+    }
+  }
+
+  async deleteGrade(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await gradeParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('DELETE GRADE', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, classId, assessmentId, studentId } = validationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+        const assessment = foundClass
+          ? await gradeService.getAssessmentById(classId, assessmentId)
+          : undefined;
+
+        if (!assessment) {
+          res.status(404).json({
+            success: false,
+            error: 'Assessment not found',
+          });
+          return;
+        }
+
+        if (!canGradeSubject(req.role?.name, req.user, assessment.teacherId)) {
+          handleScopeError('You can only grade the subjects you teach', res);
+          return;
+        }
+
+        const isDeleted = await gradeService.deleteGrade(
+          assessmentId,
+          studentId,
+          getAuditContext(req)
+        );
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Grade not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: studentId,
+          message: 'Grade deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete grade', error, res);
+      }
+    }
+  }
+
+  async getClassTermAverages(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await termAveragesQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET TERM AVERAGES', paramsValidationResult, res) ||
+      handleValidationError('GET TERM AVERAGES', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { termId, gradingScaleId } = queryValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const term = await academicYearService.getTermById(
+          foundClass.academicYearId,
+          termId
+        );
+
+        if (!term) {
+          res.status(400).json({
+            success: false,
+            error: 'Term not found in the academic year of the class',
+          });
+          return;
+        }
+
+        const gradingScale = gradingScaleId
+          ? await gradingScaleService.getGradingScaleById(gradingScaleId)
+          : await gradingScaleService.getDefaultGradingScale();
+
+        if (gradingScaleId && !gradingScale) {
+          res.status(400).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        const students = await gradeService.getClassTermAverages(
+          classId,
+          term.id,
+          gradingScale?.bands
+        );
+
+        res.status(200).json({
+          success: true,
+          data: {
+            termId: term.id,
+            gradingScaleId: gradingScale?.id ?? null,
+            students: students ?? [],
+          },
+        });
+      } catch (error) {
+        handleError('Failed to fetch term averages', error, res);
+      }
+    }
+  }
+
+  async getStudentGrades(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await studentGradesQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError(
+        'GET STUDENT GRADES',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('GET STUDENT GRADES', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const grades = await gradeService.getStudentGrades(
+          student.id,
+          queryValidationResult.data
+        );
+
+        res.status(200).json({
+          success: true,
+          data: grades ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch student grades', error, res);
+      }
+    }
+  }
+
+  async getStudentTermAverages(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await termAveragesQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET TERM AVERAGES', paramsValidationResult, res) ||
+      handleValidationError('GET TERM AVERAGES', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { termId, gradingScaleId } = queryValidationResult.data;
+
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const gradingScale = gradingScaleId
+          ? await gradingScaleService.getGradingScaleById(gradingScaleId)
+          : await gradingScaleService.getDefaultGradingScale();
+
+        if (gradingScaleId && !gradingScale) {
+          res.status(400).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        const averages = await gradeService.getStudentTermAverages(
+          student.id,
+          termId,
+          gradingScale?.bands
+        );
+
+        if (!averages) {
+          res.status(500).json({
+            success: false,
+            error: 'Failed to retrieve term averages',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: {
+            termId,
+            gradingScaleId: gradingScale?.id ?? null,
+            ...averages,
+          },
+          message: `Retrieved term averages for ${student.firstName} ${student.lastName}`,
+        });
+      } catch (error) {
+        handleError('Failed to fetch term averages', error, res);
+      }
+    }
+  }
+}
+
+export const gradeController = new GradeController();
@@ -0,0 +1,181 @@
+import { type Response } from 'express';
+import {
+  createGradingScaleSchema,
+  gradingScaleParamsSchema,
+  updateGradingScaleSchema,
+} from '../schemas/gradingScaleSchema';
+import { gradingScaleService } from '../services/gradingScaleService';
+import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+
+export class GradingScaleController {
+  async getAll(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const gradingScales = await gradingScaleService.getGradingScales();
+
+      res.status(200).json({
+        success: true,
+        data: gradingScales ?? [],
+      });
+    } catch (error) {
+      handleError('Failed to fetch grading scales', error, res);
+    }
+  }
+
+  async getById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await gradingScaleParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET GRADING SCALE', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const gradingScale = await gradingScaleService.getGradingScaleById(
+          validationResult.data.id
+        );
+
+        if (!gradingScale) {
+          res.status(404).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: gradingScale,
+        });
+      } catch (error) {
+        handleError('Failed to fetch grading scale', error, res);
+      }
+    }
+  }
+
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await createGradingScaleSchema.safeParseAsync(
+      req.body
+    );
+
+    if (handleValidationError('CREATE GRADING SCALE', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const result = await gradingScaleService.createGradingScale(
+          validationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!result?.gradingScale) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Grading scale could not be created',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.gradingScale,
+          message: 'Grading scale created successfully',
+        });
+      } catch (error) {
+        handleError('Failed to create grading scale', error, res);
+      }
+    }
+  }
+
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult =
+      await gradingScaleParamsSchema.safeParseAsync(req.params);
+    const bodyValidationResult = await updateGradingScaleSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError(
+        'UPDATE GRADING SCALE',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('UPDATE GRADING SCALE', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id } = paramsValidationResult.data;
+
+        if (!(await gradingScaleService.getGradingScaleById(id))) {
+          res.status(404).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        const result = await gradingScaleService.updateGradingScale(
+          id,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!result?.gradingScale) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Grading scale could not be updated',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.gradingScale,
+          message: 'Grading scale updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update grading scale', error, res);
+      }
+    }
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await gradingScaleParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('DELETE GRADING SCALE', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const isDeleted = await gradingScaleService.deleteGradingScale(
+          validationResult.data.id,
+          getAuditContext(req)
+        );
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: validationResult.data.id,
+          message: 'Grading scale deleted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to delete grading scale', error, res);
+      }
+    }
+  }
+}
+
+export const gradingScaleController = new GradingScaleController();
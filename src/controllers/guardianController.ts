@@ -0,0 +1,252 @@
+import { type Response } from 'express';
+import {
+  guardianParamsSchema,
+  linkGuardianSchema,
+  updateGuardianSchema,
+} from '../schemas/guardianSchema';
+import { studentParamsSchema } from '../schemas/studentSchema';
+import { guardianService } from '../services/guardianService';
+import { studentService } from '../services/studentService';
+import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+
+export class GuardianController {
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET GUARDIANS', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const student = await studentService.getStudentById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const guardians = await guardianService.getStudentGuardians(
+          student.id,
+          req.dataScope
+        );
+
+        res.status(200).json({
+          success: true,
+          data: guardians ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch guardians', error, res);
+      }
+    }
+  }
+
+  async getById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await guardianParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET GUARDIAN', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, guardianId } = validationResult.data;
+        const student = await studentService.getStudentById(id, req.dataScope);
+        const guardian = student
+          ? await guardianService.getStudentGuardian(
+              student.id,
+              guardianId,
+              req.dataScope
+            )
+          : undefined;
+
+        if (!guardian) {
+          res.status(404).json({
+            success: false,
+            error: 'Guardian not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: guardian,
+        });
+      } catch (error) {
+        handleError('Failed to fetch guardian', error, res);
+      }
+    }
+  }
+
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await linkGuardianSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('CREATE GUARDIAN', paramsValidationResult, res) ||
+      handleValidationError('CREATE GUARDIAN', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { guardianId } = bodyValidationResult.data;
+
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        // An existing guardian, e.g. a parent of a sibling, is linked as is
+        if (
+          guardianId &&
+          !(await guardianService.getGuardianById(guardianId))
+        ) {
+          res.status(404).json({
+            success: false,
+            error: 'Guardian not found',
+          });
+          return;
+        }
+
+        const result = await guardianService.linkGuardian(
+          student.id,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!result?.guardian) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Guardian could not be linked',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.guardian,
+          message: 'Guardian added successfully',
+        });
+      } catch (error) {
+        handleError('Failed to add guardian', error, res);
+      }
+    }
+  }
+
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await guardianParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await updateGuardianSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('UPDATE GUARDIAN', paramsValidationResult, res) ||
+      handleValidationError('UPDATE GUARDIAN', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, guardianId } = paramsValidationResult.data;
+        const student = await studentService.getStudentById(id, req.dataScope);
+        const existingGuardian = student
+          ? await guardianService.getStudentGuardian(student.id, guardianId)
+          : undefined;
+
+        if (!existingGuardian) {
+          res.status(404).json({
+            success: false,
+            error: 'Guardian not found',
+          });
+          return;
+        }
+
+        const result = await guardianService.updateStudentGuardian(
+          id,
+          guardianId,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!result?.guardian) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Guardian could not be updated',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.guardian,
+          message: 'Guardian updated successfully',
+        });
+      } catch (error) {
+        handleError('Failed to update guardian', error, res);
+      }
+    }
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await guardianParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('DELETE GUARDIAN', validationResult, res)) return;
+
+    if (validationResult.success) {
+      try {
+        const { id, guardianId } = validationResult.data;
+        const student = await studentService.getStudentById(id, req.dataScope);
+        const isDeleted = student
+          ? await guardianService.unlinkGuardian(
+              student.id,
+              guardianId,
+              getAuditContext(req)
+            )
+          : false;
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Guardian not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: guardianId,
+          message: 'Guardian removed successfully',
+        });
+      } catch (error) {
+        handleError('Failed to remove guardian', error, res);
+      }
+    }
+  }
+}
+
+export const guardianController = new GuardianController();
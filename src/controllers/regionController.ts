@@ -7,16 +7,21 @@ import {
 } from '../schemas/regionSchema';
 import { regionService } from '../services/regionService';
 import { handleError, handleValidationError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class RegionController {
-  async create(req: Request, res: Response): Promise<void> {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createRegionSchema.safeParse(req.body);
 
     if (handleValidationError('CREATE REGION', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const region = await regionService.createRegion(validationResult.data);
+        const region = await regionService.createRegion(
+          validationResult.data,
+          getAuditContext(req)
+        );
 
         if (!region) {
           res.status(404).json({
@@ -103,7 +108,7 @@ export class RegionController {
     }
   }
 
-  async update(req: Request, res: Response): Promise<void> {
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await regionParamsSchema.safeParse(
       req.params
     );
@@ -119,7 +124,8 @@ export class RegionController {
       try {
         const region = await regionService.updateRegion(
           paramsValidationResult.data.id,
-          bodyValidationResult.data
+          bodyValidationResult.data,
+          getAuditContext(req)
         );
 
         if (!region) {
@@ -141,7 +147,7 @@ export class RegionController {
     }
   }
 
-  async delete(req: Request, res: Response): Promise<void> {
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await regionParamsSchema.safeParse(req.params);
 
     if (handleValidationError('DELETE REGION', validationResult, res)) return;
@@ -149,7 +155,8 @@ export class RegionController {
     if (validationResult.success) {
       try {
         const isDeleted = await regionService.deleteRegion(
-          validationResult.data.id
+          validationResult.data.id,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -0,0 +1,586 @@
+import { type Response } from 'express';
+import { classParamsSchema } from '../schemas/classSchema';
+import {
+  enterRemarksSchema,
+  remarksQuerySchema,
+  reportCardQuerySchema,
+  reportCardTemplateSchema,
+} from '../schemas/reportCardSchema';
+import { schoolParamsSchema } from '../schemas/schoolSchema';
+import { studentParamsSchema } from '../schemas/studentSchema';
+import { academicYearService } from '../services/academicYearService';
+import { classService } from '../services/classService';
+import { gradingScaleService } from '../services/gradingScaleService';
+import { reportCardService } from '../services/reportCardService';
+import { schoolService } from '../services/schoolService';
+import { studentService } from '../services/studentService';
+import {
+  handleValidationError,
+  handleError,
+  handleScopeError,
+} from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
+import { canWriteClassRemarks } from '../utils/scopeUtils';
+
+export class ReportCardController {
+  async getTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = await schoolParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (
+      handleValidationError('GET REPORT CARD TEMPLATE', validationResult, res)
+    )
+      return;
+
+    if (validationResult.success) {
+      try {
+        const school = await schoolService.getSchoolById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!school) {
+          res.status(404).json({
+            success: false,
+            error: 'School not found',
+          });
+          return;
+        }
+
+        const template = await reportCardService.getTemplate(school.id);
+
+        // Null while the school uses the default template
+        res.status(200).json({
+          success: true,
+          data: template ?? null,
+        });
+      } catch (error) {
+        handleError('Failed to fetch report card template', error, res);
+      }
+    }
+  }
+
+  async saveTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await schoolParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await reportCardTemplateSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError(
+        'SAVE REPORT CARD TEMPLATE',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError(
+        'SAVE REPORT CARD TEMPLATE',
+        bodyValidationResult,
+        res
+      )
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { gradingScaleId } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!school) {
+          res.status(404).json({
+            success: false,
+            error: 'School not found',
+          });
+          return;
+        }
+
+        if (
+          gradingScaleId &&
+          !(await gradingScaleService.getGradingScaleById(gradingScaleId))
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        const template = await reportCardService.saveTemplate(
+          school.id,
+          bodyValidationResult.data,
+          getAuditContext(req)
+        );
+
+        if (!template) {
+          res.status(500).json({
+            success: false,
+            error: 'Report card template could not be saved',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: template,
+          message: 'Report card template saved successfully',
+        });
+      } catch (error) {
+        handleError('Failed to save report card template', error, res);
+      }
+    }
+  }
+
+  async deleteTemplate(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await schoolParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (
+      handleValidationError(
+        'DELETE REPORT CARD TEMPLATE',
+        validationResult,
+        res
+      )
+    )
+      return;
+
+    if (validationResult.success) {
+      try {
+        const school = await schoolService.getSchoolById(
+          validationResult.data.id,
+          req.dataScope
+        );
+        const isDeleted = school
+          ? await reportCardService.deleteTemplate(
+              school.id,
+              getAuditContext(req)
+            )
+          : false;
+
+        if (!isDeleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Report card template not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: validationResult.data.id,
+          message: 'Report card template deleted, the default template is used',
+        });
+      } catch (error) {
+        handleError('Failed to delete report card template', error, res);
+      }
+    }
+  }
+
+  async getClassRemarks(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await remarksQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET REMARKS', paramsValidationResult, res) ||
+      handleValidationError('GET REMARKS', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const term = await academicYearService.getTermById(
+          foundClass.academicYearId,
+          queryValidationResult.data.termId
+        );
+
+        if (!term) {
+          res.status(400).json({
+            success: false,
+            error: 'Term not found in the academic year of the class',
+          });
+          return;
+        }
+
+        const remarks = await reportCardService.getClassRemarks(
+          classId,
+          term.id
+        );
+
+        res.status(200).json({
+          success: true,
+          data: remarks ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch remarks', error, res);
+      }
+    }
+  }
+
+  // Writes the homeroom teacher remarks of the listed students of the class
+  async enterRemarks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await enterRemarksSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('ENTER REMARKS', paramsValidationResult, res) ||
+      handleValidationError('ENTER REMARKS', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { termId, remarks } = bodyValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        if (
+          !canWriteClassRemarks(
+            req.role?.name,
+            req.user,
+            foundClass.homeroomTeacherId
+          )
+        ) {
+          handleScopeError(
+            'Only the homeroom teacher can write the remarks of the class',
+            res
+          );
+          return;
+        }
+
+        const term = await academicYearService.getTermById(
+          foundClass.academicYearId,
+          termId
+        );
+
+        if (!term) {
+          res.status(400).json({
+            success: false,
+            error: 'Term not found in the academic year of the class',
+          });
+          return;
+        }
+
+        const students = (await classService.getClassStudents(classId)) ?? [];
+        const classStudentIds = new Set(students.map(student => student.id));
+
+        const outsideIds = remarks
+          .map(remark => remark.studentId)
+          .filter(studentId => !classStudentIds.has(studentId));
+
+        if (outsideIds.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: `Students are not in the class: ${outsideIds.join(', ')}`,
+          });
+          return;
+        }
+
+        const result = await reportCardService.enterRemarks(
+          term.id,
+          remarks,
+          getAuditContext(req)
+        );
+
+        if (!result?.remarks) {
+          res.status(409).json({
+            success: false,
+            error: result?.error ?? 'Remarks could not be entered',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: result.remarks,
+          message: `Remarks entered for ${remarks.length} students`,
+        });
+      } catch (error) {
+        handleError('Failed to enter remarks', error, res);
+      }
+    }
+  }
+
+  // Report cards of every student of the class as PDFs in a ZIP archive
+  async getClassReportCards(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await classParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await reportCardQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET REPORT CARDS', paramsValidationResult, res) ||
+      handleValidationError('GET REPORT CARDS', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { id, classId } = paramsValidationResult.data;
+        const { termId, gradingScaleId } = queryValidationResult.data;
+
+        const school = await schoolService.getSchoolById(id, req.dataScope);
+        const foundClass = school
+          ? await classService.getClassById(school.id, classId)
+          : undefined;
+
+        if (!foundClass) {
+          res.status(404).json({
+            success: false,
+            error: 'Class not found',
+          });
+          return;
+        }
+
+        const term = await academicYearService.getTermById(
+          foundClass.academicYearId,
+          termId
+        );
+
+        if (!term) {
+          res.status(400).json({
+            success: false,
+            error: 'Term not found in the academic year of the class',
+          });
+          return;
+        }
+
+        // The requested scale wins over the one of the template, which wins over the default scale
+        const template = await reportCardService.getTemplate(
+          foundClass.schoolId
+        );
+        const scaleId = gradingScaleId ?? template?.gradingScaleId;
+        const gradingScale = scaleId
+          ? await gradingScaleService.getGradingScaleById(scaleId)
+          : await gradingScaleService.getDefaultGradingScale();
+
+        if (gradingScaleId && !gradingScale) {
+          res.status(400).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        const cards = await reportCardService.getReportCards(
+          foundClass,
+          term,
+          gradingScale
+        );
+
+        if (!cards || cards.length === 0) {
+          res.status(400).json({
+            success: false,
+            error: 'The class has no students',
+          });
+          return;
+        }
+
+        const unprintable = cards
+          .map(card => ({
+            studentId: card.student.id,
+            studentNumber: card.student.studentNumber,
+            characters: reportCardService.findUnprintableCharacters(
+              card,
+              template
+            ),
+          }))
+          .filter(entry => entry.characters.length > 0);
+
+        if (unprintable.length > 0) {
+          res.status(422).json({
+            success: false,
+            error: 'Report cards contain characters the PDF font cannot print',
+            students: unprintable,
+          });
+          return;
+        }
+
+        const archive = reportCardService.renderReportCardArchive(
+          cards,
+          template
+        );
+        const fileName =
+          `report-cards-${foundClass.gradeLevel}${foundClass.section}-${term.name}`
+            .replace(/[^A-Za-z0-9-]+/g, '-')
+            .toLowerCase();
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${fileName}.zip"`
+        );
+        res.status(200).send(archive);
+      } catch (error) {
+        handleError('Failed to generate report cards', error, res);
+      }
+    }
+  }
+
+  async getStudentReportCard(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await reportCardQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError('GET REPORT CARD', paramsValidationResult, res) ||
+      handleValidationError('GET REPORT CARD', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        const { termId, gradingScaleId } = queryValidationResult.data;
+
+        const student = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!student) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        // The card is printed for the class the student was in during the term
+        const foundClass = await classService.getStudentClassInTerm(
+          student.id,
+          termId
+        );
+        const term = foundClass
+          ? await academicYearService.getTermById(
+              foundClass.academicYearId,
+              termId
+            )
+          : undefined;
+
+        if (!foundClass || !term) {
+          res.status(404).json({
+            success: false,
+            error: 'Student was not placed in a class during the term',
+          });
+          return;
+        }
+
+        const template = await reportCardService.getTemplate(
+          foundClass.schoolId
+        );
+        const scaleId = gradingScaleId ?? template?.gradingScaleId;
+        const gradingScale = scaleId
+          ? await gradingScaleService.getGradingScaleById(scaleId)
+          : await gradingScaleService.getDefaultGradingScale();
+
+        if (gradingScaleId && !gradingScale) {
+          res.status(400).json({
+            success: false,
+            error: 'Grading scale not found',
+          });
+          return;
+        }
+
+        const [card] =
+          (await reportCardService.getReportCards(
+            foundClass,
+            term,
+            gradingScale,
+            student.id
+          )) ?? [];
+
+        if (!card) {
+          res.status(500).json({
+            success: false,
+            error: 'Report card could not be generated',
+          });
+          return;
+        }
+
+        const characters = reportCardService.findUnprintableCharacters(
+          card,
+          template
+        );
+
+        if (characters.length > 0) {
+          res.status(422).json({
+            success: false,
+            error: 'Report card contains characters the PDF font cannot print',
+            characters,
+          });
+          return;
+        }
+
+        const pdf = reportCardService.renderReportCard(card, template);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${reportCardService.getFileName(card)}.pdf"`
+        );
+        res.status(200).send(pdf);
+      } catch (error) {
+        handleError('Failed to generate report card', error, res);
+      }
+    }
+  }
+}
+
+export const reportCardController = new ReportCardController();
@@ -2,21 +2,28 @@ import { type Request, type Response } from 'express';
 import {
   createRoleSchema,
   roleParamsSchema,
+  rolePermissionParamsSchema,
+  rolePermissionSchema,
   roleQuerySchema,
   type UpdateRoleInput,
 } from '../schemas/roleSchema';
 import { roleService } from '../services/roleService';
 import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class RoleController {
-  async create(req: Request, res: Response): Promise<void> {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createRoleSchema.safeParseAsync(req.body);
 
     if (handleValidationError('CREATE ROLE', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const role = await roleService.createRole(validationResult.data);
+        const role = await roleService.createRole(
+          validationResult.data,
+          getAuditContext(req)
+        );
 
         if (!role) {
           res.status(404).json({
@@ -102,7 +109,7 @@ export class RoleController {
     }
   }
 
-  async update(req: Request, res: Response): Promise<void> {
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await roleParamsSchema.safeParseAsync(
       req.params
     );
@@ -120,7 +127,8 @@ export class RoleController {
       try {
         const role = await roleService.updateRole(
           paramsValidationResult.data.id,
-          bodyValidationResult.data as UpdateRoleInput
+          bodyValidationResult.data as UpdateRoleInput,
+          getAuditContext(req)
         );
 
         if (!role) {
@@ -142,7 +150,7 @@ export class RoleController {
     }
   }
 
-  async delete(req: Request, res: Response): Promise<void> {
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await roleParamsSchema.safeParseAsync(req.params);
 
     if (handleValidationError('DELETE ROLE', validationResult, res)) return;
@@ -150,7 +158,8 @@ export class RoleController {
     if (validationResult.success) {
       try {
         const isDeleted = await roleService.deleteRole(
-          validationResult.data.id
+          validationResult.data.id,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -171,6 +180,130 @@ export class RoleController {
       }
     }
   }
+
+  async getPermissions(req: Request, res: Response): Promise<void> {
+    const validationResult = await roleParamsSchema.safeParseAsync(req.params);
+
+    if (handleValidationError('GET ROLE PERMISSIONS', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const role = await roleService.getRoleById(validationResult.data.id);
+
+        if (!role) {
+          res.status(404).json({
+            success: false,
+            message: 'Role not found',
+          });
+          return;
+        }
+
+        const permissions = await roleService.getRolePermissions(role.id);
+
+        res.json({
+          success: true,
+          data: permissions ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch role permissions', error, res);
+      }
+    }
+  }
+
+  async grantPermission(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await roleParamsSchema.safeParseAsync(
+      req.params
+    );
+    const bodyValidationResult = await rolePermissionSchema.safeParseAsync(
+      req.body
+    );
+
+    if (
+      handleValidationError('GRANT PERMISSION', paramsValidationResult, res) ||
+      handleValidationError('GRANT PERMISSION', bodyValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && bodyValidationResult.success) {
+      try {
+        const role = await roleService.getRoleById(
+          paramsValidationResult.data.id
+        );
+
+        if (!role) {
+          res.status(404).json({
+            success: false,
+            message: 'Role not found',
+          });
+          return;
+        }
+
+        const permission = await roleService.grantPermission(
+          role.id,
+          bodyValidationResult.data.permission,
+          getAuditContext(req)
+        );
+
+        if (!permission) {
+          res.status(404).json({
+            success: false,
+            message: 'Permission not found',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: permission,
+          message: 'Permission granted successfully',
+        });
+      } catch (error) {
+        handleError('Failed to grant permission', error, res);
+      }
+    }
+  }
+
+  async revokePermission(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await rolePermissionParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('REVOKE PERMISSION', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const isRevoked = await roleService.revokePermission(
+          validationResult.data.id,
+          validationResult.data.permission,
+          getAuditContext(req)
+        );
+
+        if (!isRevoked) {
+          res.status(404).json({
+            success: false,
+            message: 'Permission is not granted to this role',
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: validationResult.data.permission,
+          message: 'Permission revoked successfully',
+        });
+      } catch (error) {
+        handleError('Failed to revoke permission', error, res);
+      }
+    }
+  }
 }
 
 export const roleController = new RoleController();
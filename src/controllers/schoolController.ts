@@ -1,4 +1,4 @@
-import { type Request, type Response } from 'express';
+import { type Response } from 'express';
 import {
   createSchoolSchema,
   schoolParamsSchema,
@@ -6,20 +6,35 @@ import {
   schoolUpdateSchema,
 } from '../schemas/schoolSchema';
 import { schoolService } from '../services/schoolService';
-import { handleValidationError, handleError } from '../errorHandler';
+import {
+  handleValidationError,
+  handleError,
+  handleScopeError,
+} from '../errorHandler';
 import { teacherSchoolService } from '../services/teacherSchoolService';
 import type { School } from '../types/database';
 import { detailedTeacherSchoolQuerySchema } from '../schemas/teacherSchoolSchema';
+import type { AuthenticatedRequest } from '../types/general';
+import { isRegionInScope } from '../utils/scopeUtils';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class SchoolController {
-  async create(req: Request, res: Response): Promise<void> {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createSchoolSchema.safeParseAsync(req.body);
 
     if (handleValidationError('CREATE SCHOOL', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const school = await schoolService.createSchool(validationResult.data);
+        if (!isRegionInScope(req.dataScope, validationResult.data.regionId)) {
+          handleScopeError('Region is outside of your data scope', res);
+          return;
+        }
+
+        const school = await schoolService.createSchool(
+          validationResult.data,
+          getAuditContext(req)
+        );
 
         if (!school) {
           res.status(404).json({
@@ -40,14 +55,17 @@ export class SchoolController {
     }
   }
 
-  async getAll(req: Request, res: Response): Promise<void> {
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await schoolQuerySchema.safeParseAsync(req.query);
 
     if (handleValidationError('GET SCHOOLS', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const result = await schoolService.getSchools(validationResult.data);
+        const result = await schoolService.getSchools(
+          validationResult.data,
+          req.dataScope
+        );
 
         if (!result) {
           res.status(404).json({
@@ -78,7 +96,7 @@ export class SchoolController {
     }
   }
 
-  async getById(req: Request, res: Response): Promise<void> {
+  async getById(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await schoolParamsSchema.safeParseAsync(
       req.params
     );
@@ -88,7 +106,8 @@ export class SchoolController {
     if (validationResult.success) {
       try {
         const school = await schoolService.getSchoolById(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope
         );
 
         if (!school) {
@@ -109,7 +128,7 @@ export class SchoolController {
     }
   }
 
-  async update(req: Request, res: Response): Promise<void> {
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await schoolParamsSchema.safeParseAsync(
       req.params
     );
@@ -125,9 +144,18 @@ export class SchoolController {
 
     if (paramsValidationResult.success && bodyValidationResult.success) {
       try {
+        if (
+          !isRegionInScope(req.dataScope, bodyValidationResult.data.regionId)
+        ) {
+          handleScopeError('Region is outside of your data scope', res);
+          return;
+        }
+
         const school = await schoolService.updateSchool(
           paramsValidationResult.data.id,
-          bodyValidationResult.data
+          bodyValidationResult.data,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!school) {
@@ -149,7 +177,7 @@ export class SchoolController {
     }
   }
 
-  async delete(req: Request, res: Response): Promise<void> {
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await schoolParamsSchema.safeParseAsync(
       req.params
     );
@@ -159,7 +187,9 @@ export class SchoolController {
     if (validationResult.success) {
       try {
         const isDeleted = await schoolService.deleteSchool(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -181,7 +211,10 @@ export class SchoolController {
     }
   }
 
-  async getSchoolEmploymentHistory(req: Request, res: Response): Promise<void> {
+  async getSchoolEmploymentHistory(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await schoolParamsSchema.safeParseAsync(
       req.params
     );
@@ -199,7 +232,10 @@ export class SchoolController {
       try {
         // Check if school exists
         const existingSchool: School | undefined =
-          await schoolService.getSchoolById(validationResult.data.id);
+          await schoolService.getSchoolById(
+            validationResult.data.id,
+            req.dataScope
+          );
 
         if (!existingSchool) {
           res.status(404).json({
@@ -280,7 +316,7 @@ export class SchoolController {
   }
 
   async getSchoolTeacherAssignments(
-    req: Request,
+    req: AuthenticatedRequest,
     res: Response
   ): Promise<void> {
     const paramsValidationResult = await schoolParamsSchema.safeParseAsync(
@@ -307,7 +343,8 @@ export class SchoolController {
       try {
         // Check if school exists
         const existingSchool = await schoolService.getSchoolById(
-          paramsValidationResult.data.id
+          paramsValidationResult.data.id,
+          req.dataScope
         );
 
         if (!existingSchool) {
@@ -385,7 +422,10 @@ export class SchoolController {
     }
   }
 
-  async getSchoolCurrentTeachers(req: Request, res: Response): Promise<void> {
+  async getSchoolCurrentTeachers(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await schoolParamsSchema.safeParseAsync(
       req.params
     );
@@ -403,7 +443,8 @@ export class SchoolController {
       try {
         // Check if school exists
         const existingSchool = await schoolService.getSchoolById(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope
         );
 
         if (!existingSchool) {
@@ -496,7 +537,10 @@ export class SchoolController {
     }
   }
 
-  async getSchoolTeacherSummary(req: Request, res: Response): Promise<void> {
+  async getSchoolTeacherSummary(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await schoolParamsSchema.safeParseAsync(
       req.params
     );
@@ -510,7 +554,8 @@ export class SchoolController {
       try {
         // Check if school exists
         const existingSchool = await schoolService.getSchoolById(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope
         );
 
         if (!existingSchool) {
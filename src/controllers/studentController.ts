@@ -1,5 +1,6 @@
-import { type Request, type Response } from 'express';
+import { type Response } from 'express';
 import { studentService } from '../services/studentService';
+import { classService } from '../services/classService';
 import {
   createStudentSchema,
   studentUpdateSchema,
@@ -8,18 +9,36 @@ import {
   bulkCreateStudentsSchema,
   transferStudentSchema,
 } from '../schemas/studentSchema';
-import { handleError, handleValidationError } from '../errorHandler';
+import {
+  handleError,
+  handleScopeError,
+  handleValidationError,
+} from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { isSchoolInScope } from '../utils/scopeUtils';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class StudentController {
-  async createStudent(req: Request, res: Response): Promise<void> {
+  async createStudent(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createStudentSchema.safeParseAsync(req.body);
 
     if (handleValidationError('CREATE STUDENT', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
+        if (
+          !(await isSchoolInScope(
+            req.dataScope,
+            validationResult.data.schoolId
+          ))
+        ) {
+          handleScopeError('School is outside of your data scope', res);
+          return;
+        }
+
         const student = await studentService.createStudent(
-          validationResult.data
+          validationResult.data,
+          getAuditContext(req)
         );
 
         if (!student) {
@@ -41,7 +60,10 @@ export class StudentController {
     }
   }
 
-  async createStudents(req: Request, res: Response): Promise<void> {
+  async createStudents(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await bulkCreateStudentsSchema.safeParseAsync(
       req.body
     );
@@ -50,8 +72,23 @@ export class StudentController {
 
     if (validationResult.success) {
       try {
+        const schoolIds = new Set(
+          validationResult.data.students.map(student => student.schoolId)
+        );
+
+        for (const schoolId of schoolIds) {
+          if (!(await isSchoolInScope(req.dataScope, schoolId))) {
+            handleScopeError(
+              `School ${schoolId} is outside of your data scope`,
+              res
+            );
+            return;
+          }
+        }
+
         const students = await studentService.createStudents(
-          validationResult.data
+          validationResult.data,
+          getAuditContext(req)
         );
 
         if (!students) {
@@ -77,14 +114,17 @@ export class StudentController {
     }
   }
 
-  async getStudents(req: Request, res: Response): Promise<void> {
+  async getStudents(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await studentQuerySchema.safeParseAsync(req.query);
 
     if (handleValidationError('GET STUDENTS', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const result = await studentService.getStudents(validationResult.data);
+        const result = await studentService.getStudents(
+          validationResult.data,
+          req.dataScope
+        );
 
         if (!result) {
           res.status(500).json({
@@ -115,7 +155,10 @@ export class StudentController {
     }
   }
 
-  async getStudentById(req: Request, res: Response): Promise<void> {
+  async getStudentById(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await studentParamsSchema.safeParseAsync(
       req.params
     );
@@ -126,7 +169,8 @@ export class StudentController {
     if (validationResult.success) {
       try {
         const student = await studentService.getStudentById(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope
         );
 
         if (!student) {
@@ -148,7 +192,7 @@ export class StudentController {
     }
   }
 
-  async updateStudent(req: Request, res: Response): Promise<void> {
+  async updateStudent(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await studentParamsSchema.safeParseAsync(
       req.params
     );
@@ -166,7 +210,9 @@ export class StudentController {
       try {
         const updatedStudent = await studentService.updateStudent(
           paramsValidationResult.data.id,
-          bodyValidationResult.data
+          bodyValidationResult.data,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!updatedStudent) {
@@ -188,7 +234,7 @@ export class StudentController {
     }
   }
 
-  async deleteStudent(req: Request, res: Response): Promise<void> {
+  async deleteStudent(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await studentParamsSchema.safeParseAsync(
       req.params
     );
@@ -198,7 +244,9 @@ export class StudentController {
     if (validationResult.success) {
       try {
         const isDeleted = await studentService.deleteStudent(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -220,7 +268,10 @@ export class StudentController {
     }
   }
 
-  async softDeleteStudent(req: Request, res: Response): Promise<void> {
+  async softDeleteStudent(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await studentParamsSchema.safeParseAsync(
       req.params
     );
@@ -231,7 +282,9 @@ export class StudentController {
     if (validationResult.success) {
       try {
         const deactivatedStudent = await studentService.softDeleteStudent(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!deactivatedStudent) {
@@ -253,7 +306,10 @@ export class StudentController {
     }
   }
 
-  async reactivateStudent(req: Request, res: Response): Promise<void> {
+  async reactivateStudent(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await studentParamsSchema.safeParseAsync(
       req.params
     );
@@ -264,7 +320,9 @@ export class StudentController {
     if (validationResult.success) {
       try {
         const reactivatedStudent = await studentService.reactivateStudent(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!reactivatedStudent) {
@@ -286,7 +344,10 @@ export class StudentController {
     }
   }
 
-  async transferStudent(req: Request, res: Response): Promise<void> {
+  async transferStudent(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const paramsValidationResult = await studentParamsSchema.safeParseAsync(
       req.params
     );
@@ -302,9 +363,48 @@ export class StudentController {
 
     if (paramsValidationResult.success && bodyValidationResult.success) {
       try {
+        const { newSchoolId, transferDate } = bodyValidationResult.data;
+
+        const existingStudent = await studentService.getStudentById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
+        if (!existingStudent) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        if (newSchoolId === existingStudent.schoolId) {
+          res.status(400).json({
+            success: false,
+            error: 'Student is already enrolled at this school',
+          });
+          return;
+        }
+
+        // The enrollment at the current school ends on the transfer date
+        const currentEnrollment = await studentService.getCurrentEnrollment(
+          existingStudent.id
+        );
+
+        if (currentEnrollment && transferDate < currentEnrollment.startDate) {
+          res.status(400).json({
+            success: false,
+            error:
+              'Transfer date cannot be before the current enrollment started',
+          });
+          return;
+        }
+
         const transferredStudent = await studentService.transferStudent(
           paramsValidationResult.data.id,
-          bodyValidationResult.data
+          bodyValidationResult.data,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!transferredStudent) {
@@ -326,9 +426,131 @@ export class StudentController {
     }
   }
 
-  async getStudentStatistics(_req: Request, res: Response): Promise<void> {
+  async getStudentEnrollmentHistory(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (
+      handleValidationError(
+        'GET STUDENT ENROLLMENT HISTORY',
+        validationResult,
+        res
+      )
+    )
+      return;
+
+    if (validationResult.success) {
+      try {
+        // Check if student exists
+        const existingStudent = await studentService.getStudentById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!existingStudent) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const enrollmentHistory =
+          await studentService.getStudentEnrollmentHistory(existingStudent.id);
+
+        if (!enrollmentHistory) {
+          res.status(500).json({
+            success: false,
+            error: 'Failed to retrieve student enrollment history',
+          });
+          return;
+        }
+
+        // Calculate summary statistics
+        const totalSchools = new Set(
+          enrollmentHistory.map(enrollment => enrollment.schoolId)
+        ).size;
+
+        const totalDaysEnrolled = enrollmentHistory.reduce(
+          (total, enrollment) => total + enrollment.enrollmentDuration,
+          0
+        );
+
+        res.status(200).json({
+          success: true,
+          data: {
+            studentId: existingStudent.id,
+            studentName: `${existingStudent.firstName} ${existingStudent.lastName}`,
+            enrollmentHistory,
+            summary: {
+              totalEnrollments: enrollmentHistory.length,
+              completedEnrollments: enrollmentHistory.filter(
+                enrollment => !enrollment.isCurrent
+              ).length,
+              totalSchoolsAttended: totalSchools,
+              totalDaysEnrolled,
+            },
+          },
+          message: `Retrieved enrollment history for ${existingStudent.firstName} ${existingStudent.lastName}`,
+        });
+      } catch (error) {
+        handleError('Failed to fetch student enrollment history', error, res);
+      }
+    }
+  }
+
+  async getStudentClasses(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const validationResult = await studentParamsSchema.safeParseAsync(
+      req.params
+    );
+
+    if (handleValidationError('GET STUDENT CLASSES', validationResult, res))
+      return;
+
+    if (validationResult.success) {
+      try {
+        const existingStudent = await studentService.getStudentById(
+          validationResult.data.id,
+          req.dataScope
+        );
+
+        if (!existingStudent) {
+          res.status(404).json({
+            success: false,
+            error: 'Student not found',
+          });
+          return;
+        }
+
+        const classes = await classService.getStudentClasses(
+          existingStudent.id
+        );
+
+        res.status(200).json({
+          success: true,
+          data: classes ?? [],
+        });
+      } catch (error) {
+        handleError('Failed to fetch student classes', error, res);
+      }
+    }
+  }
+
+  async getStudentStatistics(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     try {
-      const statistics = await studentService.getStudentStatistics();
+      const statistics = await studentService.getStudentStatistics(
+        req.dataScope
+      );
 
       if (!statistics) {
         res.status(500).json({
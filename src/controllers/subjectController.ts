@@ -6,9 +6,11 @@ import {
 } from '../schemas/subjectSchema';
 import { subjectService } from '../services/subjectService';
 import { handleValidationError, handleError } from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class SubjectController {
-  async create(req: Request, res: Response): Promise<void> {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createSubjectSchema.safeParseAsync(req.body);
 
     if (handleValidationError('CREATE SUBJECT', validationResult, res)) return;
@@ -16,7 +18,8 @@ export class SubjectController {
     if (validationResult.success) {
       try {
         const subject = await subjectService.createSubject(
-          validationResult.data
+          validationResult.data,
+          getAuditContext(req)
         );
 
         if (!subject) {
@@ -138,7 +141,7 @@ export class SubjectController {
     }
   }
 
-  async update(req: Request, res: Response): Promise<void> {
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await subjectParamsSchema.safeParseAsync(
       req.params
     );
@@ -156,7 +159,8 @@ export class SubjectController {
       try {
         const subject = await subjectService.updateSubject(
           paramsValidationResult.data.id,
-          bodyValidationResult.data as any
+          bodyValidationResult.data as any,
+          getAuditContext(req)
         );
 
         if (!subject) {
@@ -178,7 +182,7 @@ export class SubjectController {
     }
   }
 
-  async delete(req: Request, res: Response): Promise<void> {
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await subjectParamsSchema.safeParseAsync(
       req.params
     );
@@ -188,7 +192,8 @@ export class SubjectController {
     if (validationResult.success) {
       try {
         const isDeleted = await subjectService.deleteSubject(
-          validationResult.data.id
+          validationResult.data.id,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -9,9 +9,11 @@ import {
 } from '../schemas/teacherSchema';
 import { handleError, handleValidationError } from '../errorHandler';
 import { teacherSchoolService } from '../services/teacherSchoolService';
+import type { AuthenticatedRequest } from '../types/general';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class TeacherController {
-  async createTeacher(req: Request, res: Response): Promise<void> {
+  async createTeacher(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createTeacherSchema.safeParseAsync(req.body);
 
     if (handleValidationError('CREATE TEACHER', validationResult, res)) return;
@@ -19,7 +21,8 @@ export class TeacherController {
     if (validationResult.success) {
       try {
         const teacher = await teacherService.createTeacher(
-          validationResult.data
+          validationResult.data,
+          getAuditContext(req)
         );
 
         if (!teacher) {
@@ -41,7 +44,10 @@ export class TeacherController {
     }
   }
 
-  async createTeachers(req: Request, res: Response): Promise<void> {
+  async createTeachers(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await bulkCreateTeachersSchema.safeParseAsync(
       req.body
     );
@@ -51,7 +57,8 @@ export class TeacherController {
     if (validationResult.success) {
       try {
         const teachers = await teacherService.createTeachers(
-          validationResult.data
+          validationResult.data,
+          getAuditContext(req)
         );
 
         if (!teachers) {
@@ -149,7 +156,7 @@ export class TeacherController {
     }
   }
 
-  async updateTeacher(req: Request, res: Response): Promise<void> {
+  async updateTeacher(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await teacherParamsSchema.safeParseAsync(
       req.params
     );
@@ -167,7 +174,8 @@ export class TeacherController {
       try {
         const updatedTeacher = await teacherService.updateTeacher(
           paramsValidationResult.data.id,
-          bodyValidationResult.data
+          bodyValidationResult.data,
+          getAuditContext(req)
         );
 
         if (!updatedTeacher) {
@@ -190,7 +198,7 @@ export class TeacherController {
     }
   }
 
-  async deleteTeacher(req: Request, res: Response): Promise<void> {
+  async deleteTeacher(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await teacherParamsSchema.safeParseAsync(
       req.params
     );
@@ -200,7 +208,8 @@ export class TeacherController {
     if (validationResult.success) {
       try {
         const isDeleted = await teacherService.deleteTeacher(
-          validationResult.data.id
+          validationResult.data.id,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -222,7 +231,7 @@ export class TeacherController {
   }
 
   async getTeacherEmploymentHistory(
-    req: Request,
+    req: AuthenticatedRequest,
     res: Response
   ): Promise<void> {
     const validationResult = await teacherParamsSchema.safeParseAsync(
@@ -256,7 +265,8 @@ export class TeacherController {
 
         const employmentHistory =
           await teacherSchoolService.getTeacherEmploymentHistory(
-            validationResult.data.id
+            validationResult.data.id,
+            req.dataScope
           );
 
         if (!employmentHistory) {
@@ -311,7 +321,10 @@ export class TeacherController {
     }
   }
 
-  async getTeacherCurrentSchools(req: Request, res: Response): Promise<void> {
+  async getTeacherCurrentSchools(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await teacherParamsSchema.safeParseAsync(
       req.params
     );
@@ -342,7 +355,8 @@ export class TeacherController {
 
         const currentSchools =
           await teacherSchoolService.getTeacherCurrentSchools(
-            validationResult.data.id
+            validationResult.data.id,
+            req.dataScope
           );
 
         if (!currentSchools) {
@@ -404,7 +418,10 @@ export class TeacherController {
     }
   }
 
-  async getTeacherSchoolSummary(req: Request, res: Response): Promise<void> {
+  async getTeacherSchoolSummary(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     const validationResult = await teacherParamsSchema.safeParseAsync(
       req.params
     );
@@ -432,10 +449,12 @@ export class TeacherController {
         // Get both current and full employment history
         const [currentSchools, employmentHistory] = await Promise.all([
           teacherSchoolService.getTeacherCurrentSchools(
-            validationResult.data.id
+            validationResult.data.id,
+            req.dataScope
           ),
           teacherSchoolService.getTeacherEmploymentHistory(
-            validationResult.data.id
+            validationResult.data.id,
+            req.dataScope
           ),
         ]);
 
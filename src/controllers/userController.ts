@@ -1,22 +1,77 @@
-import { type Request, type Response } from 'express';
+import { type Response } from 'express';
 import {
   createUserSchema,
   userParamsSchema,
   userQuerySchema,
   userUpdateSchema,
 } from '../schemas/userSchema';
+import { securityEventQuerySchema } from '../schemas/securityEventSchema';
 import { userService } from '../services/userService';
-import { handleValidationError, handleError } from '../errorHandler';
+import { securityEventService } from '../services/securityEventService';
+import { teacherService } from '../services/teacherService';
+import {
+  handleValidationError,
+  handleError,
+  handleScopeError,
+} from '../errorHandler';
+import type { AuthenticatedRequest } from '../types/general';
+import {
+  isRestrictedScope,
+  isRoleInScope,
+  isUserAssignmentInScope,
+} from '../utils/scopeUtils';
+import { getAuditContext } from '../utils/auditUtils';
 
 export class UserController {
-  async create(req: Request, res: Response): Promise<void> {
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await createUserSchema.safeParseAsync(req.body);
 
     if (handleValidationError('CREATE USER', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const user = await userService.createUser(validationResult.data);
+        if (
+          !(await isUserAssignmentInScope(
+            req.dataScope,
+            validationResult.data.schoolId,
+            validationResult.data.regionId
+          ))
+        ) {
+          handleScopeError(
+            'User assignment is outside of your data scope',
+            res
+          );
+          return;
+        }
+
+        if (
+          !(await isRoleInScope(
+            req.dataScope,
+            validationResult.data.roleId,
+            req.permissions ?? []
+          ))
+        ) {
+          handleScopeError(
+            'Role is outside of your data scope or has permissions you do not have',
+            res
+          );
+          return;
+        }
+
+        const { teacherId } = validationResult.data;
+
+        if (teacherId && !(await teacherService.getTeacherById(teacherId))) {
+          res.status(400).json({
+            success: false,
+            error: 'Teacher not found',
+          });
+          return;
+        }
+
+        const user = await userService.createUser(
+          validationResult.data,
+          getAuditContext(req)
+        );
 
         if (!user) {
           res.status(404).json({
@@ -37,14 +92,17 @@ export class UserController {
     }
   }
 
-  async getAll(req: Request, res: Response): Promise<void> {
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await userQuerySchema.safeParseAsync(req.query);
 
     if (handleValidationError('GET USERS', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const result = await userService.getUsers(validationResult.data);
+        const result = await userService.getUsers(
+          validationResult.data,
+          req.dataScope
+        );
 
         if (!result) {
           res.status(404).json({
@@ -75,14 +133,17 @@ export class UserController {
     }
   }
 
-  async getById(req: Request, res: Response): Promise<void> {
+  async getById(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await userParamsSchema.safeParseAsync(req.params);
 
     if (handleValidationError('GET USER', validationResult, res)) return;
 
     if (validationResult.success) {
       try {
-        const user = await userService.getUserById(validationResult.data.id);
+        const user = await userService.getUserById(
+          validationResult.data.id,
+          req.dataScope
+        );
 
         if (!user) {
           res.status(404).json({
@@ -102,7 +163,7 @@ export class UserController {
     }
   }
 
-  async update(req: Request, res: Response): Promise<void> {
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
     const paramsValidationResult = await userParamsSchema.safeParseAsync(
       req.params
     );
@@ -116,9 +177,66 @@ export class UserController {
 
     if (paramsValidationResult.success && bodyValidationResult.success) {
       try {
+        if (
+          !(await isUserAssignmentInScope(
+            req.dataScope,
+            bodyValidationResult.data.schoolId,
+            bodyValidationResult.data.regionId
+          ))
+        ) {
+          handleScopeError(
+            'User assignment is outside of your data scope',
+            res
+          );
+          return;
+        }
+
+        if (
+          !(await isRoleInScope(
+            req.dataScope,
+            bodyValidationResult.data.roleId,
+            req.permissions ?? []
+          ))
+        ) {
+          handleScopeError(
+            'Role is outside of your data scope or has permissions you do not have',
+            res
+          );
+          return;
+        }
+
+        // Users cannot raise or lower their own privileges
+        if (
+          paramsValidationResult.data.id === req.user?.id &&
+          bodyValidationResult.data.roleId !== req.user.roleId
+        ) {
+          res.status(403).json({
+            success: false,
+            error: 'You cannot change your own role',
+          });
+          return;
+        }
+
+        const { teacherId } = bodyValidationResult.data;
+
+        if (teacherId && !(await teacherService.getTeacherById(teacherId))) {
+          res.status(400).json({
+            success: false,
+            error: 'Teacher not found',
+          });
+          return;
+        }
+
+        const previousUser = await userService.getUserById(
+          paramsValidationResult.data.id,
+          req.dataScope
+        );
+
         const user = await userService.updateUser(
           paramsValidationResult.data.id,
-          bodyValidationResult.data
+          bodyValidationResult.data,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!user) {
@@ -129,6 +247,18 @@ export class UserController {
           return;
         }
 
+        if (previousUser && previousUser.roleId !== user.roleId) {
+          await securityEventService.record(req, {
+            eventType: 'roleChange',
+            userId: user.id,
+            metadata: {
+              previousRoleId: previousUser.roleId,
+              roleId: user.roleId,
+              changedBy: req.user?.id ?? null,
+            },
+          });
+        }
+
         res.status(200).json({
           success: true,
           data: user,
@@ -140,7 +270,80 @@ export class UserController {
     }
   }
 
-  async delete(req: Request, res: Response): Promise<void> {
+  // Security history of a user, kept for the configured retention period
+  async getSecurityEvents(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const paramsValidationResult = await userParamsSchema.safeParseAsync(
+      req.params
+    );
+    const queryValidationResult = await securityEventQuerySchema.safeParseAsync(
+      req.query
+    );
+
+    if (
+      handleValidationError(
+        'GET SECURITY EVENTS',
+        paramsValidationResult,
+        res
+      ) ||
+      handleValidationError('GET SECURITY EVENTS', queryValidationResult, res)
+    )
+      return;
+
+    if (paramsValidationResult.success && queryValidationResult.success) {
+      try {
+        // Ministry users can also review the history of deleted users
+        if (
+          isRestrictedScope(req.dataScope) &&
+          !(await userService.getUserById(
+            paramsValidationResult.data.id,
+            req.dataScope
+          ))
+        ) {
+          res.status(404).json({
+            success: false,
+            message: 'User not found',
+          });
+          return;
+        }
+
+        const result = await securityEventService.getUserEvents(
+          paramsValidationResult.data.id,
+          queryValidationResult.data
+        );
+
+        if (!result) {
+          res.status(404).json({
+            success: false,
+            message: 'No security events found',
+          });
+          return;
+        }
+
+        const { events, total } = result;
+        const limit = queryValidationResult.data.limit || 20;
+        const page = queryValidationResult.data.page || 1;
+        const totalPages = Math.ceil(total / limit);
+
+        res.json({
+          success: true,
+          data: events,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+          },
+        });
+      } catch (error) {
+        handleError('Failed to fetch security events', error, res);
+      }
+    }
+  }
+
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
     const validationResult = await userParamsSchema.safeParseAsync(req.params);
 
     if (handleValidationError('DELETE USER', validationResult, res)) return;
@@ -148,7 +351,9 @@ export class UserController {
     if (validationResult.success) {
       try {
         const isDeleted = await userService.deleteUser(
-          validationResult.data.id
+          validationResult.data.id,
+          req.dataScope,
+          getAuditContext(req)
         );
 
         if (!isDeleted) {
@@ -40,6 +40,15 @@ export const handleError = (
   }
 };
 
+export const handleScopeError = (message: string, res: Response): void => {
+  logger.warn(`Scope error 403: ${message}`);
+
+  res.status(403).json({
+    success: false,
+    error: message,
+  });
+};
+
 export const databaseErrorThrower = (
   message: string,
   error: unknown
@@ -19,6 +19,12 @@ import { authRoutes } from './routes/authRoutes';
 import { studentRoutes } from './routes/studentRoutes';
 import { teacherRoutes } from './routes/teacherRoutes';
 import { subjectRoutes } from './routes/subjectRoutes.js';
+import { apiKeyRoutes } from './routes/apiKeyRoutes';
+import { auditRoutes } from './routes/auditRoutes';
+import { academicYearRoutes } from './routes/academicYearRoutes';
+import { gradingScaleRoutes } from './routes/gradingScaleRoutes';
+import { authController } from './controllers/authController';
+import { securityEventService } from './services/securityEventService';
 import type { AppConfig, HealthResponse } from './types/general';
 import { getEnvironmentPath } from './utils/pathUtils';
 import { testDatabaseConnection } from './utils/databaseUtils';
@@ -26,6 +32,7 @@ import { RailwayConfig } from './config/railwayConfig.js';
 
 let server: Server;
 let redisClient: ReturnType<typeof getRedisClient>;
+let securityEventPurgeTimer: NodeJS.Timeout | undefined;
 
 // Environment configuration
 const loadEnvironmentConfig = (): void => {
@@ -115,6 +122,13 @@ const configureRoutes = (app: Express): void => {
   app.use('/api/students', studentRoutes);
   app.use('/api/teachers', teacherRoutes);
   app.use('/api/subjects', subjectRoutes);
+  app.use('/api/api-keys', apiKeyRoutes);
+  app.use('/api/audit', auditRoutes);
+  app.use('/api/academic-years', academicYearRoutes);
+  app.use('/api/grading-scales', gradingScaleRoutes);
+
+  // Public signing keys, lets other services verify access tokens
+  app.get('/.well-known/jwks.json', authController.getJwks);
 
   // Health check endpoint
   app.get('/health', async (_req: Request, res: Response) => {
@@ -189,6 +203,24 @@ const initializeServices = async (): Promise<void> => {
   }
 };
 
+// Security events older than the retention period are purged on startup and once a day
+const scheduleSecurityEventPurge = (): void => {
+  const purge = (): void => {
+    securityEventService
+      .purgeExpiredEvents()
+      .then(count => {
+        if (count) console.log(`Purged ${count} expired security events`);
+      })
+      .catch(error => {
+        console.error('Failed to purge security events:', error);
+      });
+  };
+
+  purge();
+  securityEventPurgeTimer = setInterval(purge, 24 * 60 * 60 * 1000);
+  securityEventPurgeTimer.unref();
+};
+
 // Server startup
 const startServer = async (): Promise<void> => {
   try {
@@ -196,6 +228,7 @@ const startServer = async (): Promise<void> => {
 
     // Initialize services first
     await initializeServices();
+    scheduleSecurityEventPurge();
 
     // Create and configure app
     const app = createApp(config);
@@ -222,6 +255,8 @@ const startServer = async (): Promise<void> => {
 const cleanup = async (): Promise<void> => {
   const cleanupPromises: Promise<void>[] = [];
 
+  clearInterval(securityEventPurgeTimer);
+
   // Close Redis connection
   if (redisClient) {
     cleanupPromises.push(
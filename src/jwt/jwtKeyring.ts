@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+// active keys sign new tokens, verify keys only verify tokens issued before a rotation, retired keys are rejected
+export type JwtKeyStatus = 'active' | 'verify' | 'retired';
+
+export interface JwtSigningKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  status: JwtKeyStatus;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+const keyringFileSchema = z.object({
+  keys: z.array(
+    z
+      .object({
+        kid: z.string().min(1, 'Key id is required'),
+        algorithm: z.enum(['RS256', 'ES256']),
+        status: z.enum(['active', 'verify', 'retired']),
+        privateKeyPath: z.string().min(1, 'Private key path is required'),
+      })
+      .strict()
+  ),
+});
+
+export class JwtKeyring {
+  constructor(private keys: JwtSigningKey[]) {
+    const kids = new Set(keys.map(key => key.kid));
+    if (kids.size !== keys.length) {
+      throw new Error('JWT keyring contains duplicate key ids');
+    }
+
+    if (keys.length > 0 && !keys.some(key => key.status === 'active')) {
+      throw new Error('JWT keyring has no active signing key');
+    }
+  }
+
+  // Reads the keyring file, private key paths are relative to the file
+  static fromFile(filePath: string): JwtKeyring {
+    const result = keyringFileSchema.safeParse(
+      JSON.parse(readFileSync(filePath, 'utf8'))
+    );
+    if (!result.success) {
+      throw new Error(`Invalid JWT keyring file: ${result.error.message}`);
+    }
+
+    const keys = result.data.keys.map(entry => {
+      const privateKey = crypto.createPrivateKey(
+        readFileSync(
+          path.resolve(path.dirname(filePath), entry.privateKeyPath),
+          'utf8'
+        )
+      );
+
+      const isRsa = privateKey.asymmetricKeyType === 'rsa';
+      const isP256 =
+        privateKey.asymmetricKeyType === 'ec' &&
+        privateKey.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+      if (entry.algorithm === 'RS256' ? !isRsa : !isP256) {
+        throw new Error(
+          `JWT key ${entry.kid} does not match algorithm ${entry.algorithm}`
+        );
+      }
+
+      return {
+        kid: entry.kid,
+        algorithm: entry.algorithm,
+        status: entry.status,
+        privateKey,
+        publicKey: crypto.createPublicKey(privateKey),
+      };
+    });
+
+    return new JwtKeyring(keys);
+  }
+
+  isEmpty(): boolean {
+    return this.keys.length === 0;
+  }
+
+  // The first active key signs, so a new key can be added before the old one is demoted
+  getSigningKey(): JwtSigningKey | undefined {
+    return this.keys.find(key => key.status === 'active');
+  }
+
+  // Returns undefined for unknown and retired keys
+  getVerificationKey(kid: string): JwtSigningKey | undefined {
+    return this.keys.find(key => key.kid === kid && key.status !== 'retired');
+  }
+
+  // Public keys of all non-retired keys in JWKS format
+  getJwks(): { keys: crypto.JsonWebKey[] } {
+    return {
+      keys: this.keys
+        .filter(key => key.status !== 'retired')
+        .map(key => ({
+          ...key.publicKey.export({ format: 'jwk' }),
+          kid: key.kid,
+          alg: key.algorithm,
+          use: 'sig',
+        })),
+    };
+  }
+}
+
+let jwtKeyring: JwtKeyring | null = null;
+
+// Without JWT_KEYRING_PATH the keyring is empty and tokens are signed with the HS256 secrets
+export function getJwtKeyring(): JwtKeyring {
+  if (!jwtKeyring) {
+    const keyringPath = process.env['JWT_KEYRING_PATH'];
+    jwtKeyring = keyringPath
+      ? JwtKeyring.fromFile(path.resolve(keyringPath))
+      : new JwtKeyring([]);
+  }
+
+  return jwtKeyring;
+}
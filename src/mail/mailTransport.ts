@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MailMessage } from '../types/general';
+import { getSrcDirname } from '../utils/pathUtils';
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Appends every message as a JSON line to a local file, useful in development
+export class FileMailTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+// Keeps messages in memory so tests can inspect what would have been sent
+export class InMemoryMailTransport implements MailTransport {
+  public outbox: MailMessage[] = [];
+
+  send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+    return Promise.resolve();
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+let mailTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    const defaultTransport =
+      process.env['NODE_ENV'] === 'test' ? 'memory' : 'file';
+    const transport = process.env['MAIL_TRANSPORT'] || defaultTransport;
+
+    if (transport === 'memory') {
+      mailTransport = new InMemoryMailTransport();
+    } else {
+      mailTransport = new FileMailTransport(
+        process.env['MAIL_FILE_PATH'] ||
+          path.join(getSrcDirname(), 'logs', 'mail.log')
+      );
+    }
+  }
+
+  return mailTransport;
+}
@@ -1,56 +1,108 @@
 import { type Response, type NextFunction } from 'express';
 import { AuthService } from '../services/authService';
 import { userService } from '../services/userService';
-import type { AuthenticatedRequest } from '../types/general';
+import { roleService } from '../services/roleService';
+import { apiKeyService } from '../services/apiKeyService';
+import { securityEventService } from '../services/securityEventService';
+import { resolveApiKeyScope, resolveDataScope } from '../utils/scopeUtils';
+import type { SafeUser } from '../types/database';
+import type { AuthenticatedRequest, PermissionName } from '../types/general';
 import logger from '../logger';
 
 export class AuthMiddleware {
   constructor(private authService: AuthService) {}
 
-  // Authentication middleware
+  // Authentication middleware, rejects users who have not verified their email address
+  // or whose role requires two-factor authentication they have not enrolled in
   authenticate = async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
-    try {
-      const token = this.extractToken(req);
+    await this.authenticateUser(req, res, next, true);
+  };
 
-      if (!token) {
+  // Authentication middleware for the auth endpoints, which users still need to reach to finish setting up their account
+  authenticateAllowUnverified = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await this.authenticateUser(req, res, next, false);
+  };
+
+  // Authorization middleware, must be applied after authenticate
+  authorize = (
+    permission: PermissionName
+  ): ((
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) => void) => {
+    return (req, res, next) => {
+      if (!req.user && !req.apiKey) {
         res.status(401).json({
           success: false,
-          error: 'Access token required',
+          error: 'Authentication required for authorization',
         });
         return;
       }
 
-      const decoded = this.authService.verifyAccessToken(token);
-      if (!decoded) {
+      let principal = req.apiKey
+        ? `API key ${req.apiKey.id}`
+        : `user ${req.user?.id} (role ${req.role?.name ?? 'unknown'})`;
+      if (req.impersonator) {
+        principal += ` impersonated by user ${req.impersonator.id}`;
+      }
+
+      if (!req.permissions?.includes(permission)) {
+        logger.warn(
+          `Authorization denied: ${principal} lacks ${permission} for ${req.method} ${req.originalUrl}`
+        );
         res.status(403).json({
           success: false,
-          error: 'Invalid or expired access token',
+          error: 'Insufficient permissions',
         });
         return;
       }
 
-      const user = await userService.getUserById(decoded['userId']);
-      if (!user) {
+      // Impersonation is meant for reproducing problems, so only reads are allowed unless writes are explicitly enabled
+      if (
+        req.impersonator &&
+        !['GET', 'HEAD'].includes(req.method) &&
+        !this.authService.allowsImpersonationWrites()
+      ) {
+        logger.warn(
+          `Authorization denied: ${principal} attempted a write operation ${req.method} ${req.originalUrl}`
+        );
         res.status(403).json({
           success: false,
-          error: 'User not found',
+          error: 'Only read operations are allowed while impersonating',
         });
         return;
       }
 
-      req.user = user;
+      let dataScope = null;
+      if (req.apiKey) {
+        dataScope = resolveApiKeyScope(req.apiKey);
+      } else if (req.user && req.role) {
+        dataScope = resolveDataScope(req.user, req.role.name);
+      }
+
+      if (!dataScope) {
+        logger.warn(
+          `Authorization denied: ${principal} is not assigned to a school or region`
+        );
+        res.status(403).json({
+          success: false,
+          error: 'User is not assigned to a school or region',
+        });
+        return;
+      }
+
+      req.dataScope = dataScope;
       next();
-    } catch (error) {
-      logger.error('Authentication error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Authentication failed',
-      });
-    }
+    };
   };
 
   // CSRF protection middleware
@@ -65,6 +117,11 @@ export class AuthMiddleware {
         return next();
       }
 
+      // API keys and impersonation tokens are sent in a header, never automatically by a browser, so CSRF does not apply
+      if (req.apiKey || req.impersonator) {
+        return next();
+      }
+
       if (!req.user) {
         res.status(401).json({
           success: false,
@@ -75,6 +132,15 @@ export class AuthMiddleware {
 
       const csrfToken = req.headers['x-csrf-token'] as string;
       if (!csrfToken) {
+        await securityEventService.record(req, {
+          eventType: 'csrfFailure',
+          userId: req.user.id,
+          metadata: {
+            reason: 'missingToken',
+            method: req.method,
+            path: `${req.baseUrl}${req.path}`,
+          },
+        });
         res.status(403).json({
           success: false,
           error: 'CSRF token required',
@@ -87,6 +153,15 @@ export class AuthMiddleware {
         req.user.id
       );
       if (!isValid) {
+        await securityEventService.record(req, {
+          eventType: 'csrfFailure',
+          userId: req.user.id,
+          metadata: {
+            reason: 'invalidToken',
+            method: req.method,
+            path: `${req.baseUrl}${req.path}`,
+          },
+        });
         res.status(403).json({
           success: false,
           error: 'Invalid CSRF token',
@@ -105,15 +180,182 @@ export class AuthMiddleware {
     }
   };
 
-  private extractToken(req: AuthenticatedRequest): string | null {
-    // Try cookie first, then Authorization header
-    const cookieToken = req.cookies['accessToken'];
-    if (cookieToken) return cookieToken;
+  private async authenticateUser(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    requireCompleteAccount: boolean
+  ): Promise<void> {
+    try {
+      const token = this.extractToken(req);
+
+      if (!token) {
+        res.status(401).json({
+          success: false,
+          error: 'Access token required',
+        });
+        return;
+      }
+
+      if (apiKeyService.isApiKey(token)) {
+        await this.authenticateApiKey(token, req, res, next);
+        return;
+      }
 
+      const decoded = this.authService.verifyAccessToken(token);
+      if (!decoded) {
+        res.status(403).json({
+          success: false,
+          error: 'Invalid or expired access token',
+        });
+        return;
+      }
+
+      const user = await userService.getUserById(decoded['userId']);
+      if (!user) {
+        res.status(403).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      if (decoded['impersonatorId'] !== undefined) {
+        // The auth endpoints manage the account itself (password, sessions, 2FA) and stay out of reach
+        if (!requireCompleteAccount) {
+          res.status(403).json({
+            success: false,
+            error: 'Not available while impersonating',
+          });
+          return;
+        }
+
+        const impersonator = await this.getImpersonator(
+          decoded['impersonatorId']
+        );
+        if (!impersonator) {
+          res.status(403).json({
+            success: false,
+            error: 'Impersonation is no longer permitted',
+          });
+          return;
+        }
+
+        req.impersonator = impersonator;
+        logger.info(
+          `Impersonation: user ${impersonator.id} acting as user ${user.id} ${req.method} ${req.originalUrl}`
+        );
+      }
+
+      if (requireCompleteAccount && !user.emailVerifiedAt) {
+        res.status(403).json({
+          success: false,
+          error: 'Email address not verified',
+        });
+        return;
+      }
+
+      const role = await roleService.getRoleById(user.roleId);
+
+      if (
+        requireCompleteAccount &&
+        role?.twoFactorRequired &&
+        !user.twoFactorEnabledAt
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'Two-factor authentication enrollment required',
+        });
+        return;
+      }
+
+      if (role) {
+        req.role = role;
+        req.permissions = await roleService.getPermissionNames(role.id);
+      }
+
+      req.user = user;
+      next();
+    } catch (error) {
+      logger.error('Authentication error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authentication failed',
+      });
+    }
+  }
+
+  // The real user must still exist and hold the impersonation permission, so revoking it ends impersonation at once
+  private async getImpersonator(
+    impersonatorId: number
+  ): Promise<SafeUser | undefined> {
+    const impersonator = await userService.getUserById(impersonatorId);
+    if (!impersonator) return;
+
+    const permissions = await roleService.getPermissionNames(
+      impersonator.roleId
+    );
+    if (!permissions.includes('users:impersonate')) return;
+
+    return impersonator;
+  }
+
+  private async authenticateApiKey(
+    key: string,
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const apiKey = await apiKeyService.getActiveApiKey(key);
+    if (!apiKey) {
+      res.status(403).json({
+        success: false,
+        error: 'Invalid, revoked or expired API key',
+      });
+      return;
+    }
+
+    const retryAfter = await apiKeyService.consumeRateLimit(apiKey);
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', retryAfter.toString());
+      res.status(429).json({
+        success: false,
+        error: 'API key rate limit exceeded, please try again later',
+      });
+      return;
+    }
+
+    req.apiKey = apiKey;
+    req.permissions = await apiKeyService.getPermissionNames(apiKey);
+
+    // Checks that depend on the role, like teachers only grading their own subjects, apply to its keys too
+    if (apiKey.roleId) {
+      const role = await roleService.getRoleById(apiKey.roleId);
+      if (role) {
+        req.role = role;
+      }
+    }
+    next();
+  }
+
+  private extractToken(req: AuthenticatedRequest): string | null {
+    // Try Authorization header first, then API key header, then cookie
+    // Explicit headers win so an impersonation token can be used from a browser that is logged in
     const authHeader = req.headers.authorization;
     if (authHeader?.startsWith('Bearer ')) {
       return authHeader.substring(7);
     }
+    if (authHeader?.startsWith('ApiKey ')) {
+      return authHeader.substring(7);
+    }
+
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string') {
+      return apiKeyHeader;
+    }
+
+    const cookieToken = req.cookies['accessToken'];
+    if (cookieToken) return cookieToken;
 
     return null;
   }
@@ -0,0 +1,58 @@
+import { Kysely } from 'kysely';
+
+const DEFAULT_ROLES = [
+  {
+    name: 'Ministry Admin',
+    description: 'Full access to all regions, schools and users',
+  },
+  {
+    name: 'Regional Admin',
+    description: 'Manages schools, staff and students within a region',
+  },
+  {
+    name: 'School Admin',
+    description: 'Manages staff and students within a single school',
+  },
+  {
+    name: 'Teacher',
+    description: 'Read access to school data',
+  },
+];
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Seeding default roles...');
+
+  try {
+    // Roles which already exist (e.g. created through the API) are left untouched
+    await db
+      .insertInto('roles')
+      .values(DEFAULT_ROLES)
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    console.log('✅ Default roles seeded successfully');
+  } catch (error) {
+    console.error('❌ Error seeding default roles:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing default roles...');
+
+  try {
+    await db
+      .deleteFrom('roles')
+      .where(
+        'name',
+        'in',
+        DEFAULT_ROLES.map(role => role.name)
+      )
+      .execute();
+
+    console.log('✅ Default roles removed successfully');
+  } catch (error) {
+    console.error('❌ Error removing default roles:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { Kysely } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Adding region_id column to users table...');
+
+  try {
+    // Regional users are scoped to a region instead of a single school
+    await db.schema
+      .alterTable('users')
+      .addColumn('region_id', 'integer', col =>
+        col.references('regions.id').onDelete('set null')
+      )
+      .execute();
+
+    await db.schema
+      .createIndex('users_region_id_idx')
+      .on('users')
+      .column('region_id')
+      .execute();
+
+    console.log('✅ Users region_id column added successfully');
+  } catch (error) {
+    console.error('❌ Error adding region_id column to users table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing region_id column from users table...');
+
+  try {
+    await db.schema.dropIndex('users_region_id_idx').ifExists().execute();
+    await db.schema.alterTable('users').dropColumn('region_id').execute();
+
+    console.log('✅ Users region_id column removed successfully');
+  } catch (error) {
+    console.error(
+      '❌ Error removing region_id column from users table:',
+      error
+    );
+    throw error;
+  }
+}
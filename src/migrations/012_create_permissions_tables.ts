@@ -0,0 +1,133 @@
+import { Kysely, sql } from 'kysely';
+
+const ACTIONS = ['read', 'write', 'delete'];
+
+const ALL_ROLES = [
+  'Ministry Admin',
+  'Regional Admin',
+  'School Admin',
+  'Teacher',
+];
+const STAFF_ADMINS = ['Ministry Admin', 'Regional Admin', 'School Admin'];
+const SENIOR_ADMINS = ['Ministry Admin', 'Regional Admin'];
+const MINISTRY_ONLY = ['Ministry Admin'];
+
+// Roles granted each action on a resource by default, matching the permission matrix used before permissions were stored in the database
+const DEFAULT_GRANTS: Record<string, Record<string, string[]>> = {
+  regions: { read: ALL_ROLES, write: MINISTRY_ONLY, delete: MINISTRY_ONLY },
+  roles: { read: SENIOR_ADMINS, write: MINISTRY_ONLY, delete: MINISTRY_ONLY },
+  schools: { read: ALL_ROLES, write: SENIOR_ADMINS, delete: MINISTRY_ONLY },
+  students: { read: ALL_ROLES, write: STAFF_ADMINS, delete: SENIOR_ADMINS },
+  subjects: { read: ALL_ROLES, write: MINISTRY_ONLY, delete: MINISTRY_ONLY },
+  teachers: { read: ALL_ROLES, write: STAFF_ADMINS, delete: SENIOR_ADMINS },
+  users: { read: STAFF_ADMINS, write: STAFF_ADMINS, delete: SENIOR_ADMINS },
+};
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating permissions and role_permissions tables...');
+
+  try {
+    await db.schema
+      .createTable('permissions')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('name', 'varchar(100)', col => col.notNull().unique())
+      .addColumn('description', 'varchar(255)', col =>
+        col.defaultTo('').notNull()
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createTable('role_permissions')
+      .addColumn('role_id', 'integer', col =>
+        col.references('roles.id').onDelete('cascade').notNull()
+      )
+      .addColumn('permission_id', 'integer', col =>
+        col.references('permissions.id').onDelete('cascade').notNull()
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addPrimaryKeyConstraint('pk_role_permissions', [
+        'role_id',
+        'permission_id',
+      ])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_role_permissions_permission_id')
+      .on('role_permissions')
+      .column('permission_id')
+      .execute();
+
+    // Seed permissions for all existing resources
+    console.log('Seeding permissions...');
+    await db
+      .insertInto('permissions')
+      .values(
+        Object.keys(DEFAULT_GRANTS).flatMap(resource =>
+          ACTIONS.map(action => ({
+            name: `${resource}:${action}`,
+            description: `Allows ${action} access to ${resource}`,
+          }))
+        )
+      )
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    // Grant default permissions to the built-in roles which exist
+    console.log('Granting default permissions to built-in roles...');
+    const [roles, permissions] = await Promise.all([
+      db.selectFrom('roles').select(['id', 'name']).execute(),
+      db.selectFrom('permissions').select(['id', 'name']).execute(),
+    ]);
+
+    const grants = Object.entries(DEFAULT_GRANTS).flatMap(
+      ([resource, actions]) =>
+        Object.entries(actions).flatMap(([action, roleNames]) => {
+          const permission = permissions.find(
+            p => p.name === `${resource}:${action}`
+          );
+
+          return roleNames.flatMap(roleName => {
+            const role = roles.find(r => r.name === roleName);
+            return role && permission
+              ? [{ roleId: role.id, permissionId: permission.id }]
+              : [];
+          });
+        })
+    );
+
+    if (grants.length > 0) {
+      await db
+        .insertInto('role_permissions')
+        .values(grants)
+        .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+        .execute();
+    }
+
+    console.log('✅ Permissions tables created and seeded successfully');
+  } catch (error) {
+    console.error('❌ Error creating permissions tables:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping role_permissions and permissions tables...');
+
+  try {
+    await db.schema.dropTable('role_permissions').ifExists().execute();
+    await db.schema.dropTable('permissions').ifExists().execute();
+
+    console.log('✅ Permissions tables dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping permissions tables:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Adding email_verified_at column to users table...');
+
+  try {
+    await db.schema
+      .alterTable('users')
+      .addColumn('email_verified_at', 'timestamp')
+      .execute();
+
+    // Accounts created before email verification existed are treated as verified
+    await db
+      .updateTable('users')
+      .set({ emailVerifiedAt: sql`CURRENT_TIMESTAMP` })
+      .execute();
+
+    console.log('✅ Users email_verified_at column added successfully');
+  } catch (error) {
+    console.error(
+      '❌ Error adding email_verified_at column to users table:',
+      error
+    );
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing email_verified_at column from users table...');
+
+  try {
+    await db.schema
+      .alterTable('users')
+      .dropColumn('email_verified_at')
+      .execute();
+
+    console.log('✅ Users email_verified_at column removed successfully');
+  } catch (error) {
+    console.error(
+      '❌ Error removing email_verified_at column from users table:',
+      error
+    );
+    throw error;
+  }
+}
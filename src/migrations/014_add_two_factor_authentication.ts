@@ -0,0 +1,75 @@
+import { Kysely, sql } from 'kysely';
+
+// Roles which require two-factor authentication by default, as they can mass-delete data
+const TWO_FACTOR_ROLES = ['Ministry Admin', 'Regional Admin'];
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Adding two-factor authentication columns and tables...');
+
+  try {
+    await db.schema
+      .alterTable('users')
+      .addColumn('two_factor_secret', 'varchar(64)')
+      .addColumn('two_factor_enabled_at', 'timestamp')
+      .execute();
+
+    await db.schema
+      .alterTable('roles')
+      .addColumn('two_factor_required', 'boolean', col =>
+        col.defaultTo(false).notNull()
+      )
+      .execute();
+
+    await db
+      .updateTable('roles')
+      .set({ twoFactorRequired: true })
+      .where('name', 'in', TWO_FACTOR_ROLES)
+      .execute();
+
+    await db.schema
+      .createTable('user_recovery_codes')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('user_id', 'integer', col =>
+        col.references('users.id').onDelete('cascade').notNull()
+      )
+      .addColumn('code_hash', 'varchar(64)', col => col.notNull())
+      .addColumn('used_at', 'timestamp')
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createIndex('idx_user_recovery_codes_user_id')
+      .on('user_recovery_codes')
+      .column('user_id')
+      .execute();
+
+    console.log('✅ Two-factor authentication columns and tables added');
+  } catch (error) {
+    console.error('❌ Error adding two-factor authentication:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing two-factor authentication columns and tables...');
+
+  try {
+    await db.schema.dropTable('user_recovery_codes').ifExists().execute();
+    await db.schema
+      .alterTable('roles')
+      .dropColumn('two_factor_required')
+      .execute();
+    await db.schema
+      .alterTable('users')
+      .dropColumn('two_factor_secret')
+      .dropColumn('two_factor_enabled_at')
+      .execute();
+
+    console.log('✅ Two-factor authentication columns and tables removed');
+  } catch (error) {
+    console.error('❌ Error removing two-factor authentication:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,97 @@
+import { Kysely, sql } from 'kysely';
+
+const API_KEY_PERMISSIONS = [
+  'api-keys:read',
+  'api-keys:write',
+  'api-keys:delete',
+];
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating api_keys table...');
+
+  try {
+    await db.schema
+      .createTable('api_keys')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('name', 'varchar(100)', col => col.notNull())
+      .addColumn('key_prefix', 'varchar(16)', col => col.notNull())
+      .addColumn('key_hash', 'varchar(64)', col => col.notNull().unique())
+      // A key either acts with the permissions of a role or with its own permission set
+      .addColumn('role_id', 'integer', col =>
+        col.references('roles.id').onDelete('cascade')
+      )
+      .addColumn('permissions', sql`text[]`)
+      .addColumn('school_id', 'integer', col =>
+        col.references('schools.id').onDelete('cascade')
+      )
+      .addColumn('region_id', 'integer', col =>
+        col.references('regions.id').onDelete('cascade')
+      )
+      .addColumn('rate_limit', 'integer', col => col.defaultTo(60).notNull())
+      .addColumn('created_by', 'integer', col =>
+        col.references('users.id').onDelete('set null')
+      )
+      .addColumn('expires_at', 'timestamp')
+      .addColumn('last_used_at', 'timestamp')
+      .addColumn('revoked_at', 'timestamp')
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addCheckConstraint(
+        'api_keys_role_or_permissions',
+        sql`(role_id IS NULL) <> (permissions IS NULL)`
+      )
+      .execute();
+
+    // Seed permissions for managing API keys, granted to the Ministry Admin role
+    await db
+      .insertInto('permissions')
+      .values(
+        API_KEY_PERMISSIONS.map(name => ({
+          name,
+          description: `Allows ${name.split(':')[1]} access to api-keys`,
+        }))
+      )
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    await db
+      .insertInto('role_permissions')
+      .columns(['roleId', 'permissionId'])
+      .expression(eb =>
+        eb
+          .selectFrom('roles')
+          .crossJoin('permissions')
+          .select(['roles.id', 'permissions.id'])
+          .where('roles.name', '=', 'Ministry Admin')
+          .where('permissions.name', 'in', API_KEY_PERMISSIONS)
+      )
+      .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+      .execute();
+
+    console.log('✅ Api keys table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating api_keys table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping api_keys table...');
+
+  try {
+    await db.schema.dropTable('api_keys').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', 'in', API_KEY_PERMISSIONS)
+      .execute();
+
+    console.log('✅ Api keys table dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping api_keys table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { Kysely } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Adding oidc_subject column to users table...');
+
+  try {
+    // Subject identifier of the account at the OIDC identity provider, set on first single sign-on
+    await db.schema
+      .alterTable('users')
+      .addColumn('oidc_subject', 'varchar(255)', col => col.unique())
+      .execute();
+
+    console.log('✅ Users oidc_subject column added successfully');
+  } catch (error) {
+    console.error('❌ Error adding oidc_subject column to users table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing oidc_subject column from users table...');
+
+  try {
+    await db.schema.alterTable('users').dropColumn('oidc_subject').execute();
+
+    console.log('✅ Users oidc_subject column removed successfully');
+  } catch (error) {
+    console.error(
+      '❌ Error removing oidc_subject column from users table:',
+      error
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { Kysely } from 'kysely';
+
+const IMPERSONATION_PERMISSION = 'users:impersonate';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Adding users:impersonate permission...');
+
+  try {
+    // Only the Ministry Admin role may impersonate other users by default
+    await db
+      .insertInto('permissions')
+      .values({
+        name: IMPERSONATION_PERMISSION,
+        description: 'Allows viewing the application as another user',
+      })
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    await db
+      .insertInto('role_permissions')
+      .columns(['roleId', 'permissionId'])
+      .expression(eb =>
+        eb
+          .selectFrom('roles')
+          .crossJoin('permissions')
+          .select(['roles.id', 'permissions.id'])
+          .where('roles.name', '=', 'Ministry Admin')
+          .where('permissions.name', '=', IMPERSONATION_PERMISSION)
+      )
+      .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+      .execute();
+
+    console.log('✅ users:impersonate permission added successfully');
+  } catch (error) {
+    console.error('❌ Error adding users:impersonate permission:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing users:impersonate permission...');
+
+  try {
+    await db
+      .deleteFrom('permissions')
+      .where('name', '=', IMPERSONATION_PERMISSION)
+      .execute();
+
+    console.log('✅ users:impersonate permission removed successfully');
+  } catch (error) {
+    console.error('❌ Error removing users:impersonate permission:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating password_history table...');
+
+  try {
+    // Used for forced password rotation, existing passwords count as changed now
+    await db.schema
+      .alterTable('users')
+      .addColumn('password_changed_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createTable('password_history')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('user_id', 'integer', col =>
+        col.references('users.id').onDelete('cascade').notNull()
+      )
+      .addColumn('password_hash', 'varchar(255)', col => col.notNull())
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createIndex('idx_password_history_user_id')
+      .on('password_history')
+      .column('user_id')
+      .execute();
+
+    // The current password of every user is the start of their history
+    await db
+      .insertInto('password_history')
+      .columns(['userId', 'passwordHash'])
+      .expression(eb => eb.selectFrom('users').select(['id', 'passwordHash']))
+      .execute();
+
+    console.log('✅ Password history table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating password_history table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping password_history table...');
+
+  try {
+    await db.schema.dropTable('password_history').ifExists().execute();
+    await db.schema
+      .alterTable('users')
+      .dropColumn('password_changed_at')
+      .execute();
+
+    console.log('✅ Password history table dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping password_history table:', error);
+    throw error;
+  }
+}
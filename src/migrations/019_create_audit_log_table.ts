@@ -0,0 +1,92 @@
+import { Kysely, sql } from 'kysely';
+
+const AUDIT_PERMISSION = 'audit:read';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating audit_log table...');
+
+  try {
+    // No foreign keys, entries must outlive the users and records they refer to
+    await db.schema
+      .createTable('audit_log')
+      .addColumn('id', 'bigserial', col => col.primaryKey())
+      .addColumn('actor_user_id', 'integer')
+      .addColumn('impersonator_user_id', 'integer')
+      .addColumn('api_key_id', 'integer')
+      .addColumn('entity_type', 'varchar(50)', col => col.notNull())
+      .addColumn('entity_id', 'integer', col => col.notNull())
+      .addColumn('action', 'varchar(10)', col => col.notNull())
+      .addColumn('before', 'jsonb')
+      .addColumn('after', 'jsonb')
+      .addColumn('ip', 'varchar(45)')
+      .addColumn('request_id', 'varchar(100)')
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createIndex('idx_audit_log_entity')
+      .on('audit_log')
+      .columns(['entity_type', 'entity_id'])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_audit_log_actor_user_id')
+      .on('audit_log')
+      .column('actor_user_id')
+      .execute();
+
+    await db.schema
+      .createIndex('idx_audit_log_created_at')
+      .on('audit_log')
+      .column('created_at')
+      .execute();
+
+    // Reading the audit log is granted to the Ministry Admin role
+    await db
+      .insertInto('permissions')
+      .values({
+        name: AUDIT_PERMISSION,
+        description: 'Allows read access to audit',
+      })
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    await db
+      .insertInto('role_permissions')
+      .columns(['roleId', 'permissionId'])
+      .expression(eb =>
+        eb
+          .selectFrom('roles')
+          .crossJoin('permissions')
+          .select(['roles.id', 'permissions.id'])
+          .where('roles.name', '=', 'Ministry Admin')
+          .where('permissions.name', '=', AUDIT_PERMISSION)
+      )
+      .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+      .execute();
+
+    console.log('✅ Audit log table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating audit_log table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping audit_log table...');
+
+  try {
+    await db.schema.dropTable('audit_log').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', '=', AUDIT_PERMISSION)
+      .execute();
+
+    console.log('✅ Audit log table dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping audit_log table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,82 @@
+import { Kysely, sql } from 'kysely';
+
+const SECURITY_EVENTS_PERMISSION = 'security-events:read';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating security_events table...');
+
+  try {
+    // No foreign key, the history of a user is kept after the user is deleted until it expires
+    await db.schema
+      .createTable('security_events')
+      .addColumn('id', 'bigserial', col => col.primaryKey())
+      .addColumn('user_id', 'integer')
+      .addColumn('email', 'varchar(255)')
+      .addColumn('event_type', 'varchar(50)', col => col.notNull())
+      .addColumn('ip', 'varchar(45)')
+      .addColumn('user_agent', 'text')
+      .addColumn('metadata', 'jsonb')
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createIndex('idx_security_events_user_id_created_at')
+      .on('security_events')
+      .columns(['user_id', 'created_at'])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_security_events_created_at')
+      .on('security_events')
+      .column('created_at')
+      .execute();
+
+    // Reading security events is granted to the Ministry Admin role
+    await db
+      .insertInto('permissions')
+      .values({
+        name: SECURITY_EVENTS_PERMISSION,
+        description: 'Allows read access to security-events',
+      })
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    await db
+      .insertInto('role_permissions')
+      .columns(['roleId', 'permissionId'])
+      .expression(eb =>
+        eb
+          .selectFrom('roles')
+          .crossJoin('permissions')
+          .select(['roles.id', 'permissions.id'])
+          .where('roles.name', '=', 'Ministry Admin')
+          .where('permissions.name', '=', SECURITY_EVENTS_PERMISSION)
+      )
+      .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+      .execute();
+
+    console.log('✅ Security events table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating security_events table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping security_events table...');
+
+  try {
+    await db.schema.dropTable('security_events').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', '=', SECURITY_EVENTS_PERMISSION)
+      .execute();
+
+    console.log('✅ Security events table dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping security_events table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,127 @@
+import { Kysely, sql } from 'kysely';
+
+const ACADEMIC_YEAR_PERMISSIONS = [
+  'academic-years:read',
+  'academic-years:write',
+  'academic-years:delete',
+];
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating academic_years and terms tables...');
+
+  try {
+    await db.schema
+      .createTable('academic_years')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('name', 'varchar(50)', col => col.notNull())
+      .addColumn('start_date', 'date', col => col.notNull())
+      .addColumn('end_date', 'date', col => col.notNull())
+      .addColumn('is_current', 'boolean', col => col.defaultTo(false).notNull())
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('academic_years_name_unique', ['name'])
+      .addCheckConstraint(
+        'chk_academic_years_dates',
+        sql`end_date > start_date`
+      )
+      .execute();
+
+    await db.schema
+      .createTable('terms')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('academic_year_id', 'integer', col =>
+        col.references('academic_years.id').onDelete('cascade').notNull()
+      )
+      .addColumn('name', 'varchar(50)', col => col.notNull())
+      .addColumn('start_date', 'date', col => col.notNull())
+      .addColumn('end_date', 'date', col => col.notNull())
+      .addColumn('is_current', 'boolean', col => col.defaultTo(false).notNull())
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('terms_academic_year_id_name_unique', [
+        'academic_year_id',
+        'name',
+      ])
+      .addCheckConstraint('chk_terms_dates', sql`end_date > start_date`)
+      .execute();
+
+    // At most one current academic year and one current term
+    await db.schema
+      .createIndex('idx_academic_years_current')
+      .on('academic_years')
+      .column('is_current')
+      .unique()
+      .where('is_current', '=', true)
+      .execute();
+
+    await db.schema
+      .createIndex('idx_terms_current')
+      .on('terms')
+      .column('is_current')
+      .unique()
+      .where('is_current', '=', true)
+      .execute();
+
+    // Everyone can read the calendar, only the ministry manages it
+    await db
+      .insertInto('permissions')
+      .values(
+        ACADEMIC_YEAR_PERMISSIONS.map(name => ({
+          name,
+          description: `Allows ${name.split(':')[1]} access to academic-years`,
+        }))
+      )
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    await db
+      .insertInto('role_permissions')
+      .columns(['roleId', 'permissionId'])
+      .expression(eb =>
+        eb
+          .selectFrom('roles')
+          .crossJoin('permissions')
+          .select(['roles.id', 'permissions.id'])
+          .where(eb =>
+            eb.or([
+              eb('roles.name', '=', 'Ministry Admin'),
+              eb('permissions.name', '=', 'academic-years:read'),
+            ])
+          )
+          .where('permissions.name', 'in', ACADEMIC_YEAR_PERMISSIONS)
+      )
+      .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+      .execute();
+
+    console.log('✅ Academic years and terms tables created successfully');
+  } catch (error) {
+    console.error('❌ Error creating academic_years and terms tables:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping terms and academic_years tables...');
+
+  try {
+    await db.schema.dropTable('terms').ifExists().execute();
+    await db.schema.dropTable('academic_years').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', 'in', ACADEMIC_YEAR_PERMISSIONS)
+      .execute();
+
+    console.log('✅ Terms and academic_years tables dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping terms and academic_years tables:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,144 @@
+import { Kysely, sql } from 'kysely';
+
+// Roles granted each action on classes by default, school admins organise the classes of their own school
+const CLASS_GRANTS: Record<string, string[]> = {
+  read: ['Ministry Admin', 'Regional Admin', 'School Admin', 'Teacher'],
+  write: ['Ministry Admin', 'Regional Admin', 'School Admin'],
+  delete: ['Ministry Admin', 'Regional Admin', 'School Admin'],
+};
+
+const CLASS_PERMISSIONS = Object.keys(CLASS_GRANTS).map(
+  action => `classes:${action}`
+);
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating classes and class_students tables...');
+
+  try {
+    await db.schema
+      .createTable('classes')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('school_id', 'integer', col =>
+        col.references('schools.id').onDelete('cascade').notNull()
+      )
+      .addColumn('academic_year_id', 'integer', col =>
+        col.references('academic_years.id').onDelete('cascade').notNull()
+      )
+      .addColumn('grade_level', 'integer', col =>
+        col.check(sql`grade_level BETWEEN 0 AND 13`).notNull()
+      )
+      .addColumn('section', 'varchar(20)', col => col.notNull())
+      .addColumn('homeroom_teacher_id', 'integer', col =>
+        col.references('teachers.id').onDelete('set null')
+      )
+      .addColumn('capacity', 'integer', col =>
+        col.check(sql`capacity > 0`).notNull()
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('classes_school_year_grade_section_unique', [
+        'school_id',
+        'academic_year_id',
+        'grade_level',
+        'section',
+      ])
+      .execute();
+
+    // The academic year is repeated on each placement so a student can only be placed in one class per year
+    await db.schema
+      .createTable('class_students')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('class_id', 'integer', col =>
+        col.references('classes.id').onDelete('cascade').notNull()
+      )
+      .addColumn('student_id', 'integer', col =>
+        col.references('students.id').onDelete('cascade').notNull()
+      )
+      .addColumn('academic_year_id', 'integer', col =>
+        col.references('academic_years.id').onDelete('cascade').notNull()
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('class_students_student_year_unique', [
+        'student_id',
+        'academic_year_id',
+      ])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_classes_homeroom_teacher_id')
+      .on('classes')
+      .column('homeroom_teacher_id')
+      .execute();
+
+    await db.schema
+      .createIndex('idx_class_students_class_id')
+      .on('class_students')
+      .column('class_id')
+      .execute();
+
+    await db
+      .insertInto('permissions')
+      .values(
+        Object.keys(CLASS_GRANTS).map(action => ({
+          name: `classes:${action}`,
+          description: `Allows ${action} access to classes`,
+        }))
+      )
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    for (const [action, roleNames] of Object.entries(CLASS_GRANTS)) {
+      await db
+        .insertInto('role_permissions')
+        .columns(['roleId', 'permissionId'])
+        .expression(eb =>
+          eb
+            .selectFrom('roles')
+            .crossJoin('permissions')
+            .select(['roles.id', 'permissions.id'])
+            .where('roles.name', 'in', roleNames)
+            .where('permissions.name', '=', `classes:${action}`)
+        )
+        .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+        .execute();
+    }
+
+    console.log('✅ Classes and class_students tables created successfully');
+  } catch (error) {
+    console.error(
+      '❌ Error creating classes and class_students tables:',
+      error
+    );
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping class_students and classes tables...');
+
+  try {
+    await db.schema.dropTable('class_students').ifExists().execute();
+    await db.schema.dropTable('classes').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', 'in', CLASS_PERMISSIONS)
+      .execute();
+
+    console.log('✅ Class_students and classes tables dropped successfully');
+  } catch (error) {
+    console.error(
+      '❌ Error dropping class_students and classes tables:',
+      error
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating student_enrollments table...');
+
+  try {
+    await db.schema
+      .createTable('student_enrollments')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('student_id', 'integer', col =>
+        col.references('students.id').onDelete('cascade').notNull()
+      )
+      .addColumn('school_id', 'integer', col =>
+        col.references('schools.id').onDelete('cascade').notNull()
+      )
+      .addColumn('start_date', 'date', col => col.notNull())
+      .addColumn('end_date', 'date', col => col)
+      .addColumn('end_reason', 'varchar(200)', col => col)
+      .addColumn('created_by', 'integer', col =>
+        col.references('users.id').onDelete('set null')
+      )
+      .addColumn('ended_by', 'integer', col =>
+        col.references('users.id').onDelete('set null')
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addCheckConstraint(
+        'chk_student_enrollments_dates',
+        sql`end_date IS NULL OR end_date >= start_date`
+      )
+      .execute();
+
+    await db.schema
+      .createIndex('idx_student_enrollments_student_id')
+      .on('student_enrollments')
+      .column('student_id')
+      .execute();
+
+    await db.schema
+      .createIndex('idx_student_enrollments_school_id')
+      .on('student_enrollments')
+      .column('school_id')
+      .execute();
+
+    // A student has at most one open enrollment, the school in students.school_id
+    await db.schema
+      .createIndex('idx_student_enrollments_current')
+      .on('student_enrollments')
+      .column('student_id')
+      .unique()
+      .where(sql.ref('end_date'), 'is', null)
+      .execute();
+
+    // Start the history of existing students at their current school
+    console.log('Backfilling current enrollments...');
+    await db
+      .insertInto('student_enrollments')
+      .columns(['studentId', 'schoolId', 'startDate'])
+      .expression(eb =>
+        eb
+          .selectFrom('students')
+          .select([
+            'id',
+            'schoolId',
+            sql`COALESCE(enrollment_date, created_at::date)`.as('startDate'),
+          ])
+          .where('schoolId', 'is not', null)
+      )
+      .execute();
+
+    console.log('✅ Student_enrollments table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating student_enrollments table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping student_enrollments table...');
+
+  try {
+    await db.schema.dropTable('student_enrollments').ifExists().execute();
+
+    console.log('✅ Student_enrollments table dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping student_enrollments table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,104 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating guardians and student_guardians tables...');
+
+  try {
+    await db.schema
+      .createTable('guardians')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('first_name', 'varchar(100)', col => col.notNull())
+      .addColumn('last_name', 'varchar(100)', col => col.notNull())
+      .addColumn('email', 'varchar(255)', col => col)
+      .addColumn('phone', 'varchar(20)', col => col.notNull())
+      .addColumn('mobile', 'varchar(20)', col => col)
+      .addColumn('address', 'varchar(255)', col => col)
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    // The relationship and rights are stored per student, a guardian can have a different role for each child
+    await db.schema
+      .createTable('student_guardians')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('student_id', 'integer', col =>
+        col.references('students.id').onDelete('cascade').notNull()
+      )
+      .addColumn('guardian_id', 'integer', col =>
+        col.references('guardians.id').onDelete('cascade').notNull()
+      )
+      .addColumn('relationship', 'varchar(20)', col =>
+        col
+          .check(
+            sql`relationship IN ('mother', 'father', 'stepmother', 'stepfather', 'grandparent', 'sibling', 'legal-guardian', 'foster-parent', 'other')`
+          )
+          .notNull()
+      )
+      .addColumn('has_legal_custody', 'boolean', col =>
+        col.defaultTo(false).notNull()
+      )
+      .addColumn('can_pickup', 'boolean', col => col.defaultTo(false).notNull())
+      .addColumn('emergency_contact_priority', 'integer', col =>
+        col.check(sql`emergency_contact_priority > 0`)
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('student_guardians_student_guardian_unique', [
+        'student_id',
+        'guardian_id',
+      ])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_student_guardians_guardian_id')
+      .on('student_guardians')
+      .column('guardian_id')
+      .execute();
+
+    // Each emergency contact priority is used once per student
+    await db.schema
+      .createIndex('idx_student_guardians_emergency_priority')
+      .on('student_guardians')
+      .columns(['student_id', 'emergency_contact_priority'])
+      .unique()
+      .where(sql.ref('emergency_contact_priority'), 'is not', null)
+      .execute();
+
+    console.log(
+      '✅ Guardians and student_guardians tables created successfully'
+    );
+  } catch (error) {
+    console.error(
+      '❌ Error creating guardians and student_guardians tables:',
+      error
+    );
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping student_guardians and guardians tables...');
+
+  try {
+    await db.schema.dropTable('student_guardians').ifExists().execute();
+    await db.schema.dropTable('guardians').ifExists().execute();
+
+    console.log(
+      '✅ Student_guardians and guardians tables dropped successfully'
+    );
+  } catch (error) {
+    console.error(
+      '❌ Error dropping student_guardians and guardians tables:',
+      error
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import { Kysely } from 'kysely';
+
+const PARENT_ROLE = {
+  name: 'Parent',
+  description: "Read access to the guardian's own children",
+};
+
+// Parents only read student records, which are limited to their linked children by the guardian data scope
+const PARENT_PERMISSIONS = ['students:read'];
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Adding guardian accounts...');
+
+  try {
+    // Set for parent portal accounts, the account is removed together with the guardian
+    await db.schema
+      .alterTable('users')
+      .addColumn('guardian_id', 'integer', col =>
+        col.references('guardians.id').onDelete('cascade').unique()
+      )
+      .execute();
+
+    await db
+      .insertInto('roles')
+      .values(PARENT_ROLE)
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    await db
+      .insertInto('role_permissions')
+      .columns(['roleId', 'permissionId'])
+      .expression(eb =>
+        eb
+          .selectFrom('roles')
+          .crossJoin('permissions')
+          .select(['roles.id', 'permissions.id'])
+          .where('roles.name', '=', PARENT_ROLE.name)
+          .where('permissions.name', 'in', PARENT_PERMISSIONS)
+      )
+      .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+      .execute();
+
+    console.log('✅ Guardian accounts added successfully');
+  } catch (error) {
+    console.error('❌ Error adding guardian accounts:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Removing guardian accounts...');
+
+  try {
+    // Parent accounts cannot exist without their guardian, role permissions cascade with the role
+    await db.deleteFrom('users').where('guardianId', 'is not', null).execute();
+    await db.schema.alterTable('users').dropColumn('guardian_id').execute();
+
+    await db.deleteFrom('roles').where('name', '=', PARENT_ROLE.name).execute();
+
+    console.log('✅ Guardian accounts removed successfully');
+  } catch (error) {
+    console.error('❌ Error removing guardian accounts:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,136 @@
+import { Kysely, sql } from 'kysely';
+
+// Roles granted each action on attendance by default, teachers take the register and parents follow their children
+const ATTENDANCE_GRANTS: Record<string, string[]> = {
+  read: [
+    'Ministry Admin',
+    'Regional Admin',
+    'School Admin',
+    'Teacher',
+    'Parent',
+  ],
+  write: ['Ministry Admin', 'Regional Admin', 'School Admin', 'Teacher'],
+  delete: ['Ministry Admin', 'Regional Admin', 'School Admin'],
+};
+
+const ATTENDANCE_PERMISSIONS = Object.keys(ATTENDANCE_GRANTS).map(
+  action => `attendance:${action}`
+);
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating attendance_records table...');
+
+  try {
+    // The school is the one the student attended on the day, so records stay with it after a transfer
+    await db.schema
+      .createTable('attendance_records')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('student_id', 'integer', col =>
+        col.references('students.id').onDelete('cascade').notNull()
+      )
+      .addColumn('school_id', 'integer', col =>
+        col.references('schools.id').onDelete('cascade').notNull()
+      )
+      .addColumn('class_id', 'integer', col =>
+        col.references('classes.id').onDelete('set null')
+      )
+      .addColumn('date', 'date', col => col.notNull())
+      .addColumn('period', 'integer', col =>
+        col.check(sql`period BETWEEN 1 AND 12`)
+      )
+      .addColumn('status', 'varchar(10)', col =>
+        col
+          .check(sql`status IN ('present', 'absent', 'late', 'excused')`)
+          .notNull()
+      )
+      .addColumn('excuse_note', 'varchar(500)', col => col)
+      .addColumn('recorded_by', 'integer', col =>
+        col.references('users.id').onDelete('set null')
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    // One whole day record, without a period, and one record per period for each student and day
+    await db.schema
+      .createIndex('idx_attendance_records_student_day')
+      .on('attendance_records')
+      .columns(['student_id', 'date'])
+      .unique()
+      .where(sql.ref('period'), 'is', null)
+      .execute();
+
+    await db.schema
+      .createIndex('idx_attendance_records_student_period')
+      .on('attendance_records')
+      .columns(['student_id', 'date', 'period'])
+      .unique()
+      .where(sql.ref('period'), 'is not', null)
+      .execute();
+
+    await db.schema
+      .createIndex('idx_attendance_records_student_date')
+      .on('attendance_records')
+      .columns(['student_id', 'date'])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_attendance_records_school_date')
+      .on('attendance_records')
+      .columns(['school_id', 'date'])
+      .execute();
+
+    await db
+      .insertInto('permissions')
+      .values(
+        Object.keys(ATTENDANCE_GRANTS).map(action => ({
+          name: `attendance:${action}`,
+          description: `Allows ${action} access to attendance records`,
+        }))
+      )
+      .onConflict(oc => oc.column('name').doNothing())
+      .execute();
+
+    for (const [action, roleNames] of Object.entries(ATTENDANCE_GRANTS)) {
+      await db
+        .insertInto('role_permissions')
+        .columns(['roleId', 'permissionId'])
+        .expression(eb =>
+          eb
+            .selectFrom('roles')
+            .crossJoin('permissions')
+            .select(['roles.id', 'permissions.id'])
+            .where('roles.name', 'in', roleNames)
+            .where('permissions.name', '=', `attendance:${action}`)
+        )
+        .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+        .execute();
+    }
+
+    console.log('✅ Attendance_records table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating attendance_records table:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping attendance_records table...');
+
+  try {
+    await db.schema.dropTable('attendance_records').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', 'in', ATTENDANCE_PERMISSIONS)
+      .execute();
+
+    console.log('✅ Attendance_records table dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping attendance_records table:', error);
+    throw error;
+  }
+}
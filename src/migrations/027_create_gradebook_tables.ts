@@ -0,0 +1,288 @@
+import { Kysely, sql } from 'kysely';
+
+// Roles granted each action on assessments and grades by default, teachers grade the subjects they teach
+const GRADE_GRANTS: Record<string, string[]> = {
+  read: [
+    'Ministry Admin',
+    'Regional Admin',
+    'School Admin',
+    'Teacher',
+    'Parent',
+  ],
+  write: ['Ministry Admin', 'Regional Admin', 'School Admin', 'Teacher'],
+  delete: ['Ministry Admin', 'Regional Admin', 'School Admin', 'Teacher'],
+};
+
+// Grading scales are shared by all schools, only the ministry manages them
+const GRADING_SCALE_GRANTS: Record<string, string[]> = {
+  read: [
+    'Ministry Admin',
+    'Regional Admin',
+    'School Admin',
+    'Teacher',
+    'Parent',
+  ],
+  write: ['Ministry Admin'],
+  delete: ['Ministry Admin'],
+};
+
+const RESOURCE_GRANTS: [string, Record<string, string[]>][] = [
+  ['grades', GRADE_GRANTS],
+  ['grading-scales', GRADING_SCALE_GRANTS],
+];
+
+const GRADEBOOK_PERMISSIONS = RESOURCE_GRANTS.flatMap(([resource, grants]) =>
+  Object.keys(grants).map(action => `${resource}:${action}`)
+);
+
+// The 1-5 scale used by the schools, 5 is the best grade and 1 is failing
+const DEFAULT_GRADING_SCALE = {
+  name: '1-5',
+  description: 'Five point scale, 5 is excellent and 1 is insufficient',
+  isDefault: true,
+};
+
+const DEFAULT_GRADING_SCALE_BANDS = [
+  { grade: '5', minPercentage: 90 },
+  { grade: '4', minPercentage: 75 },
+  { grade: '3', minPercentage: 60 },
+  { grade: '2', minPercentage: 50 },
+  { grade: '1', minPercentage: 0 },
+];
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating gradebook tables...');
+
+  try {
+    // Set for staff accounts of teachers, grades can only be entered for the subjects the teacher teaches
+    await db.schema
+      .alterTable('users')
+      .addColumn('teacher_id', 'integer', col =>
+        col.references('teachers.id').onDelete('set null').unique()
+      )
+      .execute();
+
+    // Subjects taught in a class and the teacher teaching them
+    await db.schema
+      .createTable('class_subjects')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('class_id', 'integer', col =>
+        col.references('classes.id').onDelete('cascade').notNull()
+      )
+      .addColumn('subject_id', 'integer', col =>
+        col.references('subjects.id').onDelete('cascade').notNull()
+      )
+      .addColumn('teacher_id', 'integer', col =>
+        col.references('teachers.id').onDelete('set null')
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('class_subjects_class_subject_unique', [
+        'class_id',
+        'subject_id',
+      ])
+      .execute();
+
+    await db.schema
+      .createTable('assessments')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('class_subject_id', 'integer', col =>
+        col.references('class_subjects.id').onDelete('cascade').notNull()
+      )
+      .addColumn('term_id', 'integer', col =>
+        col.references('terms.id').onDelete('cascade').notNull()
+      )
+      .addColumn('name', 'varchar(100)', col => col.notNull())
+      .addColumn('type', 'varchar(20)', col =>
+        col
+          .check(
+            sql`type IN ('exam', 'test', 'quiz', 'homework', 'project', 'oral', 'other')`
+          )
+          .notNull()
+      )
+      .addColumn('weight', 'double precision', col =>
+        col
+          .defaultTo(1)
+          .check(sql`weight > 0`)
+          .notNull()
+      )
+      .addColumn('date', 'date', col => col.notNull())
+      .addColumn('max_score', 'double precision', col =>
+        col.check(sql`max_score > 0`).notNull()
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .execute();
+
+    await db.schema
+      .createTable('grades')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('assessment_id', 'integer', col =>
+        col.references('assessments.id').onDelete('cascade').notNull()
+      )
+      .addColumn('student_id', 'integer', col =>
+        col.references('students.id').onDelete('cascade').notNull()
+      )
+      .addColumn('score', 'double precision', col =>
+        col.check(sql`score >= 0`).notNull()
+      )
+      .addColumn('comment', 'varchar(500)', col => col)
+      .addColumn('graded_by', 'integer', col =>
+        col.references('users.id').onDelete('set null')
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('grades_assessment_student_unique', [
+        'assessment_id',
+        'student_id',
+      ])
+      .execute();
+
+    await db.schema
+      .createTable('grading_scales')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('name', 'varchar(100)', col => col.notNull())
+      .addColumn('description', 'varchar(255)', col => col)
+      .addColumn('is_default', 'boolean', col => col.defaultTo(false).notNull())
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('grading_scales_name_unique', ['name'])
+      .execute();
+
+    // A term average gets the grade of the band with the highest minimum it reaches
+    await db.schema
+      .createTable('grading_scale_bands')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('grading_scale_id', 'integer', col =>
+        col.references('grading_scales.id').onDelete('cascade').notNull()
+      )
+      .addColumn('grade', 'varchar(10)', col => col.notNull())
+      .addColumn('min_percentage', 'double precision', col =>
+        col.check(sql`min_percentage BETWEEN 0 AND 100`).notNull()
+      )
+      .addUniqueConstraint('grading_scale_bands_scale_grade_unique', [
+        'grading_scale_id',
+        'grade',
+      ])
+      .addUniqueConstraint('grading_scale_bands_scale_min_percentage_unique', [
+        'grading_scale_id',
+        'min_percentage',
+      ])
+      .execute();
+
+    // At most one default grading scale
+    await db.schema
+      .createIndex('idx_grading_scales_default')
+      .on('grading_scales')
+      .column('is_default')
+      .unique()
+      .where(sql.ref('is_default'), '=', true)
+      .execute();
+
+    await db.schema
+      .createIndex('idx_class_subjects_teacher_id')
+      .on('class_subjects')
+      .column('teacher_id')
+      .execute();
+
+    await db.schema
+      .createIndex('idx_assessments_class_subject_term')
+      .on('assessments')
+      .columns(['class_subject_id', 'term_id'])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_grades_student_id')
+      .on('grades')
+      .column('student_id')
+      .execute();
+
+    const scale = await db
+      .insertInto('gradingScales')
+      .values(DEFAULT_GRADING_SCALE)
+      .returning('id')
+      .executeTakeFirstOrThrow();
+
+    await db
+      .insertInto('gradingScaleBands')
+      .values(
+        DEFAULT_GRADING_SCALE_BANDS.map(band => ({
+          ...band,
+          gradingScaleId: scale.id,
+        }))
+      )
+      .execute();
+
+    for (const [resource, grants] of RESOURCE_GRANTS) {
+      await db
+        .insertInto('permissions')
+        .values(
+          Object.keys(grants).map(action => ({
+            name: `${resource}:${action}`,
+            description: `Allows ${action} access to ${resource}`,
+          }))
+        )
+        .onConflict(oc => oc.column('name').doNothing())
+        .execute();
+
+      for (const [action, roleNames] of Object.entries(grants)) {
+        await db
+          .insertInto('role_permissions')
+          .columns(['roleId', 'permissionId'])
+          .expression(eb =>
+            eb
+              .selectFrom('roles')
+              .crossJoin('permissions')
+              .select(['roles.id', 'permissions.id'])
+              .where('roles.name', 'in', roleNames)
+              .where('permissions.name', '=', `${resource}:${action}`)
+          )
+          .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+          .execute();
+      }
+    }
+
+    console.log('✅ Gradebook tables created successfully');
+  } catch (error) {
+    console.error('❌ Error creating gradebook tables:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping gradebook tables...');
+
+  try {
+    await db.schema.dropTable('grading_scale_bands').ifExists().execute();
+    await db.schema.dropTable('grading_scales').ifExists().execute();
+    await db.schema.dropTable('grades').ifExists().execute();
+    await db.schema.dropTable('assessments').ifExists().execute();
+    await db.schema.dropTable('class_subjects').ifExists().execute();
+    await db.schema.alterTable('users').dropColumn('teacher_id').execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', 'in', GRADEBOOK_PERMISSIONS)
+      .execute();
+
+    console.log('✅ Gradebook tables dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping gradebook tables:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+import { Kysely, sql } from 'kysely';
+
+// Roles granted each action on report cards by default, teachers write the remarks of their homeroom class
+const REPORT_CARD_GRANTS: Record<string, string[]> = {
+  read: [
+    'Ministry Admin',
+    'Regional Admin',
+    'School Admin',
+    'Teacher',
+    'Parent',
+  ],
+  write: ['Ministry Admin', 'Regional Admin', 'School Admin', 'Teacher'],
+};
+
+// Each school customises its own template
+const REPORT_CARD_TEMPLATE_GRANTS: Record<string, string[]> = {
+  read: ['Ministry Admin', 'Regional Admin', 'School Admin', 'Teacher'],
+  write: ['Ministry Admin', 'Regional Admin', 'School Admin'],
+  delete: ['Ministry Admin', 'Regional Admin', 'School Admin'],
+};
+
+const RESOURCE_GRANTS: [string, Record<string, string[]>][] = [
+  ['report-cards', REPORT_CARD_GRANTS],
+  ['report-card-templates', REPORT_CARD_TEMPLATE_GRANTS],
+];
+
+const REPORT_CARD_PERMISSIONS = RESOURCE_GRANTS.flatMap(([resource, grants]) =>
+  Object.keys(grants).map(action => `${resource}:${action}`)
+);
+
+export async function up(db: Kysely<any>): Promise<void> {
+  console.log('Creating report card tables...');
+
+  try {
+    // Schools without a template get the default layout
+    await db.schema
+      .createTable('report_card_templates')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('school_id', 'integer', col =>
+        col.references('schools.id').onDelete('cascade').notNull()
+      )
+      .addColumn('title', 'varchar(100)', col =>
+        col.defaultTo('Report Card').notNull()
+      )
+      .addColumn('header_text', 'varchar(500)', col => col)
+      .addColumn('footer_text', 'varchar(500)', col => col)
+      .addColumn('remarks_title', 'varchar(100)', col =>
+        col.defaultTo('Homeroom teacher remarks').notNull()
+      )
+      .addColumn('show_attendance', 'boolean', col =>
+        col.defaultTo(true).notNull()
+      )
+      .addColumn('show_subject_teachers', 'boolean', col =>
+        col.defaultTo(true).notNull()
+      )
+      .addColumn('grading_scale_id', 'integer', col =>
+        col.references('grading_scales.id').onDelete('set null')
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('report_card_templates_school_unique', ['school_id'])
+      .execute();
+
+    // Remarks of the homeroom teacher printed on the student's report card for the term
+    await db.schema
+      .createTable('report_card_remarks')
+      .addColumn('id', 'serial', col => col.primaryKey())
+      .addColumn('student_id', 'integer', col =>
+        col.references('students.id').onDelete('cascade').notNull()
+      )
+      .addColumn('term_id', 'integer', col =>
+        col.references('terms.id').onDelete('cascade').notNull()
+      )
+      .addColumn('remarks', 'varchar(1000)', col => col.notNull())
+      .addColumn('written_by', 'integer', col =>
+        col.references('users.id').onDelete('set null')
+      )
+      .addColumn('created_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addColumn('updated_at', 'timestamp', col =>
+        col.defaultTo(sql`CURRENT_TIMESTAMP`).notNull()
+      )
+      .addUniqueConstraint('report_card_remarks_student_term_unique', [
+        'student_id',
+        'term_id',
+      ])
+      .execute();
+
+    await db.schema
+      .createIndex('idx_report_card_remarks_term_id')
+      .on('report_card_remarks')
+      .column('term_id')
+      .execute();
+
+    for (const [resource, grants] of RESOURCE_GRANTS) {
+      await db
+        .insertInto('permissions')
+        .values(
+          Object.keys(grants).map(action => ({
+            name: `${resource}:${action}`,
+            description: `Allows ${action} access to ${resource}`,
+          }))
+        )
+        .onConflict(oc => oc.column('name').doNothing())
+        .execute();
+
+      for (const [action, roleNames] of Object.entries(grants)) {
+        await db
+          .insertInto('role_permissions')
+          .columns(['roleId', 'permissionId'])
+          .expression(eb =>
+            eb
+              .selectFrom('roles')
+              .crossJoin('permissions')
+              .select(['roles.id', 'permissions.id'])
+              .where('roles.name', 'in', roleNames)
+              .where('permissions.name', '=', `${resource}:${action}`)
+          )
+          .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+          .execute();
+      }
+    }
+
+    console.log('✅ Report card tables created successfully');
+  } catch (error) {
+    console.error('❌ Error creating report card tables:', error);
+    throw error;
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  console.log('Dropping report card tables...');
+
+  try {
+    await db.schema.dropTable('report_card_remarks').ifExists().execute();
+    await db.schema.dropTable('report_card_templates').ifExists().execute();
+    await db
+      .deleteFrom('permissions')
+      .where('name', 'in', REPORT_CARD_PERMISSIONS)
+      .execute();
+
+    console.log('✅ Report card tables dropped successfully');
+  } catch (error) {
+    console.error('❌ Error dropping report card tables:', error);
+    throw error;
+  }
+}
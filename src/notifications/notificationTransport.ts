@@ -0,0 +1,55 @@
+import { getMailTransport, type MailTransport } from '../mail/mailTransport';
+import type { NotificationMessage } from '../types/general';
+
+export interface NotificationTransport {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+// Delivers notifications by email through the configured mail transport
+export class MailNotificationTransport implements NotificationTransport {
+  constructor(private mailTransport: MailTransport) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    if (!message.to.email) {
+      throw new Error('Notification recipient has no email address');
+    }
+
+    await this.mailTransport.send({
+      to: message.to.email,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+// Keeps notifications in memory so tests can inspect what would have been sent
+export class InMemoryNotificationTransport implements NotificationTransport {
+  public outbox: NotificationMessage[] = [];
+
+  send(message: NotificationMessage): Promise<void> {
+    this.outbox.push(message);
+    return Promise.resolve();
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+let notificationTransport: NotificationTransport | null = null;
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!notificationTransport) {
+    const defaultTransport =
+      process.env['NODE_ENV'] === 'test' ? 'memory' : 'mail';
+    const transport = process.env['NOTIFICATION_TRANSPORT'] || defaultTransport;
+
+    if (transport === 'memory') {
+      notificationTransport = new InMemoryNotificationTransport();
+    } else {
+      notificationTransport = new MailNotificationTransport(getMailTransport());
+    }
+  }
+
+  return notificationTransport;
+}
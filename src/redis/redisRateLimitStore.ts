@@ -0,0 +1,67 @@
+import Redis from 'ioredis';
+import type {
+  ClientRateLimitInfo,
+  IncrementResponse,
+  Options,
+  Store,
+} from 'express-rate-limit';
+
+// Increments the counter and starts the window on the first hit, in one step so concurrent requests cannot skip the expiry
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+// Fixed window hit counters in Redis, shared by all app instances and kept across restarts
+export class RedisRateLimitStore implements Store {
+  private redis: Redis;
+  private windowMs = 60 * 1000;
+  readonly prefix: string;
+  readonly localKeys = false;
+
+  constructor(redis: Redis, prefix: string) {
+    this.redis = redis;
+    this.prefix = prefix;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const [hits, ttl] = await Promise.all([
+      this.redis.get(this.prefix + key),
+      this.redis.pttl(this.prefix + key),
+    ]);
+    if (hits === null) return;
+
+    return {
+      totalHits: parseInt(hits, 10),
+      resetTime: new Date(Date.now() + Math.max(ttl, 0)),
+    };
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const [totalHits, ttl] = (await this.redis.eval(
+      INCREMENT_SCRIPT,
+      1,
+      this.prefix + key,
+      this.windowMs
+    )) as [number, number];
+
+    return { totalHits, resetTime: new Date(Date.now() + ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.redis.decr(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.redis.del(this.prefix + key);
+  }
+}
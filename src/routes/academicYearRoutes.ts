@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { academicYearController } from '../controllers/academicYearController';
+import { authMiddleware } from '../controllers/authController';
+import { SecurityConfig } from '../config/securityConfig';
+
+const router = Router();
+
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+
+// Protected routes
+router.use(authMiddleware.authenticate);
+
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:read'),
+  academicYearController.getAll
+);
+router.get(
+  '/current',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:read'),
+  academicYearController.getCurrent
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:read'),
+  academicYearController.getById
+);
+router.get(
+  '/:id/terms',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:read'),
+  academicYearController.getTerms
+);
+
+router.use(authMiddleware.csrfProtection);
+
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:write'),
+  academicYearController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:write'),
+  academicYearController.update
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:delete'),
+  academicYearController.delete
+);
+router.post(
+  '/:id/terms',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:write'),
+  academicYearController.createTerm
+);
+router.put(
+  '/:id/terms/:termId',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:write'),
+  academicYearController.updateTerm
+);
+router.delete(
+  '/:id/terms/:termId',
+  generalLimiter,
+  authMiddleware.authorize('academic-years:delete'),
+  academicYearController.deleteTerm
+);
+
+export { router as academicYearRoutes };
@@ -0,0 +1,41 @@
+import express from 'express';
+import { apiKeyController } from '../controllers/apiKeyController';
+import { SecurityConfig } from '../config/securityConfig';
+import { authMiddleware } from '../controllers/authController';
+
+export const router = express.Router();
+
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+
+// Protected routes
+router.use(authMiddleware.authenticate);
+
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('api-keys:read'),
+  apiKeyController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('api-keys:read'),
+  apiKeyController.getById
+);
+
+router.use(authMiddleware.csrfProtection);
+
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('api-keys:write'),
+  apiKeyController.create
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('api-keys:delete'),
+  apiKeyController.revoke
+);
+
+export { router as apiKeyRoutes };
@@ -0,0 +1,20 @@
+import express from 'express';
+import { auditController } from '../controllers/auditController';
+import { SecurityConfig } from '../config/securityConfig';
+import { authMiddleware } from '../controllers/authController';
+
+export const router = express.Router();
+
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+
+// Protected routes
+router.use(authMiddleware.authenticate);
+
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('audit:read'),
+  auditController.getAll
+);
+
+export { router as auditRoutes };
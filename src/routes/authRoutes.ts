@@ -4,20 +4,47 @@ import { SecurityConfig } from '../config/securityConfig';
 
 export const router = express.Router();
 
-const authLimiter = SecurityConfig.getAuthLimiter();
+const authLimiter = SecurityConfig.getRateLimiter('auth');
+const accountLimiter = SecurityConfig.getRateLimiter('account');
 
 // Public routes
 router.post('/register', authLimiter, authController.register);
 router.post('/login', authLimiter, authController.login);
+router.post('/login/2fa', authLimiter, authController.loginTwoFactor);
+router.get('/oidc/login', authLimiter, authController.oidcLogin);
+router.get('/oidc/callback', authLimiter, authController.oidcCallback);
 router.get('/refresh', authController.refreshToken);
+router.post('/forgot-password', authLimiter, authController.forgotPassword);
+router.post('/reset-password', authLimiter, authController.resetPassword);
+router.post('/verify-email', authLimiter, authController.verifyEmail);
+router.post('/accept-invitation', authLimiter, authController.acceptInvitation);
 
 // Protected routes
-router.use(authMiddleware.authenticate); // Apply authentication to all routes below
+// Unverified users can still reach these, verification is enforced on all other routes
+router.use(authMiddleware.authenticateAllowUnverified); // Apply authentication to all routes below
 
 router.get('/csrf-token', authController.getCSRFToken);
 router.get('/logout', authController.logout);
+router.get('/sessions', authController.getSessions);
 
 router.use(authMiddleware.csrfProtection); // Apply authentication to all routes below
 router.post('/logout-all', authController.logoutAll);
+router.post('/change-password', accountLimiter, authController.changePassword);
+router.delete('/sessions/:id', authController.revokeSession);
+router.post(
+  '/resend-verification',
+  accountLimiter,
+  authController.resendVerification
+);
+
+// Two-factor authentication
+router.post('/2fa/enroll', accountLimiter, authController.enrollTwoFactor);
+router.post('/2fa/confirm', accountLimiter, authController.confirmTwoFactor);
+router.post('/2fa/disable', accountLimiter, authController.disableTwoFactor);
+router.post(
+  '/2fa/recovery-codes',
+  accountLimiter,
+  authController.regenerateRecoveryCodes
+);
 
 export { router as authRoutes };
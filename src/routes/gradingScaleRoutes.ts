@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { gradingScaleController } from '../controllers/gradingScaleController';
+import { authMiddleware } from '../controllers/authController';
+import { SecurityConfig } from '../config/securityConfig';
+
+const router = Router();
+
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+
+// Protected routes
+router.use(authMiddleware.authenticate);
+
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('grading-scales:read'),
+  gradingScaleController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('grading-scales:read'),
+  gradingScaleController.getById
+);
+
+router.use(authMiddleware.csrfProtection);
+
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('grading-scales:write'),
+  gradingScaleController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('grading-scales:write'),
+  gradingScaleController.update
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('grading-scales:delete'),
+  gradingScaleController.delete
+);
+
+export { router as gradingScaleRoutes };
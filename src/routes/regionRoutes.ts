@@ -5,18 +5,43 @@ import { SecurityConfig } from '../config/securityConfig';
 
 const router = Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
 
-router.get('/', generalLimiter, regionController.getAll);
-router.get('/:id', generalLimiter, regionController.getById);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('regions:read'),
+  regionController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('regions:read'),
+  regionController.getById
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, regionController.create);
-router.put('/:id', generalLimiter, regionController.update);
-router.delete('/:id', generalLimiter, regionController.delete);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('regions:write'),
+  regionController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('regions:write'),
+  regionController.update
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('regions:delete'),
+  regionController.delete
+);
 
 export { router as regionRoutes };
@@ -5,18 +5,61 @@ import { authMiddleware } from '../controllers/authController';
 
 export const router = express.Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
 
-router.get('/', generalLimiter, roleController.getAll);
-router.get('/:id', generalLimiter, roleController.getById);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('roles:read'),
+  roleController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('roles:read'),
+  roleController.getById
+);
+router.get(
+  '/:id/permissions',
+  generalLimiter,
+  authMiddleware.authorize('roles:read'),
+  roleController.getPermissions
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, roleController.create);
-router.put('/:id', generalLimiter, roleController.update);
-router.delete('/:id', generalLimiter, roleController.delete);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('roles:write'),
+  roleController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('roles:write'),
+  roleController.update
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('roles:delete'),
+  roleController.delete
+);
+router.post(
+  '/:id/permissions',
+  generalLimiter,
+  authMiddleware.authorize('roles:write'),
+  roleController.grantPermission
+);
+router.delete(
+  '/:id/permissions/:permission',
+  generalLimiter,
+  authMiddleware.authorize('roles:write'),
+  roleController.revokePermission
+);
 
 export { router as roleRoutes };
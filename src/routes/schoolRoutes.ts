@@ -1,44 +1,271 @@
 // schoolRoutes.ts
 import express from 'express';
 import { schoolController } from '../controllers/schoolController';
+import { classController } from '../controllers/classController';
+import { attendanceController } from '../controllers/attendanceController';
+import { gradeController } from '../controllers/gradeController';
+import { reportCardController } from '../controllers/reportCardController';
 import { authMiddleware } from '../controllers/authController';
 import { SecurityConfig } from '../config/securityConfig';
 
 export const router = express.Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+const bulkLimiter = SecurityConfig.getRateLimiter('bulk');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
 
-router.get('/', generalLimiter, schoolController.getAll);
-router.get('/:id', generalLimiter, schoolController.getById);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('schools:read'),
+  schoolController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('schools:read'),
+  schoolController.getById
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, schoolController.create);
-router.put('/:id', generalLimiter, schoolController.update);
-router.delete('/:id', generalLimiter, schoolController.delete);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('schools:write'),
+  schoolController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('schools:write'),
+  schoolController.update
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('schools:delete'),
+  schoolController.delete
+);
 
 router.get(
   '/:id/employment-history',
   generalLimiter,
+  authMiddleware.authorize('schools:read'),
   schoolController.getSchoolEmploymentHistory
 );
 router.get(
   '/:id/teacher-assignments',
   generalLimiter,
+  authMiddleware.authorize('schools:read'),
   schoolController.getSchoolTeacherAssignments
 );
 router.get(
   '/:id/current-teachers',
   generalLimiter,
+  authMiddleware.authorize('schools:read'),
   schoolController.getSchoolCurrentTeachers
 );
 router.get(
   '/:id/teacher-summary',
   generalLimiter,
+  authMiddleware.authorize('schools:read'),
   schoolController.getSchoolTeacherSummary
 );
+router.get(
+  '/:id/report-card-template',
+  generalLimiter,
+  authMiddleware.authorize('report-card-templates:read'),
+  reportCardController.getTemplate
+);
+router.put(
+  '/:id/report-card-template',
+  generalLimiter,
+  authMiddleware.authorize('report-card-templates:write'),
+  reportCardController.saveTemplate
+);
+router.delete(
+  '/:id/report-card-template',
+  generalLimiter,
+  authMiddleware.authorize('report-card-templates:delete'),
+  reportCardController.deleteTemplate
+);
+
+router.get(
+  '/:id/classes',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  classController.getAll
+);
+router.post(
+  '/:id/classes',
+  generalLimiter,
+  authMiddleware.authorize('classes:write'),
+  classController.create
+);
+router.get(
+  '/:id/classes/:classId',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  classController.getById
+);
+router.put(
+  '/:id/classes/:classId',
+  generalLimiter,
+  authMiddleware.authorize('classes:write'),
+  classController.update
+);
+router.delete(
+  '/:id/classes/:classId',
+  generalLimiter,
+  authMiddleware.authorize('classes:delete'),
+  classController.delete
+);
+router.get(
+  '/:id/classes/:classId/students',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  classController.getStudents
+);
+router.post(
+  '/:id/classes/:classId/students',
+  generalLimiter,
+  authMiddleware.authorize('classes:write'),
+  classController.placeStudents
+);
+router.post(
+  '/:id/classes/:classId/students/:studentId/move',
+  generalLimiter,
+  authMiddleware.authorize('classes:write'),
+  classController.moveStudent
+);
+router.delete(
+  '/:id/classes/:classId/students/:studentId',
+  generalLimiter,
+  authMiddleware.authorize('classes:delete'),
+  classController.removeStudent
+);
+// Class register, reading it also needs access to the class so parents only see their own children's attendance
+router.get(
+  '/:id/classes/:classId/attendance',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('attendance:read'),
+  attendanceController.getClassAttendance
+);
+router.post(
+  '/:id/classes/:classId/attendance',
+  generalLimiter,
+  authMiddleware.authorize('attendance:write'),
+  attendanceController.markClassAttendance
+);
+router.get(
+  '/:id/classes/:classId/subjects',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  classController.getSubjects
+);
+router.post(
+  '/:id/classes/:classId/subjects',
+  generalLimiter,
+  authMiddleware.authorize('classes:write'),
+  classController.assignSubject
+);
+router.put(
+  '/:id/classes/:classId/subjects/:classSubjectId',
+  generalLimiter,
+  authMiddleware.authorize('classes:write'),
+  classController.updateSubject
+);
+router.delete(
+  '/:id/classes/:classId/subjects/:classSubjectId',
+  generalLimiter,
+  authMiddleware.authorize('classes:delete'),
+  classController.removeSubject
+);
+
+// Gradebook of the class, reading it also needs access to the class so parents only see their own children's grades
+router.get(
+  '/:id/classes/:classId/assessments',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('grades:read'),
+  gradeController.getAssessments
+);
+router.post(
+  '/:id/classes/:classId/assessments',
+  generalLimiter,
+  authMiddleware.authorize('grades:write'),
+  gradeController.createAssessment
+);
+router.get(
+  '/:id/classes/:classId/assessments/:assessmentId',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('grades:read'),
+  gradeController.getAssessment
+);
+router.put(
+  '/:id/classes/:classId/assessments/:assessmentId',
+  generalLimiter,
+  authMiddleware.authorize('grades:write'),
+  gradeController.updateAssessment
+);
+router.delete(
+  '/:id/classes/:classId/assessments/:assessmentId',
+  generalLimiter,
+  authMiddleware.authorize('grades:delete'),
+  gradeController.deleteAssessment
+);
+router.get(
+  '/:id/classes/:classId/assessments/:assessmentId/grades',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('grades:read'),
+  gradeController.getAssessmentGrades
+);
+router.put(
+  '/:id/classes/:classId/assessments/:assessmentId/grades',
+  generalLimiter,
+  authMiddleware.authorize('grades:write'),
+  gradeController.enterGrades
+);
+router.delete(
+  '/:id/classes/:classId/assessments/:assessmentId/grades/:studentId',
+  generalLimiter,
+  authMiddleware.authorize('grades:delete'),
+  gradeController.deleteGrade
+);
+router.get(
+  '/:id/classes/:classId/term-averages',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('grades:read'),
+  gradeController.getClassTermAverages
+);
+
+// Report cards of the class, generating them renders a PDF per student
+router.get(
+  '/:id/classes/:classId/report-card-remarks',
+  generalLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('report-cards:read'),
+  reportCardController.getClassRemarks
+);
+router.put(
+  '/:id/classes/:classId/report-card-remarks',
+  generalLimiter,
+  authMiddleware.authorize('report-cards:write'),
+  reportCardController.enterRemarks
+);
+router.get(
+  '/:id/classes/:classId/report-cards',
+  bulkLimiter,
+  authMiddleware.authorize('classes:read'),
+  authMiddleware.authorize('report-cards:read'),
+  reportCardController.getClassReportCards
+);
 
 export { router as schoolRoutes };
@@ -1,11 +1,16 @@
 import { Router } from 'express';
 import { studentController } from '../controllers/studentController';
-import { authMiddleware } from '../controllers/authController';
+import { guardianController } from '../controllers/guardianController';
+import { attendanceController } from '../controllers/attendanceController';
+import { gradeController } from '../controllers/gradeController';
+import { reportCardController } from '../controllers/reportCardController';
+import { authController, authMiddleware } from '../controllers/authController';
 import { SecurityConfig } from '../config/securityConfig';
 
 const router = Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+const bulkLimiter = SecurityConfig.getRateLimiter('bulk');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
@@ -13,31 +18,167 @@ router.use(authMiddleware.authenticate);
 router.get(
   '/statistics',
   generalLimiter,
+  authMiddleware.authorize('students:read'),
   studentController.getStudentStatistics
 );
-router.get('/', generalLimiter, studentController.getStudents);
-router.get('/:id', generalLimiter, studentController.getStudentById);
+router.get(
+  '/attendance/summary',
+  generalLimiter,
+  authMiddleware.authorize('attendance:read'),
+  attendanceController.getAttendanceSummary
+);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('students:read'),
+  studentController.getStudents
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('students:read'),
+  studentController.getStudentById
+);
+router.get(
+  '/:id/enrollment-history',
+  generalLimiter,
+  authMiddleware.authorize('students:read'),
+  studentController.getStudentEnrollmentHistory
+);
+router.get(
+  '/:id/classes',
+  generalLimiter,
+  authMiddleware.authorize('students:read'),
+  studentController.getStudentClasses
+);
+router.get(
+  '/:id/guardians',
+  generalLimiter,
+  authMiddleware.authorize('students:read'),
+  guardianController.getAll
+);
+router.get(
+  '/:id/guardians/:guardianId',
+  generalLimiter,
+  authMiddleware.authorize('students:read'),
+  guardianController.getById
+);
+router.get(
+  '/:id/attendance',
+  generalLimiter,
+  authMiddleware.authorize('attendance:read'),
+  attendanceController.getStudentAttendance
+);
+router.get(
+  '/:id/attendance/summary',
+  generalLimiter,
+  authMiddleware.authorize('attendance:read'),
+  attendanceController.getStudentAttendanceSummary
+);
+router.get(
+  '/:id/grades',
+  generalLimiter,
+  authMiddleware.authorize('grades:read'),
+  gradeController.getStudentGrades
+);
+router.get(
+  '/:id/term-averages',
+  generalLimiter,
+  authMiddleware.authorize('grades:read'),
+  gradeController.getStudentTermAverages
+);
+router.get(
+  '/:id/report-card',
+  generalLimiter,
+  authMiddleware.authorize('report-cards:read'),
+  reportCardController.getStudentReportCard
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, studentController.createStudent);
-router.put('/:id', generalLimiter, studentController.updateStudent);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('students:write'),
+  studentController.createStudent
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('students:write'),
+  studentController.updateStudent
+);
 router.patch(
   '/:id/deactivate',
   generalLimiter,
+  authMiddleware.authorize('students:write'),
   studentController.softDeleteStudent
 );
 router.patch(
   '/:id/reactivate',
   generalLimiter,
+  authMiddleware.authorize('students:write'),
   studentController.reactivateStudent
 );
 router.patch(
   '/:id/transfer',
   generalLimiter,
+  authMiddleware.authorize('students:write'),
   studentController.transferStudent
 );
-router.delete('/:id', generalLimiter, studentController.deleteStudent);
-router.post('/bulk', generalLimiter, studentController.createStudents);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('students:delete'),
+  studentController.deleteStudent
+);
+router.post(
+  '/bulk',
+  bulkLimiter,
+  authMiddleware.authorize('students:write'),
+  studentController.createStudents
+);
+router.post(
+  '/:id/guardians',
+  generalLimiter,
+  authMiddleware.authorize('students:write'),
+  guardianController.create
+);
+router.put(
+  '/:id/guardians/:guardianId',
+  generalLimiter,
+  authMiddleware.authorize('students:write'),
+  guardianController.update
+);
+router.post(
+  '/:id/guardians/:guardianId/invitation',
+  generalLimiter,
+  authMiddleware.authorize('students:write'),
+  authController.inviteGuardian
+);
+router.delete(
+  '/:id/guardians/:guardianId',
+  generalLimiter,
+  authMiddleware.authorize('students:delete'),
+  guardianController.delete
+);
+router.post(
+  '/:id/attendance',
+  generalLimiter,
+  authMiddleware.authorize('attendance:write'),
+  attendanceController.recordStudentAttendance
+);
+router.put(
+  '/:id/attendance/:attendanceId',
+  generalLimiter,
+  authMiddleware.authorize('attendance:write'),
+  attendanceController.updateStudentAttendance
+);
+router.delete(
+  '/:id/attendance/:attendanceId',
+  generalLimiter,
+  authMiddleware.authorize('attendance:delete'),
+  attendanceController.deleteStudentAttendance
+);
 
 export { router as studentRoutes };
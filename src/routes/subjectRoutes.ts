@@ -5,19 +5,49 @@ import { SecurityConfig } from '../config/securityConfig';
 
 const router = Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
 
-router.get('/', generalLimiter, subjectController.getAll);
-router.get('/:id', generalLimiter, subjectController.getById);
-router.get('/code/:code', generalLimiter, subjectController.getByCode);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('subjects:read'),
+  subjectController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('subjects:read'),
+  subjectController.getById
+);
+router.get(
+  '/code/:code',
+  generalLimiter,
+  authMiddleware.authorize('subjects:read'),
+  subjectController.getByCode
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, subjectController.create);
-router.put('/:id', generalLimiter, subjectController.update);
-router.delete('/:id', generalLimiter, subjectController.delete);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('subjects:write'),
+  subjectController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('subjects:write'),
+  subjectController.update
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('subjects:delete'),
+  subjectController.delete
+);
 
 export { router as subjectRoutes };
@@ -5,35 +5,69 @@ import { SecurityConfig } from '../config/securityConfig';
 
 const router = Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
+const bulkLimiter = SecurityConfig.getRateLimiter('bulk');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
 
 // Main read operations
-router.get('/', generalLimiter, teacherController.getTeachers);
-router.get('/:id', generalLimiter, teacherController.getTeacherById);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('teachers:read'),
+  teacherController.getTeachers
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('teachers:read'),
+  teacherController.getTeacherById
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, teacherController.createTeacher);
-router.post('/bulk', generalLimiter, teacherController.createTeachers);
-router.put('/:id', generalLimiter, teacherController.updateTeacher);
-router.delete('/:id', generalLimiter, teacherController.deleteTeacher);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('teachers:write'),
+  teacherController.createTeacher
+);
+router.post(
+  '/bulk',
+  bulkLimiter,
+  authMiddleware.authorize('teachers:write'),
+  teacherController.createTeachers
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('teachers:write'),
+  teacherController.updateTeacher
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('teachers:delete'),
+  teacherController.deleteTeacher
+);
 
 router.get(
   '/:id/employment-history',
   generalLimiter,
+  authMiddleware.authorize('teachers:read'),
   teacherController.getTeacherEmploymentHistory
 );
 router.get(
   '/:id/current-schools',
   generalLimiter,
+  authMiddleware.authorize('teachers:read'),
   teacherController.getTeacherCurrentSchools
 );
 router.get(
   '/:id/school-summary',
   generalLimiter,
+  authMiddleware.authorize('teachers:read'),
   teacherController.getTeacherSchoolSummary
 );
 
@@ -1,22 +1,77 @@
 import express from 'express';
 import { userController } from '../controllers/userController';
-import { authMiddleware } from '../controllers/authController';
+import { authController, authMiddleware } from '../controllers/authController';
 import { SecurityConfig } from '../config/securityConfig';
 
 export const router = express.Router();
 
-const generalLimiter = SecurityConfig.getGeneralLimiter();
+const generalLimiter = SecurityConfig.getRateLimiter('general');
 
 // Protected routes
 router.use(authMiddleware.authenticate);
 
-router.get('/', generalLimiter, userController.getAll);
-router.get('/:id', generalLimiter, userController.getById);
+router.get(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('users:read'),
+  userController.getAll
+);
+router.get(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('users:read'),
+  userController.getById
+);
+router.get(
+  '/:id/security-events',
+  generalLimiter,
+  authMiddleware.authorize('security-events:read'),
+  userController.getSecurityEvents
+);
 
 router.use(authMiddleware.csrfProtection);
 
-router.post('/', generalLimiter, userController.create);
-router.put('/:id', generalLimiter, userController.update);
-router.delete('/:id', generalLimiter, userController.delete);
+router.post(
+  '/',
+  generalLimiter,
+  authMiddleware.authorize('users:write'),
+  userController.create
+);
+router.put(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('users:write'),
+  userController.update
+);
+router.post(
+  '/:id/resend-verification',
+  generalLimiter,
+  authMiddleware.authorize('users:write'),
+  authController.resendUserVerification
+);
+router.post(
+  '/:id/verify-email',
+  generalLimiter,
+  authMiddleware.authorize('users:write'),
+  authController.forceVerifyUser
+);
+router.post(
+  '/:id/unlock',
+  generalLimiter,
+  authMiddleware.authorize('users:write'),
+  authController.unlockUser
+);
+router.post(
+  '/:id/impersonate',
+  generalLimiter,
+  authMiddleware.authorize('users:impersonate'),
+  authController.impersonateUser
+);
+router.delete(
+  '/:id',
+  generalLimiter,
+  authMiddleware.authorize('users:delete'),
+  userController.delete
+);
 
 export { router as userRoutes };
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+const academicYearFields = {
+  name: z
+    .string()
+    .trim()
+    .min(4, 'Academic year name must be at least 4 characters')
+    .max(50, 'Academic year name must not exceed 50 characters'),
+  startDate: z.coerce.date({ message: 'Start date must be a valid date' }),
+  endDate: z.coerce.date({ message: 'End date must be a valid date' }),
+  isCurrent: z.boolean({ message: 'Is current must be a boolean' }),
+};
+
+const termFields = {
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Term name must be at least 2 characters')
+    .max(50, 'Term name must not exceed 50 characters'),
+  startDate: z.coerce.date({ message: 'Start date must be a valid date' }),
+  endDate: z.coerce.date({ message: 'End date must be a valid date' }),
+  isCurrent: z.boolean({ message: 'Is current must be a boolean' }),
+};
+
+const hasValidDateRange = (data: {
+  startDate?: Date | undefined;
+  endDate?: Date | undefined;
+}): boolean =>
+  !data.startDate || !data.endDate || data.startDate < data.endDate;
+
+export const createAcademicYearSchema = z
+  .object({
+    ...academicYearFields,
+    isCurrent: academicYearFields.isCurrent.default(false),
+  })
+  .strict()
+  .refine(hasValidDateRange, {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  });
+
+// Only the dates which are sent are checked against each other here, the service checks the stored ones
+export const updateAcademicYearSchema = z
+  .object(academicYearFields)
+  .partial()
+  .strict()
+  .refine(hasValidDateRange, {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  });
+
+export const academicYearParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+  })
+  .strict();
+
+export const academicYearQuerySchema = z
+  .object({
+    page: z.coerce
+      .number({ message: 'Page must be a number' })
+      .int()
+      .positive({ message: 'Page must be a positive integer' })
+      .optional()
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'Page limit must be a number' })
+      .int()
+      .positive({ message: 'Page limit must be a positive integer' })
+      .optional()
+      .default(10),
+  })
+  .strict();
+
+export const createTermSchema = z
+  .object({
+    ...termFields,
+    isCurrent: termFields.isCurrent.default(false),
+  })
+  .strict()
+  .refine(hasValidDateRange, {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  });
+
+export const updateTermSchema = z
+  .object(termFields)
+  .partial()
+  .strict()
+  .refine(hasValidDateRange, {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  });
+
+export const termParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    termId: z.coerce
+      .number({ message: 'Term id must be a number' })
+      .int()
+      .positive({
+        message: 'Term id must be a positive integer',
+      }),
+  })
+  .strict();
+
+export type CreateAcademicYearInput = z.infer<typeof createAcademicYearSchema>;
+export type UpdateAcademicYearInput = z.infer<typeof updateAcademicYearSchema>;
+export type AcademicYearParams = z.infer<typeof academicYearParamsSchema>;
+export type AcademicYearQuery = z.infer<typeof academicYearQuerySchema>;
+export type CreateTermInput = z.infer<typeof createTermSchema>;
+export type UpdateTermInput = z.infer<typeof updateTermSchema>;
+export type TermParams = z.infer<typeof termParamsSchema>;
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+export const createApiKeySchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(3, 'Name must be at least 3 characters')
+      .max(100, 'Name must not exceed 100 characters'),
+    roleId: z
+      .number({ message: 'Role ID must be a number' })
+      .int('Role ID must be an integer')
+      .positive('Role ID must be positive')
+      .optional(),
+    permissions: z
+      .array(
+        z
+          .string()
+          .trim()
+          .regex(
+            /^[a-z-]+:[a-z-]+$/,
+            'Permission must be in the format <resource>:<action>'
+          )
+      )
+      .min(1, 'At least one permission is required')
+      .optional(),
+    schoolId: z
+      .number({ message: 'School ID must be a number' })
+      .int('School ID must be an integer')
+      .positive('School ID must be positive')
+      .optional(),
+    regionId: z
+      .number({ message: 'Region ID must be a number' })
+      .int('Region ID must be an integer')
+      .positive('Region ID must be positive')
+      .optional(),
+    rateLimit: z
+      .number({ message: 'Rate limit must be a number' })
+      .int('Rate limit must be an integer')
+      .min(1, 'Rate limit must be at least 1 request per minute')
+      .max(10000, 'Rate limit must not exceed 10000 requests per minute')
+      .optional(),
+    expiresAt: z.coerce
+      .date({ message: 'Expiry must be a valid date' })
+      .refine(date => date > new Date(), 'Expiry must be in the future')
+      .optional(),
+  })
+  .strict()
+  .refine(data => (data.roleId === undefined) !== !data.permissions, {
+    message: 'Either roleId or permissions must be provided, but not both',
+    path: ['permissions'],
+  })
+  .refine(data => !(data.schoolId && data.regionId), {
+    message: 'An API key can be limited to a school or a region, not both',
+    path: ['schoolId'],
+  });
+
+export const apiKeyParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+  })
+  .strict();
+
+export const apiKeyQuerySchema = z
+  .object({
+    page: z.coerce
+      .number({ message: 'Page must be a number' })
+      .int()
+      .positive({ message: 'Page must be a positive integer' })
+      .optional()
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'Page limit must be a number' })
+      .int()
+      .positive({ message: 'Page limit must be a positive integer' })
+      .optional()
+      .default(10),
+    includeRevoked: z
+      .string()
+      .optional()
+      .transform(val => val === 'true'),
+  })
+  .strict();
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ApiKeyParams = z.infer<typeof apiKeyParamsSchema>;
+export type ApiKeyQuery = z.infer<typeof apiKeyQuerySchema>;
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { AttendanceStatus } from '../types/database';
+
+const attendanceFields = {
+  status: z.nativeEnum(AttendanceStatus, {
+    errorMap: () => ({
+      message: `Status must be one of ${Object.values(AttendanceStatus).join(', ')}`,
+    }),
+  }),
+
+  excuseNote: z
+    .string()
+    .trim()
+    .min(1, 'Excuse note must not be empty')
+    .max(500, 'Excuse note must not exceed 500 characters')
+    .nullable(),
+};
+
+const attendanceDayFields = {
+  date: z.coerce.date({ message: 'Date must be a valid date' }),
+
+  // Lessons of the day, attendance without a period applies to the whole day
+  period: z
+    .number({ message: 'Period must be a number' })
+    .int()
+    .min(1, 'Period must be between 1 and 12')
+    .max(12, 'Period must be between 1 and 12')
+    .nullable(),
+};
+
+const dateRangeFields = {
+  from: z.coerce.date({ message: 'From must be a valid date' }).optional(),
+  to: z.coerce.date({ message: 'To must be a valid date' }).optional(),
+  academicYearId: z.coerce
+    .number({ message: 'Academic year ID must be a number' })
+    .int()
+    .positive({ message: 'Academic year ID must be a positive integer' })
+    .optional(),
+};
+
+const hasValidDateRange = (data: {
+  from?: Date | undefined;
+  to?: Date | undefined;
+}): boolean => !data.from || !data.to || data.from <= data.to;
+
+export const recordAttendanceSchema = z
+  .object({
+    ...attendanceDayFields,
+    period: attendanceDayFields.period.optional().default(null),
+    ...attendanceFields,
+    excuseNote: attendanceFields.excuseNote.optional().default(null),
+  })
+  .strict();
+
+// The day and period identify the record, only the status and note can be changed
+export const updateAttendanceSchema = z
+  .object(attendanceFields)
+  .partial()
+  .strict();
+
+// Takes the register of a whole class, every student gets `status` unless listed in `records`
+export const markClassAttendanceSchema = z
+  .object({
+    ...attendanceDayFields,
+    period: attendanceDayFields.period.optional().default(null),
+    status: attendanceFields.status
+      .optional()
+      .default(AttendanceStatus.Present),
+    records: z
+      .array(
+        z
+          .object({
+            studentId: z
+              .number({ message: 'Student ID must be a number' })
+              .int()
+              .positive({ message: 'Student ID must be a positive integer' }),
+            ...attendanceFields,
+            excuseNote: attendanceFields.excuseNote.optional().default(null),
+          })
+          .strict()
+      )
+      .max(200, 'Cannot record more than 200 students at once')
+      .refine(
+        records =>
+          new Set(records.map(record => record.studentId)).size ===
+          records.length,
+        { message: 'Student IDs must be unique' }
+      )
+      .optional()
+      .default([]),
+  })
+  .strict();
+
+export const attendanceParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    attendanceId: z.coerce
+      .number({ message: 'Attendance id must be a number' })
+      .int()
+      .positive({ message: 'Attendance id must be a positive integer' }),
+  })
+  .strict();
+
+export const attendanceQuerySchema = z
+  .object(dateRangeFields)
+  .strict()
+  .refine(hasValidDateRange, {
+    message: 'From must not be after to',
+    path: ['to'],
+  });
+
+export const classAttendanceQuerySchema = z
+  .object({
+    date: z.coerce.date({ message: 'Date must be a valid date' }),
+    period: z.coerce
+      .number({ message: 'Period must be a number' })
+      .int()
+      .min(1, 'Period must be between 1 and 12')
+      .max(12, 'Period must be between 1 and 12')
+      .optional(),
+  })
+  .strict();
+
+export const attendanceSummaryQuerySchema = z
+  .object({
+    ...dateRangeFields,
+    schoolId: z.coerce
+      .number({ message: 'School ID must be a number' })
+      .int()
+      .positive({ message: 'School ID must be a positive integer' })
+      .optional(),
+    // Students absent for at least this many school days in a row are listed
+    consecutiveAbsences: z.coerce
+      .number({ message: 'Consecutive absences must be a number' })
+      .int()
+      .min(2, 'Consecutive absences must be at least 2')
+      .max(30, 'Consecutive absences must not exceed 30')
+      .optional()
+      .default(3),
+    // Pages through the students with consecutive absences
+    page: z.coerce
+      .number({ message: 'Page must be a number' })
+      .int()
+      .positive({ message: 'Page must be a positive integer' })
+      .optional()
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'Page limit must be a number' })
+      .int()
+      .positive({ message: 'Page limit must be a positive integer' })
+      .max(100, 'Page limit cannot exceed 100')
+      .optional()
+      .default(20),
+  })
+  .strict()
+  .refine(hasValidDateRange, {
+    message: 'From must not be after to',
+    path: ['to'],
+  });
+
+export type RecordAttendanceInput = z.infer<typeof recordAttendanceSchema>;
+export type UpdateAttendanceInput = z.infer<typeof updateAttendanceSchema>;
+export type MarkClassAttendanceInput = z.infer<
+  typeof markClassAttendanceSchema
+>;
+export type AttendanceParams = z.infer<typeof attendanceParamsSchema>;
+export type AttendanceQuery = z.infer<typeof attendanceQuerySchema>;
+export type ClassAttendanceQuery = z.infer<typeof classAttendanceQuerySchema>;
+export type AttendanceSummaryQuery = z.infer<
+  typeof attendanceSummaryQuerySchema
+>;
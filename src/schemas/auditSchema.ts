@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+export const auditLogQuerySchema = z
+  .object({
+    page: z.coerce
+      .number({ message: 'Page must be a number' })
+      .int()
+      .positive({ message: 'Page must be a positive integer' })
+      .optional()
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'Page limit must be a number' })
+      .int()
+      .positive({ message: 'Page limit must be a positive integer' })
+      .max(100, { message: 'Page limit must not exceed 100' })
+      .optional()
+      .default(20),
+    entityType: z
+      .enum([
+        'academicYears',
+        'assessments',
+        'attendanceRecords',
+        'classes',
+        'classStudents',
+        'classSubjects',
+        'grades',
+        'gradingScales',
+        'guardians',
+        'regions',
+        'reportCardRemarks',
+        'reportCardTemplates',
+        'roles',
+        'rolePermissions',
+        'schools',
+        'studentGuardians',
+        'students',
+        'subjects',
+        'teachers',
+        'teacherSchools',
+        'terms',
+        'users',
+      ])
+      .optional(),
+    entityId: z.coerce
+      .number({ message: 'Entity ID must be a number' })
+      .int()
+      .positive({ message: 'Entity ID must be a positive integer' })
+      .optional(),
+    actorUserId: z.coerce
+      .number({ message: 'Actor user ID must be a number' })
+      .int()
+      .positive({ message: 'Actor user ID must be a positive integer' })
+      .optional(),
+    action: z.enum(['create', 'update', 'delete']).optional(),
+    from: z.coerce.date({ message: 'From must be a valid date' }).optional(),
+    to: z.coerce.date({ message: 'To must be a valid date' }).optional(),
+  })
+  .strict()
+  .refine(data => !data.from || !data.to || data.from <= data.to, {
+    message: 'From must not be after to',
+    path: ['from'],
+  });
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
@@ -1,6 +1,7 @@
 // regionSchema.ts
 import { z } from 'zod';
 import type { createRegionSchema } from './regionSchema';
+import { passwordSchema } from './userSchema';
 
 export const loginSchema = z
   .object({
@@ -13,6 +14,90 @@ export const loginSchema = z
   })
   .strict();
 
+export const forgotPasswordSchema = z
+  .object({
+    email: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .email('Invalid email address')
+      .max(255, 'Email must not exceed 255 characters'),
+  })
+  .strict();
+
+export const resetPasswordSchema = z
+  .object({
+    token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid or expired reset token'),
+    password: passwordSchema,
+  })
+  .strict();
+
+export const acceptInvitationSchema = z
+  .object({
+    token: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/, 'Invalid or expired invitation token'),
+    password: passwordSchema,
+  })
+  .strict();
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: passwordSchema,
+  })
+  .strict();
+
+export const verifyEmailSchema = z
+  .object({
+    token: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/, 'Invalid or expired verification token'),
+  })
+  .strict();
+
+const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^(\d{6}|[a-fA-F0-9]{5}-?[a-fA-F0-9]{5})$/,
+    'Code must be a 6 digit authentication code or a recovery code'
+  );
+
+export const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z
+      .string()
+      .regex(/^[a-f0-9]{64}$/, 'Invalid or expired challenge token'),
+    code: twoFactorCodeSchema,
+  })
+  .strict();
+
+export const twoFactorCodeBodySchema = z
+  .object({
+    code: twoFactorCodeSchema,
+  })
+  .strict();
+
+export const disableTwoFactorSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required'),
+    code: twoFactorCodeSchema,
+  })
+  .strict();
+
+export const sessionParamsSchema = z
+  .object({
+    id: z.string().uuid('Session id must be a valid UUID'),
+  })
+  .strict();
+
+// Not strict, identity providers may append parameters such as iss or session_state
+export const oidcCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required'),
+});
+
 export const generateAuthTokensSchema = z
   .object({
     accessToken: z.string(),
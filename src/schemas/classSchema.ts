@@ -0,0 +1,174 @@
+import { z } from 'zod';
+
+const classFields = {
+  academicYearId: z.coerce
+    .number({ message: 'Academic year ID must be a number' })
+    .int()
+    .positive({ message: 'Academic year ID must be a positive integer' }),
+  gradeLevel: z.coerce
+    .number({ message: 'Grade level must be a number' })
+    .int()
+    .min(0, 'Grade level must be between 0 and 13')
+    .max(13, 'Grade level must be between 0 and 13'),
+  section: z
+    .string()
+    .trim()
+    .min(1, 'Section is required')
+    .max(20, 'Section must not exceed 20 characters'),
+  homeroomTeacherId: z.coerce
+    .number({ message: 'Homeroom teacher ID must be a number' })
+    .int()
+    .positive({ message: 'Homeroom teacher ID must be a positive integer' })
+    .nullable(),
+  capacity: z.coerce
+    .number({ message: 'Capacity must be a number' })
+    .int()
+    .positive({ message: 'Capacity must be a positive integer' })
+    .max(200, 'Capacity must not exceed 200'),
+};
+
+export const createClassSchema = z
+  .object({
+    ...classFields,
+    homeroomTeacherId: classFields.homeroomTeacherId.optional().default(null),
+  })
+  .strict();
+
+// The academic year of a class cannot change, its students are placed for that year
+export const updateClassSchema = z
+  .object({
+    gradeLevel: classFields.gradeLevel,
+    section: classFields.section,
+    homeroomTeacherId: classFields.homeroomTeacherId,
+    capacity: classFields.capacity,
+  })
+  .partial()
+  .strict();
+
+export const classParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    classId: z.coerce
+      .number({ message: 'Class id must be a number' })
+      .int()
+      .positive({ message: 'Class id must be a positive integer' }),
+  })
+  .strict();
+
+export const classStudentParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    classId: z.coerce
+      .number({ message: 'Class id must be a number' })
+      .int()
+      .positive({ message: 'Class id must be a positive integer' }),
+    studentId: z.coerce
+      .number({ message: 'Student id must be a number' })
+      .int()
+      .positive({ message: 'Student id must be a positive integer' }),
+  })
+  .strict();
+
+export const classQuerySchema = z
+  .object({
+    page: z.coerce
+      .number({ message: 'Page must be a number' })
+      .int()
+      .positive({ message: 'Page must be a positive integer' })
+      .optional()
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'Page limit must be a number' })
+      .int()
+      .positive({ message: 'Page limit must be a positive integer' })
+      .max(100, 'Page limit cannot exceed 100')
+      .optional()
+      .default(10),
+    academicYearId: classFields.academicYearId.optional(),
+    gradeLevel: classFields.gradeLevel.optional(),
+  })
+  .strict();
+
+export const placeStudentsSchema = z
+  .object({
+    studentIds: z
+      .array(
+        z
+          .number({ message: 'Student ID must be a number' })
+          .int()
+          .positive({ message: 'Student ID must be a positive integer' })
+      )
+      .min(1, 'At least one student is required')
+      .max(200, 'Cannot place more than 200 students at once')
+      .refine(ids => new Set(ids).size === ids.length, {
+        message: 'Student IDs must be unique',
+      }),
+  })
+  .strict();
+
+export const moveStudentSchema = z
+  .object({
+    classId: z
+      .number({ message: 'Class ID must be a number' })
+      .int()
+      .positive({ message: 'Class ID must be a positive integer' }),
+  })
+  .strict();
+
+export const assignClassSubjectSchema = z
+  .object({
+    subjectId: z
+      .number({ message: 'Subject ID must be a number' })
+      .int()
+      .positive({ message: 'Subject ID must be a positive integer' }),
+    teacherId: z
+      .number({ message: 'Teacher ID must be a number' })
+      .int()
+      .positive({ message: 'Teacher ID must be a positive integer' })
+      .nullable()
+      .optional()
+      .default(null),
+  })
+  .strict();
+
+// The subject of a class subject cannot change, only its teacher
+export const updateClassSubjectSchema = z
+  .object({
+    teacherId: z
+      .number({ message: 'Teacher ID must be a number' })
+      .int()
+      .positive({ message: 'Teacher ID must be a positive integer' })
+      .nullable(),
+  })
+  .strict();
+
+export const classSubjectParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    classId: z.coerce
+      .number({ message: 'Class id must be a number' })
+      .int()
+      .positive({ message: 'Class id must be a positive integer' }),
+    classSubjectId: z.coerce
+      .number({ message: 'Class subject id must be a number' })
+      .int()
+      .positive({ message: 'Class subject id must be a positive integer' }),
+  })
+  .strict();
+
+export type CreateClassInput = z.infer<typeof createClassSchema>;
+export type UpdateClassInput = z.infer<typeof updateClassSchema>;
+export type ClassParams = z.infer<typeof classParamsSchema>;
+export type ClassStudentParams = z.infer<typeof classStudentParamsSchema>;
+export type ClassQuery = z.infer<typeof classQuerySchema>;
+export type PlaceStudentsInput = z.infer<typeof placeStudentsSchema>;
+export type MoveStudentInput = z.infer<typeof moveStudentSchema>;
+export type AssignClassSubjectInput = z.infer<typeof assignClassSubjectSchema>;
+export type UpdateClassSubjectInput = z.infer<typeof updateClassSubjectSchema>;
+export type ClassSubjectParams = z.infer<typeof classSubjectParamsSchema>;
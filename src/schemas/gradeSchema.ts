@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { AssessmentType } from '../types/database';
+
+const termIdField = z.coerce
+  .number({ message: 'Term ID must be a number' })
+  .int()
+  .positive({ message: 'Term ID must be a positive integer' });
+
+const gradingScaleIdField = z.coerce
+  .number({ message: 'Grading scale ID must be a number' })
+  .int()
+  .positive({ message: 'Grading scale ID must be a positive integer' });
+
+const assessmentFields = {
+  classSubjectId: z
+    .number({ message: 'Class subject ID must be a number' })
+    .int()
+    .positive({ message: 'Class subject ID must be a positive integer' }),
+  termId: termIdField,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Assessment name is required')
+    .max(100, 'Assessment name must not exceed 100 characters'),
+  type: z.nativeEnum(AssessmentType, {
+    errorMap: () => ({
+      message: `Type must be one of ${Object.values(AssessmentType).join(', ')}`,
+    }),
+  }),
+  // Relative weight of the assessment in the term average
+  weight: z
+    .number({ message: 'Weight must be a number' })
+    .positive({ message: 'Weight must be positive' })
+    .max(100, 'Weight must not exceed 100'),
+  date: z.coerce.date({ message: 'Date must be a valid date' }),
+  maxScore: z
+    .number({ message: 'Max score must be a number' })
+    .positive({ message: 'Max score must be positive' })
+    .max(1000, 'Max score must not exceed 1000'),
+};
+
+export const createAssessmentSchema = z
+  .object({
+    ...assessmentFields,
+    weight: assessmentFields.weight.optional().default(1),
+  })
+  .strict();
+
+// The subject and term of an assessment cannot change, its grades were given for them
+export const updateAssessmentSchema = z
+  .object({
+    name: assessmentFields.name,
+    type: assessmentFields.type,
+    weight: assessmentFields.weight,
+    date: assessmentFields.date,
+    maxScore: assessmentFields.maxScore,
+  })
+  .partial()
+  .strict();
+
+export const assessmentParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    classId: z.coerce
+      .number({ message: 'Class id must be a number' })
+      .int()
+      .positive({ message: 'Class id must be a positive integer' }),
+    assessmentId: z.coerce
+      .number({ message: 'Assessment id must be a number' })
+      .int()
+      .positive({ message: 'Assessment id must be a positive integer' }),
+  })
+  .strict();
+
+export const gradeParamsSchema = assessmentParamsSchema
+  .extend({
+    studentId: z.coerce
+      .number({ message: 'Student id must be a number' })
+      .int()
+      .positive({ message: 'Student id must be a positive integer' }),
+  })
+  .strict();
+
+export const assessmentQuerySchema = z
+  .object({
+    classSubjectId: z.coerce
+      .number({ message: 'Class subject ID must be a number' })
+      .int()
+      .positive({ message: 'Class subject ID must be a positive integer' })
+      .optional(),
+    termId: termIdField.optional(),
+  })
+  .strict();
+
+// Enters the scores of the listed students, students not listed keep their grades
+export const enterGradesSchema = z
+  .object({
+    grades: z
+      .array(
+        z
+          .object({
+            studentId: z
+              .number({ message: 'Student ID must be a number' })
+              .int()
+              .positive({ message: 'Student ID must be a positive integer' }),
+            score: z
+              .number({ message: 'Score must be a number' })
+              .min(0, 'Score must not be negative'),
+            comment: z
+              .string()
+              .trim()
+              .min(1, 'Comment must not be empty')
+              .max(500, 'Comment must not exceed 500 characters')
+              .nullable()
+              .optional()
+              .default(null),
+          })
+          .strict()
+      )
+      .min(1, 'At least one grade is required')
+      .max(200, 'Cannot enter more than 200 grades at once')
+      .refine(
+        grades =>
+          new Set(grades.map(grade => grade.studentId)).size === grades.length,
+        { message: 'Student IDs must be unique' }
+      ),
+  })
+  .strict();
+
+export const studentGradesQuerySchema = z
+  .object({
+    termId: termIdField.optional(),
+  })
+  .strict();
+
+// Averages are computed for one term, graded with the requested or the default grading scale
+export const termAveragesQuerySchema = z
+  .object({
+    termId: termIdField,
+    gradingScaleId: gradingScaleIdField.optional(),
+  })
+  .strict();
+
+export type CreateAssessmentInput = z.infer<typeof createAssessmentSchema>;
+export type UpdateAssessmentInput = z.infer<typeof updateAssessmentSchema>;
+export type AssessmentParams = z.infer<typeof assessmentParamsSchema>;
+export type GradeParams = z.infer<typeof gradeParamsSchema>;
+export type AssessmentQuery = z.infer<typeof assessmentQuerySchema>;
+export type EnterGradesInput = z.infer<typeof enterGradesSchema>;
+export type StudentGradesQuery = z.infer<typeof studentGradesQuerySchema>;
+export type TermAveragesQuery = z.infer<typeof termAveragesQuerySchema>;
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+const gradingScaleFields = {
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Grading scale name is required')
+    .max(100, 'Grading scale name must not exceed 100 characters'),
+  description: z
+    .string()
+    .trim()
+    .max(255, 'Description must not exceed 255 characters')
+    .nullable(),
+  isDefault: z.boolean({ message: 'Is default must be a boolean' }),
+
+  // Each band gives its grade to averages from its minimum up to the next band
+  bands: z
+    .array(
+      z
+        .object({
+          grade: z
+            .string()
+            .trim()
+            .min(1, 'Grade is required')
+            .max(10, 'Grade must not exceed 10 characters'),
+          minPercentage: z
+            .number({ message: 'Min percentage must be a number' })
+            .min(0, 'Min percentage must be between 0 and 100')
+            .max(100, 'Min percentage must be between 0 and 100'),
+        })
+        .strict()
+    )
+    .min(2, 'A grading scale needs at least 2 bands')
+    .max(20, 'A grading scale must not have more than 20 bands')
+    .refine(
+      bands => new Set(bands.map(band => band.grade)).size === bands.length,
+      { message: 'Grades must be unique' }
+    )
+    .refine(
+      bands =>
+        new Set(bands.map(band => band.minPercentage)).size === bands.length,
+      { message: 'Min percentages must be unique' }
+    )
+    .refine(bands => bands.some(band => band.minPercentage === 0), {
+      message: 'The lowest band must start at 0 so every average gets a grade',
+    }),
+};
+
+export const createGradingScaleSchema = z
+  .object({
+    ...gradingScaleFields,
+    description: gradingScaleFields.description.optional().default(null),
+    isDefault: gradingScaleFields.isDefault.optional().default(false),
+  })
+  .strict();
+
+// Bands which are sent replace all bands of the scale
+export const updateGradingScaleSchema = z
+  .object(gradingScaleFields)
+  .partial()
+  .strict();
+
+export const gradingScaleParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+  })
+  .strict();
+
+export type CreateGradingScaleInput = z.infer<typeof createGradingScaleSchema>;
+export type UpdateGradingScaleInput = z.infer<typeof updateGradingScaleSchema>;
+export type GradingScaleParams = z.infer<typeof gradingScaleParamsSchema>;
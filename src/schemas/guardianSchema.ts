@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { GuardianRelationship } from '../types/database';
+
+const guardianContactFields = {
+  firstName: z
+    .string()
+    .trim()
+    .min(2, 'First name must be at least 2 characters')
+    .max(100, 'First name must not exceed 100 characters'),
+
+  lastName: z
+    .string()
+    .trim()
+    .min(2, 'Last name must be at least 2 characters')
+    .max(100, 'Last name must not exceed 100 characters'),
+
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Please enter a valid email address')
+    .max(255, 'Email must not exceed 255 characters')
+    .nullable(),
+
+  phone: z
+    .string()
+    .trim()
+    .regex(
+      /^\+?[1-9]\d{0,15}$/,
+      'Phone number must be valid (10-16 digits, optional + prefix)'
+    )
+    .transform(phone => phone.replace(/\D/g, '')), // Remove non-digits
+
+  mobile: z
+    .string()
+    .trim()
+    .regex(
+      /^\+?[1-9]\d{0,15}$/,
+      'Mobile number must be valid (10-16 digits, optional + prefix)'
+    )
+    .transform(mobile => mobile.replace(/\D/g, '')) // Remove non-digits
+    .nullable(),
+
+  address: z
+    .string()
+    .trim()
+    .min(10, 'Address must be at least 10 characters')
+    .max(255, 'Address must not exceed 255 characters')
+    .nullable(),
+};
+
+const studentGuardianFields = {
+  relationship: z.nativeEnum(GuardianRelationship, {
+    errorMap: () => ({
+      message: `Relationship must be one of ${Object.values(GuardianRelationship).join(', ')}`,
+    }),
+  }),
+
+  hasLegalCustody: z.boolean({
+    message: 'Has legal custody must be a boolean',
+  }),
+
+  canPickup: z.boolean({ message: 'Can pickup must be a boolean' }),
+
+  emergencyContactPriority: z
+    .number({ message: 'Emergency contact priority must be a number' })
+    .int()
+    .positive({
+      message: 'Emergency contact priority must be a positive integer',
+    })
+    .nullable(),
+};
+
+export const createGuardianSchema = z
+  .object({
+    ...guardianContactFields,
+    email: guardianContactFields.email.optional().default(null),
+    mobile: guardianContactFields.mobile.optional().default(null),
+    address: guardianContactFields.address.optional().default(null),
+  })
+  .strict();
+
+// Links a new guardian, given with `guardian`, or an existing one, given with `guardianId`, to a student
+export const linkGuardianSchema = z
+  .object({
+    guardianId: z
+      .number({ message: 'Guardian ID must be a number' })
+      .int()
+      .positive({ message: 'Guardian ID must be a positive integer' })
+      .optional(),
+    guardian: createGuardianSchema.optional(),
+    ...studentGuardianFields,
+    hasLegalCustody: studentGuardianFields.hasLegalCustody
+      .optional()
+      .default(false),
+    canPickup: studentGuardianFields.canPickup.optional().default(false),
+    emergencyContactPriority: studentGuardianFields.emergencyContactPriority
+      .optional()
+      .default(null),
+  })
+  .strict()
+  .refine(data => (data.guardianId === undefined) !== !data.guardian, {
+    message: 'Either guardianId or guardian must be given',
+    path: ['guardianId'],
+  });
+
+// Contact details are shared by all students of the guardian, the other fields only apply to this student
+export const updateGuardianSchema = z
+  .object({
+    guardian: z.object(guardianContactFields).partial().strict().optional(),
+    ...studentGuardianFields,
+  })
+  .partial()
+  .strict();
+
+export const guardianParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    guardianId: z.coerce
+      .number({ message: 'Guardian id must be a number' })
+      .int()
+      .positive({ message: 'Guardian id must be a positive integer' }),
+  })
+  .strict();
+
+export type CreateGuardianInput = z.infer<typeof createGuardianSchema>;
+export type LinkGuardianInput = z.infer<typeof linkGuardianSchema>;
+export type UpdateGuardianInput = z.infer<typeof updateGuardianSchema>;
+export type GuardianParams = z.infer<typeof guardianParamsSchema>;
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+const termIdField = z.coerce
+  .number({ message: 'Term ID must be a number' })
+  .int()
+  .positive({ message: 'Term ID must be a positive integer' });
+
+const gradingScaleIdField = z.coerce
+  .number({ message: 'Grading scale ID must be a number' })
+  .int()
+  .positive({ message: 'Grading scale ID must be a positive integer' });
+
+// Fields which are not sent keep their current value, or the default for a new template
+export const reportCardTemplateSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(1, 'Title is required')
+      .max(100, 'Title must not exceed 100 characters'),
+    headerText: z
+      .string()
+      .trim()
+      .min(1, 'Header text must not be empty')
+      .max(500, 'Header text must not exceed 500 characters')
+      .nullable(),
+    footerText: z
+      .string()
+      .trim()
+      .min(1, 'Footer text must not be empty')
+      .max(500, 'Footer text must not exceed 500 characters')
+      .nullable(),
+    remarksTitle: z
+      .string()
+      .trim()
+      .min(1, 'Remarks title is required')
+      .max(100, 'Remarks title must not exceed 100 characters'),
+    showAttendance: z.boolean({ message: 'Show attendance must be a boolean' }),
+    showSubjectTeachers: z.boolean({
+      message: 'Show subject teachers must be a boolean',
+    }),
+    // Scale the cards of the school are graded with, null for the default scale
+    gradingScaleId: gradingScaleIdField.nullable(),
+  })
+  .partial()
+  .strict();
+
+export const reportCardQuerySchema = z
+  .object({
+    termId: termIdField,
+    gradingScaleId: gradingScaleIdField.optional(),
+  })
+  .strict();
+
+export const remarksQuerySchema = z
+  .object({
+    termId: termIdField,
+  })
+  .strict();
+
+// Writes the remarks of the listed students for the term, null clears the remarks of a student
+export const enterRemarksSchema = z
+  .object({
+    termId: termIdField,
+    remarks: z
+      .array(
+        z
+          .object({
+            studentId: z
+              .number({ message: 'Student ID must be a number' })
+              .int()
+              .positive({ message: 'Student ID must be a positive integer' }),
+            remarks: z
+              .string()
+              .trim()
+              .min(1, 'Remarks must not be empty')
+              .max(1000, 'Remarks must not exceed 1000 characters')
+              .nullable(),
+          })
+          .strict()
+      )
+      .min(1, 'At least one student is required')
+      .max(200, 'Cannot write remarks for more than 200 students at once')
+      .refine(
+        remarks =>
+          new Set(remarks.map(remark => remark.studentId)).size ===
+          remarks.length,
+        { message: 'Student IDs must be unique' }
+      ),
+  })
+  .strict();
+
+export type ReportCardTemplateInput = z.infer<typeof reportCardTemplateSchema>;
+export type ReportCardQuery = z.infer<typeof reportCardQuerySchema>;
+export type RemarksQuery = z.infer<typeof remarksQuerySchema>;
+export type EnterRemarksInput = z.infer<typeof enterRemarksSchema>;
@@ -12,6 +12,7 @@ export const createRoleSchema = z
       .trim()
       .max(255, 'Description must not exceed 255 characters')
       .optional(),
+    twoFactorRequired: z.boolean().optional(),
   })
   .strict();
 
@@ -31,6 +32,7 @@ export const roleUpdateSchema = z
       .trim()
       .max(255, 'Description must not exceed 255 characters')
       .optional(),
+    twoFactorRequired: z.boolean().optional(),
   })
   .strict();
 
@@ -42,6 +44,33 @@ export const roleParamsSchema = z
   })
   .strict();
 
+export const rolePermissionSchema = z
+  .object({
+    permission: z
+      .string()
+      .trim()
+      .regex(
+        /^[a-z-]+:[a-z-]+$/,
+        'Permission must be in the format <resource>:<action>'
+      ),
+  })
+  .strict();
+
+export const rolePermissionParamsSchema = z
+  .object({
+    id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
+      message: 'Id must be a positive integer',
+    }),
+    permission: z
+      .string()
+      .trim()
+      .regex(
+        /^[a-z-]+:[a-z-]+$/,
+        'Permission must be in the format <resource>:<action>'
+      ),
+  })
+  .strict();
+
 export const roleQuerySchema = z
   .object({
     page: z.coerce
@@ -79,3 +108,5 @@ export type CreateRoleInput = z.infer<typeof createRoleSchema>;
 export type UpdateRoleInput = z.infer<typeof roleUpdateSchema>;
 export type RoleParams = z.infer<typeof roleParamsSchema>;
 export type RoleQuery = z.infer<typeof roleQuerySchema>;
+export type RolePermissionInput = z.infer<typeof rolePermissionSchema>;
+export type RolePermissionParams = z.infer<typeof rolePermissionParamsSchema>;
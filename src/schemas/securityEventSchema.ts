@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const securityEventQuerySchema = z
+  .object({
+    page: z.coerce
+      .number({ message: 'Page must be a number' })
+      .int()
+      .positive({ message: 'Page must be a positive integer' })
+      .optional()
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'Page limit must be a number' })
+      .int()
+      .positive({ message: 'Page limit must be a positive integer' })
+      .max(100, { message: 'Page limit must not exceed 100' })
+      .optional()
+      .default(20),
+    eventType: z
+      .enum([
+        'login',
+        'loginFailed',
+        'tokenRefresh',
+        'tokenRefreshFailed',
+        'logout',
+        'logoutAll',
+        'csrfFailure',
+        'roleChange',
+      ])
+      .optional(),
+    from: z.coerce.date({ message: 'From must be a valid date' }).optional(),
+    to: z.coerce.date({ message: 'To must be a valid date' }).optional(),
+  })
+  .strict()
+  .refine(data => !data.from || !data.to || data.from <= data.to, {
+    message: 'From must not be after to',
+    path: ['from'],
+  });
+
+export type SecurityEventQuery = z.infer<typeof securityEventQuerySchema>;
@@ -251,10 +251,7 @@ export const studentUpdateSchema = z
         /^[A-Za-z0-9-_]+$/,
         'Student number can only contain letters, numbers, hyphens, and underscores'
       ),
-    schoolId: z
-      .number()
-      .int('School ID must be an integer')
-      .positive('School ID must be positive'),
+    // The school is changed through the transfer endpoint, which keeps the enrollment history
     enrollmentDate: z
       .string()
       .or(z.date())
@@ -336,6 +333,12 @@ export const studentQuerySchema = z
       .positive({ message: 'School ID must be a positive integer' })
       .optional(),
 
+    academicYearId: z.coerce
+      .number({ message: 'Academic year ID must be a number' })
+      .int()
+      .positive({ message: 'Academic year ID must be a positive integer' })
+      .optional(),
+
     gender: z.enum(['male', 'female']).optional(),
 
     active: z.coerce
@@ -234,6 +234,12 @@ export const detailedTeacherSchoolQuerySchema = z
       .max(new Date().getFullYear())
       .optional(),
 
+    academicYearId: z.coerce
+      .number({ message: 'Academic year ID must be a number' })
+      .int()
+      .positive({ message: 'Academic year ID must be positive' })
+      .optional(),
+
     includeSchoolDetails: z
       .string()
       .transform(val => val === 'true')
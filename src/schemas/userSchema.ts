@@ -1,4 +1,15 @@
 import { z } from 'zod';
+import { getPasswordPolicyViolations } from '../utils/passwordPolicy';
+
+// New passwords must satisfy the configured password policy
+export const passwordSchema = z
+  .string()
+  .max(100, 'Password must not exceed 100 characters')
+  .superRefine((password, ctx) => {
+    for (const message of getPasswordPolicyViolations(password)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
 
 export const createUserSchema = z
   .object({
@@ -8,10 +19,7 @@ export const createUserSchema = z
       .toLowerCase()
       .email('Please enter a valid email address')
       .max(255, 'Email must not exceed 255 characters'),
-    password: z
-      .string()
-      .min(8, 'Password must be at least 8 characters')
-      .max(100, 'Password must not exceed 100 characters'),
+    password: passwordSchema,
     roleId: z.coerce
       .number({ message: 'Role ID must be a number' })
       .int('Role ID must be an integer')
@@ -21,9 +29,24 @@ export const createUserSchema = z
       .int('School ID must be an integer')
       .positive('Region ID must be positive')
       .optional(),
+    regionId: z
+      .number({ message: 'Region ID must be a number' })
+      .int('Region ID must be an integer')
+      .positive('Region ID must be positive')
+      .optional(),
+    teacherId: z
+      .number({ message: 'Teacher ID must be a number' })
+      .int('Teacher ID must be an integer')
+      .positive('Teacher ID must be positive')
+      .optional(),
   })
   .strict();
 
+// Self-registration only chooses the credentials, the role is fixed and the account has no scope
+export const registerSchema = createUserSchema
+  .pick({ email: true, password: true })
+  .strict();
+
 export const SafeUserSchema = z
   .object({
     id: z.coerce.number({ message: 'Id must be a number' }).int().positive({
@@ -44,6 +67,23 @@ export const SafeUserSchema = z
       .int('School ID must be an integer')
       .positive('Region ID must be positive')
       .nullable(),
+    regionId: z
+      .number({ message: 'Region ID must be a number' })
+      .int('Region ID must be an integer')
+      .positive('Region ID must be positive')
+      .nullable(),
+    guardianId: z
+      .number({ message: 'Guardian ID must be a number' })
+      .int('Guardian ID must be an integer')
+      .positive('Guardian ID must be positive')
+      .nullable(),
+    teacherId: z
+      .number({ message: 'Teacher ID must be a number' })
+      .int('Teacher ID must be an integer')
+      .positive('Teacher ID must be positive')
+      .nullable(),
+    emailVerifiedAt: z.date().nullable(),
+    twoFactorEnabledAt: z.date().nullable(),
     createdAt: z.date(),
     updatedAt: z.date(),
   })
@@ -66,6 +106,16 @@ export const userUpdateSchema = z
       .int('School ID must be an integer')
       .positive('Region ID must be positive')
       .optional(),
+    regionId: z
+      .number({ message: 'Region ID must be a number' })
+      .int('Region ID must be an integer')
+      .positive('Region ID must be positive')
+      .optional(),
+    teacherId: z
+      .number({ message: 'Teacher ID must be a number' })
+      .int('Teacher ID must be an integer')
+      .positive('Teacher ID must be positive')
+      .optional(),
   })
   .strict();
 
@@ -121,6 +171,7 @@ export const userQuerySchema = z
   .strict();
 
 export type CreateUserInput = z.infer<typeof createUserSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
 export type UpdateUserInput = z.infer<typeof userUpdateSchema>;
 export type UserParams = z.infer<typeof userParamsSchema>;
 export type UserQuery = z.infer<typeof userQuerySchema>;
@@ -0,0 +1,540 @@
+import { type Kysely } from 'kysely';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import {
+  type AcademicYearQuery,
+  type CreateAcademicYearInput,
+  type CreateTermInput,
+  type UpdateAcademicYearInput,
+  type UpdateTermInput,
+} from '../schemas/academicYearSchema';
+import {
+  type AcademicYear,
+  type AcademicYearUpdate,
+  type Database,
+  type NewAcademicYear,
+  type NewTerm,
+  type Term,
+  type TermUpdate,
+} from '../types/database';
+import type { AuditContext } from '../types/general';
+import { auditService } from './auditService';
+
+export class AcademicYearService {
+  async createAcademicYear(
+    input: CreateAcademicYearInput,
+    audit?: AuditContext
+  ): Promise<AcademicYear | undefined> {
+    try {
+      const newAcademicYear: NewAcademicYear = {
+        ...input,
+      };
+
+      return await db.transaction().execute(async trx => {
+        if (input.isCurrent) {
+          await this.clearCurrentAcademicYear(trx, audit);
+        }
+
+        const academicYear = await trx
+          .insertInto('academicYears')
+          .values(newAcademicYear)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'academicYears',
+          entityId: academicYear.id,
+          action: 'create',
+          after: academicYear,
+        });
+
+        return academicYear;
+      });
+    } catch (error) {
+      // Handle unique constraint violation
+      if (isUniqueViolation(error, 'academic_years_name_unique')) {
+        databaseErrorThrower('Academic year name already exists', error);
+      } else {
+        databaseErrorThrower('Failed to create academic year', error);
+      }
+    }
+    return;
+  }
+
+  async getAcademicYears(
+    query: AcademicYearQuery
+  ): Promise<{ academicYears: AcademicYear[]; total: number } | undefined> {
+    try {
+      const dbQuery = db.selectFrom('academicYears');
+
+      // Get total count for pagination
+      const totalResult = await dbQuery
+        .select(eb => eb.fn.countAll().as('count'))
+        .executeTakeFirst();
+
+      const total = Number(totalResult?.count || 0);
+
+      // Apply pagination and ordering, latest year first
+      const academicYears = await dbQuery
+        .selectAll()
+        .orderBy('startDate', 'desc')
+        .limit(query.limit || 10)
+        .offset(((query.page || 1) - 1) * (query.limit || 10))
+        .execute();
+
+      return { academicYears, total };
+    } catch (error) {
+      databaseErrorThrower('Failed to get academic years', error);
+    }
+    return;
+  }
+
+  async getAcademicYearById(id: number): Promise<AcademicYear | undefined> {
+    try {
+      return await db
+        .selectFrom('academicYears')
+        .selectAll()
+        .where('id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get academic year', error);
+    }
+    return;
+  }
+
+  async getCurrentAcademicYear(): Promise<AcademicYear | undefined> {
+    try {
+      return await db
+        .selectFrom('academicYears')
+        .selectAll()
+        .where('isCurrent', '=', true)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get current academic year', error);
+    }
+    return;
+  }
+
+  // Academic years must not overlap, so every date belongs to at most one year
+  async findOverlappingAcademicYear(
+    startDate: Date,
+    endDate: Date,
+    excludeId?: number
+  ): Promise<AcademicYear | undefined> {
+    try {
+      let dbQuery = db
+        .selectFrom('academicYears')
+        .selectAll()
+        .where('startDate', '<=', endDate)
+        .where('endDate', '>=', startDate);
+
+      if (excludeId) {
+        dbQuery = dbQuery.where('id', '!=', excludeId);
+      }
+
+      return await dbQuery.executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to check academic year dates', error);
+    }
+    return;
+  }
+
+  async updateAcademicYear(
+    id: number,
+    input: UpdateAcademicYearInput,
+    audit?: AuditContext
+  ): Promise<AcademicYear | undefined> {
+    try {
+      // Only the fields which are sent are updated
+      const updateData: AcademicYearUpdate = { updatedAt: new Date() };
+      if (input.name !== undefined) updateData.name = input.name;
+      if (input.startDate !== undefined) updateData.startDate = input.startDate;
+      if (input.endDate !== undefined) updateData.endDate = input.endDate;
+      if (input.isCurrent !== undefined) updateData.isCurrent = input.isCurrent;
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('academicYears')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return;
+
+        if (input.isCurrent && !before.isCurrent) {
+          await this.clearCurrentAcademicYear(trx, audit);
+        }
+
+        const academicYear = await trx
+          .updateTable('academicYears')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'academicYears',
+          entityId: id,
+          action: 'update',
+          before,
+          after: academicYear,
+        });
+
+        return academicYear;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update academic year', error);
+    }
+    return;
+  }
+
+  // Terms of the year are deleted with it
+  async deleteAcademicYear(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deletedTerms = await trx
+          .deleteFrom('terms')
+          .where('academicYearId', '=', id)
+          .returningAll()
+          .execute();
+
+        const deleted = await trx
+          .deleteFrom('academicYears')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        for (const term of deletedTerms) {
+          await auditService.record(trx, audit, {
+            entityType: 'terms',
+            entityId: term.id,
+            action: 'delete',
+            before: term,
+          });
+        }
+
+        await auditService.record(trx, audit, {
+          entityType: 'academicYears',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete academic year', error);
+    }
+    return;
+  }
+
+  async createTerm(
+    academicYearId: number,
+    input: CreateTermInput,
+    audit?: AuditContext
+  ): Promise<Term | undefined> {
+    try {
+      const newTerm: NewTerm = {
+        ...input,
+        academicYearId,
+      };
+
+      return await db.transaction().execute(async trx => {
+        if (input.isCurrent) {
+          await this.clearCurrentTerm(trx, audit);
+        }
+
+        const term = await trx
+          .insertInto('terms')
+          .values(newTerm)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'terms',
+          entityId: term.id,
+          action: 'create',
+          after: term,
+        });
+
+        return term;
+      });
+    } catch (error) {
+      // Handle unique constraint violation
+      if (isUniqueViolation(error, 'terms_academic_year_id_name_unique')) {
+        databaseErrorThrower('Term name already exists in this year', error);
+      } else {
+        databaseErrorThrower('Failed to create term', error);
+      }
+    }
+    return;
+  }
+
+  async getTerms(academicYearId: number): Promise<Term[] | undefined> {
+    try {
+      return await db
+        .selectFrom('terms')
+        .selectAll()
+        .where('academicYearId', '=', academicYearId)
+        .orderBy('startDate', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get terms', error);
+    }
+    return;
+  }
+
+  async getTermById(
+    academicYearId: number,
+    id: number
+  ): Promise<Term | undefined> {
+    try {
+      return await db
+        .selectFrom('terms')
+        .selectAll()
+        .where('academicYearId', '=', academicYearId)
+        .where('id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get term', error);
+    }
+    return;
+  }
+
+  async getCurrentTerm(): Promise<Term | undefined> {
+    try {
+      return await db
+        .selectFrom('terms')
+        .selectAll()
+        .where('isCurrent', '=', true)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get current term', error);
+    }
+    return;
+  }
+
+  async isWithinAcademicYear(
+    academicYearId: number,
+    startDate: Date,
+    endDate: Date
+  ): Promise<boolean | undefined> {
+    try {
+      const academicYear = await db
+        .selectFrom('academicYears')
+        .select('id')
+        .where('id', '=', academicYearId)
+        .where('startDate', '<=', startDate)
+        .where('endDate', '>=', endDate)
+        .executeTakeFirst();
+
+      return Boolean(academicYear);
+    } catch (error) {
+      databaseErrorThrower('Failed to check term dates', error);
+    }
+    return;
+  }
+
+  async isWithinTerm(termId: number, date: Date): Promise<boolean | undefined> {
+    try {
+      const term = await db
+        .selectFrom('terms')
+        .select('id')
+        .where('id', '=', termId)
+        .where('startDate', '<=', date)
+        .where('endDate', '>=', date)
+        .executeTakeFirst();
+
+      return Boolean(term);
+    } catch (error) {
+      databaseErrorThrower('Failed to check assessment date', error);
+    }
+    return;
+  }
+
+  // Terms of the same year must not overlap
+  async findOverlappingTerm(
+    academicYearId: number,
+    startDate: Date,
+    endDate: Date,
+    excludeId?: number
+  ): Promise<Term | undefined> {
+    try {
+      let dbQuery = db
+        .selectFrom('terms')
+        .selectAll()
+        .where('academicYearId', '=', academicYearId)
+        .where('startDate', '<=', endDate)
+        .where('endDate', '>=', startDate);
+
+      if (excludeId) {
+        dbQuery = dbQuery.where('id', '!=', excludeId);
+      }
+
+      return await dbQuery.executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to check term dates', error);
+    }
+    return;
+  }
+
+  // Returns true if a term of the year falls outside the given dates
+  async hasTermsOutside(
+    academicYearId: number,
+    startDate: Date,
+    endDate: Date
+  ): Promise<boolean | undefined> {
+    try {
+      const term = await db
+        .selectFrom('terms')
+        .select('id')
+        .where('academicYearId', '=', academicYearId)
+        .where(eb =>
+          eb.or([eb('startDate', '<', startDate), eb('endDate', '>', endDate)])
+        )
+        .executeTakeFirst();
+
+      return Boolean(term);
+    } catch (error) {
+      databaseErrorThrower('Failed to check term dates', error);
+    }
+    return;
+  }
+
+  async updateTerm(
+    academicYearId: number,
+    id: number,
+    input: UpdateTermInput,
+    audit?: AuditContext
+  ): Promise<Term | undefined> {
+    try {
+      // Only the fields which are sent are updated
+      const updateData: TermUpdate = { updatedAt: new Date() };
+      if (input.name !== undefined) updateData.name = input.name;
+      if (input.startDate !== undefined) updateData.startDate = input.startDate;
+      if (input.endDate !== undefined) updateData.endDate = input.endDate;
+      if (input.isCurrent !== undefined) updateData.isCurrent = input.isCurrent;
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('terms')
+          .selectAll()
+          .where('academicYearId', '=', academicYearId)
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return;
+
+        if (input.isCurrent && !before.isCurrent) {
+          await this.clearCurrentTerm(trx, audit);
+        }
+
+        const term = await trx
+          .updateTable('terms')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'terms',
+          entityId: id,
+          action: 'update',
+          before,
+          after: term,
+        });
+
+        return term;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update term', error);
+    }
+    return;
+  }
+
+  async deleteTerm(
+    academicYearId: number,
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('terms')
+          .where('academicYearId', '=', academicYearId)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'terms',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete term', error);
+    }
+    return;
+  }
+
+  // Only one academic year is current, setting a new one unsets the previous
+  private async clearCurrentAcademicYear(
+    trx: Kysely<Database>,
+    audit?: AuditContext
+  ): Promise<void> {
+    const previous = await trx
+      .updateTable('academicYears')
+      .set({ isCurrent: false, updatedAt: new Date() })
+      .where('isCurrent', '=', true)
+      .returningAll()
+      .executeTakeFirst();
+
+    if (previous) {
+      await auditService.record(trx, audit, {
+        entityType: 'academicYears',
+        entityId: previous.id,
+        action: 'update',
+        before: { isCurrent: true },
+        after: { isCurrent: false },
+      });
+    }
+  }
+
+  private async clearCurrentTerm(
+    trx: Kysely<Database>,
+    audit?: AuditContext
+  ): Promise<void> {
+    const previous = await trx
+      .updateTable('terms')
+      .set({ isCurrent: false, updatedAt: new Date() })
+      .where('isCurrent', '=', true)
+      .returningAll()
+      .executeTakeFirst();
+
+    if (previous) {
+      await auditService.record(trx, audit, {
+        entityType: 'terms',
+        entityId: previous.id,
+        action: 'update',
+        before: { isCurrent: true },
+        after: { isCurrent: false },
+      });
+    }
+  }
+}
+
+export const academicYearService = new AcademicYearService();
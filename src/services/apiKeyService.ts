@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import { getRedisClient } from '../redis/redisClient';
+import type { ApiKeyQuery, CreateApiKeyInput } from '../schemas/apiKeySchema';
+import type { ApiKey, NewApiKey, SafeApiKey } from '../types/database';
+import type { DataScope } from '../types/general';
+import { isRestrictedScope, schoolIdsInScope } from '../utils/scopeUtils';
+import { roleService } from './roleService';
+import { userService } from './userService';
+
+const API_KEY_PREFIX = 'sms_';
+
+const SAFE_API_KEY_COLUMNS = [
+  'id',
+  'name',
+  'keyPrefix',
+  'roleId',
+  'permissions',
+  'schoolId',
+  'regionId',
+  'rateLimit',
+  'createdBy',
+  'expiresAt',
+  'lastUsedAt',
+  'revokedAt',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export class ApiKeyService {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  // Only the hash of a key is stored, the plain key is returned once on creation
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  async createApiKey(
+    input: CreateApiKeyInput,
+    createdBy: number
+  ): Promise<{ apiKey: SafeApiKey; key: string } | undefined> {
+    try {
+      const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+
+      const newApiKey: NewApiKey = {
+        name: input.name,
+        keyPrefix: key.slice(0, 12),
+        keyHash: this.hashKey(key),
+        roleId: input.roleId ?? null,
+        permissions: input.permissions ?? null,
+        schoolId: input.schoolId ?? null,
+        regionId: input.regionId ?? null,
+        createdBy,
+        expiresAt: input.expiresAt ?? null,
+      };
+
+      if (input.rateLimit !== undefined) {
+        newApiKey.rateLimit = input.rateLimit;
+      }
+
+      const apiKey = await db
+        .insertInto('apiKeys')
+        .values(newApiKey)
+        .returning(SAFE_API_KEY_COLUMNS)
+        .executeTakeFirstOrThrow();
+
+      return { apiKey, key };
+    } catch (error) {
+      databaseErrorThrower('Failed to create API key', error);
+    }
+    return;
+  }
+
+  async getApiKeys(
+    query: ApiKeyQuery,
+    scope?: DataScope
+  ): Promise<{ apiKeys: SafeApiKey[]; total: number } | undefined> {
+    try {
+      let dbQuery = this.scopedApiKeys(scope);
+
+      if (!query.includeRevoked) {
+        dbQuery = dbQuery.where('revokedAt', 'is', null);
+      }
+
+      // Get total count for pagination
+      const totalResult = await dbQuery
+        .select(eb => eb.fn.countAll().as('count'))
+        .executeTakeFirst();
+
+      const total = Number(totalResult?.count || 0);
+
+      // Apply pagination and ordering
+      const apiKeys = await dbQuery
+        .select(SAFE_API_KEY_COLUMNS)
+        .orderBy('id', 'asc')
+        .limit(query.limit || 10)
+        .offset(((query.page || 1) - 1) * (query.limit || 10))
+        .execute();
+
+      return { apiKeys, total };
+    } catch (error) {
+      databaseErrorThrower('Failed to get API keys', error);
+    }
+    return;
+  }
+
+  async getApiKeyById(
+    id: number,
+    scope?: DataScope
+  ): Promise<SafeApiKey | undefined> {
+    try {
+      return await this.scopedApiKeys(scope)
+        .select(SAFE_API_KEY_COLUMNS)
+        .where('id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get API key', error);
+    }
+    return;
+  }
+
+  async revokeApiKey(
+    id: number,
+    scope?: DataScope
+  ): Promise<SafeApiKey | undefined> {
+    try {
+      let updateQuery = db
+        .updateTable('apiKeys')
+        .set({ revokedAt: new Date(), updatedAt: new Date() })
+        .where('id', '=', id)
+        .where('revokedAt', 'is', null);
+
+      if (isRestrictedScope(scope)) {
+        updateQuery = updateQuery.where(
+          'id',
+          'in',
+          this.scopedApiKeys(scope).select('id')
+        );
+      }
+
+      return await updateQuery
+        .returning(SAFE_API_KEY_COLUMNS)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to revoke API key', error);
+    }
+    return;
+  }
+
+  // Returns the key if it exists and is neither revoked nor expired
+  async getActiveApiKey(key: string): Promise<SafeApiKey | undefined> {
+    try {
+      return await db
+        .selectFrom('apiKeys')
+        .select(SAFE_API_KEY_COLUMNS)
+        .where('keyHash', '=', this.hashKey(key))
+        .where('revokedAt', 'is', null)
+        .where(eb =>
+          eb.or([eb('expiresAt', 'is', null), eb('expiresAt', '>', new Date())])
+        )
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get API key', error);
+    }
+    return;
+  }
+
+  // Limited to the current permissions of the creator on every use, so later grants on the key's role
+  // or a demoted creator never leave the key with more than the creator has
+  async getPermissionNames(
+    apiKey: Pick<ApiKey, 'roleId' | 'permissions' | 'createdBy'>
+  ): Promise<string[]> {
+    const creator = apiKey.createdBy
+      ? await userService.getUserById(apiKey.createdBy)
+      : undefined;
+    if (!creator) return [];
+
+    const creatorPermissions = await roleService.getPermissionNames(
+      creator.roleId
+    );
+    const permissions = apiKey.roleId
+      ? await roleService.getPermissionNames(apiKey.roleId)
+      : (apiKey.permissions ?? []);
+
+    return permissions.filter(permission =>
+      creatorPermissions.includes(permission)
+    );
+  }
+
+  // Fixed one minute window per key, shared between app instances through Redis
+  // Returns the seconds until the window resets if the limit is exceeded, otherwise 0
+  async consumeRateLimit(
+    apiKey: Pick<ApiKey, 'id' | 'rateLimit'>
+  ): Promise<number> {
+    const window = Math.floor(Date.now() / 60000);
+    const key = `api_key_requests:${apiKey.id}:${window}`;
+
+    const requests = await this.redis.incr(key);
+    if (requests === 1) {
+      await this.redis.expire(key, 60);
+
+      // Recording the last use once per window keeps database writes low
+      await db
+        .updateTable('apiKeys')
+        .set({ lastUsedAt: new Date() })
+        .where('id', '=', apiKey.id)
+        .execute();
+    }
+
+    if (requests > apiKey.rateLimit) {
+      return 60 - (Math.floor(Date.now() / 1000) % 60);
+    }
+
+    return 0;
+  }
+
+  // Base API keys query limited to keys of the schools (or region) inside the data scope
+  private scopedApiKeys(scope?: DataScope) {
+    let dbQuery = db.selectFrom('apiKeys');
+
+    if (isRestrictedScope(scope)) {
+      dbQuery = dbQuery.where(eb => {
+        const inScopedSchool = eb('schoolId', 'in', schoolIdsInScope(scope));
+
+        return scope.level === 'region'
+          ? eb.or([inScopedSchool, eb('regionId', '=', scope.regionId)])
+          : inScopedSchool;
+      });
+    }
+
+    return dbQuery;
+  }
+}
+
+export const apiKeyService = new ApiKeyService(getRedisClient());
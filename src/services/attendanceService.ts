@@ -0,0 +1,667 @@
+import { type SelectQueryBuilder } from 'kysely';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import {
+  type AttendanceQuery,
+  type AttendanceSummaryQuery,
+  type UpdateAttendanceInput,
+} from '../schemas/attendanceSchema';
+import {
+  AttendanceStatus,
+  type AttendanceRecord,
+  type AttendanceRecordUpdate,
+  type Database,
+  type NewAttendanceRecord,
+} from '../types/database';
+import type { AuditContext, DataScope } from '../types/general';
+import { academicYearEnd, academicYearStart } from '../utils/academicYearUtils';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import {
+  guardianStudentIds,
+  isRestrictedScope,
+  schoolIdsInScope,
+} from '../utils/scopeUtils';
+import { auditService } from './auditService';
+
+// Statuses which count as attending, a day on which the student only has other statuses is an absence
+const ATTENDED_STATUSES = [AttendanceStatus.Present, AttendanceStatus.Late];
+
+export interface AttendanceEntry {
+  studentId: number;
+  status: AttendanceStatus;
+  excuseNote: string | null;
+}
+
+export interface AttendanceDay {
+  date: Date;
+  period: number | null;
+}
+
+export interface AttendanceStatusCounts {
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+}
+
+export interface AbsenceSummary {
+  daysRecorded: number;
+  daysAbsent: number;
+  absenceRate: number; // percentage of recorded days, excused absences included
+  consecutiveAbsences: number; // absent days in a row up to the last recorded day
+  longestConsecutiveAbsences: number;
+  absentSince: Date | null; // first day of the current run of absences
+}
+
+export interface ClassAttendanceEntry {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  attendanceId: number | null;
+  status: AttendanceStatus | null; // null while the student has not been recorded
+  excuseNote: string | null;
+}
+
+export interface SchoolAttendanceSummary {
+  schoolId: number;
+  byStatus: AttendanceStatusCounts;
+  studentDaysRecorded: number;
+  studentDaysAbsent: number;
+  absenceRate: number;
+}
+
+export interface ConsecutiveAbsence {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  schoolId: number;
+  consecutiveAbsences: number;
+  absentSince: Date | null;
+}
+
+export class AttendanceService {
+  async getStudentAttendance(
+    studentId: number,
+    query: AttendanceQuery
+  ): Promise<AttendanceRecord[] | undefined> {
+    try {
+      return await this.inDateRange(
+        db
+          .selectFrom('attendanceRecords')
+          .selectAll()
+          .where('studentId', '=', studentId),
+        query
+      )
+        .orderBy('date', 'desc')
+        .orderBy('period', ob => ob.asc().nullsFirst())
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get student attendance', error);
+    }
+    return;
+  }
+
+  async getAttendanceRecord(
+    studentId: number,
+    id: number
+  ): Promise<AttendanceRecord | undefined> {
+    try {
+      return await db
+        .selectFrom('attendanceRecords')
+        .selectAll()
+        .where('id', '=', id)
+        .where('studentId', '=', studentId)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get attendance record', error);
+    }
+    return;
+  }
+
+  // Records the attendance of the students at the school for the day and period
+  // A student already recorded for the same day and period has their record replaced
+  async recordAttendance(
+    schoolId: number,
+    classId: number | null,
+    day: AttendanceDay,
+    entries: AttendanceEntry[],
+    audit?: AuditContext
+  ): Promise<{ records?: AttendanceRecord[]; error?: string } | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        let existingQuery = trx
+          .selectFrom('attendanceRecords')
+          .selectAll()
+          .where(
+            'studentId',
+            'in',
+            entries.map(entry => entry.studentId)
+          )
+          .where('date', '=', day.date);
+
+        existingQuery =
+          day.period === null
+            ? existingQuery.where('period', 'is', null)
+            : existingQuery.where('period', '=', day.period);
+
+        const existingRecords = await existingQuery.forUpdate().execute();
+        const existingByStudent = new Map(
+          existingRecords.map(record => [record.studentId, record])
+        );
+
+        const records: AttendanceRecord[] = [];
+
+        for (const entry of entries) {
+          const before = existingByStudent.get(entry.studentId);
+
+          if (before) {
+            const recordUpdate: AttendanceRecordUpdate = {
+              status: entry.status,
+              excuseNote: entry.excuseNote,
+              classId: classId ?? before.classId,
+              recordedBy: audit?.actorUserId ?? null,
+              updatedAt: new Date(),
+            };
+
+            const record = await trx
+              .updateTable('attendanceRecords')
+              .set(recordUpdate)
+              .where('id', '=', before.id)
+              .returningAll()
+              .executeTakeFirstOrThrow();
+
+            await auditService.record(trx, audit, {
+              entityType: 'attendanceRecords',
+              entityId: record.id,
+              action: 'update',
+              before,
+              after: record,
+            });
+
+            records.push(record);
+            continue;
+          }
+
+          const newRecord: NewAttendanceRecord = {
+            studentId: entry.studentId,
+            schoolId,
+            classId,
+            date: day.date,
+            period: day.period,
+            status: entry.status,
+            excuseNote: entry.excuseNote,
+            recordedBy: audit?.actorUserId ?? null,
+          };
+
+          const record = await trx
+            .insertInto('attendanceRecords')
+            .values(newRecord)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'attendanceRecords',
+            entityId: record.id,
+            action: 'create',
+            after: record,
+          });
+
+          records.push(record);
+        }
+
+        return { records };
+      });
+    } catch (error) {
+      // Another request recorded one of the students for the same day and period in the meantime
+      if (
+        isUniqueViolation(error, 'idx_attendance_records_student_day') ||
+        isUniqueViolation(error, 'idx_attendance_records_student_period')
+      ) {
+        return {
+          error: 'Attendance was recorded by another request, please retry',
+        };
+      }
+      databaseErrorThrower('Failed to record attendance', error);
+    }
+    return;
+  }
+
+  async updateAttendance(
+    studentId: number,
+    id: number,
+    input: UpdateAttendanceInput,
+    audit?: AuditContext
+  ): Promise<AttendanceRecord | undefined> {
+    try {
+      // Only the fields which are sent are updated
+      const recordUpdate: AttendanceRecordUpdate = {
+        recordedBy: audit?.actorUserId ?? null,
+        updatedAt: new Date(),
+      };
+      if (input.status !== undefined) recordUpdate.status = input.status;
+      if (input.excuseNote !== undefined) {
+        recordUpdate.excuseNote = input.excuseNote;
+      }
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('attendanceRecords')
+          .selectAll()
+          .where('id', '=', id)
+          .where('studentId', '=', studentId)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return;
+
+        const record = await trx
+          .updateTable('attendanceRecords')
+          .set(recordUpdate)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'attendanceRecords',
+          entityId: id,
+          action: 'update',
+          before,
+          after: record,
+        });
+
+        return record;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update attendance record', error);
+    }
+    return;
+  }
+
+  async deleteAttendance(
+    studentId: number,
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('attendanceRecords')
+          .where('id', '=', id)
+          .where('studentId', '=', studentId)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'attendanceRecords',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete attendance record', error);
+    }
+    return;
+  }
+
+  // Register of the class for the day, students who have not been recorded yet are included without a status
+  async getClassAttendance(
+    classId: number,
+    day: AttendanceDay
+  ): Promise<ClassAttendanceEntry[] | undefined> {
+    try {
+      return await db
+        .selectFrom('classStudents')
+        .innerJoin('students', 'students.id', 'classStudents.studentId')
+        .leftJoin('attendanceRecords', join => {
+          const onDay = join
+            .onRef('attendanceRecords.studentId', '=', 'students.id')
+            .on('attendanceRecords.date', '=', day.date);
+
+          return day.period === null
+            ? onDay.on('attendanceRecords.period', 'is', null)
+            : onDay.on('attendanceRecords.period', '=', day.period);
+        })
+        .select([
+          'students.id as studentId',
+          'students.firstName',
+          'students.lastName',
+          'attendanceRecords.id as attendanceId',
+          'attendanceRecords.status',
+          'attendanceRecords.excuseNote',
+        ])
+        .where('classStudents.classId', '=', classId)
+        .orderBy('students.lastName', 'asc')
+        .orderBy('students.firstName', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get class attendance', error);
+    }
+    return;
+  }
+
+  async getStudentAttendanceSummary(
+    studentId: number,
+    query: AttendanceQuery
+  ): Promise<
+    | (AbsenceSummary & { studentId: number; byStatus: AttendanceStatusCounts })
+    | undefined
+  > {
+    try {
+      const [statusResults, days] = await Promise.all([
+        this.inDateRange(
+          db
+            .selectFrom('attendanceRecords')
+            .select(['status', eb => eb.fn.countAll().as('count')])
+            .where('studentId', '=', studentId),
+          query
+        )
+          .groupBy('status')
+          .execute(),
+
+        this.inDateRange(
+          db
+            .selectFrom('attendanceRecords')
+            .select([
+              'date',
+              eb =>
+                eb.fn
+                  .countAll()
+                  .filterWhere('status', 'in', ATTENDED_STATUSES)
+                  .as('attendedCount'),
+            ])
+            .where('studentId', '=', studentId),
+          query
+        )
+          .groupBy('date')
+          .orderBy('date', 'asc')
+          .execute(),
+      ]);
+
+      return {
+        studentId,
+        byStatus: this.countStatuses(statusResults),
+        ...this.summarizeAbsences(
+          days.map(day => ({
+            date: day.date,
+            isAbsent: Number(day.attendedCount) === 0,
+          }))
+        ),
+      };
+    } catch (error) {
+      databaseErrorThrower('Failed to get student attendance summary', error);
+    }
+    return;
+  }
+
+  // Absence rates per school and a page of the students currently absent for several days in a row
+  // Both are aggregated in the database, a day is reduced to one row per student before runs are counted
+  async getAttendanceSummary(
+    query: AttendanceSummaryQuery,
+    scope?: DataScope
+  ): Promise<
+    | {
+        bySchool: SchoolAttendanceSummary[];
+        consecutiveAbsences: ConsecutiveAbsence[];
+        consecutiveAbsencesTotal: number;
+      }
+    | undefined
+  > {
+    try {
+      // One row per student and recorded day, absent when no record of the day was attended
+      const withDays = db
+        .with('days', () =>
+          this.scopedRecords(query, scope)
+            .select([
+              'attendanceRecords.schoolId',
+              'attendanceRecords.studentId',
+              'attendanceRecords.date',
+              eb =>
+                eb(
+                  eb.fn
+                    .countAll()
+                    .filterWhere(
+                      'attendanceRecords.status',
+                      'in',
+                      ATTENDED_STATUSES
+                    ),
+                  '=',
+                  0
+                ).as('isAbsent'),
+            ])
+            .groupBy([
+              'attendanceRecords.schoolId',
+              'attendanceRecords.studentId',
+              'attendanceRecords.date',
+            ])
+        )
+        // The current run of absences of a student starts after the last day they attended
+        .with('lastAttended', qc =>
+          qc
+            .selectFrom('days')
+            .select([
+              'schoolId',
+              'studentId',
+              eb =>
+                eb.fn
+                  .max('date')
+                  .filterWhere('isAbsent', '=', false)
+                  .as('lastAttendedDate'),
+            ])
+            .groupBy(['schoolId', 'studentId'])
+        );
+
+      const currentRuns = withDays
+        .selectFrom('days')
+        .innerJoin('lastAttended', join =>
+          join
+            .onRef('lastAttended.schoolId', '=', 'days.schoolId')
+            .onRef('lastAttended.studentId', '=', 'days.studentId')
+        )
+        .where('days.isAbsent', '=', true)
+        .where(eb =>
+          eb.or([
+            eb('lastAttended.lastAttendedDate', 'is', null),
+            eb('days.date', '>', eb.ref('lastAttended.lastAttendedDate')),
+          ])
+        )
+        .groupBy(['days.schoolId', 'days.studentId'])
+        .having(eb => eb.fn.countAll(), '>=', query.consecutiveAbsences);
+
+      const [statusResults, schoolDays, absences, totalResult] =
+        await Promise.all([
+          this.scopedRecords(query, scope)
+            .select([
+              'attendanceRecords.schoolId',
+              'attendanceRecords.status',
+              eb => eb.fn.countAll().as('count'),
+            ])
+            .groupBy(['attendanceRecords.schoolId', 'attendanceRecords.status'])
+            .execute(),
+
+          withDays
+            .selectFrom('days')
+            .select([
+              'schoolId',
+              eb => eb.fn.countAll().as('recorded'),
+              eb =>
+                eb.fn
+                  .countAll()
+                  .filterWhere('isAbsent', '=', true)
+                  .as('absent'),
+            ])
+            .groupBy('schoolId')
+            .orderBy('schoolId', 'asc')
+            .execute(),
+
+          currentRuns
+            .innerJoin('students', 'students.id', 'days.studentId')
+            .select([
+              'days.studentId',
+              'students.firstName',
+              'students.lastName',
+              'days.schoolId',
+              eb => eb.fn.countAll().as('consecutiveAbsences'),
+              eb => eb.fn.min('days.date').as('absentSince'),
+            ])
+            .groupBy(['students.firstName', 'students.lastName'])
+            .orderBy('consecutiveAbsences', 'desc')
+            .orderBy('days.studentId', 'asc')
+            .limit(query.limit)
+            .offset((query.page - 1) * query.limit)
+            .execute(),
+
+          db
+            .selectFrom(currentRuns.select('days.studentId').as('runs'))
+            .select(eb => eb.fn.countAll().as('count'))
+            .executeTakeFirst(),
+        ]);
+
+      const bySchool = schoolDays.map(school => {
+        const recorded = Number(school.recorded);
+        const absent = Number(school.absent);
+
+        return {
+          schoolId: school.schoolId,
+          byStatus: this.countStatuses(
+            statusResults.filter(result => result.schoolId === school.schoolId)
+          ),
+          studentDaysRecorded: recorded,
+          studentDaysAbsent: absent,
+          absenceRate: this.toRate(absent, recorded),
+        };
+      });
+
+      const consecutiveAbsences = absences.map(absence => ({
+        ...absence,
+        consecutiveAbsences: Number(absence.consecutiveAbsences),
+      }));
+
+      return {
+        bySchool,
+        consecutiveAbsences,
+        consecutiveAbsencesTotal: Number(totalResult?.count || 0),
+      };
+    } catch (error) {
+      databaseErrorThrower('Failed to get attendance summary', error);
+    }
+    return;
+  }
+
+  // Attendance records inside the data scope matching the summary filters
+  private scopedRecords(query: AttendanceSummaryQuery, scope?: DataScope) {
+    let dbQuery = this.inDateRange(db.selectFrom('attendanceRecords'), query);
+
+    if (query.schoolId) {
+      dbQuery = dbQuery.where(
+        'attendanceRecords.schoolId',
+        '=',
+        query.schoolId
+      );
+    }
+
+    if (scope?.level === 'guardian') {
+      dbQuery = dbQuery.where(
+        'attendanceRecords.studentId',
+        'in',
+        guardianStudentIds(scope.guardianId)
+      );
+    } else if (isRestrictedScope(scope)) {
+      dbQuery = dbQuery.where(
+        'attendanceRecords.schoolId',
+        'in',
+        schoolIdsInScope(scope)
+      );
+    }
+
+    return dbQuery;
+  }
+
+  private inDateRange<O>(
+    dbQuery: SelectQueryBuilder<Database, 'attendanceRecords', O>,
+    query: AttendanceQuery
+  ): SelectQueryBuilder<Database, 'attendanceRecords', O> {
+    let rangeQuery = dbQuery;
+
+    if (query.from) {
+      rangeQuery = rangeQuery.where('attendanceRecords.date', '>=', query.from);
+    }
+    if (query.to) {
+      rangeQuery = rangeQuery.where('attendanceRecords.date', '<=', query.to);
+    }
+    if (query.academicYearId) {
+      rangeQuery = rangeQuery
+        .where(
+          'attendanceRecords.date',
+          '>=',
+          academicYearStart(query.academicYearId)
+        )
+        .where(
+          'attendanceRecords.date',
+          '<=',
+          academicYearEnd(query.academicYearId)
+        );
+    }
+
+    return rangeQuery;
+  }
+
+  private countStatuses(
+    results: { status: AttendanceStatus; count: string | number | bigint }[]
+  ): AttendanceStatusCounts {
+    const countOf = (status: AttendanceStatus): number =>
+      Number(results.find(result => result.status === status)?.count || 0);
+
+    return {
+      present: countOf(AttendanceStatus.Present),
+      absent: countOf(AttendanceStatus.Absent),
+      late: countOf(AttendanceStatus.Late),
+      excused: countOf(AttendanceStatus.Excused),
+    };
+  }
+
+  // Days must be in date order, only recorded days count so weekends and holidays do not break a run
+  private summarizeAbsences(
+    days: { date: Date; isAbsent: boolean }[]
+  ): AbsenceSummary {
+    let daysAbsent = 0;
+    let consecutiveAbsences = 0;
+    let longestConsecutiveAbsences = 0;
+    let absentSince: Date | null = null;
+
+    for (const day of days) {
+      if (day.isAbsent) {
+        daysAbsent += 1;
+        consecutiveAbsences += 1;
+        absentSince = consecutiveAbsences === 1 ? day.date : absentSince;
+        longestConsecutiveAbsences = Math.max(
+          longestConsecutiveAbsences,
+          consecutiveAbsences
+        );
+      } else {
+        consecutiveAbsences = 0;
+        absentSince = null;
+      }
+    }
+
+    return {
+      daysRecorded: days.length,
+      daysAbsent,
+      absenceRate: this.toRate(daysAbsent, days.length),
+      consecutiveAbsences,
+      longestConsecutiveAbsences,
+      absentSince,
+    };
+  }
+
+  // Percentage rounded to two decimals
+  private toRate(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
+  }
+}
+
+export const attendanceService = new AttendanceService();
@@ -0,0 +1,112 @@
+import { type Kysely } from 'kysely';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import type { AuditLogQuery } from '../schemas/auditSchema';
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  Database,
+  NewAuditLogEntry,
+} from '../types/database';
+import type { AuditContext } from '../types/general';
+import { diffRecords, redactRecord } from '../utils/auditUtils';
+
+export class AuditService {
+  // Must be called with the transaction of the change, so the entry is committed or rolled back with it
+  // Without a context the change is recorded as a system change
+  async record(
+    executor: Kysely<Database>,
+    context: AuditContext | undefined,
+    entry: {
+      entityType: AuditEntityType;
+      entityId: number;
+      action: AuditAction;
+      before?: object;
+      after?: object;
+    }
+  ): Promise<void> {
+    let before = entry.before ? redactRecord({ ...entry.before }) : null;
+    let after = entry.after ? redactRecord({ ...entry.after }) : null;
+
+    if (entry.action === 'update' && entry.before && entry.after) {
+      ({ before, after } = diffRecords(
+        { ...entry.before },
+        { ...entry.after }
+      ));
+
+      // Updates which did not change anything are not worth an entry
+      if (Object.keys(after).length === 0) return;
+    }
+
+    const newEntry: NewAuditLogEntry = {
+      actorUserId: context?.actorUserId ?? null,
+      impersonatorUserId: context?.impersonatorUserId ?? null,
+      apiKeyId: context?.apiKeyId ?? null,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      before: before ? JSON.stringify(before) : null,
+      after: after ? JSON.stringify(after) : null,
+      ip: context?.ip ?? null,
+      requestId: context?.requestId ?? null,
+    };
+
+    await executor.insertInto('auditLog').values(newEntry).execute();
+  }
+
+  async getAuditLog(
+    query: AuditLogQuery
+  ): Promise<{ entries: AuditLogEntry[]; total: number } | undefined> {
+    try {
+      let dbQuery = db.selectFrom('auditLog');
+
+      // Apply filters
+      if (query.entityType) {
+        dbQuery = dbQuery.where('entityType', '=', query.entityType);
+      }
+
+      if (query.entityId) {
+        dbQuery = dbQuery.where('entityId', '=', query.entityId);
+      }
+
+      if (query.actorUserId) {
+        dbQuery = dbQuery.where('actorUserId', '=', query.actorUserId);
+      }
+
+      if (query.action) {
+        dbQuery = dbQuery.where('action', '=', query.action);
+      }
+
+      if (query.from) {
+        dbQuery = dbQuery.where('createdAt', '>=', query.from);
+      }
+
+      if (query.to) {
+        dbQuery = dbQuery.where('createdAt', '<=', query.to);
+      }
+
+      // Get total count for pagination
+      const totalResult = await dbQuery
+        .select(eb => eb.fn.countAll().as('count'))
+        .executeTakeFirst();
+
+      const total = Number(totalResult?.count || 0);
+
+      // Apply pagination and ordering, newest first
+      const entries = await dbQuery
+        .selectAll()
+        .orderBy('id', 'desc')
+        .limit(query.limit || 20)
+        .offset(((query.page || 1) - 1) * (query.limit || 20))
+        .execute();
+
+      return { entries, total };
+    } catch (error) {
+      databaseErrorThrower('Failed to get audit log', error);
+    }
+    return;
+  }
+}
+
+export const auditService = new AuditService();
@@ -3,21 +3,70 @@ import jwt, { type JwtPayload } from 'jsonwebtoken';
 import crypto from 'crypto';
 import Redis from 'ioredis';
 import { type Response } from 'express';
-import type { AuthTokens } from '../types/general';
+import type {
+  AuthTokens,
+  NotificationRecipient,
+  SessionInfo,
+  SessionMetadata,
+} from '../types/general';
 import { userService } from './userService';
+import logger from '../logger';
+import type { MailTransport } from '../mail/mailTransport';
+import type { NotificationTransport } from '../notifications/notificationTransport';
+import type { JwtKeyring } from '../jwt/jwtKeyring';
+
+// Keyring tokens name their type as audience, so a refresh token is never accepted as an access token
+const TOKEN_AUDIENCES: Record<'access' | 'refresh', string> = {
+  access: 'school-management-api',
+  refresh: 'school-management-refresh',
+};
+
+// Takes the refresh token out of use and marks it as rotated in one step, so of concurrent requests
+// with the same token only one can rotate it and the others are handled as reuse
+const CONSUME_REFRESH_TOKEN_SCRIPT = `
+local sessionId = redis.call('GET', KEYS[1])
+if not sessionId then return false end
+redis.call('DEL', KEYS[1])
+redis.call('SETEX', KEYS[2], ARGV[1], sessionId)
+return sessionId
+`;
 
 export class AuthService {
   private redis: Redis;
+  private mailTransport: MailTransport;
+  private notificationTransport: NotificationTransport;
+  private keyring: JwtKeyring;
   private JWT_SECRET: string;
   private JWT_EXPIRES_IN: number;
   private JWT_REFRESH_SECRET: string;
   private JWT_REFRESH_EXPIRES_IN: number;
+  private JWT_LEGACY_SECRET_UNTIL: Date | null;
   private REFRESH_TOKEN_REDIS_TTL: number;
   private CSRF_TOKEN_TTL: number;
+  private PASSWORD_RESET_TOKEN_TTL: number;
+  private PASSWORD_RESET_URL: string;
+  private EMAIL_VERIFICATION_TOKEN_TTL: number;
+  private EMAIL_VERIFICATION_URL: string;
+  private ACCOUNT_INVITATION_TOKEN_TTL: number;
+  private ACCOUNT_INVITATION_URL: string;
+  private MAX_LOGIN_ATTEMPTS: number;
+  private LOGIN_FAILURE_WINDOW: number;
+  private LOGIN_LOCKOUT_DURATION: number;
+  private LOGIN_LOCKOUT_MAX_DURATION: number;
+  private IMPERSONATION_TOKEN_TTL: number;
+  private IMPERSONATION_ALLOW_WRITES: boolean;
   private NODE_ENV: string;
 
-  constructor(redis: Redis) {
+  constructor(
+    redis: Redis,
+    mailTransport: MailTransport,
+    notificationTransport: NotificationTransport,
+    keyring: JwtKeyring
+  ) {
     this.redis = redis;
+    this.mailTransport = mailTransport;
+    this.notificationTransport = notificationTransport;
+    this.keyring = keyring;
 
     // Load environment variables
     this.JWT_SECRET = process.env['JWT_SECRET'] || '';
@@ -28,41 +77,168 @@ export class AuthService {
     this.JWT_REFRESH_EXPIRES_IN = process.env['JWT_REFRESH_EXPIRES_IN']
       ? parseInt(process.env['JWT_REFRESH_EXPIRES_IN'], 10)
       : 604800; // 7 days in seconds
+    this.JWT_LEGACY_SECRET_UNTIL = process.env['JWT_LEGACY_SECRET_UNTIL']
+      ? new Date(process.env['JWT_LEGACY_SECRET_UNTIL'])
+      : null;
     this.REFRESH_TOKEN_REDIS_TTL = process.env['REFRESH_TOKEN_REDIS_TTL']
       ? parseInt(process.env['REFRESH_TOKEN_REDIS_TTL'], 10)
       : 604800; // 7 days in seconds
     this.CSRF_TOKEN_TTL = process.env['CSRF_TOKEN_TTL']
       ? parseInt(process.env['CSRF_TOKEN_TTL'], 10)
       : 86400; // 24 hours in seconds
+    this.PASSWORD_RESET_TOKEN_TTL = process.env['PASSWORD_RESET_TOKEN_TTL']
+      ? parseInt(process.env['PASSWORD_RESET_TOKEN_TTL'], 10)
+      : 3600; // 1 hour in seconds
+    this.PASSWORD_RESET_URL =
+      process.env['PASSWORD_RESET_URL'] ||
+      'http://localhost:3000/reset-password';
+    this.EMAIL_VERIFICATION_TOKEN_TTL = process.env[
+      'EMAIL_VERIFICATION_TOKEN_TTL'
+    ]
+      ? parseInt(process.env['EMAIL_VERIFICATION_TOKEN_TTL'], 10)
+      : 86400; // 24 hours in seconds
+    this.EMAIL_VERIFICATION_URL =
+      process.env['EMAIL_VERIFICATION_URL'] ||
+      'http://localhost:3000/verify-email';
+    this.ACCOUNT_INVITATION_TOKEN_TTL = process.env[
+      'ACCOUNT_INVITATION_TOKEN_TTL'
+    ]
+      ? parseInt(process.env['ACCOUNT_INVITATION_TOKEN_TTL'], 10)
+      : 604800; // 7 days in seconds
+    this.ACCOUNT_INVITATION_URL =
+      process.env['ACCOUNT_INVITATION_URL'] ||
+      'http://localhost:3000/accept-invitation';
+    this.MAX_LOGIN_ATTEMPTS = process.env['MAX_LOGIN_ATTEMPTS']
+      ? parseInt(process.env['MAX_LOGIN_ATTEMPTS'], 10)
+      : 5;
+    this.LOGIN_FAILURE_WINDOW = process.env['LOGIN_FAILURE_WINDOW']
+      ? parseInt(process.env['LOGIN_FAILURE_WINDOW'], 10)
+      : 900; // 15 minutes in seconds
+    this.LOGIN_LOCKOUT_DURATION = process.env['LOGIN_LOCKOUT_DURATION']
+      ? parseInt(process.env['LOGIN_LOCKOUT_DURATION'], 10)
+      : 300; // 5 minutes in seconds
+    this.LOGIN_LOCKOUT_MAX_DURATION = process.env['LOGIN_LOCKOUT_MAX_DURATION']
+      ? parseInt(process.env['LOGIN_LOCKOUT_MAX_DURATION'], 10)
+      : 86400; // 24 hours in seconds
+    this.IMPERSONATION_TOKEN_TTL = process.env['IMPERSONATION_TOKEN_TTL']
+      ? parseInt(process.env['IMPERSONATION_TOKEN_TTL'], 10)
+      : 900; // 15 minutes in seconds
+    this.IMPERSONATION_ALLOW_WRITES =
+      process.env['IMPERSONATION_ALLOW_WRITES'] === 'true';
     this.NODE_ENV = process.env['NODE_ENV'] || 'development';
   }
 
   // JWT utility functions
   generateTokens(userId: number): AuthTokens {
-    const accessToken = jwt.sign({ userId }, this.JWT_SECRET as jwt.Secret, {
-      expiresIn: this.JWT_EXPIRES_IN,
-    });
-    const refreshToken = jwt.sign(
+    const accessToken = this.signToken(
       { userId },
-      this.JWT_REFRESH_SECRET as jwt.Secret,
-      {
-        expiresIn: this.JWT_REFRESH_EXPIRES_IN,
-      }
+      'access',
+      this.JWT_SECRET,
+      this.JWT_EXPIRES_IN
+    );
+    const refreshToken = this.signToken(
+      { userId },
+      'refresh',
+      this.JWT_REFRESH_SECRET,
+      this.JWT_REFRESH_EXPIRES_IN
     );
     return { accessToken, refreshToken };
   }
 
+  // Short-lived access token for the target user which also records the real user, it cannot be refreshed
+  generateImpersonationToken(
+    impersonatorId: number,
+    userId: number
+  ): { accessToken: string; expiresIn: number } {
+    const accessToken = this.signToken(
+      { userId, impersonatorId },
+      'access',
+      this.JWT_SECRET,
+      this.IMPERSONATION_TOKEN_TTL
+    );
+    return { accessToken, expiresIn: this.IMPERSONATION_TOKEN_TTL };
+  }
+
+  allowsImpersonationWrites(): boolean {
+    return this.IMPERSONATION_ALLOW_WRITES;
+  }
+
   verifyAccessToken(token: string): JwtPayload | null {
-    try {
-      return jwt.verify(token, this.JWT_SECRET) as JwtPayload;
-    } catch (error) {
-      return null;
-    }
+    return this.verifyToken(token, 'access', this.JWT_SECRET);
   }
 
   verifyRefreshToken(token: string): JwtPayload | null {
+    return this.verifyToken(token, 'refresh', this.JWT_REFRESH_SECRET);
+  }
+
+  // Public keys for services verifying our access tokens
+  getJwks(): { keys: crypto.JsonWebKey[] } {
+    return this.keyring.getJwks();
+  }
+
+  // Signs with the active keyring key and its kid, or with the HS256 secret if no keyring is configured
+  private signToken(
+    payload: { userId: number; impersonatorId?: number },
+    tokenType: 'access' | 'refresh',
+    secret: string,
+    expiresIn: number
+  ): string {
+    const signingKey = this.keyring.getSigningKey();
+    // Random token id, so tokens issued to the same user within a second still differ
+    const jwtid = crypto.randomUUID();
+
+    if (!signingKey) {
+      return jwt.sign(payload, secret as jwt.Secret, { expiresIn, jwtid });
+    }
+
+    // Both token types share the keyring, so the audience and type claim keep them apart
+    return jwt.sign({ ...payload, tokenType }, signingKey.privateKey, {
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+      audience: TOKEN_AUDIENCES[tokenType],
+      expiresIn,
+      jwtid,
+    });
+  }
+
+  // Tokens without a kid are signed with the HS256 secrets, once a keyring is configured
+  // they are only accepted until the JWT_LEGACY_SECRET_UNTIL cutoff
+  private acceptsLegacyTokens(): boolean {
+    if (!this.keyring.getSigningKey()) return true;
+
+    return (
+      this.JWT_LEGACY_SECRET_UNTIL !== null &&
+      Date.now() < this.JWT_LEGACY_SECRET_UNTIL.getTime()
+    );
+  }
+
+  // Tokens with a kid are verified against the keyring, tokens without one against the legacy HS256 secret
+  private verifyToken(
+    token: string,
+    tokenType: 'access' | 'refresh',
+    secret: string
+  ): JwtPayload | null {
     try {
-      return jwt.verify(token, this.JWT_REFRESH_SECRET) as JwtPayload;
+      const decoded = jwt.decode(token, { complete: true });
+      if (!decoded) return null;
+
+      const kid = decoded.header.kid;
+      if (!kid) {
+        if (!secret || !this.acceptsLegacyTokens()) return null;
+        return jwt.verify(token, secret, {
+          algorithms: ['HS256'],
+        }) as JwtPayload;
+      }
+
+      const key = this.keyring.getVerificationKey(kid);
+      if (!key) return null;
+
+      const payload = jwt.verify(token, key.publicKey, {
+        algorithms: [key.algorithm],
+        audience: TOKEN_AUDIENCES[tokenType],
+      }) as JwtPayload;
+
+      return payload['tokenType'] === tokenType ? payload : null;
     } catch (error) {
       return null;
     }
@@ -100,32 +276,306 @@ export class AuthService {
     await this.redis.del(key);
   }
 
-  // Redis utility functions for refresh tokens
-  async storeRefreshToken(refreshToken: string, userId: number): Promise<void> {
-    const key = `refresh_token:${refreshToken}`;
-    await this.redis.setex(key, this.REFRESH_TOKEN_REDIS_TTL, userId);
+  // Sessions, one per login, each holding the refresh token currently issued for it
+  // session:<id> holds the session details and user_sessions:<userId> indexes the sessions of a user
+  async createSession(
+    userId: number,
+    refreshToken: string,
+    metadata: SessionMetadata
+  ): Promise<string> {
+    const sessionId = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    await this.redis
+      .multi()
+      .hset(`session:${sessionId}`, {
+        userId,
+        userAgent: metadata.userAgent,
+        ip: metadata.ip,
+        createdAt: now,
+        lastRefreshedAt: now,
+        refreshToken,
+      })
+      .expire(`session:${sessionId}`, this.REFRESH_TOKEN_REDIS_TTL)
+      .sadd(`user_sessions:${userId}`, sessionId)
+      .expire(`user_sessions:${userId}`, this.REFRESH_TOKEN_REDIS_TTL)
+      .setex(
+        `refresh_token:${refreshToken}`,
+        this.REFRESH_TOKEN_REDIS_TTL,
+        sessionId
+      )
+      .exec();
+
+    return sessionId;
   }
 
-  async getRefreshTokenUserId(refreshToken: string): Promise<string | null> {
-    const key = `refresh_token:${refreshToken}`;
-    return await this.redis.get(key);
+  async getRefreshTokenSession(
+    refreshToken: string
+  ): Promise<{ sessionId: string; userId: number } | null> {
+    const sessionId = await this.redis.get(`refresh_token:${refreshToken}`);
+    if (!sessionId) return null;
+
+    const userId = await this.redis.hget(`session:${sessionId}`, 'userId');
+    if (!userId) return null;
+
+    return { sessionId, userId: parseInt(userId, 10) };
   }
 
-  async deleteRefreshToken(refreshToken: string): Promise<void> {
-    const key = `refresh_token:${refreshToken}`;
-    await this.redis.del(key);
+  // The old token stays remembered as rotated, so a replay of it can be detected, see refreshTokens
+  async consumeRefreshToken(
+    refreshToken: string
+  ): Promise<{ sessionId: string; userId: number } | null> {
+    const sessionId = (await this.redis.eval(
+      CONSUME_REFRESH_TOKEN_SCRIPT,
+      2,
+      `refresh_token:${refreshToken}`,
+      `rotated_refresh_token:${refreshToken}`,
+      this.REFRESH_TOKEN_REDIS_TTL
+    )) as string | null;
+    if (!sessionId) return null;
+
+    const userId = await this.redis.hget(`session:${sessionId}`, 'userId');
+    if (!userId) return null;
+
+    return { sessionId, userId: parseInt(userId, 10) };
+  }
+
+  // Gives a session the refresh token replacing its consumed one and extends its lifetime
+  async rotateSessionRefreshToken(
+    sessionId: string,
+    userId: number,
+    newRefreshToken: string
+  ): Promise<void> {
+    await this.redis
+      .multi()
+      .setex(
+        `refresh_token:${newRefreshToken}`,
+        this.REFRESH_TOKEN_REDIS_TTL,
+        sessionId
+      )
+      .hset(`session:${sessionId}`, {
+        refreshToken: newRefreshToken,
+        lastRefreshedAt: new Date().toISOString(),
+      })
+      .expire(`session:${sessionId}`, this.REFRESH_TOKEN_REDIS_TTL)
+      .expire(`user_sessions:${userId}`, this.REFRESH_TOKEN_REDIS_TTL)
+      .exec();
   }
 
-  async deleteAllUserRefreshTokens(userId: string): Promise<void> {
-    const pattern = 'refresh_token:*';
-    const keys = await this.redis.keys(pattern);
+  async getUserSessions(userId: number): Promise<SessionInfo[]> {
+    const sessionIds = await this.redis.smembers(`user_sessions:${userId}`);
+    const sessions: SessionInfo[] = [];
+
+    for (const sessionId of sessionIds) {
+      const session = await this.redis.hgetall(`session:${sessionId}`);
 
-    for (const key of keys) {
-      const storedUserId = await this.redis.get(key);
-      if (storedUserId === userId) {
-        await this.redis.del(key);
+      // Expired sessions are removed from the index when they are found
+      if (!session['userId']) {
+        await this.redis.srem(`user_sessions:${userId}`, sessionId);
+        continue;
       }
+
+      sessions.push({
+        id: sessionId,
+        userAgent: session['userAgent'] ?? '',
+        ip: session['ip'] ?? '',
+        createdAt: session['createdAt'] ?? '',
+        lastRefreshedAt: session['lastRefreshedAt'] ?? '',
+      });
+    }
+
+    return sessions.sort((a, b) =>
+      b.lastRefreshedAt.localeCompare(a.lastRefreshedAt)
+    );
+  }
+
+  // Returns false if the session does not exist or belongs to another user
+  async revokeSession(userId: number, sessionId: string): Promise<boolean> {
+    const session = await this.redis.hmget(
+      `session:${sessionId}`,
+      'userId',
+      'refreshToken'
+    );
+    const [sessionUserId, refreshToken] = session;
+
+    if (!sessionUserId || parseInt(sessionUserId, 10) !== userId) {
+      return false;
+    }
+
+    const transaction = this.redis
+      .multi()
+      .del(`session:${sessionId}`)
+      .srem(`user_sessions:${userId}`, sessionId);
+    if (refreshToken) {
+      transaction.del(`refresh_token:${refreshToken}`);
     }
+    await transaction.exec();
+
+    return true;
+  }
+
+  async revokeAllUserSessions(userId: number): Promise<void> {
+    const sessionIds = await this.redis.smembers(`user_sessions:${userId}`);
+    const keys = [`user_sessions:${userId}`];
+
+    for (const sessionId of sessionIds) {
+      const refreshToken = await this.redis.hget(
+        `session:${sessionId}`,
+        'refreshToken'
+      );
+      if (refreshToken) keys.push(`refresh_token:${refreshToken}`);
+      keys.push(`session:${sessionId}`);
+    }
+
+    await this.redis.del(...keys);
+  }
+
+  // Password reset and email verification tokens are stored hashed so a Redis dump cannot be used to redeem them
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  async createPasswordResetToken(userId: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const key = `password_reset_token:${this.hashToken(token)}`;
+    await this.redis.setex(key, this.PASSWORD_RESET_TOKEN_TTL, userId);
+    return token;
+  }
+
+  // Returns the user id the token was issued for without using up the token
+  async getPasswordResetTokenUserId(token: string): Promise<string | null> {
+    const key = `password_reset_token:${this.hashToken(token)}`;
+    return await this.redis.get(key);
+  }
+
+  // Returns the user id the token was issued for, the token is deleted so it can only be used once
+  async consumePasswordResetToken(token: string): Promise<string | null> {
+    const key = `password_reset_token:${this.hashToken(token)}`;
+    return await this.redis.getdel(key);
+  }
+
+  async sendPasswordResetEmail(email: string, token: string): Promise<void> {
+    const resetUrl = `${this.PASSWORD_RESET_URL}?token=${token}`;
+    const expiresInMinutes = Math.round(this.PASSWORD_RESET_TOKEN_TTL / 60);
+
+    await this.mailTransport.send({
+      to: email,
+      subject: 'Password reset request',
+      text:
+        `A password reset was requested for your account.\n\n` +
+        `Use the link below to choose a new password. The link expires in ${expiresInMinutes} minutes and can only be used once.\n\n` +
+        `${resetUrl}\n\n` +
+        `If you did not request a password reset, you can ignore this email.`,
+    });
+  }
+
+  async createEmailVerificationToken(userId: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const key = `email_verification_token:${this.hashToken(token)}`;
+    await this.redis.setex(key, this.EMAIL_VERIFICATION_TOKEN_TTL, userId);
+    return token;
+  }
+
+  async consumeEmailVerificationToken(token: string): Promise<string | null> {
+    const key = `email_verification_token:${this.hashToken(token)}`;
+    return await this.redis.getdel(key);
+  }
+
+  async sendVerificationEmail(email: string, token: string): Promise<void> {
+    const verificationUrl = `${this.EMAIL_VERIFICATION_URL}?token=${token}`;
+    const expiresInHours = Math.round(this.EMAIL_VERIFICATION_TOKEN_TTL / 3600);
+
+    await this.mailTransport.send({
+      to: email,
+      subject: 'Verify your email address',
+      text:
+        `Please confirm your email address to finish setting up your account.\n\n` +
+        `Use the link below to verify your email. The link expires in ${expiresInHours} hours.\n\n` +
+        `${verificationUrl}\n\n` +
+        `If you did not create an account, you can ignore this email.`,
+    });
+  }
+
+  async createAccountInvitationToken(userId: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const key = `account_invitation_token:${this.hashToken(token)}`;
+    await this.redis.setex(key, this.ACCOUNT_INVITATION_TOKEN_TTL, userId);
+    return token;
+  }
+
+  async consumeAccountInvitationToken(token: string): Promise<string | null> {
+    const key = `account_invitation_token:${this.hashToken(token)}`;
+    return await this.redis.getdel(key);
+  }
+
+  // Invitations go through the notification transport, so they can reach guardians by other channels than email
+  async sendAccountInvitation(
+    recipient: NotificationRecipient,
+    token: string
+  ): Promise<void> {
+    const invitationUrl = `${this.ACCOUNT_INVITATION_URL}?token=${token}`;
+    const expiresInDays = Math.round(this.ACCOUNT_INVITATION_TOKEN_TTL / 86400);
+
+    await this.notificationTransport.send({
+      to: recipient,
+      subject: 'You are invited to the parent portal',
+      text:
+        `An account has been created for you to follow your children's school records.\n\n` +
+        `Use the link below to choose a password and activate your account. The link expires in ${expiresInDays} days and can only be used once.\n\n` +
+        `${invitationUrl}\n\n` +
+        `If you were not expecting this invitation, you can ignore this message.`,
+    });
+  }
+
+  // Failed login tracking per email, kept in Redis so it is shared between app instances
+  async getLoginLockoutTtl(email: string): Promise<number> {
+    const key = `login_lockout:${email.toLowerCase()}`;
+    const ttl = await this.redis.ttl(key);
+    return ttl > 0 ? ttl : 0;
+  }
+
+  // Returns the lockout duration in seconds if this failure locked the account, otherwise 0
+  // Each lockout within the max duration doubles the length of the next one
+  async recordFailedLogin(email: string): Promise<number> {
+    const normalizedEmail = email.toLowerCase();
+    const failuresKey = `login_failures:${normalizedEmail}`;
+
+    const failures = await this.redis.incr(failuresKey);
+    if (failures === 1) {
+      await this.redis.expire(failuresKey, this.LOGIN_FAILURE_WINDOW);
+    }
+    if (failures < this.MAX_LOGIN_ATTEMPTS) return 0;
+
+    const lockoutsKey = `login_lockouts:${normalizedEmail}`;
+    const lockouts = await this.redis.incr(lockoutsKey);
+    await this.redis.expire(lockoutsKey, this.LOGIN_LOCKOUT_MAX_DURATION);
+
+    const duration = Math.min(
+      this.LOGIN_LOCKOUT_DURATION * 2 ** (lockouts - 1),
+      this.LOGIN_LOCKOUT_MAX_DURATION
+    );
+
+    await this.redis.setex(`login_lockout:${normalizedEmail}`, duration, 1);
+    await this.redis.del(failuresKey);
+
+    return duration;
+  }
+
+  async clearFailedLogins(email: string): Promise<void> {
+    const normalizedEmail = email.toLowerCase();
+    await this.redis.del(
+      `login_failures:${normalizedEmail}`,
+      `login_lockouts:${normalizedEmail}`
+    );
+  }
+
+  async unlockAccount(email: string): Promise<void> {
+    const normalizedEmail = email.toLowerCase();
+    await this.redis.del(
+      `login_lockout:${normalizedEmail}`,
+      `login_failures:${normalizedEmail}`,
+      `login_lockouts:${normalizedEmail}`
+    );
   }
 
   // Cookie utility functions
@@ -173,31 +623,66 @@ export class AuthService {
     }
   }
 
+  // Each session is a refresh token family, rotated tokens of a family must never be presented again
+  // If one is, either the legitimate user or an attacker holds a stolen token, so the whole family is revoked
+  private async handleRotatedRefreshToken(
+    refreshToken: string
+  ): Promise<{ success: boolean; error: string; userId?: number }> {
+    const sessionId = await this.redis.get(
+      `rotated_refresh_token:${refreshToken}`
+    );
+    if (!sessionId) {
+      return { success: false, error: 'Invalid refresh token' };
+    }
+
+    const userId = await this.redis.hget(`session:${sessionId}`, 'userId');
+    if (!userId) {
+      return { success: false, error: 'Refresh token reuse detected' };
+    }
+
+    await this.revokeSession(parseInt(userId, 10), sessionId);
+    logger.warn(
+      `Refresh token reuse detected for session ${sessionId} of user ${userId}, token family revoked`
+    );
+
+    return {
+      success: false,
+      error: 'Refresh token reuse detected',
+      userId: parseInt(userId, 10),
+    };
+  }
+
   // Token refresh with rotation
+  // The user id is returned whenever the token could be tied to a user, also on failure
   async refreshTokens(refreshToken: string): Promise<{
     success: boolean;
     tokens?: AuthTokens;
     csrfToken?: string;
     error?: string;
+    userId?: number;
   }> {
     try {
-      // Check if refresh token exists in Redis
-      const storedUserId = await this.getRefreshTokenUserId(refreshToken);
-      if (!storedUserId) {
-        return { success: false, error: 'Invalid refresh token' };
+      // Consume the refresh token of an active session, a token which was already consumed is reuse
+      const session = await this.consumeRefreshToken(refreshToken);
+      if (!session) {
+        return await this.handleRotatedRefreshToken(refreshToken);
       }
 
       // Verify refresh token
       const decoded = this.verifyRefreshToken(refreshToken);
-      if (!decoded || decoded['userId'] !== parseInt(storedUserId)) {
-        await this.deleteRefreshToken(refreshToken);
-        return { success: false, error: 'Token mismatch' };
+      if (!decoded || decoded['userId'] !== session.userId) {
+        await this.revokeSession(session.userId, session.sessionId);
+        return {
+          success: false,
+          error: 'Token mismatch',
+          userId: session.userId,
+        };
       }
 
       // Find user
       const user = await userService.getUserById(decoded['userId']);
       if (!user) {
-        await this.deleteRefreshToken(refreshToken);
+        await this.revokeSession(session.userId, session.sessionId);
         return { success: false, error: 'User not found' };
       }
 
@@ -206,14 +691,18 @@ export class AuthService {
       const csrfToken = this.generateCSRFToken();
 
       // Rotate refresh tokens
-      await this.deleteRefreshToken(refreshToken);
-      await this.storeRefreshToken(newTokens.refreshToken, user.id);
+      await this.rotateSessionRefreshToken(
+        session.sessionId,
+        user.id,
+        newTokens.refreshToken
+      );
       await this.storeCSRFToken(csrfToken, user.id);
 
       return {
         success: true,
         tokens: newTokens,
         csrfToken,
+        userId: user.id,
       };
     } catch (error) {
       console.error('Token refresh error:', error);
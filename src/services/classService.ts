@@ -0,0 +1,655 @@
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import {
+  type AssignClassSubjectInput,
+  type ClassQuery,
+  type CreateClassInput,
+  type UpdateClassInput,
+  type UpdateClassSubjectInput,
+} from '../schemas/classSchema';
+import {
+  type Class,
+  type ClassStudent,
+  type ClassSubject,
+  type ClassSubjectDetails,
+  type ClassUpdate,
+  type NewClass,
+  type Student,
+  type StudentClassDetails,
+} from '../types/database';
+import type { AuditContext } from '../types/general';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import { auditService } from './auditService';
+
+export class ClassService {
+  async createClass(
+    schoolId: number,
+    input: CreateClassInput,
+    audit?: AuditContext
+  ): Promise<Class | undefined> {
+    try {
+      const newClass: NewClass = {
+        ...input,
+        schoolId,
+      };
+
+      return await db.transaction().execute(async trx => {
+        const createdClass = await trx
+          .insertInto('classes')
+          .values(newClass)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'classes',
+          entityId: createdClass.id,
+          action: 'create',
+          after: createdClass,
+        });
+
+        return createdClass;
+      });
+    } catch (error) {
+      // Handle unique constraint violation
+      if (
+        isUniqueViolation(error, 'classes_school_year_grade_section_unique')
+      ) {
+        databaseErrorThrower(
+          'Class already exists for this grade and section',
+          error
+        );
+      } else {
+        databaseErrorThrower('Failed to create class', error);
+      }
+    }
+    return;
+  }
+
+  async getClasses(
+    schoolId: number,
+    query: ClassQuery
+  ): Promise<{ classes: Class[]; total: number } | undefined> {
+    try {
+      let dbQuery = db.selectFrom('classes').where('schoolId', '=', schoolId);
+
+      // Apply filters
+      if (query.academicYearId) {
+        dbQuery = dbQuery.where('academicYearId', '=', query.academicYearId);
+      }
+
+      if (query.gradeLevel !== undefined) {
+        dbQuery = dbQuery.where('gradeLevel', '=', query.gradeLevel);
+      }
+
+      // Get total count for pagination
+      const totalResult = await dbQuery
+        .select(eb => eb.fn.countAll().as('count'))
+        .executeTakeFirst();
+
+      const total = Number(totalResult?.count || 0);
+
+      // Apply pagination and ordering
+      const classes = await dbQuery
+        .selectAll()
+        .orderBy('gradeLevel', 'asc')
+        .orderBy('section', 'asc')
+        .limit(query.limit || 10)
+        .offset(((query.page || 1) - 1) * (query.limit || 10))
+        .execute();
+
+      return { classes, total };
+    } catch (error) {
+      databaseErrorThrower('Failed to get classes', error);
+    }
+    return;
+  }
+
+  async getClassById(schoolId: number, id: number): Promise<Class | undefined> {
+    try {
+      return await db
+        .selectFrom('classes')
+        .selectAll()
+        .where('schoolId', '=', schoolId)
+        .where('id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get class', error);
+    }
+    return;
+  }
+
+  async updateClass(
+    schoolId: number,
+    id: number,
+    input: UpdateClassInput,
+    audit?: AuditContext
+  ): Promise<Class | undefined> {
+    try {
+      // Only the fields which are sent are updated
+      const updateData: ClassUpdate = { updatedAt: new Date() };
+      if (input.gradeLevel !== undefined) {
+        updateData.gradeLevel = input.gradeLevel;
+      }
+      if (input.section !== undefined) updateData.section = input.section;
+      if (input.homeroomTeacherId !== undefined) {
+        updateData.homeroomTeacherId = input.homeroomTeacherId;
+      }
+      if (input.capacity !== undefined) updateData.capacity = input.capacity;
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('classes')
+          .selectAll()
+          .where('schoolId', '=', schoolId)
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return;
+
+        const updatedClass = await trx
+          .updateTable('classes')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'classes',
+          entityId: id,
+          action: 'update',
+          before,
+          after: updatedClass,
+        });
+
+        return updatedClass;
+      });
+    } catch (error) {
+      // Handle unique constraint violation
+      if (
+        isUniqueViolation(error, 'classes_school_year_grade_section_unique')
+      ) {
+        databaseErrorThrower(
+          'Class already exists for this grade and section',
+          error
+        );
+      } else {
+        databaseErrorThrower('Failed to update class', error);
+      }
+    }
+    return;
+  }
+
+  // Placements in the class are deleted with it
+  async deleteClass(
+    schoolId: number,
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const existingClass = await trx
+          .selectFrom('classes')
+          .select('id')
+          .where('schoolId', '=', schoolId)
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!existingClass) return false;
+
+        const deletedPlacements = await trx
+          .deleteFrom('classStudents')
+          .where('classId', '=', id)
+          .returningAll()
+          .execute();
+
+        const deleted = await trx
+          .deleteFrom('classes')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        for (const placement of deletedPlacements) {
+          await auditService.record(trx, audit, {
+            entityType: 'classStudents',
+            entityId: placement.id,
+            action: 'delete',
+            before: placement,
+          });
+        }
+
+        await auditService.record(trx, audit, {
+          entityType: 'classes',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete class', error);
+    }
+    return;
+  }
+
+  async getClassStudents(classId: number): Promise<Student[] | undefined> {
+    try {
+      return await db
+        .selectFrom('classStudents')
+        .innerJoin('students', 'students.id', 'classStudents.studentId')
+        .selectAll('students')
+        .where('classStudents.classId', '=', classId)
+        .orderBy('students.lastName', 'asc')
+        .orderBy('students.firstName', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get class students', error);
+    }
+    return;
+  }
+
+  // Classes the student was placed in, latest academic year first
+  async getStudentClasses(
+    studentId: number
+  ): Promise<StudentClassDetails[] | undefined> {
+    try {
+      return await db
+        .selectFrom('classStudents')
+        .innerJoin('classes', 'classes.id', 'classStudents.classId')
+        .innerJoin(
+          'academicYears',
+          'academicYears.id',
+          'classes.academicYearId'
+        )
+        .selectAll('classes')
+        .select('academicYears.name as academicYearName')
+        .where('classStudents.studentId', '=', studentId)
+        .orderBy('academicYears.startDate', 'desc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get student classes', error);
+    }
+    return;
+  }
+
+  // Class the student was placed in for the academic year of the term
+  async getStudentClassInTerm(
+    studentId: number,
+    termId: number
+  ): Promise<Class | undefined> {
+    try {
+      return await db
+        .selectFrom('classStudents')
+        .innerJoin('classes', 'classes.id', 'classStudents.classId')
+        .innerJoin('terms', 'terms.academicYearId', 'classes.academicYearId')
+        .selectAll('classes')
+        .where('classStudents.studentId', '=', studentId)
+        .where('terms.id', '=', termId)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get student class', error);
+    }
+    return;
+  }
+
+  async countClassStudents(classId: number): Promise<number | undefined> {
+    try {
+      const result = await db
+        .selectFrom('classStudents')
+        .select(eb => eb.fn.countAll().as('count'))
+        .where('classId', '=', classId)
+        .executeTakeFirst();
+
+      return Number(result?.count || 0);
+    } catch (error) {
+      databaseErrorThrower('Failed to count class students', error);
+    }
+    return;
+  }
+
+  // Returns the ids of the given students which are not enrolled at the school
+  async getStudentsOutsideSchool(
+    schoolId: number,
+    studentIds: number[]
+  ): Promise<number[] | undefined> {
+    try {
+      const students = await db
+        .selectFrom('students')
+        .select('id')
+        .where('id', 'in', studentIds)
+        .where('schoolId', '=', schoolId)
+        .execute();
+
+      const enrolledIds = new Set(students.map(student => student.id));
+      return studentIds.filter(id => !enrolledIds.has(id));
+    } catch (error) {
+      databaseErrorThrower('Failed to check class students', error);
+    }
+    return;
+  }
+
+  // Places the students in the class, none are placed if the class would exceed its capacity
+  // or one of the students is already in a class of the same academic year
+  async placeStudents(
+    classId: number,
+    studentIds: number[],
+    audit?: AuditContext
+  ): Promise<{ placements?: ClassStudent[]; error?: string } | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        // Locking the class serializes placements into it, so the capacity check holds
+        const targetClass = await trx
+          .selectFrom('classes')
+          .selectAll()
+          .where('id', '=', classId)
+          .forUpdate()
+          .executeTakeFirstOrThrow();
+
+        const existingPlacements = await trx
+          .selectFrom('classStudents')
+          .select(['studentId', 'classId'])
+          .where('academicYearId', '=', targetClass.academicYearId)
+          .where('studentId', 'in', studentIds)
+          .execute();
+
+        if (existingPlacements.length > 0) {
+          return {
+            error: `Students are already in a class this academic year: ${existingPlacements
+              .map(placement => placement.studentId)
+              .join(', ')}`,
+          };
+        }
+
+        const countResult = await trx
+          .selectFrom('classStudents')
+          .select(eb => eb.fn.countAll().as('count'))
+          .where('classId', '=', classId)
+          .executeTakeFirst();
+
+        const placedCount = Number(countResult?.count || 0);
+
+        if (placedCount + studentIds.length > targetClass.capacity) {
+          return {
+            error: `Class has ${targetClass.capacity - placedCount} of ${targetClass.capacity} places left`,
+          };
+        }
+
+        const placements = await trx
+          .insertInto('classStudents')
+          .values(
+            studentIds.map(studentId => ({
+              classId,
+              studentId,
+              academicYearId: targetClass.academicYearId,
+            }))
+          )
+          .returningAll()
+          .execute();
+
+        for (const placement of placements) {
+          await auditService.record(trx, audit, {
+            entityType: 'classStudents',
+            entityId: placement.id,
+            action: 'create',
+            after: placement,
+          });
+        }
+
+        return { placements };
+      });
+    } catch (error) {
+      // A concurrent placement into another class of the same year
+      if (isUniqueViolation(error, 'class_students_student_year_unique')) {
+        return {
+          error: 'Students are already in a class this academic year',
+        };
+      }
+      databaseErrorThrower('Failed to place students in class', error);
+    }
+    return;
+  }
+
+  // Moves a student to another class of the same academic year, keeping the placement record
+  async moveStudent(
+    fromClassId: number,
+    toClassId: number,
+    studentId: number,
+    audit?: AuditContext
+  ): Promise<{ placement?: ClassStudent; error?: string } | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const targetClass = await trx
+          .selectFrom('classes')
+          .selectAll()
+          .where('id', '=', toClassId)
+          .forUpdate()
+          .executeTakeFirstOrThrow();
+
+        const before = await trx
+          .selectFrom('classStudents')
+          .selectAll()
+          .where('classId', '=', fromClassId)
+          .where('studentId', '=', studentId)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) {
+          return { error: 'Student is not in this class' };
+        }
+
+        const countResult = await trx
+          .selectFrom('classStudents')
+          .select(eb => eb.fn.countAll().as('count'))
+          .where('classId', '=', toClassId)
+          .executeTakeFirst();
+
+        if (Number(countResult?.count || 0) >= targetClass.capacity) {
+          return { error: 'Target class is full' };
+        }
+
+        const placement = await trx
+          .updateTable('classStudents')
+          .set({ classId: toClassId, updatedAt: new Date() })
+          .where('id', '=', before.id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'classStudents',
+          entityId: placement.id,
+          action: 'update',
+          before,
+          after: placement,
+        });
+
+        return { placement };
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to move student', error);
+    }
+    return;
+  }
+
+  async removeStudent(
+    classId: number,
+    studentId: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('classStudents')
+          .where('classId', '=', classId)
+          .where('studentId', '=', studentId)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'classStudents',
+          entityId: deleted.id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to remove student from class', error);
+    }
+    return;
+  }
+
+  async getClassSubjects(
+    classId: number
+  ): Promise<ClassSubjectDetails[] | undefined> {
+    try {
+      return await db
+        .selectFrom('classSubjects')
+        .innerJoin('subjects', 'subjects.id', 'classSubjects.subjectId')
+        .selectAll('classSubjects')
+        .select([
+          'subjects.name as subjectName',
+          'subjects.code as subjectCode',
+        ])
+        .where('classSubjects.classId', '=', classId)
+        .orderBy('subjects.name', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get class subjects', error);
+    }
+    return;
+  }
+
+  async getClassSubjectById(
+    classId: number,
+    id: number
+  ): Promise<ClassSubjectDetails | undefined> {
+    try {
+      return await db
+        .selectFrom('classSubjects')
+        .innerJoin('subjects', 'subjects.id', 'classSubjects.subjectId')
+        .selectAll('classSubjects')
+        .select([
+          'subjects.name as subjectName',
+          'subjects.code as subjectCode',
+        ])
+        .where('classSubjects.classId', '=', classId)
+        .where('classSubjects.id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get class subject', error);
+    }
+    return;
+  }
+
+  // Adds a subject to the timetable of the class, each subject is taught once per class
+  async assignSubject(
+    classId: number,
+    input: AssignClassSubjectInput,
+    audit?: AuditContext
+  ): Promise<{ classSubject?: ClassSubject; error?: string } | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const classSubject = await trx
+          .insertInto('classSubjects')
+          .values({ ...input, classId })
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'classSubjects',
+          entityId: classSubject.id,
+          action: 'create',
+          after: classSubject,
+        });
+
+        return { classSubject };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, 'class_subjects_class_subject_unique')) {
+        return { error: 'Subject is already taught in the class' };
+      }
+      databaseErrorThrower('Failed to assign subject to class', error);
+    }
+    return;
+  }
+
+  async updateClassSubject(
+    classId: number,
+    id: number,
+    input: UpdateClassSubjectInput,
+    audit?: AuditContext
+  ): Promise<ClassSubject | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('classSubjects')
+          .selectAll()
+          .where('classId', '=', classId)
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return;
+
+        const classSubject = await trx
+          .updateTable('classSubjects')
+          .set({ teacherId: input.teacherId, updatedAt: new Date() })
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'classSubjects',
+          entityId: id,
+          action: 'update',
+          before,
+          after: classSubject,
+        });
+
+        return classSubject;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update class subject', error);
+    }
+    return;
+  }
+
+  // Assessments of the subject and their grades are deleted with it
+  async removeSubject(
+    classId: number,
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('classSubjects')
+          .where('classId', '=', classId)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'classSubjects',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to remove subject from class', error);
+    }
+    return;
+  }
+}
+
+export const classService = new ClassService();
@@ -0,0 +1,638 @@
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import {
+  type AssessmentQuery,
+  type CreateAssessmentInput,
+  type StudentGradesQuery,
+  type UpdateAssessmentInput,
+} from '../schemas/gradeSchema';
+import {
+  type Assessment,
+  type AssessmentDetails,
+  type AssessmentType,
+  type AssessmentUpdate,
+  type Grade,
+  type GradeUpdate,
+  type GradingScaleDetails,
+  type NewAssessment,
+  type NewGrade,
+} from '../types/database';
+import type { AuditContext } from '../types/general';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import { auditService } from './auditService';
+
+export interface GradeEntry {
+  studentId: number;
+  score: number;
+  comment: string | null;
+}
+
+export interface AssessmentGradeEntry {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  gradeId: number | null;
+  score: number | null; // null while the student has not been graded
+  comment: string | null;
+}
+
+export interface StudentGradeEntry {
+  gradeId: number;
+  assessmentId: number;
+  assessmentName: string;
+  type: AssessmentType;
+  date: Date;
+  weight: number;
+  maxScore: number;
+  score: number;
+  comment: string | null;
+  termId: number;
+  subjectId: number;
+  subjectName: string;
+}
+
+export interface SubjectAverage {
+  subjectId: number;
+  subjectName: string;
+  gradesRecorded: number;
+  average: number; // weighted percentage of the max scores
+  grade: string | null; // null without a grading scale
+}
+
+export interface TermAverages {
+  subjects: SubjectAverage[];
+  average: number | null; // mean of the subject averages, null without grades
+  grade: string | null;
+}
+
+export interface StudentTermAverages extends TermAverages {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+}
+
+interface TermScore {
+  studentId: number;
+  subjectId: number;
+  subjectName: string;
+  weight: number;
+  maxScore: number;
+  score: number;
+}
+
+type GradingBands = GradingScaleDetails['bands'];
+
+export class GradeService {
+  async getAssessments(
+    classId: number,
+    query: AssessmentQuery
+  ): Promise<AssessmentDetails[] | undefined> {
+    try {
+      let dbQuery = this.assessmentsQuery().where(
+        'classSubjects.classId',
+        '=',
+        classId
+      );
+
+      if (query.classSubjectId) {
+        dbQuery = dbQuery.where(
+          'assessments.classSubjectId',
+          '=',
+          query.classSubjectId
+        );
+      }
+      if (query.termId) {
+        dbQuery = dbQuery.where('assessments.termId', '=', query.termId);
+      }
+
+      return await dbQuery
+        .orderBy('assessments.date', 'desc')
+        .orderBy('assessments.id', 'desc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get assessments', error);
+    }
+    return;
+  }
+
+  async getAssessmentById(
+    classId: number,
+    id: number
+  ): Promise<AssessmentDetails | undefined> {
+    try {
+      return await this.assessmentsQuery()
+        .where('classSubjects.classId', '=', classId)
+        .where('assessments.id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get assessment', error);
+    }
+    return;
+  }
+
+  async createAssessment(
+    input: CreateAssessmentInput,
+    audit?: AuditContext
+  ): Promise<Assessment | undefined> {
+    try {
+      const newAssessment: NewAssessment = {
+        ...input,
+      };
+
+      return await db.transaction().execute(async trx => {
+        const assessment = await trx
+          .insertInto('assessments')
+          .values(newAssessment)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'assessments',
+          entityId: assessment.id,
+          action: 'create',
+          after: assessment,
+        });
+
+        return assessment;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to create assessment', error);
+    }
+    return;
+  }
+
+  // The max score cannot drop below a score which was already given
+  async updateAssessment(
+    id: number,
+    input: UpdateAssessmentInput,
+    audit?: AuditContext
+  ): Promise<{ assessment?: Assessment; error?: string } | undefined> {
+    try {
+      // Only the fields which are sent are updated
+      const updateData: AssessmentUpdate = { updatedAt: new Date() };
+      if (input.name !== undefined) updateData.name = input.name;
+      if (input.type !== undefined) updateData.type = input.type;
+      if (input.weight !== undefined) updateData.weight = input.weight;
+      if (input.date !== undefined) updateData.date = input.date;
+      if (input.maxScore !== undefined) updateData.maxScore = input.maxScore;
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('assessments')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return { error: 'Assessment not found' };
+
+        if (input.maxScore !== undefined) {
+          const gradeAboveMax = await trx
+            .selectFrom('grades')
+            .select('id')
+            .where('assessmentId', '=', id)
+            .where('score', '>', input.maxScore)
+            .executeTakeFirst();
+
+          if (gradeAboveMax) {
+            return {
+              error: 'Max score is lower than a score which was already given',
+            };
+          }
+        }
+
+        const assessment = await trx
+          .updateTable('assessments')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'assessments',
+          entityId: id,
+          action: 'update',
+          before,
+          after: assessment,
+        });
+
+        return { assessment };
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update assessment', error);
+    }
+    return;
+  }
+
+  // Grades of the assessment are deleted with it
+  async deleteAssessment(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deletedGrades = await trx
+          .deleteFrom('grades')
+          .where('assessmentId', '=', id)
+          .returningAll()
+          .execute();
+
+        const deleted = await trx
+          .deleteFrom('assessments')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        for (const grade of deletedGrades) {
+          await auditService.record(trx, audit, {
+            entityType: 'grades',
+            entityId: grade.id,
+            action: 'delete',
+            before: grade,
+          });
+        }
+
+        await auditService.record(trx, audit, {
+          entityType: 'assessments',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete assessment', error);
+    }
+    return;
+  }
+
+  // Grades of the class for the assessment, students who have not been graded yet are included without a score
+  async getAssessmentGrades(
+    classId: number,
+    assessmentId: number
+  ): Promise<AssessmentGradeEntry[] | undefined> {
+    try {
+      return await db
+        .selectFrom('classStudents')
+        .innerJoin('students', 'students.id', 'classStudents.studentId')
+        .leftJoin('grades', join =>
+          join
+            .onRef('grades.studentId', '=', 'students.id')
+            .on('grades.assessmentId', '=', assessmentId)
+        )
+        .select([
+          'students.id as studentId',
+          'students.firstName',
+          'students.lastName',
+          'grades.id as gradeId',
+          'grades.score',
+          'grades.comment',
+        ])
+        .where('classStudents.classId', '=', classId)
+        .orderBy('students.lastName', 'asc')
+        .orderBy('students.firstName', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get assessment grades', error);
+    }
+    return;
+  }
+
+  // Enters the scores of the students for the assessment, a student who was already graded has their grade replaced
+  async enterGrades(
+    assessmentId: number,
+    entries: GradeEntry[],
+    audit?: AuditContext
+  ): Promise<{ grades?: Grade[]; error?: string } | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const existingGrades = await trx
+          .selectFrom('grades')
+          .selectAll()
+          .where('assessmentId', '=', assessmentId)
+          .where(
+            'studentId',
+            'in',
+            entries.map(entry => entry.studentId)
+          )
+          .forUpdate()
+          .execute();
+        const existingByStudent = new Map(
+          existingGrades.map(grade => [grade.studentId, grade])
+        );
+
+        const grades: Grade[] = [];
+
+        for (const entry of entries) {
+          const before = existingByStudent.get(entry.studentId);
+
+          if (before) {
+            const gradeUpdate: GradeUpdate = {
+              score: entry.score,
+              comment: entry.comment,
+              gradedBy: audit?.actorUserId ?? null,
+              updatedAt: new Date(),
+            };
+
+            const grade = await trx
+              .updateTable('grades')
+              .set(gradeUpdate)
+              .where('id', '=', before.id)
+              .returningAll()
+              .executeTakeFirstOrThrow();
+
+            await auditService.record(trx, audit, {
+              entityType: 'grades',
+              entityId: grade.id,
+              action: 'update',
+              before,
+              after: grade,
+            });
+
+            grades.push(grade);
+            continue;
+          }
+
+          const newGrade: NewGrade = {
+            assessmentId,
+            studentId: entry.studentId,
+            score: entry.score,
+            comment: entry.comment,
+            gradedBy: audit?.actorUserId ?? null,
+          };
+
+          const grade = await trx
+            .insertInto('grades')
+            .values(newGrade)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'grades',
+            entityId: grade.id,
+            action: 'create',
+            after: grade,
+          });
+
+          grades.push(grade);
+        }
+
+        return { grades };
+      });
+    } catch (error) {
+      // Another request graded one of the students for the assessment in the meantime
+      if (isUniqueViolation(error, 'grades_assessment_student_unique')) {
+        return {
+          error: 'Grades were entered by another request, please retry',
+        };
+      }
+      databaseErrorThrower('Failed to enter grades', error);
+    }
+    return;
+  }
+
+  async deleteGrade(
+    assessmentId: number,
+    studentId: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('grades')
+          .where('assessmentId', '=', assessmentId)
+          .where('studentId', '=', studentId)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'grades',
+          entityId: deleted.id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete grade', error);
+    }
+    return;
+  }
+
+  async getStudentGrades(
+    studentId: number,
+    query: StudentGradesQuery
+  ): Promise<StudentGradeEntry[] | undefined> {
+    try {
+      let dbQuery = db
+        .selectFrom('grades')
+        .innerJoin('assessments', 'assessments.id', 'grades.assessmentId')
+        .innerJoin(
+          'classSubjects',
+          'classSubjects.id',
+          'assessments.classSubjectId'
+        )
+        .innerJoin('subjects', 'subjects.id', 'classSubjects.subjectId')
+        .select([
+          'grades.id as gradeId',
+          'assessments.id as assessmentId',
+          'assessments.name as assessmentName',
+          'assessments.type',
+          'assessments.date',
+          'assessments.weight',
+          'assessments.maxScore',
+          'grades.score',
+          'grades.comment',
+          'assessments.termId',
+          'classSubjects.subjectId',
+          'subjects.name as subjectName',
+        ])
+        .where('grades.studentId', '=', studentId);
+
+      if (query.termId) {
+        dbQuery = dbQuery.where('assessments.termId', '=', query.termId);
+      }
+
+      return await dbQuery
+        .orderBy('assessments.date', 'desc')
+        .orderBy('subjects.name', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get student grades', error);
+    }
+    return;
+  }
+
+  // Term averages of the student across the subjects graded in the term
+  async getStudentTermAverages(
+    studentId: number,
+    termId: number,
+    bands?: GradingBands
+  ): Promise<TermAverages | undefined> {
+    try {
+      const scores = await this.termScores(termId)
+        .where('grades.studentId', '=', studentId)
+        .execute();
+
+      return this.averageScores(scores, bands);
+    } catch (error) {
+      databaseErrorThrower('Failed to get student term averages', error);
+    }
+    return;
+  }
+
+  // Term averages of every student in the class, over the subjects taught in the class
+  async getClassTermAverages(
+    classId: number,
+    termId: number,
+    bands?: GradingBands
+  ): Promise<StudentTermAverages[] | undefined> {
+    try {
+      const students = await db
+        .selectFrom('classStudents')
+        .innerJoin('students', 'students.id', 'classStudents.studentId')
+        .select([
+          'students.id as studentId',
+          'students.firstName',
+          'students.lastName',
+        ])
+        .where('classStudents.classId', '=', classId)
+        .orderBy('students.lastName', 'asc')
+        .orderBy('students.firstName', 'asc')
+        .execute();
+
+      const scores = await this.termScores(termId)
+        .where('classSubjects.classId', '=', classId)
+        .execute();
+
+      return students.map(student => ({
+        ...student,
+        ...this.averageScores(
+          scores.filter(score => score.studentId === student.studentId),
+          bands
+        ),
+      }));
+    } catch (error) {
+      databaseErrorThrower('Failed to get class term averages', error);
+    }
+    return;
+  }
+
+  // Assessments together with the class, subject and teacher they were given for
+  private assessmentsQuery() {
+    return db
+      .selectFrom('assessments')
+      .innerJoin(
+        'classSubjects',
+        'classSubjects.id',
+        'assessments.classSubjectId'
+      )
+      .selectAll('assessments')
+      .select([
+        'classSubjects.classId',
+        'classSubjects.subjectId',
+        'classSubjects.teacherId',
+      ]);
+  }
+
+  // Scores given in the term with the weight and max score of their assessment
+  private termScores(termId: number) {
+    return db
+      .selectFrom('grades')
+      .innerJoin('assessments', 'assessments.id', 'grades.assessmentId')
+      .innerJoin(
+        'classSubjects',
+        'classSubjects.id',
+        'assessments.classSubjectId'
+      )
+      .innerJoin('subjects', 'subjects.id', 'classSubjects.subjectId')
+      .select([
+        'grades.studentId',
+        'classSubjects.subjectId',
+        'subjects.name as subjectName',
+        'assessments.weight',
+        'assessments.maxScore',
+        'grades.score',
+      ])
+      .where('assessments.termId', '=', termId);
+  }
+
+  // Each subject average weighs the scores as a percentage of their max score
+  private averageScores(
+    scores: TermScore[],
+    bands?: GradingBands
+  ): TermAverages {
+    const bySubject = new Map<
+      number,
+      {
+        subjectName: string;
+        weightedScore: number;
+        totalWeight: number;
+        gradesRecorded: number;
+      }
+    >();
+
+    for (const score of scores) {
+      const subject = bySubject.get(score.subjectId) ?? {
+        subjectName: score.subjectName,
+        weightedScore: 0,
+        totalWeight: 0,
+        gradesRecorded: 0,
+      };
+
+      subject.weightedScore += (score.weight * score.score) / score.maxScore;
+      subject.totalWeight += score.weight;
+      subject.gradesRecorded += 1;
+      bySubject.set(score.subjectId, subject);
+    }
+
+    const subjects = [...bySubject.entries()]
+      .map(([subjectId, subject]) => {
+        const average = this.toPercentage(
+          subject.weightedScore / subject.totalWeight
+        );
+
+        return {
+          subjectId,
+          subjectName: subject.subjectName,
+          gradesRecorded: subject.gradesRecorded,
+          average,
+          grade: this.toGrade(average, bands),
+        };
+      })
+      .sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+
+    const average =
+      subjects.length > 0
+        ? this.toPercentage(
+            subjects.reduce((sum, subject) => sum + subject.average, 0) /
+              subjects.length /
+              100
+          )
+        : null;
+
+    return {
+      subjects,
+      average,
+      grade: average === null ? null : this.toGrade(average, bands),
+    };
+  }
+
+  // Percentage rounded to two decimals
+  private toPercentage(ratio: number): number {
+    return Math.round(ratio * 10000) / 100;
+  }
+
+  // Bands are ordered from the highest minimum down, the lowest band starts at 0
+  private toGrade(percentage: number, bands?: GradingBands): string | null {
+    return bands?.find(band => percentage >= band.minPercentage)?.grade ?? null;
+  }
+}
+
+export const gradeService = new GradeService();
@@ -0,0 +1,293 @@
+import { type Kysely } from 'kysely';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import {
+  type CreateGradingScaleInput,
+  type UpdateGradingScaleInput,
+} from '../schemas/gradingScaleSchema';
+import {
+  type Database,
+  type GradingScale,
+  type GradingScaleDetails,
+  type GradingScaleUpdate,
+  type NewGradingScale,
+} from '../types/database';
+import type { AuditContext } from '../types/general';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import { auditService } from './auditService';
+
+export class GradingScaleService {
+  async createGradingScale(
+    input: CreateGradingScaleInput,
+    audit?: AuditContext
+  ): Promise<
+    { gradingScale?: GradingScaleDetails; error?: string } | undefined
+  > {
+    try {
+      const newGradingScale: NewGradingScale = {
+        name: input.name,
+        description: input.description,
+        isDefault: input.isDefault,
+      };
+
+      return await db.transaction().execute(async trx => {
+        if (input.isDefault) {
+          await this.clearDefaultGradingScale(trx, audit);
+        }
+
+        const scale = await trx
+          .insertInto('gradingScales')
+          .values(newGradingScale)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        const gradingScale = await this.replaceBands(trx, scale, input.bands);
+
+        await auditService.record(trx, audit, {
+          entityType: 'gradingScales',
+          entityId: gradingScale.id,
+          action: 'create',
+          after: gradingScale,
+        });
+
+        return { gradingScale };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, 'grading_scales_name_unique')) {
+        return { error: 'Grading scale name already exists' };
+      }
+      databaseErrorThrower('Failed to create grading scale', error);
+    }
+    return;
+  }
+
+  async getGradingScales(): Promise<GradingScaleDetails[] | undefined> {
+    try {
+      const scales = await db
+        .selectFrom('gradingScales')
+        .selectAll()
+        .orderBy('name', 'asc')
+        .execute();
+
+      return await this.withBands(db, scales);
+    } catch (error) {
+      databaseErrorThrower('Failed to get grading scales', error);
+    }
+    return;
+  }
+
+  async getGradingScaleById(
+    id: number
+  ): Promise<GradingScaleDetails | undefined> {
+    try {
+      const scale = await db
+        .selectFrom('gradingScales')
+        .selectAll()
+        .where('id', '=', id)
+        .executeTakeFirst();
+
+      return scale ? await this.withScaleBands(db, scale) : undefined;
+    } catch (error) {
+      databaseErrorThrower('Failed to get grading scale', error);
+    }
+    return;
+  }
+
+  // Scale used for term averages when none is requested
+  async getDefaultGradingScale(): Promise<GradingScaleDetails | undefined> {
+    try {
+      const scale = await db
+        .selectFrom('gradingScales')
+        .selectAll()
+        .where('isDefault', '=', true)
+        .executeTakeFirst();
+
+      return scale ? await this.withScaleBands(db, scale) : undefined;
+    } catch (error) {
+      databaseErrorThrower('Failed to get default grading scale', error);
+    }
+    return;
+  }
+
+  async updateGradingScale(
+    id: number,
+    input: UpdateGradingScaleInput,
+    audit?: AuditContext
+  ): Promise<
+    { gradingScale?: GradingScaleDetails; error?: string } | undefined
+  > {
+    try {
+      // Only the fields which are sent are updated
+      const updateData: GradingScaleUpdate = { updatedAt: new Date() };
+      if (input.name !== undefined) updateData.name = input.name;
+      if (input.description !== undefined) {
+        updateData.description = input.description;
+      }
+      if (input.isDefault !== undefined) updateData.isDefault = input.isDefault;
+
+      return await db.transaction().execute(async trx => {
+        const scale = await trx
+          .selectFrom('gradingScales')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!scale) return { error: 'Grading scale not found' };
+
+        const before = await this.withScaleBands(trx, scale);
+
+        if (input.isDefault && !scale.isDefault) {
+          await this.clearDefaultGradingScale(trx, audit);
+        }
+
+        const updatedScale = await trx
+          .updateTable('gradingScales')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        const gradingScale = input.bands
+          ? await this.replaceBands(trx, updatedScale, input.bands)
+          : await this.withScaleBands(trx, updatedScale);
+
+        await auditService.record(trx, audit, {
+          entityType: 'gradingScales',
+          entityId: id,
+          action: 'update',
+          before,
+          after: gradingScale,
+        });
+
+        return { gradingScale };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, 'grading_scales_name_unique')) {
+        return { error: 'Grading scale name already exists' };
+      }
+      databaseErrorThrower('Failed to update grading scale', error);
+    }
+    return;
+  }
+
+  // Bands of the scale are deleted with it
+  async deleteGradingScale(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const scale = await trx
+          .selectFrom('gradingScales')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!scale) return false;
+
+        const before = await this.withScaleBands(trx, scale);
+
+        await trx.deleteFrom('gradingScales').where('id', '=', id).execute();
+
+        await auditService.record(trx, audit, {
+          entityType: 'gradingScales',
+          entityId: id,
+          action: 'delete',
+          before,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete grading scale', error);
+    }
+    return;
+  }
+
+  // Bands are listed from the highest grade down
+  private async withBands(
+    executor: Kysely<Database>,
+    scales: GradingScale[]
+  ): Promise<GradingScaleDetails[]> {
+    if (scales.length === 0) return [];
+
+    const bands = await executor
+      .selectFrom('gradingScaleBands')
+      .select(['gradingScaleId', 'grade', 'minPercentage'])
+      .where(
+        'gradingScaleId',
+        'in',
+        scales.map(scale => scale.id)
+      )
+      .orderBy('minPercentage', 'desc')
+      .execute();
+
+    return scales.map(scale => ({
+      ...scale,
+      bands: bands
+        .filter(band => band.gradingScaleId === scale.id)
+        .map(({ grade, minPercentage }) => ({ grade, minPercentage })),
+    }));
+  }
+
+  private async withScaleBands(
+    executor: Kysely<Database>,
+    scale: GradingScale
+  ): Promise<GradingScaleDetails> {
+    const bands = await executor
+      .selectFrom('gradingScaleBands')
+      .select(['grade', 'minPercentage'])
+      .where('gradingScaleId', '=', scale.id)
+      .orderBy('minPercentage', 'desc')
+      .execute();
+
+    return { ...scale, bands };
+  }
+
+  private async replaceBands(
+    trx: Kysely<Database>,
+    scale: GradingScale,
+    bands: GradingScaleDetails['bands']
+  ): Promise<GradingScaleDetails> {
+    await trx
+      .deleteFrom('gradingScaleBands')
+      .where('gradingScaleId', '=', scale.id)
+      .execute();
+
+    await trx
+      .insertInto('gradingScaleBands')
+      .values(bands.map(band => ({ ...band, gradingScaleId: scale.id })))
+      .execute();
+
+    return {
+      ...scale,
+      bands: [...bands].sort((a, b) => b.minPercentage - a.minPercentage),
+    };
+  }
+
+  private async clearDefaultGradingScale(
+    trx: Kysely<Database>,
+    audit?: AuditContext
+  ): Promise<void> {
+    const previous = await trx
+      .updateTable('gradingScales')
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where('isDefault', '=', true)
+      .returningAll()
+      .executeTakeFirst();
+
+    if (previous) {
+      await auditService.record(trx, audit, {
+        entityType: 'gradingScales',
+        entityId: previous.id,
+        action: 'update',
+        before: { isDefault: true },
+        after: { isDefault: false },
+      });
+    }
+  }
+}
+
+export const gradingScaleService = new GradingScaleService();
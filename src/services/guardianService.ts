@@ -0,0 +1,331 @@
+import { type Kysely } from 'kysely';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import {
+  type LinkGuardianInput,
+  type UpdateGuardianInput,
+} from '../schemas/guardianSchema';
+import {
+  type Database,
+  type Guardian,
+  type GuardianUpdate,
+  type NewGuardian,
+  type NewStudentGuardian,
+  type StudentGuardianDetails,
+  type StudentGuardianUpdate,
+} from '../types/database';
+import type { AuditContext, DataScope } from '../types/general';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import { auditService } from './auditService';
+
+const PRIORITY_IN_USE_ERROR = 'Emergency contact priority is already used';
+
+export class GuardianService {
+  async getGuardianById(id: number): Promise<Guardian | undefined> {
+    try {
+      return await db
+        .selectFrom('guardians')
+        .selectAll()
+        .where('id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get guardian', error);
+    }
+    return;
+  }
+
+  // Guardians of the student, emergency contacts first in the order they are called
+  async getStudentGuardians(
+    studentId: number,
+    scope?: DataScope
+  ): Promise<StudentGuardianDetails[] | undefined> {
+    try {
+      return await this.studentGuardiansQuery(db, studentId, scope)
+        .orderBy('studentGuardians.emergencyContactPriority', ob =>
+          ob.asc().nullsLast()
+        )
+        .orderBy('guardians.lastName', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get student guardians', error);
+    }
+    return;
+  }
+
+  async getStudentGuardian(
+    studentId: number,
+    guardianId: number,
+    scope?: DataScope
+  ): Promise<StudentGuardianDetails | undefined> {
+    try {
+      return await this.studentGuardiansQuery(db, studentId, scope)
+        .where('guardians.id', '=', guardianId)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get student guardian', error);
+    }
+    return;
+  }
+
+  // Links a guardian to the student, creating the guardian first when new contact details are given
+  async linkGuardian(
+    studentId: number,
+    input: LinkGuardianInput,
+    audit?: AuditContext
+  ): Promise<
+    { guardian?: StudentGuardianDetails; error?: string } | undefined
+  > {
+    try {
+      return await db.transaction().execute(async trx => {
+        let guardianId = input.guardianId;
+
+        if (input.guardian) {
+          const newGuardian: NewGuardian = { ...input.guardian };
+
+          const guardian = await trx
+            .insertInto('guardians')
+            .values(newGuardian)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'guardians',
+            entityId: guardian.id,
+            action: 'create',
+            after: guardian,
+          });
+
+          guardianId = guardian.id;
+        }
+
+        if (!guardianId) {
+          return { error: 'Guardian not found' };
+        }
+
+        const newStudentGuardian: NewStudentGuardian = {
+          studentId,
+          guardianId,
+          relationship: input.relationship,
+          hasLegalCustody: input.hasLegalCustody,
+          canPickup: input.canPickup,
+          emergencyContactPriority: input.emergencyContactPriority,
+        };
+
+        const studentGuardian = await trx
+          .insertInto('studentGuardians')
+          .values(newStudentGuardian)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'studentGuardians',
+          entityId: studentGuardian.id,
+          action: 'create',
+          after: studentGuardian,
+        });
+
+        const guardian = await this.studentGuardiansQuery(trx, studentId)
+          .where('guardians.id', '=', guardianId)
+          .executeTakeFirstOrThrow();
+
+        return { guardian };
+      });
+    } catch (error) {
+      if (
+        isUniqueViolation(error, 'student_guardians_student_guardian_unique')
+      ) {
+        return { error: 'Guardian is already linked to the student' };
+      }
+      if (
+        isUniqueViolation(error, 'idx_student_guardians_emergency_priority')
+      ) {
+        return { error: PRIORITY_IN_USE_ERROR };
+      }
+      databaseErrorThrower('Failed to link guardian', error);
+    }
+    return;
+  }
+
+  async updateStudentGuardian(
+    studentId: number,
+    guardianId: number,
+    input: UpdateGuardianInput,
+    audit?: AuditContext
+  ): Promise<
+    { guardian?: StudentGuardianDetails; error?: string } | undefined
+  > {
+    try {
+      // Only the fields which are sent are updated
+      const linkUpdate: StudentGuardianUpdate = {};
+      if (input.relationship !== undefined) {
+        linkUpdate.relationship = input.relationship;
+      }
+      if (input.hasLegalCustody !== undefined) {
+        linkUpdate.hasLegalCustody = input.hasLegalCustody;
+      }
+      if (input.canPickup !== undefined) linkUpdate.canPickup = input.canPickup;
+      if (input.emergencyContactPriority !== undefined) {
+        linkUpdate.emergencyContactPriority = input.emergencyContactPriority;
+      }
+
+      const guardianUpdate: GuardianUpdate = {};
+      for (const [field, value] of Object.entries(input.guardian ?? {})) {
+        if (value !== undefined) {
+          (guardianUpdate as Record<string, unknown>)[field] = value;
+        }
+      }
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('studentGuardians')
+          .selectAll()
+          .where('studentId', '=', studentId)
+          .where('guardianId', '=', guardianId)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return { error: 'Guardian not found' };
+
+        if (Object.keys(linkUpdate).length > 0) {
+          const studentGuardian = await trx
+            .updateTable('studentGuardians')
+            .set({ ...linkUpdate, updatedAt: new Date() })
+            .where('id', '=', before.id)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'studentGuardians',
+            entityId: before.id,
+            action: 'update',
+            before,
+            after: studentGuardian,
+          });
+        }
+
+        if (Object.keys(guardianUpdate).length > 0) {
+          const guardianBefore = await trx
+            .selectFrom('guardians')
+            .selectAll()
+            .where('id', '=', guardianId)
+            .forUpdate()
+            .executeTakeFirstOrThrow();
+
+          const guardian = await trx
+            .updateTable('guardians')
+            .set({ ...guardianUpdate, updatedAt: new Date() })
+            .where('id', '=', guardianId)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'guardians',
+            entityId: guardianId,
+            action: 'update',
+            before: guardianBefore,
+            after: guardian,
+          });
+        }
+
+        const guardian = await this.studentGuardiansQuery(trx, studentId)
+          .where('guardians.id', '=', guardianId)
+          .executeTakeFirstOrThrow();
+
+        return { guardian };
+      });
+    } catch (error) {
+      if (
+        isUniqueViolation(error, 'idx_student_guardians_emergency_priority')
+      ) {
+        return { error: PRIORITY_IN_USE_ERROR };
+      }
+      databaseErrorThrower('Failed to update guardian', error);
+    }
+    return;
+  }
+
+  // Unlinks the guardian from the student, a guardian left without students is deleted
+  async unlinkGuardian(
+    studentId: number,
+    guardianId: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('studentGuardians')
+          .where('studentId', '=', studentId)
+          .where('guardianId', '=', guardianId)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'studentGuardians',
+          entityId: deleted.id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        const deletedGuardian = await trx
+          .deleteFrom('guardians')
+          .where('id', '=', guardianId)
+          .where(eb =>
+            eb.not(
+              eb.exists(
+                eb
+                  .selectFrom('studentGuardians')
+                  .select('studentGuardians.id')
+                  .where('studentGuardians.guardianId', '=', guardianId)
+              )
+            )
+          )
+          .returningAll()
+          .executeTakeFirst();
+
+        if (deletedGuardian) {
+          await auditService.record(trx, audit, {
+            entityType: 'guardians',
+            entityId: guardianId,
+            action: 'delete',
+            before: deletedGuardian,
+          });
+        }
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to unlink guardian', error);
+    }
+    return;
+  }
+
+  // Guardians of a student with the relationship fields of the link
+  // Parents only see their own guardian record, not the contact details of the other guardians of their children
+  private studentGuardiansQuery(
+    executor: Kysely<Database>,
+    studentId: number,
+    scope?: DataScope
+  ) {
+    let dbQuery = executor
+      .selectFrom('studentGuardians')
+      .innerJoin('guardians', 'guardians.id', 'studentGuardians.guardianId')
+      .selectAll('guardians')
+      .select([
+        'studentGuardians.relationship',
+        'studentGuardians.hasLegalCustody',
+        'studentGuardians.canPickup',
+        'studentGuardians.emergencyContactPriority',
+      ])
+      .where('studentGuardians.studentId', '=', studentId);
+
+    if (scope?.level === 'guardian') {
+      dbQuery = dbQuery.where('guardians.id', '=', scope.guardianId);
+    }
+
+    return dbQuery;
+  }
+}
+
+export const guardianService = new GuardianService();
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import jwt, { type JwtPayload } from 'jsonwebtoken';
+import Redis from 'ioredis';
+import { getRedisClient } from '../redis/redisClient';
+import type { SafeUser } from '../types/database';
+import type { AuditContext, OidcClaims } from '../types/general';
+import { roleService } from './roleService';
+import { userService } from './userService';
+
+interface OidcProviderMetadata {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+}
+
+const readString = (source: Record<string, unknown>, key: string): string => {
+  const value = source[key];
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`OIDC response is missing ${key}`);
+  }
+  return value;
+};
+
+// Authorization code flow with PKCE against the configured identity provider
+export class OidcService {
+  private redis: Redis;
+  private issuer: string;
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+  private scopes: string;
+  private stateTtl: number;
+  private defaultRole: string;
+  private metadata: OidcProviderMetadata | null = null;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+
+    // Load environment variables
+    this.issuer = (process.env['OIDC_ISSUER'] || '').replace(/\/$/, '');
+    this.clientId = process.env['OIDC_CLIENT_ID'] || '';
+    this.clientSecret = process.env['OIDC_CLIENT_SECRET'] || '';
+    this.redirectUri = process.env['OIDC_REDIRECT_URI'] || '';
+    this.scopes = process.env['OIDC_SCOPES'] || 'openid email profile';
+    this.stateTtl = process.env['OIDC_STATE_TTL']
+      ? parseInt(process.env['OIDC_STATE_TTL'], 10)
+      : 600; // 10 minutes in seconds
+    this.defaultRole = process.env['OIDC_DEFAULT_ROLE'] || 'Teacher';
+  }
+
+  isEnabled(): boolean {
+    return Boolean(this.issuer && this.clientId && this.redirectUri);
+  }
+
+  private base64Url(buffer: Buffer): string {
+    return buffer.toString('base64url');
+  }
+
+  // Provider endpoints are read once from the discovery document
+  private async getMetadata(): Promise<OidcProviderMetadata> {
+    if (this.metadata) return this.metadata;
+
+    const response = await fetch(
+      `${this.issuer}/.well-known/openid-configuration`
+    );
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with status ${response.status}`);
+    }
+
+    const document = (await response.json()) as Record<string, unknown>;
+    const metadata = {
+      issuer: readString(document, 'issuer'),
+      authorizationEndpoint: readString(document, 'authorization_endpoint'),
+      tokenEndpoint: readString(document, 'token_endpoint'),
+      jwksUri: readString(document, 'jwks_uri'),
+    };
+
+    if (metadata.issuer.replace(/\/$/, '') !== this.issuer) {
+      throw new Error('OIDC discovery issuer does not match OIDC_ISSUER');
+    }
+
+    this.metadata = metadata;
+    return metadata;
+  }
+
+  // Returns the URL to redirect the browser to, state, nonce and code verifier are kept in Redis
+  async createAuthorizationUrl(): Promise<string> {
+    const metadata = await this.getMetadata();
+
+    const state = this.base64Url(crypto.randomBytes(32));
+    const nonce = this.base64Url(crypto.randomBytes(32));
+    const codeVerifier = this.base64Url(crypto.randomBytes(32));
+    const codeChallenge = this.base64Url(
+      crypto.createHash('sha256').update(codeVerifier).digest()
+    );
+
+    await this.redis.setex(
+      `oidc_state:${state}`,
+      this.stateTtl,
+      JSON.stringify({ nonce, codeVerifier })
+    );
+
+    const params = new URLSearchParams([
+      ['response_type', 'code'],
+      ['client_id', this.clientId],
+      ['redirect_uri', this.redirectUri],
+      ['scope', this.scopes],
+      ['state', state],
+      ['nonce', nonce],
+      ['code_challenge', codeChallenge],
+      ['code_challenge_method', 'S256'],
+    ]);
+
+    return `${metadata.authorizationEndpoint}?${params.toString()}`;
+  }
+
+  // Exchanges the authorization code and returns the verified ID token claims
+  // Returns null if the state is unknown, expired or already used
+  async handleCallback(
+    code: string,
+    state: string
+  ): Promise<OidcClaims | null> {
+    const stored = await this.redis.getdel(`oidc_state:${state}`);
+    if (!stored) return null;
+
+    const { nonce, codeVerifier } = JSON.parse(stored) as {
+      nonce: string;
+      codeVerifier: string;
+    };
+    const metadata = await this.getMetadata();
+
+    const body = new URLSearchParams([
+      ['grant_type', 'authorization_code'],
+      ['code', code],
+      ['redirect_uri', this.redirectUri],
+      ['client_id', this.clientId],
+      ['code_verifier', codeVerifier],
+    ]);
+    if (this.clientSecret) {
+      body.append('client_secret', this.clientSecret);
+    }
+
+    const response = await fetch(metadata.tokenEndpoint, {
+      method: 'POST',
+      body, // URLSearchParams are sent as application/x-www-form-urlencoded
+    });
+    if (!response.ok) {
+      throw new Error(
+        `OIDC token exchange failed with status ${response.status}`
+      );
+    }
+
+    const tokens = (await response.json()) as Record<string, unknown>;
+    const claims = await this.verifyIdToken(
+      readString(tokens, 'id_token'),
+      metadata
+    );
+
+    if (claims['nonce'] !== nonce) {
+      throw new Error('OIDC ID token nonce does not match');
+    }
+
+    const email = claims['email'];
+    if (typeof claims.sub !== 'string' || typeof email !== 'string') {
+      throw new Error('OIDC ID token is missing the sub or email claim');
+    }
+
+    return {
+      subject: claims.sub,
+      email: email.toLowerCase(),
+      emailVerified: claims['email_verified'] === true,
+    };
+  }
+
+  // Maps the provider identity to a user, linking an existing account by email or creating one just in time
+  // Returns null if the email belongs to an account which cannot be linked to this identity
+  async resolveUser(
+    claims: OidcClaims,
+    audit?: AuditContext
+  ): Promise<SafeUser | null> {
+    const linkedUser = await userService.getUserByOidcSubject(claims.subject);
+    if (linkedUser) return linkedUser;
+
+    // An unverified email at the provider must neither take over a local account nor claim the address
+    // for a new one, which would keep its real owner from registering it
+    if (!claims.emailVerified) return null;
+
+    const existingUser = await userService.getUserByEmail(claims.email);
+    if (existingUser) {
+      return (
+        (await userService.linkOidcSubject(
+          existingUser.id,
+          claims.subject,
+          audit && { ...audit, actorUserId: existingUser.id }
+        )) ?? null
+      );
+    }
+
+    const role = await roleService.getRoleByName(this.defaultRole);
+    if (!role) {
+      throw new Error(`OIDC default role ${this.defaultRole} does not exist`);
+    }
+
+    const createdUser = await userService.createOidcUser(
+      claims,
+      role.id,
+      audit
+    );
+    return createdUser ?? null;
+  }
+
+  private async verifyIdToken(
+    idToken: string,
+    metadata: OidcProviderMetadata
+  ): Promise<JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) {
+      throw new Error('OIDC ID token could not be decoded');
+    }
+
+    const response = await fetch(metadata.jwksUri);
+    if (!response.ok) {
+      throw new Error(
+        `OIDC JWKS request failed with status ${response.status}`
+      );
+    }
+
+    const jwks = (await response.json()) as { keys?: crypto.JsonWebKey[] };
+    const jwk = jwks.keys?.find(key => key['kid'] === decoded.header.kid);
+    if (!jwk) {
+      throw new Error('OIDC signing key not found in JWKS');
+    }
+
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+    return jwt.verify(idToken, publicKey, {
+      algorithms: ['RS256', 'ES256'],
+      issuer: metadata.issuer,
+      audience: this.clientId,
+    }) as JwtPayload;
+  }
+}
+
+export const oidcService = new OidcService(getRedisClient());
@@ -11,20 +11,36 @@ import {
   type RegionUpdate,
   type Region,
 } from '../types/database';
+import type { AuditContext } from '../types/general';
+import { auditService } from './auditService';
 
 export class RegionService {
-  async createRegion(input: CreateRegionInput): Promise<Region | undefined> {
+  async createRegion(
+    input: CreateRegionInput,
+    audit?: AuditContext
+  ): Promise<Region | undefined> {
     try {
       const newRegion: NewRegion = {
         name: input.name,
         isCity: input.isCity,
       };
 
-      return await db
-        .insertInto('regions')
-        .values(newRegion)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const region = await trx
+          .insertInto('regions')
+          .values(newRegion)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'regions',
+          entityId: region.id,
+          action: 'create',
+          after: region,
+        });
+
+        return region;
+      });
     } catch (error) {
       // Handle unique constraint violation
       if (
@@ -96,7 +112,8 @@ export class RegionService {
 
   async updateRegion(
     id: number,
-    input: UpdateRegionInput
+    input: UpdateRegionInput,
+    audit?: AuditContext
   ): Promise<Region | undefined> {
     try {
       const updateData: RegionUpdate = {
@@ -104,12 +121,33 @@ export class RegionService {
         updatedAt: new Date(),
       };
 
-      return await db
-        .updateTable('regions')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('regions')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const region = await trx
+          .updateTable('regions')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (before && region) {
+          await auditService.record(trx, audit, {
+            entityType: 'regions',
+            entityId: id,
+            action: 'update',
+            before,
+            after: region,
+          });
+        }
+
+        return region;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to update region', error);
     }
@@ -117,14 +155,29 @@ export class RegionService {
     return;
   }
 
-  async deleteRegion(id: number): Promise<boolean | undefined> {
+  async deleteRegion(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('regions')
-        .where('id', '=', id)
-        .executeTakeFirst();
-
-      return Number(result.numDeletedRows) > 0;
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('regions')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'regions',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete region', error);
     }
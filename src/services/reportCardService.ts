@@ -0,0 +1,891 @@
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import { type ReportCardTemplateInput } from '../schemas/reportCardSchema';
+import {
+  type Class,
+  type GradingScaleDetails,
+  type NewReportCardRemark,
+  type NewReportCardTemplate,
+  type ReportCardRemark,
+  type ReportCardTemplate,
+  type ReportCardTemplateUpdate,
+  type School,
+  type Student,
+  type Term,
+} from '../types/database';
+import type { AuditContext } from '../types/general';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  findUnencodableCharacters,
+  pdfLine,
+  pdfRect,
+  pdfText,
+  renderPdf,
+  wrapText,
+} from '../utils/pdfUtils';
+import { createZip } from '../utils/zipUtils';
+import {
+  attendanceService,
+  type AttendanceStatusCounts,
+} from './attendanceService';
+import { auditService } from './auditService';
+import { gradeService } from './gradeService';
+
+export type ReportCardLayout = Pick<
+  ReportCardTemplate,
+  | 'title'
+  | 'headerText'
+  | 'footerText'
+  | 'remarksTitle'
+  | 'showAttendance'
+  | 'showSubjectTeachers'
+>;
+
+// Layout of schools which have not customised their template, matches the column defaults
+const DEFAULT_LAYOUT: ReportCardLayout = {
+  title: 'Report Card',
+  headerText: null,
+  footerText: null,
+  remarksTitle: 'Homeroom teacher remarks',
+  showAttendance: true,
+  showSubjectTeachers: true,
+};
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - 2 * MARGIN;
+const PAGE_BOTTOM = 80; // content stops above the footer
+const ROW_HEIGHT = 18;
+
+export interface RemarkEntry {
+  studentId: number;
+  remarks: string | null; // null clears the remarks
+}
+
+export interface ClassRemarkEntry {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  remarkId: number | null;
+  remarks: string | null; // null while no remarks were written
+}
+
+export interface ReportCardSubject {
+  subjectId: number;
+  subjectName: string;
+  teacherName: string | null;
+  gradesRecorded: number;
+  average: number | null; // null when the subject was not graded in the term
+  grade: string | null;
+}
+
+export interface ReportCardAttendance extends AttendanceStatusCounts {
+  daysRecorded: number;
+  daysAbsent: number;
+  absenceRate: number;
+}
+
+export interface ReportCard {
+  school: Pick<School, 'name' | 'address' | 'phone' | 'email'>;
+  student: Pick<
+    Student,
+    | 'id'
+    | 'firstName'
+    | 'middleName'
+    | 'lastName'
+    | 'studentNumber'
+    | 'dateOfBirth'
+  >;
+  className: string; // e.g. 3B
+  academicYearName: string;
+  term: Pick<Term, 'id' | 'name' | 'startDate' | 'endDate'>;
+  homeroomTeacherName: string | null;
+  gradingScaleName: string | null;
+  subjects: ReportCardSubject[];
+  average: number | null;
+  grade: string | null;
+  attendance: ReportCardAttendance;
+  remarks: string | null;
+}
+
+export class ReportCardService {
+  async getTemplate(schoolId: number): Promise<ReportCardTemplate | undefined> {
+    try {
+      return await db
+        .selectFrom('reportCardTemplates')
+        .selectAll()
+        .where('schoolId', '=', schoolId)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get report card template', error);
+    }
+    return;
+  }
+
+  // Creates the template of the school on first save, later saves only change the fields which are sent
+  async saveTemplate(
+    schoolId: number,
+    input: ReportCardTemplateInput,
+    audit?: AuditContext
+  ): Promise<ReportCardTemplate | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('reportCardTemplates')
+          .selectAll()
+          .where('schoolId', '=', schoolId)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) {
+          const newTemplate: NewReportCardTemplate = {
+            ...input,
+            headerText: input.headerText ?? null,
+            footerText: input.footerText ?? null,
+            gradingScaleId: input.gradingScaleId ?? null,
+            schoolId,
+          };
+
+          const template = await trx
+            .insertInto('reportCardTemplates')
+            .values(newTemplate)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'reportCardTemplates',
+            entityId: template.id,
+            action: 'create',
+            after: template,
+          });
+
+          return template;
+        }
+
+        // Only the fields which are sent are updated
+        const updateData: ReportCardTemplateUpdate = { updatedAt: new Date() };
+        if (input.title !== undefined) updateData.title = input.title;
+        if (input.headerText !== undefined) {
+          updateData.headerText = input.headerText;
+        }
+        if (input.footerText !== undefined) {
+          updateData.footerText = input.footerText;
+        }
+        if (input.remarksTitle !== undefined) {
+          updateData.remarksTitle = input.remarksTitle;
+        }
+        if (input.showAttendance !== undefined) {
+          updateData.showAttendance = input.showAttendance;
+        }
+        if (input.showSubjectTeachers !== undefined) {
+          updateData.showSubjectTeachers = input.showSubjectTeachers;
+        }
+        if (input.gradingScaleId !== undefined) {
+          updateData.gradingScaleId = input.gradingScaleId;
+        }
+
+        const template = await trx
+          .updateTable('reportCardTemplates')
+          .set(updateData)
+          .where('id', '=', before.id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'reportCardTemplates',
+          entityId: template.id,
+          action: 'update',
+          before,
+          after: template,
+        });
+
+        return template;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to save report card template', error);
+    }
+    return;
+  }
+
+  // The school goes back to the default layout
+  async deleteTemplate(
+    schoolId: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('reportCardTemplates')
+          .where('schoolId', '=', schoolId)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'reportCardTemplates',
+          entityId: deleted.id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to delete report card template', error);
+    }
+    return;
+  }
+
+  // Remarks of the class for the term, students without remarks are included without them
+  async getClassRemarks(
+    classId: number,
+    termId: number
+  ): Promise<ClassRemarkEntry[] | undefined> {
+    try {
+      return await db
+        .selectFrom('classStudents')
+        .innerJoin('students', 'students.id', 'classStudents.studentId')
+        .leftJoin('reportCardRemarks', join =>
+          join
+            .onRef('reportCardRemarks.studentId', '=', 'students.id')
+            .on('reportCardRemarks.termId', '=', termId)
+        )
+        .select([
+          'students.id as studentId',
+          'students.firstName',
+          'students.lastName',
+          'reportCardRemarks.id as remarkId',
+          'reportCardRemarks.remarks',
+        ])
+        .where('classStudents.classId', '=', classId)
+        .orderBy('students.lastName', 'asc')
+        .orderBy('students.firstName', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get report card remarks', error);
+    }
+    return;
+  }
+
+  // Writes the remarks of the students for the term, existing remarks are replaced or cleared
+  async enterRemarks(
+    termId: number,
+    entries: RemarkEntry[],
+    audit?: AuditContext
+  ): Promise<{ remarks?: ReportCardRemark[]; error?: string } | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const existingRemarks = await trx
+          .selectFrom('reportCardRemarks')
+          .selectAll()
+          .where('termId', '=', termId)
+          .where(
+            'studentId',
+            'in',
+            entries.map(entry => entry.studentId)
+          )
+          .forUpdate()
+          .execute();
+        const existingByStudent = new Map(
+          existingRemarks.map(remark => [remark.studentId, remark])
+        );
+
+        const remarks: ReportCardRemark[] = [];
+
+        for (const entry of entries) {
+          const before = existingByStudent.get(entry.studentId);
+
+          if (entry.remarks === null) {
+            if (!before) continue;
+
+            await trx
+              .deleteFrom('reportCardRemarks')
+              .where('id', '=', before.id)
+              .execute();
+
+            await auditService.record(trx, audit, {
+              entityType: 'reportCardRemarks',
+              entityId: before.id,
+              action: 'delete',
+              before,
+            });
+            continue;
+          }
+
+          if (before) {
+            const remark = await trx
+              .updateTable('reportCardRemarks')
+              .set({
+                remarks: entry.remarks,
+                writtenBy: audit?.actorUserId ?? null,
+                updatedAt: new Date(),
+              })
+              .where('id', '=', before.id)
+              .returningAll()
+              .executeTakeFirstOrThrow();
+
+            await auditService.record(trx, audit, {
+              entityType: 'reportCardRemarks',
+              entityId: remark.id,
+              action: 'update',
+              before,
+              after: remark,
+            });
+
+            remarks.push(remark);
+            continue;
+          }
+
+          const newRemark: NewReportCardRemark = {
+            studentId: entry.studentId,
+            termId,
+            remarks: entry.remarks,
+            writtenBy: audit?.actorUserId ?? null,
+          };
+
+          const remark = await trx
+            .insertInto('reportCardRemarks')
+            .values(newRemark)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          await auditService.record(trx, audit, {
+            entityType: 'reportCardRemarks',
+            entityId: remark.id,
+            action: 'create',
+            after: remark,
+          });
+
+          remarks.push(remark);
+        }
+
+        return { remarks };
+      });
+    } catch (error) {
+      // Another request wrote remarks for one of the students in the meantime
+      if (isUniqueViolation(error, 'report_card_remarks_student_term_unique')) {
+        return {
+          error: 'Remarks were written by another request, please retry',
+        };
+      }
+      databaseErrorThrower('Failed to enter report card remarks', error);
+    }
+    return;
+  }
+
+  // Report cards of the students of the class for the term, or of one student of the class
+  // Averages cover everything the student was graded on in the term
+  async getReportCards(
+    foundClass: Class,
+    term: Term,
+    gradingScale?: GradingScaleDetails,
+    studentId?: number
+  ): Promise<ReportCard[] | undefined> {
+    try {
+      let studentsQuery = db
+        .selectFrom('classStudents')
+        .innerJoin('students', 'students.id', 'classStudents.studentId')
+        .select([
+          'students.id',
+          'students.firstName',
+          'students.middleName',
+          'students.lastName',
+          'students.studentNumber',
+          'students.dateOfBirth',
+        ])
+        .where('classStudents.classId', '=', foundClass.id);
+
+      if (studentId) {
+        studentsQuery = studentsQuery.where('students.id', '=', studentId);
+      }
+
+      const students = await studentsQuery
+        .orderBy('students.lastName', 'asc')
+        .orderBy('students.firstName', 'asc')
+        .execute();
+
+      if (students.length === 0) return [];
+
+      const [school, academicYear, homeroomTeacher, classSubjects, remarks] =
+        await Promise.all([
+          db
+            .selectFrom('schools')
+            .select(['name', 'address', 'phone', 'email'])
+            .where('id', '=', foundClass.schoolId)
+            .executeTakeFirstOrThrow(),
+
+          db
+            .selectFrom('academicYears')
+            .select('name')
+            .where('id', '=', foundClass.academicYearId)
+            .executeTakeFirstOrThrow(),
+
+          foundClass.homeroomTeacherId
+            ? db
+                .selectFrom('teachers')
+                .select(['firstName', 'lastName'])
+                .where('id', '=', foundClass.homeroomTeacherId)
+                .executeTakeFirst()
+            : undefined,
+
+          db
+            .selectFrom('classSubjects')
+            .innerJoin('subjects', 'subjects.id', 'classSubjects.subjectId')
+            .leftJoin('teachers', 'teachers.id', 'classSubjects.teacherId')
+            .select([
+              'classSubjects.subjectId',
+              'subjects.name as subjectName',
+              'teachers.firstName as teacherFirstName',
+              'teachers.lastName as teacherLastName',
+            ])
+            .where('classSubjects.classId', '=', foundClass.id)
+            .execute(),
+
+          db
+            .selectFrom('reportCardRemarks')
+            .select(['studentId', 'remarks'])
+            .where('termId', '=', term.id)
+            .where(
+              'studentId',
+              'in',
+              students.map(student => student.id)
+            )
+            .execute(),
+        ]);
+
+      const cards: ReportCard[] = [];
+
+      for (const student of students) {
+        const [averages, attendance] = await Promise.all([
+          gradeService.getStudentTermAverages(
+            student.id,
+            term.id,
+            gradingScale?.bands
+          ),
+          attendanceService.getStudentAttendanceSummary(student.id, {
+            from: term.startDate,
+            to: term.endDate,
+          }),
+        ]);
+
+        // Subjects of the class are listed even before they are graded
+        const subjects: ReportCardSubject[] = classSubjects.map(
+          classSubject => {
+            const subjectAverage = averages?.subjects.find(
+              subject => subject.subjectId === classSubject.subjectId
+            );
+
+            return {
+              subjectId: classSubject.subjectId,
+              subjectName: classSubject.subjectName,
+              teacherName:
+                classSubject.teacherFirstName && classSubject.teacherLastName
+                  ? `${classSubject.teacherFirstName} ${classSubject.teacherLastName}`
+                  : null,
+              gradesRecorded: subjectAverage?.gradesRecorded ?? 0,
+              average: subjectAverage?.average ?? null,
+              grade: subjectAverage?.grade ?? null,
+            };
+          }
+        );
+
+        for (const subject of averages?.subjects ?? []) {
+          if (!subjects.some(entry => entry.subjectId === subject.subjectId)) {
+            subjects.push({ ...subject, teacherName: null });
+          }
+        }
+
+        cards.push({
+          school,
+          student,
+          className: `${foundClass.gradeLevel}${foundClass.section}`,
+          academicYearName: academicYear.name,
+          term: {
+            id: term.id,
+            name: term.name,
+            startDate: term.startDate,
+            endDate: term.endDate,
+          },
+          homeroomTeacherName: homeroomTeacher
+            ? `${homeroomTeacher.firstName} ${homeroomTeacher.lastName}`
+            : null,
+          gradingScaleName: gradingScale?.name ?? null,
+          subjects: subjects.sort((a, b) =>
+            a.subjectName.localeCompare(b.subjectName)
+          ),
+          average: averages?.average ?? null,
+          grade: averages?.grade ?? null,
+          attendance: {
+            ...(attendance?.byStatus ?? {
+              present: 0,
+              absent: 0,
+              late: 0,
+              excused: 0,
+            }),
+            daysRecorded: attendance?.daysRecorded ?? 0,
+            daysAbsent: attendance?.daysAbsent ?? 0,
+            absenceRate: attendance?.absenceRate ?? 0,
+          },
+          remarks:
+            remarks.find(remark => remark.studentId === student.id)?.remarks ??
+            null,
+        });
+      }
+
+      return cards;
+    } catch (error) {
+      databaseErrorThrower('Failed to get report cards', error);
+    }
+    return;
+  }
+
+  // Characters of the printed texts the PDF font cannot represent, cards containing any are not rendered
+  // so a name is never printed misspelled
+  findUnprintableCharacters(
+    card: ReportCard,
+    template?: ReportCardLayout
+  ): string[] {
+    const layout = template ?? DEFAULT_LAYOUT;
+    const texts = [
+      layout.title,
+      layout.headerText,
+      layout.footerText,
+      layout.remarksTitle,
+      card.school.name,
+      card.school.address,
+      card.school.phone,
+      card.school.email,
+      card.student.firstName,
+      card.student.middleName,
+      card.student.lastName,
+      card.student.studentNumber,
+      card.className,
+      card.academicYearName,
+      card.term.name,
+      card.homeroomTeacherName,
+      card.gradingScaleName,
+      card.grade,
+      card.remarks,
+      ...card.subjects.flatMap(subject => [
+        subject.subjectName,
+        layout.showSubjectTeachers ? subject.teacherName : null,
+        subject.grade,
+      ]),
+    ];
+
+    return [
+      ...new Set(
+        texts.flatMap(text => (text ? findUnencodableCharacters(text) : []))
+      ),
+    ];
+  }
+
+  // Lays the card out on A4 pages, the template decides the texts and which sections are printed
+  renderReportCard(card: ReportCard, template?: ReportCardLayout): Buffer {
+    const layout = template ?? DEFAULT_LAYOUT;
+    const pages: string[][] = [];
+    let page: string[] = [];
+    let y = PDF_PAGE_HEIGHT - MARGIN;
+
+    const newPage = (): void => {
+      if (layout.footerText) {
+        wrapText(layout.footerText, CONTENT_WIDTH, 8).forEach((line, index) =>
+          page.push(
+            pdfText(PDF_PAGE_WIDTH / 2, 50 - index * 10, line, {
+              size: 8,
+              align: 'center',
+            })
+          )
+        );
+      }
+      pages.push(page);
+      page = [];
+      y = PDF_PAGE_HEIGHT - MARGIN;
+    };
+    const ensureSpace = (height: number): void => {
+      if (y - height < PAGE_BOTTOM) newPage();
+    };
+    const heading = (text: string): void => {
+      ensureSpace(ROW_HEIGHT * 2);
+      y -= ROW_HEIGHT;
+      page.push(pdfText(MARGIN, y, text, { size: 11, bold: true }));
+      y -= 6;
+      page.push(pdfLine(MARGIN, y, MARGIN + CONTENT_WIDTH, y));
+      y -= 4;
+    };
+
+    // School header
+    page.push(
+      pdfText(PDF_PAGE_WIDTH / 2, y, card.school.name, {
+        size: 16,
+        bold: true,
+        align: 'center',
+      })
+    );
+    for (const line of layout.headerText
+      ? wrapText(layout.headerText, CONTENT_WIDTH, 9)
+      : []) {
+      y -= 12;
+      page.push(
+        pdfText(PDF_PAGE_WIDTH / 2, y, line, { size: 9, align: 'center' })
+      );
+    }
+    y -= 12;
+    page.push(
+      pdfText(
+        PDF_PAGE_WIDTH / 2,
+        y,
+        `${card.school.address} | ${card.school.phone} | ${card.school.email}`,
+        { size: 8, align: 'center' }
+      )
+    );
+    y -= 10;
+    page.push(pdfLine(MARGIN, y, MARGIN + CONTENT_WIDTH, y, 1));
+
+    y -= 26;
+    page.push(
+      pdfText(PDF_PAGE_WIDTH / 2, y, layout.title, {
+        size: 14,
+        bold: true,
+        align: 'center',
+      })
+    );
+    y -= 14;
+    page.push(
+      pdfText(
+        PDF_PAGE_WIDTH / 2,
+        y,
+        `${card.academicYearName}, ${card.term.name}`,
+        { size: 10, align: 'center' }
+      )
+    );
+
+    // Student details in two columns
+    const studentName = [
+      card.student.firstName,
+      card.student.middleName,
+      card.student.lastName,
+    ]
+      .filter(Boolean)
+      .join(' ');
+    const details: [string, string][] = [
+      ['Student', studentName],
+      ['Class', card.className],
+      ['Student number', card.student.studentNumber],
+      ['Homeroom teacher', card.homeroomTeacherName ?? '-'],
+      [
+        'Date of birth',
+        card.student.dateOfBirth
+          ? this.formatDate(card.student.dateOfBirth)
+          : '-',
+      ],
+      [
+        'Term',
+        `${this.formatDate(card.term.startDate)} - ${this.formatDate(card.term.endDate)}`,
+      ],
+    ];
+
+    y -= 14;
+    details.forEach(([label, value], index) => {
+      const x = index % 2 === 0 ? MARGIN : MARGIN + CONTENT_WIDTH / 2;
+      if (index % 2 === 0) y -= 15;
+      page.push(pdfText(x, y, `${label}:`, { size: 9, bold: true }));
+      page.push(pdfText(x + 95, y, value, { size: 9 }));
+    });
+
+    // Subject grades
+    heading('Subject grades');
+
+    const columns = layout.showSubjectTeachers
+      ? { subject: MARGIN + 4, teacher: MARGIN + 190, grades: 380 }
+      : { subject: MARGIN + 4, teacher: null, grades: 380 };
+    const averageX = MARGIN + CONTENT_WIDTH - 60;
+    const gradeX = MARGIN + CONTENT_WIDTH - 4;
+
+    const tableRow = (
+      cells: {
+        subject: string;
+        teacher: string;
+        grades: string;
+        average: string;
+        grade: string;
+      },
+      bold = false
+    ): void => {
+      page.push(pdfText(columns.subject, y, cells.subject, { size: 9, bold }));
+      if (columns.teacher !== null) {
+        page.push(
+          pdfText(columns.teacher, y, cells.teacher, { size: 9, bold })
+        );
+      }
+      page.push(
+        pdfText(columns.grades, y, cells.grades, {
+          size: 9,
+          bold,
+          align: 'right',
+        })
+      );
+      page.push(
+        pdfText(averageX, y, cells.average, { size: 9, bold, align: 'right' })
+      );
+      page.push(
+        pdfText(gradeX, y, cells.grade, { size: 9, bold, align: 'right' })
+      );
+    };
+
+    y -= ROW_HEIGHT;
+    page.push(pdfRect(MARGIN, y - 5, CONTENT_WIDTH, ROW_HEIGHT));
+    tableRow(
+      {
+        subject: 'Subject',
+        teacher: 'Teacher',
+        grades: 'Grades',
+        average: 'Average',
+        grade: 'Grade',
+      },
+      true
+    );
+
+    if (card.subjects.length === 0) {
+      y -= ROW_HEIGHT;
+      page.push(
+        pdfText(columns.subject, y, 'No subjects were graded in the term', {
+          size: 9,
+        })
+      );
+    }
+
+    for (const subject of card.subjects) {
+      ensureSpace(ROW_HEIGHT);
+      y -= ROW_HEIGHT;
+      tableRow({
+        subject: subject.subjectName,
+        teacher: subject.teacherName ?? '-',
+        grades: subject.gradesRecorded.toString(),
+        average:
+          subject.average === null
+            ? '-'
+            : this.formatPercentage(subject.average),
+        grade: subject.grade ?? '-',
+      });
+    }
+
+    ensureSpace(ROW_HEIGHT * 2);
+    y -= 6;
+    page.push(pdfLine(MARGIN, y, MARGIN + CONTENT_WIDTH, y));
+    y -= ROW_HEIGHT - 6;
+    tableRow(
+      {
+        subject: 'Overall average',
+        teacher: '',
+        grades: '',
+        average:
+          card.average === null ? '-' : this.formatPercentage(card.average),
+        grade: card.grade ?? '-',
+      },
+      true
+    );
+
+    if (card.gradingScaleName) {
+      y -= 14;
+      page.push(
+        pdfText(MARGIN, y, `Graded on the ${card.gradingScaleName} scale`, {
+          size: 8,
+        })
+      );
+    }
+
+    // Attendance totals for the term
+    if (layout.showAttendance) {
+      const { attendance } = card;
+
+      heading('Attendance');
+      y -= 12;
+      page.push(
+        pdfText(
+          MARGIN,
+          y,
+          `Days recorded: ${attendance.daysRecorded}    Days absent: ${attendance.daysAbsent} (${this.formatPercentage(attendance.absenceRate)})`,
+          { size: 9 }
+        )
+      );
+      y -= 14;
+      page.push(
+        pdfText(
+          MARGIN,
+          y,
+          `Present: ${attendance.present}    Late: ${attendance.late}    Absent: ${attendance.absent}    Excused: ${attendance.excused}`,
+          { size: 9 }
+        )
+      );
+    }
+
+    // Homeroom teacher remarks
+    heading(layout.remarksTitle);
+    for (const line of wrapText(card.remarks ?? '-', CONTENT_WIDTH, 9)) {
+      ensureSpace(12);
+      y -= 12;
+      page.push(pdfText(MARGIN, y, line, { size: 9 }));
+    }
+
+    // Signature of the homeroom teacher
+    ensureSpace(60);
+    y -= 50;
+    page.push(
+      pdfText(MARGIN, y, `Issued on ${this.formatDate(new Date())}`, {
+        size: 9,
+      })
+    );
+    page.push(
+      pdfLine(MARGIN + CONTENT_WIDTH - 180, y, MARGIN + CONTENT_WIDTH, y)
+    );
+    page.push(
+      pdfText(
+        MARGIN + CONTENT_WIDTH - 90,
+        y - 12,
+        card.homeroomTeacherName ?? 'Homeroom teacher',
+        { size: 8, align: 'center' }
+      )
+    );
+
+    newPage();
+
+    return renderPdf(pages, `${layout.title} - ${studentName}`);
+  }
+
+  // One PDF per student in a ZIP archive
+  renderReportCardArchive(
+    cards: ReportCard[],
+    template?: ReportCardLayout
+  ): Buffer {
+    return createZip(
+      cards.map(card => ({
+        name: `${this.getFileName(card)}.pdf`,
+        data: this.renderReportCard(card, template),
+      }))
+    );
+  }
+
+  // Student numbers are unique, so are the file names, names are left out as they may not be ASCII
+  getFileName(card: ReportCard): string {
+    return `report-card-${card.term.name}-${card.student.studentNumber}`
+      .replace(/[^A-Za-z0-9-]+/g, '-')
+      .toLowerCase();
+  }
+
+  private formatDate(date: Date): string {
+    return [
+      date.getFullYear(),
+      (date.getMonth() + 1).toString().padStart(2, '0'),
+      date.getDate().toString().padStart(2, '0'),
+    ].join('-');
+  }
+
+  private formatPercentage(percentage: number): string {
+    return `${percentage.toFixed(2)}%`;
+  }
+}
+
+export const reportCardService = new ReportCardService();
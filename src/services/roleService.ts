@@ -1,3 +1,4 @@
+import Redis from 'ioredis';
 import { db } from '../config/database';
 import { databaseErrorThrower } from '../errorHandler';
 import {
@@ -5,21 +6,55 @@ import {
   type RoleQuery,
   type UpdateRoleInput,
 } from '../schemas/roleSchema';
-import { type Role, type NewRole, type RoleUpdate } from '../types/database';
+import {
+  type Role,
+  type NewRole,
+  type RoleUpdate,
+  type Permission,
+} from '../types/database';
+import { getRedisClient } from '../redis/redisClient';
+import type { AuditContext } from '../types/general';
+import { auditService } from './auditService';
 
 export class RoleService {
-  async createRole(input: CreateRoleInput): Promise<Role | undefined> {
+  private redis: Redis;
+  private permissionCacheTtl: number;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+
+    this.permissionCacheTtl = process.env['ROLE_PERMISSIONS_CACHE_TTL']
+      ? parseInt(process.env['ROLE_PERMISSIONS_CACHE_TTL'], 10)
+      : 3600; // 1 hour in seconds
+  }
+
+  async createRole(
+    input: CreateRoleInput,
+    audit?: AuditContext
+  ): Promise<Role | undefined> {
     try {
       const newRole: NewRole = {
         name: input.name,
         description: input.description ?? '',
+        twoFactorRequired: input.twoFactorRequired ?? false,
       };
 
-      return await db
-        .insertInto('roles')
-        .values(newRole)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const role = await trx
+          .insertInto('roles')
+          .values(newRole)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'roles',
+          entityId: role.id,
+          action: 'create',
+          after: role,
+        });
+
+        return role;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to create role', error);
     }
@@ -71,42 +106,234 @@ export class RoleService {
     return;
   }
 
+  async getRoleByName(name: string): Promise<Role | undefined> {
+    try {
+      return await db
+        .selectFrom('roles')
+        .selectAll()
+        .where('name', '=', name)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get role', error);
+    }
+    return;
+  }
+
   async updateRole(
     id: number,
-    input: Partial<UpdateRoleInput>
+    input: Partial<UpdateRoleInput>,
+    audit?: AuditContext
   ): Promise<Role | undefined> {
     try {
+      const { twoFactorRequired, ...fields } = input;
       const updateData: RoleUpdate = {
-        ...input,
+        ...fields,
         description: input.description ?? '',
         updatedAt: new Date(),
       };
 
-      return await db
-        .updateTable('roles')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      if (twoFactorRequired !== undefined) {
+        updateData.twoFactorRequired = twoFactorRequired;
+      }
+
+      const role = await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('roles')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const updatedRole = await trx
+          .updateTable('roles')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (before && updatedRole) {
+          await auditService.record(trx, audit, {
+            entityType: 'roles',
+            entityId: id,
+            action: 'update',
+            before,
+            after: updatedRole,
+          });
+        }
+
+        return updatedRole;
+      });
+
+      if (role) {
+        await this.invalidatePermissionCache(id);
+      }
+
+      return role;
     } catch (error) {
       databaseErrorThrower('Failed to update role', error);
     }
     return;
   }
 
-  async deleteRole(id: number): Promise<boolean | undefined> {
+  async deleteRole(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('roles')
-        .where('id', '=', id)
-        .executeTakeFirst();
+      const isDeleted = await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('roles')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
 
-      return Number(result.numDeletedRows) > 0;
+        await auditService.record(trx, audit, {
+          entityType: 'roles',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
+
+      if (isDeleted) {
+        await this.invalidatePermissionCache(id);
+      }
+
+      return isDeleted;
     } catch (error) {
       databaseErrorThrower('Failed to delete role', error);
     }
     return;
   }
+
+  async getRolePermissions(roleId: number): Promise<Permission[] | undefined> {
+    try {
+      return await db
+        .selectFrom('rolePermissions')
+        .innerJoin(
+          'permissions',
+          'permissions.id',
+          'rolePermissions.permissionId'
+        )
+        .selectAll('permissions')
+        .where('rolePermissions.roleId', '=', roleId)
+        .orderBy('permissions.name', 'asc')
+        .execute();
+    } catch (error) {
+      databaseErrorThrower('Failed to get role permissions', error);
+    }
+    return;
+  }
+
+  // Returns undefined if the permission does not exist
+  async grantPermission(
+    roleId: number,
+    permissionName: string,
+    audit?: AuditContext
+  ): Promise<Permission | undefined> {
+    try {
+      const permission = await db
+        .selectFrom('permissions')
+        .selectAll()
+        .where('name', '=', permissionName)
+        .executeTakeFirst();
+
+      if (!permission) return;
+
+      await db.transaction().execute(async trx => {
+        const granted = await trx
+          .insertInto('rolePermissions')
+          .values({ roleId, permissionId: permission.id })
+          .onConflict(oc => oc.columns(['roleId', 'permissionId']).doNothing())
+          .returningAll()
+          .executeTakeFirst();
+
+        // Granting a permission the role already has changes nothing
+        if (granted) {
+          await auditService.record(trx, audit, {
+            entityType: 'rolePermissions',
+            entityId: roleId,
+            action: 'create',
+            after: { permission: permission.name },
+          });
+        }
+      });
+
+      await this.invalidatePermissionCache(roleId);
+
+      return permission;
+    } catch (error) {
+      databaseErrorThrower('Failed to grant permission', error);
+    }
+    return;
+  }
+
+  async revokePermission(
+    roleId: number,
+    permissionName: string,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      const isRevoked = await db.transaction().execute(async trx => {
+        const revoked = await trx
+          .deleteFrom('rolePermissions')
+          .where('roleId', '=', roleId)
+          .where('permissionId', 'in', eb =>
+            eb
+              .selectFrom('permissions')
+              .select('id')
+              .where('name', '=', permissionName)
+          )
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!revoked) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'rolePermissions',
+          entityId: roleId,
+          action: 'delete',
+          before: { permission: permissionName },
+        });
+
+        return true;
+      });
+
+      if (isRevoked) {
+        await this.invalidatePermissionCache(roleId);
+      }
+
+      return isRevoked;
+    } catch (error) {
+      databaseErrorThrower('Failed to revoke permission', error);
+    }
+    return;
+  }
+
+  // Permission names of a role, cached in Redis until the role or its permissions change
+  async getPermissionNames(roleId: number): Promise<string[]> {
+    const key = `role_permissions:${roleId}`;
+    const cached = await this.redis.get(key);
+    if (cached) {
+      return JSON.parse(cached) as string[];
+    }
+
+    const permissions = await this.getRolePermissions(roleId);
+    const names = permissions?.map(permission => permission.name) ?? [];
+
+    await this.redis.setex(key, this.permissionCacheTtl, JSON.stringify(names));
+
+    return names;
+  }
+
+  async invalidatePermissionCache(roleId: number): Promise<void> {
+    const key = `role_permissions:${roleId}`;
+    await this.redis.del(key);
+  }
 }
 
-export const roleService = new RoleService();
+export const roleService = new RoleService(getRedisClient());
@@ -12,19 +12,36 @@ import {
   type NewSchool,
   type SchoolUpdate,
 } from '../types/database';
+import type { AuditContext, DataScope } from '../types/general';
+import { isRestrictedScope, schoolIdsInScope } from '../utils/scopeUtils';
+import { auditService } from './auditService';
 
 export class SchoolService {
-  async createSchool(input: CreateSchoolInput): Promise<School | undefined> {
+  async createSchool(
+    input: CreateSchoolInput,
+    audit?: AuditContext
+  ): Promise<School | undefined> {
     try {
       const newSchool: NewSchool = {
         ...input,
       };
 
-      return await db
-        .insertInto('schools')
-        .values(newSchool)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const school = await trx
+          .insertInto('schools')
+          .values(newSchool)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'schools',
+          entityId: school.id,
+          action: 'create',
+          after: school,
+        });
+
+        return school;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to create school', error);
     }
@@ -33,10 +50,11 @@ export class SchoolService {
   }
 
   async getSchools(
-    query: SchoolQuery
+    query: SchoolQuery,
+    scope?: DataScope
   ): Promise<{ schools: School[]; total: number } | undefined> {
     try {
-      let dbQuery = db.selectFrom('schools');
+      let dbQuery = this.scopedSchools(scope);
 
       // Apply filters
       if (
@@ -83,10 +101,12 @@ export class SchoolService {
     return;
   }
 
-  async getSchoolById(id: number): Promise<School | undefined> {
+  async getSchoolById(
+    id: number,
+    scope?: DataScope
+  ): Promise<School | undefined> {
     try {
-      return await db
-        .selectFrom('schools')
+      return await this.scopedSchools(scope)
         .selectAll()
         .where('id', '=', id)
         .executeTakeFirst();
@@ -99,7 +119,9 @@ export class SchoolService {
 
   async updateSchool(
     id: number,
-    input: UpdateSchoolInput
+    input: UpdateSchoolInput,
+    scope?: DataScope,
+    audit?: AuditContext
   ): Promise<School | undefined> {
     try {
       const updateData: SchoolUpdate = {
@@ -107,12 +129,37 @@ export class SchoolService {
         updatedAt: new Date(),
       };
 
-      return await db
-        .updateTable('schools')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('schools')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        let updateQuery = trx
+          .updateTable('schools')
+          .set(updateData)
+          .where('id', '=', id);
+
+        if (isRestrictedScope(scope)) {
+          updateQuery = updateQuery.where('id', 'in', schoolIdsInScope(scope));
+        }
+
+        const school = await updateQuery.returningAll().executeTakeFirst();
+
+        if (before && school) {
+          await auditService.record(trx, audit, {
+            entityType: 'schools',
+            entityId: id,
+            action: 'update',
+            before,
+            after: school,
+          });
+        }
+
+        return school;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to update school', error);
     }
@@ -120,20 +167,49 @@ export class SchoolService {
     return;
   }
 
-  async deleteSchool(id: number): Promise<boolean | undefined> {
+  async deleteSchool(
+    id: number,
+    scope?: DataScope,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('schools')
-        .where('id', '=', id)
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        let deleteQuery = trx.deleteFrom('schools').where('id', '=', id);
+
+        if (isRestrictedScope(scope)) {
+          deleteQuery = deleteQuery.where('id', 'in', schoolIdsInScope(scope));
+        }
 
-      return Number(result.numDeletedRows) > 0;
+        const deleted = await deleteQuery.returningAll().executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'schools',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete school', error);
     }
 
     return;
   }
+
+  // Base schools query limited to the schools inside the data scope
+  private scopedSchools(scope?: DataScope) {
+    let dbQuery = db.selectFrom('schools');
+
+    if (isRestrictedScope(scope)) {
+      dbQuery = dbQuery.where('id', 'in', schoolIdsInScope(scope));
+    }
+
+    return dbQuery;
+  }
 }
 
 export const schoolService = new SchoolService();
@@ -0,0 +1,118 @@
+import { type Request } from 'express';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import logger from '../logger';
+import type { SecurityEventQuery } from '../schemas/securityEventSchema';
+import type {
+  NewSecurityEvent,
+  SecurityEvent,
+  SecurityEventType,
+} from '../types/database';
+
+export class SecurityEventService {
+  private retentionDays: number;
+
+  constructor() {
+    // Load environment variables
+    this.retentionDays = process.env['SECURITY_EVENT_RETENTION_DAYS']
+      ? parseInt(process.env['SECURITY_EVENT_RETENTION_DAYS'], 10)
+      : 90;
+  }
+
+  // Records an event with the IP and user agent of the request
+  // Failures are only logged, recording must never break the login or request it describes
+  async record(
+    req: Request,
+    event: {
+      eventType: SecurityEventType;
+      userId?: number | null;
+      email?: string | null;
+      metadata?: Record<string, unknown>;
+    }
+  ): Promise<void> {
+    try {
+      const newEvent: NewSecurityEvent = {
+        userId: event.userId ?? null,
+        email: event.email ?? null,
+        eventType: event.eventType,
+        ip: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+        metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+      };
+
+      await db.insertInto('securityEvents').values(newEvent).execute();
+    } catch (error) {
+      logger.error(
+        `Failed to record ${event.eventType} security event:`,
+        error
+      );
+    }
+  }
+
+  async getUserEvents(
+    userId: number,
+    query: SecurityEventQuery
+  ): Promise<{ events: SecurityEvent[]; total: number } | undefined> {
+    try {
+      let dbQuery = db
+        .selectFrom('securityEvents')
+        .where('userId', '=', userId);
+
+      // Apply filters
+      if (query.eventType) {
+        dbQuery = dbQuery.where('eventType', '=', query.eventType);
+      }
+
+      if (query.from) {
+        dbQuery = dbQuery.where('createdAt', '>=', query.from);
+      }
+
+      if (query.to) {
+        dbQuery = dbQuery.where('createdAt', '<=', query.to);
+      }
+
+      // Get total count for pagination
+      const totalResult = await dbQuery
+        .select(eb => eb.fn.countAll().as('count'))
+        .executeTakeFirst();
+
+      const total = Number(totalResult?.count || 0);
+
+      // Apply pagination and ordering, newest first
+      const events = await dbQuery
+        .selectAll()
+        .orderBy('id', 'desc')
+        .limit(query.limit || 20)
+        .offset(((query.page || 1) - 1) * (query.limit || 20))
+        .execute();
+
+      return { events, total };
+    } catch (error) {
+      databaseErrorThrower('Failed to get security events', error);
+    }
+    return;
+  }
+
+  // Deletes events older than the retention period, a retention of 0 days keeps events forever
+  async purgeExpiredEvents(): Promise<number | undefined> {
+    if (this.retentionDays <= 0) return 0;
+
+    try {
+      const cutoff = new Date(
+        Date.now() - this.retentionDays * 24 * 60 * 60 * 1000
+      );
+
+      const result = await db
+        .deleteFrom('securityEvents')
+        .where('createdAt', '<', cutoff)
+        .executeTakeFirst();
+
+      return Number(result.numDeletedRows);
+    } catch (error) {
+      databaseErrorThrower('Failed to purge security events', error);
+    }
+    return;
+  }
+}
+
+export const securityEventService = new SecurityEventService();
@@ -1,3 +1,4 @@
+import { type Kysely } from 'kysely';
 import { db } from '../config/database';
 import { databaseErrorThrower } from '../errorHandler';
 import {
@@ -8,14 +9,28 @@ import {
   type TransferStudentInput,
 } from '../schemas/studentSchema';
 import {
+  type Database,
   type Student,
   type NewStudent,
+  type NewStudentEnrollment,
+  type StudentEnrollment,
   type StudentUpdate,
   Gender,
 } from '../types/database';
+import type { AuditContext, DataScope } from '../types/general';
+import { academicYearEnd, academicYearStart } from '../utils/academicYearUtils';
+import {
+  guardianStudentIds,
+  isRestrictedScope,
+  schoolIdsInScope,
+} from '../utils/scopeUtils';
+import { auditService } from './auditService';
 
 export class StudentService {
-  async createStudent(input: CreateStudentInput): Promise<Student | undefined> {
+  async createStudent(
+    input: CreateStudentInput,
+    audit?: AuditContext
+  ): Promise<Student | undefined> {
     try {
       const newStudent: NewStudent = {
         firstName: input.firstName,
@@ -35,11 +50,24 @@ export class StudentService {
         active: input.active ?? true,
       };
 
-      return await db
-        .insertInto('students')
-        .values(newStudent)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const student = await trx
+          .insertInto('students')
+          .values(newStudent)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'students',
+          entityId: student.id,
+          action: 'create',
+          after: student,
+        });
+
+        await this.startEnrollments(trx, [student], audit);
+
+        return student;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to create student', error);
     }
@@ -48,7 +76,8 @@ export class StudentService {
   }
 
   async createStudents(
-    input: BulkCreateStudentsInput
+    input: BulkCreateStudentsInput,
+    audit?: AuditContext
   ): Promise<Student[] | undefined> {
     try {
       return await db.transaction().execute(async trx => {
@@ -71,11 +100,24 @@ export class StudentService {
         }));
 
         // Insert all students in one operation
-        return await trx
+        const students = await trx
           .insertInto('students')
           .values(newStudents)
           .returningAll()
           .execute();
+
+        for (const student of students) {
+          await auditService.record(trx, audit, {
+            entityType: 'students',
+            entityId: student.id,
+            action: 'create',
+            after: student,
+          });
+        }
+
+        await this.startEnrollments(trx, students, audit);
+
+        return students;
       });
     } catch (error) {
       databaseErrorThrower('Failed to create students', error);
@@ -85,10 +127,11 @@ export class StudentService {
   }
 
   async getStudents(
-    query: StudentQuery
+    query: StudentQuery,
+    scope?: DataScope
   ): Promise<{ students: Student[]; total: number } | undefined> {
     try {
-      let dbQuery = db.selectFrom('students');
+      let dbQuery = this.scopedStudents(scope);
 
       // Apply filters
       if (query.regionId) {
@@ -103,6 +146,33 @@ export class StudentService {
         dbQuery = dbQuery.where('gender', '=', query.gender as Gender);
       }
 
+      // Students with an enrollment running at any point of the academic year
+      if (query.academicYearId) {
+        const { academicYearId } = query;
+        dbQuery = dbQuery.where(
+          'id',
+          'in',
+          db
+            .selectFrom('studentEnrollments')
+            .select('studentEnrollments.studentId')
+            .where(
+              'studentEnrollments.startDate',
+              '<=',
+              academicYearEnd(academicYearId)
+            )
+            .where(eb =>
+              eb.or([
+                eb('studentEnrollments.endDate', 'is', null),
+                eb(
+                  'studentEnrollments.endDate',
+                  '>=',
+                  academicYearStart(academicYearId)
+                ),
+              ])
+            )
+        );
+      }
+
       if (query.active !== undefined) {
         dbQuery = dbQuery.where('active', '=', query.active);
       }
@@ -164,10 +234,12 @@ export class StudentService {
     return;
   }
 
-  async getStudentById(id: number): Promise<Student | undefined> {
+  async getStudentById(
+    id: number,
+    scope?: DataScope
+  ): Promise<Student | undefined> {
     try {
-      return await db
-        .selectFrom('students')
+      return await this.scopedStudents(scope)
         .selectAll()
         .where('id', '=', id)
         .executeTakeFirst();
@@ -180,7 +252,9 @@ export class StudentService {
 
   async updateStudent(
     id: number,
-    input: UpdateStudentInput
+    input: UpdateStudentInput,
+    scope?: DataScope,
+    audit?: AuditContext
   ): Promise<Student | undefined> {
     try {
       const updateData: StudentUpdate = {
@@ -192,12 +266,7 @@ export class StudentService {
         updatedAt: new Date(),
       };
 
-      return await db
-        .updateTable('students')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await this.updateScopedStudent(id, updateData, scope, audit);
     } catch (error) {
       databaseErrorThrower('Failed to update student', error);
     }
@@ -205,14 +274,42 @@ export class StudentService {
     return;
   }
 
-  async deleteStudent(id: number): Promise<boolean | undefined> {
+  async deleteStudent(
+    id: number,
+    scope?: DataScope,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('students')
-        .where('id', '=', id)
-        .executeTakeFirst();
-
-      return Number(result.numDeletedRows) > 0;
+      return await db.transaction().execute(async trx => {
+        let deleteQuery = trx.deleteFrom('students').where('id', '=', id);
+
+        if (scope?.level === 'guardian') {
+          deleteQuery = deleteQuery.where(
+            'id',
+            'in',
+            guardianStudentIds(scope.guardianId)
+          );
+        } else if (isRestrictedScope(scope)) {
+          deleteQuery = deleteQuery.where(
+            'schoolId',
+            'in',
+            schoolIdsInScope(scope)
+          );
+        }
+
+        const deleted = await deleteQuery.returningAll().executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'students',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete student', error);
     }
@@ -220,14 +317,18 @@ export class StudentService {
     return;
   }
 
-  async softDeleteStudent(id: number): Promise<Student | undefined> {
+  async softDeleteStudent(
+    id: number,
+    scope?: DataScope,
+    audit?: AuditContext
+  ): Promise<Student | undefined> {
     try {
-      return await db
-        .updateTable('students')
-        .set({ active: false, updatedAt: new Date() })
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await this.updateScopedStudent(
+        id,
+        { active: false, updatedAt: new Date() },
+        scope,
+        audit
+      );
     } catch (error) {
       databaseErrorThrower('Failed to deactivate student', error);
     }
@@ -235,14 +336,18 @@ export class StudentService {
     return;
   }
 
-  async reactivateStudent(id: number): Promise<Student | undefined> {
+  async reactivateStudent(
+    id: number,
+    scope?: DataScope,
+    audit?: AuditContext
+  ): Promise<Student | undefined> {
     try {
-      return await db
-        .updateTable('students')
-        .set({ active: true, updatedAt: new Date() })
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await this.updateScopedStudent(
+        id,
+        { active: true, updatedAt: new Date() },
+        scope,
+        audit
+      );
     } catch (error) {
       databaseErrorThrower('Failed to reactivate student', error);
     }
@@ -250,9 +355,13 @@ export class StudentService {
     return;
   }
 
+  // Ends the enrollment at the current school on the transfer date and starts one at the new school
+  // Transferring to no school only ends the current enrollment
   async transferStudent(
     id: number,
-    input: TransferStudentInput
+    input: TransferStudentInput,
+    scope?: DataScope,
+    audit?: AuditContext
   ): Promise<Student | undefined> {
     try {
       const updateData: StudentUpdate = {
@@ -261,20 +370,119 @@ export class StudentService {
         updatedAt: new Date(),
       };
 
+      return await this.updateScopedStudent(
+        id,
+        updateData,
+        scope,
+        audit,
+        async (trx, student) => {
+          await trx
+            .updateTable('studentEnrollments')
+            .set({
+              endDate: input.transferDate,
+              endReason: input.reason ?? null,
+              endedBy: audit?.actorUserId ?? null,
+              updatedAt: new Date(),
+            })
+            .where('studentId', '=', student.id)
+            .where('endDate', 'is', null)
+            .execute();
+
+          await this.startEnrollments(
+            trx,
+            [student],
+            audit,
+            input.transferDate
+          );
+        }
+      );
+    } catch (error) {
+      databaseErrorThrower('Failed to transfer student', error);
+    }
+
+    return;
+  }
+
+  async getCurrentEnrollment(
+    studentId: number
+  ): Promise<StudentEnrollment | undefined> {
+    try {
       return await db
-        .updateTable('students')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
+        .selectFrom('studentEnrollments')
+        .selectAll()
+        .where('studentId', '=', studentId)
+        .where('endDate', 'is', null)
         .executeTakeFirst();
     } catch (error) {
-      databaseErrorThrower('Failed to transfer student', error);
+      databaseErrorThrower('Failed to get current enrollment', error);
     }
 
     return;
   }
 
-  async getStudentStatistics(): Promise<
+  async getStudentEnrollmentHistory(studentId: number): Promise<
+    | Array<{
+        enrollmentId: number;
+        studentId: number;
+        schoolId: number;
+        schoolName: string;
+        schoolAddress: string;
+        regionName: string;
+        ownershipType: string;
+        startDate: Date;
+        endDate: Date | null;
+        endReason: string | null;
+        createdBy: number | null;
+        endedBy: number | null;
+        isCurrent: boolean;
+        enrollmentDuration: number; // in days
+        createdAt: Date;
+      }>
+    | undefined
+  > {
+    try {
+      const enrollmentHistory = await db
+        .selectFrom('studentEnrollments')
+        .innerJoin('schools', 'schools.id', 'studentEnrollments.schoolId')
+        .innerJoin('regions', 'regions.id', 'schools.regionId')
+        .select([
+          'studentEnrollments.id as enrollmentId',
+          'studentEnrollments.studentId',
+          'studentEnrollments.schoolId',
+          'schools.name as schoolName',
+          'schools.address as schoolAddress',
+          'regions.name as regionName',
+          'schools.ownershipType',
+          'studentEnrollments.startDate',
+          'studentEnrollments.endDate',
+          'studentEnrollments.endReason',
+          'studentEnrollments.createdBy',
+          'studentEnrollments.endedBy',
+          'studentEnrollments.createdAt',
+        ])
+        .where('studentEnrollments.studentId', '=', studentId)
+        .orderBy('studentEnrollments.startDate', 'desc')
+        .orderBy('studentEnrollments.id', 'desc')
+        .execute();
+
+      // Calculate enrollment duration, up to today for the current school
+      return enrollmentHistory.map(enrollment => ({
+        ...enrollment,
+        isCurrent: enrollment['endDate'] === null,
+        enrollmentDuration: Math.floor(
+          ((enrollment['endDate'] ?? new Date()).getTime() -
+            enrollment['startDate'].getTime()) /
+            (1000 * 60 * 60 * 24)
+        ),
+      }));
+    } catch (error) {
+      databaseErrorThrower('Failed to get student enrollment history', error);
+    }
+
+    return;
+  }
+
+  async getStudentStatistics(scope?: DataScope): Promise<
     | {
         total: number;
         active: number;
@@ -295,44 +503,38 @@ export class StudentService {
         schoolResults,
       ] = await Promise.all([
         // Total students
-        db
-          .selectFrom('students')
+        this.scopedStudents(scope)
           .select(eb => eb.fn.countAll().as('count'))
           .executeTakeFirst(),
 
         // Active students
-        db
-          .selectFrom('students')
+        this.scopedStudents(scope)
           .select(eb => eb.fn.countAll().as('count'))
           .where('active', '=', true)
           .executeTakeFirst(),
 
         // Inactive students
-        db
-          .selectFrom('students')
+        this.scopedStudents(scope)
           .select(eb => eb.fn.countAll().as('count'))
           .where('active', '=', false)
           .executeTakeFirst(),
 
         // By gender
-        db
-          .selectFrom('students')
+        this.scopedStudents(scope)
           .select(['gender', eb => eb.fn.countAll().as('count')])
           .where('active', '=', true)
           .groupBy('gender')
           .execute(),
 
         // By region
-        db
-          .selectFrom('students')
+        this.scopedStudents(scope)
           .select(['regionId', eb => eb.fn.countAll().as('count')])
           .where('active', '=', true)
           .groupBy('regionId')
           .execute(),
 
         // By school
-        db
-          .selectFrom('students')
+        this.scopedStudents(scope)
           .select(['schoolId', eb => eb.fn.countAll().as('count')])
           .where('active', '=', true)
           .where('schoolId', 'is not', null)
@@ -373,6 +575,100 @@ export class StudentService {
 
     return;
   }
+
+  // Updates a student inside the data scope and records the change in the audit log
+  // onUpdated runs in the same transaction, only when the student was updated
+  private async updateScopedStudent(
+    id: number,
+    updateData: StudentUpdate,
+    scope?: DataScope,
+    audit?: AuditContext,
+    onUpdated?: (trx: Kysely<Database>, student: Student) => Promise<void>
+  ): Promise<Student | undefined> {
+    return await db.transaction().execute(async trx => {
+      const before = await trx
+        .selectFrom('students')
+        .selectAll()
+        .where('id', '=', id)
+        .forUpdate()
+        .executeTakeFirst();
+
+      let updateQuery = trx
+        .updateTable('students')
+        .set(updateData)
+        .where('id', '=', id);
+
+      if (scope?.level === 'guardian') {
+        updateQuery = updateQuery.where(
+          'id',
+          'in',
+          guardianStudentIds(scope.guardianId)
+        );
+      } else if (isRestrictedScope(scope)) {
+        updateQuery = updateQuery.where(
+          'schoolId',
+          'in',
+          schoolIdsInScope(scope)
+        );
+      }
+
+      const student = await updateQuery.returningAll().executeTakeFirst();
+
+      if (before && student) {
+        await auditService.record(trx, audit, {
+          entityType: 'students',
+          entityId: id,
+          action: 'update',
+          before,
+          after: student,
+        });
+      }
+
+      if (student && onUpdated) {
+        await onUpdated(trx, student);
+      }
+
+      return student;
+    });
+  }
+
+  // Opens an enrollment for each student assigned to a school, starting on their enrollment date unless given
+  private async startEnrollments(
+    trx: Kysely<Database>,
+    students: Student[],
+    audit?: AuditContext,
+    startDate?: Date
+  ): Promise<void> {
+    const enrollments: NewStudentEnrollment[] = students.flatMap(student =>
+      student.schoolId
+        ? [
+            {
+              studentId: student.id,
+              schoolId: student.schoolId,
+              startDate: startDate ?? student.enrollmentDate ?? new Date(),
+              createdBy: audit?.actorUserId ?? null,
+            },
+          ]
+        : []
+    );
+
+    if (enrollments.length > 0) {
+      await trx.insertInto('studentEnrollments').values(enrollments).execute();
+    }
+  }
+
+  // Base students query limited to the schools inside the data scope, or to the linked children for parents
+  private scopedStudents(scope?: DataScope) {
+    let dbQuery = db.selectFrom('students');
+
+    if (scope?.level === 'guardian') {
+      dbQuery = dbQuery.where('id', 'in', guardianStudentIds(scope.guardianId));
+    } else if (isRestrictedScope(scope)) {
+      dbQuery = dbQuery.where('schoolId', 'in', schoolIdsInScope(scope));
+    }
+
+    return dbQuery;
+  }
 }
 
 export const studentService = new StudentService();
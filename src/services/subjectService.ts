@@ -10,19 +10,35 @@ import {
   type NewSubject,
   type SubjectUpdate,
 } from '../types/database';
+import type { AuditContext } from '../types/general';
+import { auditService } from './auditService';
 
 export class SubjectService {
-  async createSubject(input: CreateSubjectInput): Promise<Subject | undefined> {
+  async createSubject(
+    input: CreateSubjectInput,
+    audit?: AuditContext
+  ): Promise<Subject | undefined> {
     try {
       const newSubject: NewSubject = {
         ...input,
       };
 
-      return await db
-        .insertInto('subjects')
-        .values(newSubject)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const subject = await trx
+          .insertInto('subjects')
+          .values(newSubject)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'subjects',
+          entityId: subject.id,
+          action: 'create',
+          after: subject,
+        });
+
+        return subject;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to create subject', error);
     }
@@ -99,7 +115,8 @@ export class SubjectService {
 
   async updateSubject(
     id: number,
-    input: Partial<UpdateSubjectInput>
+    input: Partial<UpdateSubjectInput>,
+    audit?: AuditContext
   ): Promise<Subject | undefined> {
     try {
       const updateData: SubjectUpdate = {
@@ -107,26 +124,62 @@ export class SubjectService {
         updatedAt: new Date(),
       };
 
-      return await db
-        .updateTable('subjects')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('subjects')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const subject = await trx
+          .updateTable('subjects')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (before && subject) {
+          await auditService.record(trx, audit, {
+            entityType: 'subjects',
+            entityId: id,
+            action: 'update',
+            before,
+            after: subject,
+          });
+        }
+
+        return subject;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to update subject', error);
     }
     return;
   }
 
-  async deleteSubject(id: number): Promise<boolean | undefined> {
+  async deleteSubject(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('subjects')
-        .where('id', '=', id)
-        .executeTakeFirst();
-
-      return Number(result.numDeletedRows) > 0;
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('subjects')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'subjects',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete subject', error);
     }
@@ -11,10 +11,15 @@ import {
   type TeacherSchoolUpdate,
   EmploymentType,
 } from '../types/database';
+import type { AuditContext, DataScope } from '../types/general';
+import { academicYearEnd, academicYearStart } from '../utils/academicYearUtils';
+import { isRestrictedScope, schoolIdsInScope } from '../utils/scopeUtils';
+import { auditService } from './auditService';
 
 export class TeacherSchoolService {
   async assignTeacherToSchool(
-    input: CreateTeacherSchoolInput
+    input: CreateTeacherSchoolInput,
+    audit?: AuditContext
   ): Promise<TeacherSchool | undefined> {
     try {
       // Check for existing active assignment
@@ -39,11 +44,22 @@ export class TeacherSchoolService {
         isActive: input.startDate && !input.endDate,
       };
 
-      return await db
-        .insertInto('teacherSchools')
-        .values(newAssignment)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const assignment = await trx
+          .insertInto('teacherSchools')
+          .values(newAssignment)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'teacherSchools',
+          entityId: assignment.id,
+          action: 'create',
+          after: assignment,
+        });
+
+        return assignment;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to assign teacher to school', error);
     }
@@ -52,10 +68,11 @@ export class TeacherSchoolService {
   }
 
   async getTeacherSchoolAssignments(
-    query: DetailedTeacherSchoolQuery
+    query: DetailedTeacherSchoolQuery,
+    scope?: DataScope
   ): Promise<{ assignments: TeacherSchool[]; total: number } | undefined> {
     try {
-      let dbQuery = db.selectFrom('teacherSchools');
+      let dbQuery = this.scopedTeacherSchools(scope);
 
       // Apply filters
       if (query.teacherId) {
@@ -86,6 +103,19 @@ export class TeacherSchoolService {
           .where('startDate', '<=', endOfYear);
       }
 
+      // Assignments which were running at any point of the academic year
+      if (query.academicYearId) {
+        const { academicYearId } = query;
+        dbQuery = dbQuery
+          .where('startDate', '<=', academicYearEnd(academicYearId))
+          .where(eb =>
+            eb.or([
+              eb('endDate', 'is', null),
+              eb('endDate', '>=', academicYearStart(academicYearId)),
+            ])
+          );
+      }
+
       // Get total count
       const totalResult = await dbQuery
         .select(eb => eb.fn.countAll().as('count'))
@@ -163,19 +193,41 @@ export class TeacherSchoolService {
 
   async updateTeacherSchoolAssignment(
     id: number,
-    input: UpdateTeacherSchoolInput
+    input: UpdateTeacherSchoolInput,
+    audit?: AuditContext
   ): Promise<TeacherSchool | undefined> {
     try {
       const updateData: TeacherSchoolUpdate = {
         ...input,
       };
 
-      return await db
-        .updateTable('teacherSchools')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('teacherSchools')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const assignment = await trx
+          .updateTable('teacherSchools')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (before && assignment) {
+          await auditService.record(trx, audit, {
+            entityType: 'teacherSchools',
+            entityId: id,
+            action: 'update',
+            before,
+            after: assignment,
+          });
+        }
+
+        return assignment;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to update teacher school assignment', error);
     }
@@ -185,7 +237,8 @@ export class TeacherSchoolService {
 
   async terminateEmployment(
     id: number,
-    endDate: Date
+    endDate: Date,
+    audit?: AuditContext
   ): Promise<TeacherSchool | undefined> {
     try {
       return await db.transaction().execute(async trx => {
@@ -194,6 +247,7 @@ export class TeacherSchoolService {
           .selectFrom('teacherSchools')
           .selectAll()
           .where('id', '=', id)
+          .forUpdate()
           .executeTakeFirst();
 
         if (!assignment) {
@@ -209,7 +263,7 @@ export class TeacherSchoolService {
         }
 
         // Update assignment
-        return await trx
+        const terminated = await trx
           .updateTable('teacherSchools')
           .set({
             endDate,
@@ -218,6 +272,16 @@ export class TeacherSchoolService {
           .where('id', '=', id)
           .returningAll()
           .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'teacherSchools',
+          entityId: id,
+          action: 'update',
+          before: assignment,
+          after: terminated,
+        });
+
+        return terminated;
       });
     } catch (error) {
       databaseErrorThrower('Failed to terminate employment', error);
@@ -227,15 +291,28 @@ export class TeacherSchoolService {
   }
 
   async deleteTeacherSchoolAssignment(
-    id: number
+    id: number,
+    audit?: AuditContext
   ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('teacherSchools')
-        .where('id', '=', id)
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('teacherSchools')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (!deleted) return false;
 
-      return Number(result.numDeletedRows) > 0;
+        await auditService.record(trx, audit, {
+          entityType: 'teacherSchools',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete teacher school assignment', error);
     }
@@ -243,7 +320,7 @@ export class TeacherSchoolService {
     return;
   }
 
-  async getAssignmentStatistics(): Promise<
+  async getAssignmentStatistics(scope?: DataScope): Promise<
     | {
         totalAssignments: number;
         activeAssignments: number;
@@ -262,21 +339,18 @@ export class TeacherSchoolService {
         durationResults,
       ] = await Promise.all([
         // Total assignments
-        db
-          .selectFrom('teacherSchools')
+        this.scopedTeacherSchools(scope)
           .select(eb => eb.fn.countAll().as('count'))
           .executeTakeFirst(),
 
         // Active assignments
-        db
-          .selectFrom('teacherSchools')
+        this.scopedTeacherSchools(scope)
           .select(eb => eb.fn.countAll().as('count'))
           .where('isActive', '=', true)
           .executeTakeFirst(),
 
         // By employment type
-        db
-          .selectFrom('teacherSchools')
+        this.scopedTeacherSchools(scope)
           .select([
             'employmentType as type',
             eb => eb.fn.countAll().as('count'),
@@ -285,16 +359,14 @@ export class TeacherSchoolService {
           .execute(),
 
         // By school
-        db
-          .selectFrom('teacherSchools')
+        this.scopedTeacherSchools(scope)
           .select(['schoolId', eb => eb.fn.countAll().as('count')])
           .where('isActive', '=', true)
           .groupBy('schoolId')
           .execute(),
 
         // Average duration (for completed assignments)
-        db
-          .selectFrom('teacherSchools')
+        this.scopedTeacherSchools(scope)
           .select(eb =>
             eb.fn
               .avg(
@@ -331,7 +403,10 @@ export class TeacherSchoolService {
     return;
   }
 
-  async getTeacherEmploymentHistory(teacherId: number): Promise<
+  async getTeacherEmploymentHistory(
+    teacherId: number,
+    scope?: DataScope
+  ): Promise<
     | Array<{
         assignmentId: number;
         teacherId: number;
@@ -352,8 +427,7 @@ export class TeacherSchoolService {
     | undefined
   > {
     try {
-      const employmentHistory = await db
-        .selectFrom('teacherSchools')
+      const employmentHistory = await this.scopedTeacherSchools(scope)
         .innerJoin('schools', 'schools.id', 'teacherSchools.schoolId')
         .innerJoin('regions', 'regions.id', 'schools.regionId')
         .select([
@@ -470,7 +544,8 @@ export class TeacherSchoolService {
     query: DetailedTeacherSchoolQuery & {
       includeSchoolDetails?: boolean;
       includeTeacherDetails?: boolean;
-    }
+    },
+    scope?: DataScope
   ): Promise<
     | {
         assignments: Array<{
@@ -496,7 +571,7 @@ export class TeacherSchoolService {
     | undefined
   > {
     try {
-      let dbQuery = db.selectFrom('teacherSchools');
+      let dbQuery = this.scopedTeacherSchools(scope);
 
       // Join with schools table if school details are requested
       if (query.includeSchoolDetails) {
@@ -547,6 +622,27 @@ export class TeacherSchoolService {
           .where('teacherSchools.startDate', '<=', endOfYear);
       }
 
+      // Assignments which were running at any point of the academic year
+      if (query.academicYearId) {
+        const { academicYearId } = query;
+        dbQuery = dbQuery
+          .where(
+            'teacherSchools.startDate',
+            '<=',
+            academicYearEnd(academicYearId)
+          )
+          .where(eb =>
+            eb.or([
+              eb('teacherSchools.endDate', 'is', null),
+              eb(
+                'teacherSchools.endDate',
+                '>=',
+                academicYearStart(academicYearId)
+              ),
+            ])
+          );
+      }
+
       // Get total count
       const totalResult = await dbQuery
         .select(eb => eb.fn.countAll().as('count'))
@@ -636,7 +732,10 @@ export class TeacherSchoolService {
     return;
   }
 
-  async getTeacherCurrentSchools(teacherId: number): Promise<
+  async getTeacherCurrentSchools(
+    teacherId: number,
+    scope?: DataScope
+  ): Promise<
     | Array<{
         assignmentId: number;
         schoolId: number;
@@ -653,8 +752,7 @@ export class TeacherSchoolService {
     | undefined
   > {
     try {
-      const currentSchools = await db
-        .selectFrom('teacherSchools')
+      const currentSchools = await this.scopedTeacherSchools(scope)
         .innerJoin('schools', 'schools.id', 'teacherSchools.schoolId')
         .innerJoin('regions', 'regions.id', 'schools.regionId')
         .select([
@@ -687,6 +785,21 @@ export class TeacherSchoolService {
 
     return;
   }
+
+  // Base assignments query limited to the schools inside the data scope
+  private scopedTeacherSchools(scope?: DataScope) {
+    let dbQuery = db.selectFrom('teacherSchools');
+
+    if (isRestrictedScope(scope)) {
+      dbQuery = dbQuery.where(
+        'teacherSchools.schoolId',
+        'in',
+        schoolIdsInScope(scope)
+      );
+    }
+
+    return dbQuery;
+  }
 }
 
 export const teacherSchoolService = new TeacherSchoolService();
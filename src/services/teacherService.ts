@@ -12,9 +12,14 @@ import {
   type TeacherUpdate,
   Gender,
 } from '../types/database';
+import type { AuditContext } from '../types/general';
+import { auditService } from './auditService';
 
 export class TeacherService {
-  async createTeacher(input: CreateTeacherInput): Promise<Teacher | undefined> {
+  async createTeacher(
+    input: CreateTeacherInput,
+    audit?: AuditContext
+  ): Promise<Teacher | undefined> {
     try {
       const newTeacher: NewTeacher = {
         firstName: input.firstName,
@@ -29,11 +34,22 @@ export class TeacherService {
         dateOfBirth: input.dateOfBirth || null,
       };
 
-      return await db
-        .insertInto('teachers')
-        .values(newTeacher)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      return await db.transaction().execute(async trx => {
+        const teacher = await trx
+          .insertInto('teachers')
+          .values(newTeacher)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'teachers',
+          entityId: teacher.id,
+          action: 'create',
+          after: teacher,
+        });
+
+        return teacher;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to create teacher', error);
     }
@@ -42,7 +58,8 @@ export class TeacherService {
   }
 
   async createTeachers(
-    input: BulkCreateTeachersInput
+    input: BulkCreateTeachersInput,
+    audit?: AuditContext
   ): Promise<Teacher[] | undefined> {
     try {
       return await db.transaction().execute(async trx => {
@@ -60,11 +77,22 @@ export class TeacherService {
         }));
 
         // Insert all teachers in one operation
-        return await trx
+        const teachers = await trx
           .insertInto('teachers')
           .values(newTeachers)
           .returningAll()
           .execute();
+
+        for (const teacher of teachers) {
+          await auditService.record(trx, audit, {
+            entityType: 'teachers',
+            entityId: teacher.id,
+            action: 'create',
+            after: teacher,
+          });
+        }
+
+        return teachers;
       });
     } catch (error) {
       databaseErrorThrower('Failed to create teachers', error);
@@ -156,7 +184,8 @@ export class TeacherService {
 
   async updateTeacher(
     id: number,
-    input: UpdateTeacherInput
+    input: UpdateTeacherInput,
+    audit?: AuditContext
   ): Promise<Teacher | undefined> {
     try {
       const updateData: TeacherUpdate = {
@@ -168,26 +197,62 @@ export class TeacherService {
         updatedAt: new Date(),
       };
 
-      return await db
-        .updateTable('teachers')
-        .set(updateData)
-        .where('id', '=', id)
-        .returningAll()
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('teachers')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const teacher = await trx
+          .updateTable('teachers')
+          .set(updateData)
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (before && teacher) {
+          await auditService.record(trx, audit, {
+            entityType: 'teachers',
+            entityId: id,
+            action: 'update',
+            before,
+            after: teacher,
+          });
+        }
+
+        return teacher;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to update teacher', error);
     }
 
     return;
   }
-  async deleteTeacher(id: number): Promise<boolean | undefined> {
+  async deleteTeacher(
+    id: number,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('teachers')
-        .where('id', '=', id)
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        const deleted = await trx
+          .deleteFrom('teachers')
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirst();
 
-      return Number(result.numDeletedRows) > 0;
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'teachers',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete teacher', error);
     }
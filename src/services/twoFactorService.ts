@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { db } from '../config/database';
+import { databaseErrorThrower } from '../errorHandler';
+import { getRedisClient } from '../redis/redisClient';
+import type { NewUserRecoveryCode } from '../types/database';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../utils/totpUtils';
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export class TwoFactorService {
+  private redis: Redis;
+  private challengeTtl: number;
+  private issuer: string;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+
+    this.challengeTtl = process.env['TWO_FACTOR_CHALLENGE_TTL']
+      ? parseInt(process.env['TWO_FACTOR_CHALLENGE_TTL'], 10)
+      : 300; // 5 minutes in seconds
+    this.issuer = process.env['TWO_FACTOR_ISSUER'] || 'School Management';
+  }
+
+  // Challenge and recovery codes are stored hashed, the same way as reset tokens
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/-/g, '').toLowerCase();
+  }
+
+  private generateRecoveryCode(): string {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  // Stores a new secret for the user, enrollment is not active until confirmed with a valid code
+  // Returns undefined if two-factor authentication is already enabled
+  async beginEnrollment(
+    userId: number,
+    email: string
+  ): Promise<{ secret: string; otpauthUri: string } | undefined> {
+    try {
+      const secret = generateTotpSecret();
+
+      const result = await db
+        .updateTable('users')
+        .set({ twoFactorSecret: secret, updatedAt: new Date() })
+        .where('id', '=', userId)
+        .where('twoFactorEnabledAt', 'is', null)
+        .executeTakeFirst();
+
+      if (Number(result.numUpdatedRows) === 0) return;
+
+      return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, email, this.issuer),
+      };
+    } catch (error) {
+      databaseErrorThrower('Failed to begin two-factor enrollment', error);
+    }
+    return;
+  }
+
+  // Enables two-factor authentication and returns the recovery codes
+  // Returns undefined if there is no pending enrollment or the code is invalid
+  async confirmEnrollment(
+    userId: number,
+    code: string
+  ): Promise<string[] | undefined> {
+    try {
+      const user = await db
+        .selectFrom('users')
+        .select(['twoFactorSecret', 'twoFactorEnabledAt'])
+        .where('id', '=', userId)
+        .executeTakeFirst();
+
+      if (!user?.twoFactorSecret || user.twoFactorEnabledAt) return;
+      if (!(await this.verifyTotpCode(userId, user.twoFactorSecret, code))) {
+        return;
+      }
+
+      await db
+        .updateTable('users')
+        .set({ twoFactorEnabledAt: new Date(), updatedAt: new Date() })
+        .where('id', '=', userId)
+        .execute();
+
+      return await this.regenerateRecoveryCodes(userId);
+    } catch (error) {
+      databaseErrorThrower('Failed to confirm two-factor enrollment', error);
+    }
+    return;
+  }
+
+  async disable(userId: number): Promise<boolean | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        await trx
+          .deleteFrom('userRecoveryCodes')
+          .where('userId', '=', userId)
+          .execute();
+
+        const result = await trx
+          .updateTable('users')
+          .set({
+            twoFactorSecret: null,
+            twoFactorEnabledAt: null,
+            updatedAt: new Date(),
+          })
+          .where('id', '=', userId)
+          .executeTakeFirst();
+
+        return Number(result.numUpdatedRows) > 0;
+      });
+    } catch (error) {
+      databaseErrorThrower(
+        'Failed to disable two-factor authentication',
+        error
+      );
+    }
+    return;
+  }
+
+  // Replaces all recovery codes of the user, the plain codes are only returned here
+  async regenerateRecoveryCodes(userId: number): Promise<string[] | undefined> {
+    try {
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+        this.generateRecoveryCode()
+      );
+      const newCodes: NewUserRecoveryCode[] = codes.map(code => ({
+        userId,
+        codeHash: this.hashToken(this.normalizeRecoveryCode(code)),
+      }));
+
+      await db.transaction().execute(async trx => {
+        await trx
+          .deleteFrom('userRecoveryCodes')
+          .where('userId', '=', userId)
+          .execute();
+
+        await trx.insertInto('userRecoveryCodes').values(newCodes).execute();
+      });
+
+      return codes;
+    } catch (error) {
+      databaseErrorThrower('Failed to generate recovery codes', error);
+    }
+    return;
+  }
+
+  // Accepts either a TOTP code or an unused recovery code, recovery codes are consumed
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    const user = await db
+      .selectFrom('users')
+      .select(['twoFactorSecret', 'twoFactorEnabledAt'])
+      .where('id', '=', userId)
+      .executeTakeFirst();
+
+    if (!user?.twoFactorSecret || !user.twoFactorEnabledAt) return false;
+
+    if (/^\d{6}$/.test(code)) {
+      return await this.verifyTotpCode(userId, user.twoFactorSecret, code);
+    }
+
+    const result = await db
+      .updateTable('userRecoveryCodes')
+      .set({ usedAt: new Date() })
+      .where('userId', '=', userId)
+      .where('codeHash', '=', this.hashToken(this.normalizeRecoveryCode(code)))
+      .where('usedAt', 'is', null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows) > 0;
+  }
+
+  // A TOTP code can only be used once, so a code seen by an attacker cannot be replayed
+  private async verifyTotpCode(
+    userId: number,
+    secret: string,
+    code: string
+  ): Promise<boolean> {
+    const step = verifyTotp(secret, code);
+    if (step === null) return false;
+
+    const key = `two_factor_last_step:${userId}`;
+    const lastStep = await this.redis.get(key);
+    if (lastStep && step <= parseInt(lastStep, 10)) return false;
+
+    await this.redis.setex(key, 120, step);
+    return true;
+  }
+
+  // Login challenges, issued after the password is verified for users with two-factor authentication enabled
+  async createChallenge(userId: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const key = `two_factor_challenge:${this.hashToken(token)}`;
+    await this.redis.setex(key, this.challengeTtl, userId);
+    return token;
+  }
+
+  // User the challenge was issued to, undefined once it expired or was used
+  async getChallengeUserId(
+    challengeToken: string
+  ): Promise<number | undefined> {
+    const storedUserId = await this.redis.get(
+      `two_factor_challenge:${this.hashToken(challengeToken)}`
+    );
+    return storedUserId ? parseInt(storedUserId, 10) : undefined;
+  }
+
+  // Returns the user id if the code is valid, the challenge is deleted on success or after too many attempts
+  async completeChallenge(
+    challengeToken: string,
+    code: string
+  ): Promise<{ userId?: number; error?: string }> {
+    const hash = this.hashToken(challengeToken);
+    const key = `two_factor_challenge:${hash}`;
+    const attemptsKey = `two_factor_challenge_attempts:${hash}`;
+
+    const storedUserId = await this.redis.get(key);
+    if (!storedUserId) {
+      return { error: 'Invalid or expired challenge token' };
+    }
+
+    const userId = parseInt(storedUserId, 10);
+    if (await this.verifyCode(userId, code)) {
+      await this.redis.del(key, attemptsKey);
+      return { userId };
+    }
+
+    const attempts = await this.redis.incr(attemptsKey);
+    await this.redis.expire(attemptsKey, this.challengeTtl);
+
+    if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      await this.redis.del(key, attemptsKey);
+      return { error: 'Too many invalid codes, please log in again' };
+    }
+
+    return { error: 'Invalid two-factor authentication code' };
+  }
+}
+
+export const twoFactorService = new TwoFactorService(getRedisClient());
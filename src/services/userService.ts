@@ -1,4 +1,5 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { db } from '../config/database';
 import { databaseErrorThrower } from '../errorHandler';
 import {
@@ -8,14 +9,23 @@ import {
   type UserQuery,
 } from '../schemas/userSchema';
 import {
+  type Guardian,
   type NewUser,
   type UserUpdate,
   type SafeUser,
   type User,
 } from '../types/database';
+import type { AuditContext, DataScope, OidcClaims } from '../types/general';
+import { passwordPolicy } from '../utils/passwordPolicy';
+import { isRestrictedScope, schoolIdsInScope } from '../utils/scopeUtils';
+import { isUniqueViolation } from '../utils/databaseUtils';
+import { auditService } from './auditService';
 
 export class UserService {
-  async createUser(input: CreateUserInput): Promise<SafeUser | undefined> {
+  async createUser(
+    input: CreateUserInput,
+    audit?: AuditContext
+  ): Promise<SafeUser | undefined> {
     try {
       const hash = await bcrypt.hash(input.password, 12);
 
@@ -24,20 +34,43 @@ export class UserService {
         passwordHash: hash, // Make sure to hash password before storing in production!
         roleId: input.roleId,
         schoolId: input.schoolId ?? null,
+        regionId: input.regionId ?? null,
+        teacherId: input.teacherId ?? null,
       };
 
-      const result = await db
-        .insertInto('users')
-        .values(newUser)
-        .returning([
-          'id',
-          'email',
-          'roleId',
-          'schoolId',
-          'createdAt',
-          'updatedAt',
-        ])
-        .executeTakeFirstOrThrow();
+      const result = await db.transaction().execute(async trx => {
+        const user = await trx
+          .insertInto('users')
+          .values(newUser)
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirstOrThrow();
+
+        await trx
+          .insertInto('passwordHistory')
+          .values({ userId: user.id, passwordHash: hash })
+          .execute();
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: user.id,
+          action: 'create',
+          after: user,
+        });
+
+        return user;
+      });
 
       return SafeUserSchema.parse(result);
     } catch (error) {
@@ -48,11 +81,12 @@ export class UserService {
   }
 
   async getUsers(
-    query: UserQuery
+    query: UserQuery,
+    scope?: DataScope
   ): Promise<{ users: SafeUser[]; total: number } | undefined> {
     try {
       // Build base query for filtering
-      let baseQuery = db.selectFrom('users');
+      let baseQuery = this.scopedUsers(scope);
 
       // Apply filters
       if (query.roleId !== undefined && typeof query.roleId === 'number') {
@@ -76,7 +110,19 @@ export class UserService {
 
       // Get users with pagination
       const users = await baseQuery
-        .select(['id', 'email', 'roleId', 'schoolId', 'createdAt', 'updatedAt'])
+        .select([
+          'id',
+          'email',
+          'roleId',
+          'schoolId',
+          'regionId',
+          'guardianId',
+          'teacherId',
+          'emailVerifiedAt',
+          'twoFactorEnabledAt',
+          'createdAt',
+          'updatedAt',
+        ])
         .orderBy('createdAt', 'desc')
         .limit(query.limit || 10)
         .offset(((query.page || 1) - 1) * (query.limit || 10))
@@ -90,11 +136,25 @@ export class UserService {
     return;
   }
 
-  async getUserById(id: number): Promise<SafeUser | undefined> {
+  async getUserById(
+    id: number,
+    scope?: DataScope
+  ): Promise<SafeUser | undefined> {
     try {
-      return await db
-        .selectFrom('users')
-        .select(['id', 'email', 'roleId', 'schoolId', 'createdAt', 'updatedAt'])
+      return await this.scopedUsers(scope)
+        .select([
+          'id',
+          'email',
+          'roleId',
+          'schoolId',
+          'regionId',
+          'guardianId',
+          'teacherId',
+          'emailVerifiedAt',
+          'twoFactorEnabledAt',
+          'createdAt',
+          'updatedAt',
+        ])
         .where('id', '=', id)
         .executeTakeFirst();
     } catch (error) {
@@ -108,7 +168,19 @@ export class UserService {
     try {
       return await db
         .selectFrom('users')
-        .select(['id', 'email', 'roleId', 'schoolId', 'createdAt', 'updatedAt'])
+        .select([
+          'id',
+          'email',
+          'roleId',
+          'schoolId',
+          'regionId',
+          'guardianId',
+          'teacherId',
+          'emailVerifiedAt',
+          'twoFactorEnabledAt',
+          'createdAt',
+          'updatedAt',
+        ])
         .where('email', '=', email)
         .executeTakeFirst();
     } catch (error) {
@@ -118,6 +190,20 @@ export class UserService {
     return;
   }
 
+  async getFullUserById(id: number): Promise<User | undefined> {
+    try {
+      return await db
+        .selectFrom('users')
+        .selectAll()
+        .where('id', '=', id)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get user', error);
+    }
+
+    return;
+  }
+
   async getFullUserByEmail(email: string): Promise<User | undefined> {
     try {
       return await db
@@ -134,51 +220,565 @@ export class UserService {
 
   async updateUser(
     id: number,
-    input: Partial<UpdateUserInput>
+    input: Partial<UpdateUserInput>,
+    scope?: DataScope,
+    audit?: AuditContext
   ): Promise<SafeUser | undefined> {
     try {
       const updateData: UserUpdate = {
         ...input,
         schoolId: input.schoolId === undefined ? null : input.schoolId,
+        regionId: input.regionId === undefined ? null : input.regionId,
+        teacherId: input.teacherId === undefined ? null : input.teacherId,
         updatedAt: new Date(),
       };
 
-      const updatedUser = await db
-        .updateTable('users')
-        .set(updateData)
-        .where('id', '=', id)
-        .returning([
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('users')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        let updateQuery = trx
+          .updateTable('users')
+          .set(updateData)
+          .where('id', '=', id);
+
+        if (isRestrictedScope(scope)) {
+          updateQuery = updateQuery.where(
+            'id',
+            'in',
+            this.scopedUsers(scope).select('id')
+          );
+        }
+
+        const updatedUser = await updateQuery
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirst();
+
+        if (before && updatedUser) {
+          await auditService.record(trx, audit, {
+            entityType: 'users',
+            entityId: id,
+            action: 'update',
+            before,
+            after: updatedUser,
+          });
+        }
+
+        return updatedUser;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update user', error);
+    }
+
+    return;
+  }
+
+  // Sets a new password and records it in the password history, which is trimmed to the configured size
+  async updatePassword(
+    id: number,
+    password: string,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
+    try {
+      const hash = await bcrypt.hash(password, 12);
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('users')
+          .select(['passwordHash', 'passwordChangedAt'])
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return false;
+
+        const after = await trx
+          .updateTable('users')
+          .set({
+            passwordHash: hash,
+            passwordChangedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where('id', '=', id)
+          .returning(['passwordHash', 'passwordChangedAt'])
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: id,
+          action: 'update',
+          before,
+          after,
+        });
+
+        await trx
+          .insertInto('passwordHistory')
+          .values({ userId: id, passwordHash: hash })
+          .execute();
+
+        await trx
+          .deleteFrom('passwordHistory')
+          .where('userId', '=', id)
+          .where(
+            'id',
+            'not in',
+            trx
+              .selectFrom('passwordHistory')
+              .select('id')
+              .where('userId', '=', id)
+              .orderBy('id', 'desc')
+              .limit(Math.max(passwordPolicy.historySize, 1))
+          )
+          .execute();
+
+        return true;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to update password', error);
+    }
+    return;
+  }
+
+  // Checks the password against the last passwords of the user, including the current one
+  async isPasswordReused(id: number, password: string): Promise<boolean> {
+    if (passwordPolicy.historySize <= 0) return false;
+
+    const history = await db
+      .selectFrom('passwordHistory')
+      .select('passwordHash')
+      .where('userId', '=', id)
+      .orderBy('id', 'desc')
+      .limit(passwordPolicy.historySize)
+      .execute();
+
+    for (const entry of history) {
+      if (await bcrypt.compare(password, entry.passwordHash)) return true;
+    }
+
+    return false;
+  }
+
+  async markEmailVerified(
+    id: number,
+    audit?: AuditContext
+  ): Promise<SafeUser | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('users')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const user = await trx
+          .updateTable('users')
+          .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+          .where('id', '=', id)
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirst();
+
+        if (before && user) {
+          await auditService.record(trx, audit, {
+            entityType: 'users',
+            entityId: id,
+            action: 'update',
+            before,
+            after: user,
+          });
+        }
+
+        return user;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to verify user email', error);
+    }
+    return;
+  }
+
+  async getUserByOidcSubject(subject: string): Promise<SafeUser | undefined> {
+    try {
+      return await db
+        .selectFrom('users')
+        .select([
           'id',
           'email',
           'roleId',
           'schoolId',
+          'regionId',
+          'guardianId',
+          'teacherId',
+          'emailVerifiedAt',
+          'twoFactorEnabledAt',
           'createdAt',
           'updatedAt',
         ])
+        .where('oidcSubject', '=', subject)
         .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get user', error);
+    }
+
+    return;
+  }
 
-      return updatedUser;
+  // Links an existing account to an identity provider subject, the provider has verified the email
+  // Returns undefined if the account is already linked to another subject
+  async linkOidcSubject(
+    id: number,
+    subject: string,
+    audit?: AuditContext
+  ): Promise<SafeUser | undefined> {
+    try {
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('users')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        const user = await trx
+          .updateTable('users')
+          .set(eb => ({
+            oidcSubject: subject,
+            emailVerifiedAt: eb.fn.coalesce(
+              'emailVerifiedAt',
+              eb.val(new Date())
+            ),
+            updatedAt: new Date(),
+          }))
+          .where('id', '=', id)
+          .where('oidcSubject', 'is', null)
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirst();
+
+        if (!before || !user) return;
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: id,
+          action: 'update',
+          before,
+          after: { ...user, oidcSubject: subject },
+        });
+
+        return user;
+      });
     } catch (error) {
-      databaseErrorThrower('Failed to update user', error);
+      databaseErrorThrower('Failed to link user to identity provider', error);
     }
+    return;
+  }
+
+  // Just in time provisioning for single sign-on, the random password can never be used to log in
+  async createOidcUser(
+    claims: OidcClaims,
+    roleId: number,
+    audit?: AuditContext
+  ): Promise<SafeUser | undefined> {
+    try {
+      const hash = await bcrypt.hash(
+        crypto.randomBytes(32).toString('hex'),
+        12
+      );
 
+      const newUser: NewUser = {
+        email: claims.email,
+        passwordHash: hash,
+        roleId,
+        schoolId: null,
+        regionId: null,
+        emailVerifiedAt: new Date(),
+        oidcSubject: claims.subject,
+      };
+
+      return await db.transaction().execute(async trx => {
+        const user = await trx
+          .insertInto('users')
+          .values(newUser)
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: user.id,
+          action: 'create',
+          after: { ...user, oidcSubject: claims.subject },
+        });
+
+        return user;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to create user', error);
+    }
     return;
   }
 
-  async deleteUser(id: number): Promise<boolean | undefined> {
+  async deleteUser(
+    id: number,
+    scope?: DataScope,
+    audit?: AuditContext
+  ): Promise<boolean | undefined> {
     try {
-      const result = await db
-        .deleteFrom('users')
-        .where('id', '=', id)
-        .executeTakeFirst();
+      return await db.transaction().execute(async trx => {
+        let deleteQuery = trx.deleteFrom('users').where('id', '=', id);
+
+        if (isRestrictedScope(scope)) {
+          deleteQuery = deleteQuery.where(
+            'id',
+            'in',
+            this.scopedUsers(scope).select('id')
+          );
+        }
 
-      return Number(result.numDeletedRows) > 0;
+        const deleted = await deleteQuery.returningAll().executeTakeFirst();
+
+        if (!deleted) return false;
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+
+        return true;
+      });
     } catch (error) {
       databaseErrorThrower('Failed to delete user', error);
     }
 
     return;
   }
+
+  async getUserByGuardianId(guardianId: number): Promise<SafeUser | undefined> {
+    try {
+      return await db
+        .selectFrom('users')
+        .select([
+          'id',
+          'email',
+          'roleId',
+          'schoolId',
+          'regionId',
+          'guardianId',
+          'teacherId',
+          'emailVerifiedAt',
+          'twoFactorEnabledAt',
+          'createdAt',
+          'updatedAt',
+        ])
+        .where('guardianId', '=', guardianId)
+        .executeTakeFirst();
+    } catch (error) {
+      databaseErrorThrower('Failed to get user', error);
+    }
+
+    return;
+  }
+
+  // Parent portal account of a guardian, the random password can never be used to log in
+  // The guardian chooses a password when accepting the invitation, which also verifies the email address
+  async createGuardianUser(
+    guardian: Pick<Guardian, 'id' | 'email'>,
+    roleId: number,
+    audit?: AuditContext
+  ): Promise<{ user?: SafeUser; error?: string } | undefined> {
+    if (!guardian.email) return { error: 'Guardian has no email address' };
+
+    try {
+      const hash = await bcrypt.hash(
+        crypto.randomBytes(32).toString('hex'),
+        12
+      );
+
+      const newUser: NewUser = {
+        email: guardian.email,
+        passwordHash: hash,
+        roleId,
+        schoolId: null,
+        regionId: null,
+        guardianId: guardian.id,
+      };
+
+      return await db.transaction().execute(async trx => {
+        const user = await trx
+          .insertInto('users')
+          .values(newUser)
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: user.id,
+          action: 'create',
+          after: user,
+        });
+
+        return { user };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, 'users_email_key')) {
+        return { error: 'Email is already used by another account' };
+      }
+      if (isUniqueViolation(error, 'users_guardian_id_key')) {
+        return { error: 'Guardian already has an account' };
+      }
+      databaseErrorThrower('Failed to create guardian user', error);
+    }
+    return;
+  }
+
+  // Sets the password chosen by an invited user and verifies their email address, which the invitation was sent to
+  async activateInvitedUser(
+    id: number,
+    password: string,
+    audit?: AuditContext
+  ): Promise<SafeUser | undefined> {
+    try {
+      const hash = await bcrypt.hash(password, 12);
+
+      return await db.transaction().execute(async trx => {
+        const before = await trx
+          .selectFrom('users')
+          .selectAll()
+          .where('id', '=', id)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!before) return;
+
+        const user = await trx
+          .updateTable('users')
+          .set({
+            passwordHash: hash,
+            passwordChangedAt: new Date(),
+            emailVerifiedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where('id', '=', id)
+          .returning([
+            'id',
+            'email',
+            'roleId',
+            'schoolId',
+            'regionId',
+            'guardianId',
+            'teacherId',
+            'emailVerifiedAt',
+            'twoFactorEnabledAt',
+            'createdAt',
+            'updatedAt',
+          ])
+          .executeTakeFirstOrThrow();
+
+        await auditService.record(trx, audit, {
+          entityType: 'users',
+          entityId: id,
+          action: 'update',
+          before,
+          after: { ...user, passwordHash: hash },
+        });
+
+        await trx
+          .insertInto('passwordHistory')
+          .values({ userId: id, passwordHash: hash })
+          .execute();
+
+        return user;
+      });
+    } catch (error) {
+      databaseErrorThrower('Failed to activate user', error);
+    }
+    return;
+  }
+
+  // Base users query limited to users of the schools (or region) inside the data scope
+  private scopedUsers(scope?: DataScope) {
+    let dbQuery = db.selectFrom('users');
+
+    if (isRestrictedScope(scope)) {
+      dbQuery = dbQuery.where(eb => {
+        // Parents only see their own account
+        if (scope.level === 'guardian') {
+          return eb('guardianId', '=', scope.guardianId);
+        }
+
+        const inScopedSchool = eb('schoolId', 'in', schoolIdsInScope(scope));
+
+        return scope.level === 'region'
+          ? eb.or([inScopedSchool, eb('regionId', '=', scope.regionId)])
+          : inScopedSchool;
+      });
+    }
+
+    return dbQuery;
+  }
 }
 
 export const userService = new UserService();
@@ -0,0 +1,238 @@
+import { db } from '../config/database';
+import { academicYearService } from '../services/academicYearService';
+import { classService } from '../services/classService';
+import { guardianService } from '../services/guardianService';
+import { roleService } from '../services/roleService';
+import { studentService } from '../services/studentService';
+import { subjectService } from '../services/subjectService';
+import { userService } from '../services/userService';
+import {
+  Gender,
+  GuardianRelationship,
+  OwnershipType,
+  RoleName,
+  type AcademicYear,
+  type Class,
+  type ClassSubject,
+  type Region,
+  type SafeUser,
+  type School,
+  type Student,
+  type StudentGuardianDetails,
+  type Term,
+} from '../types/database';
+
+// Rows created by the service tests, names and numbers follow the patterns cleanupTestData removes
+
+let studentCounter = 0;
+let userCounter = 0;
+let guardianCounter = 0;
+
+export const TEST_USER_PASSWORD = 'Test-Password-2024!';
+
+export const createTestRegion = async (
+  name = 'Test Region'
+): Promise<Region> => {
+  return await db
+    .insertInto('regions')
+    .values({ name, isCity: false })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+};
+
+export const createTestSchool = async (
+  regionId: number,
+  name = 'Test School'
+): Promise<School> => {
+  return await db
+    .insertInto('schools')
+    .values({
+      name,
+      address: 'Test Street 1',
+      regionId,
+      email: 'school@test.example',
+      phone: '38220123456',
+      ownershipType: OwnershipType.Public,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+};
+
+// Created through the service so the student gets an enrollment at the school
+// Last names are padded so students sort by last name in the order they were created
+export const createTestStudent = async (
+  school: School,
+  enrollmentDate = new Date('2020-09-01')
+): Promise<Student> => {
+  studentCounter += 1;
+
+  const student = await studentService.createStudent({
+    firstName: 'Test',
+    middleName: '',
+    lastName: `Student ${String(studentCounter).padStart(4, '0')}`,
+    regionId: school.regionId,
+    postCode: '81000',
+    address: 'Test Street 1, Podgorica',
+    email: `student${studentCounter}@test.example`,
+    gender: Gender.Female,
+    studentNumber: `TEST-${Date.now()}-${studentCounter}`,
+    schoolId: school.id,
+    enrollmentDate,
+    active: true,
+  });
+
+  if (!student) throw new Error('Failed to create test student');
+
+  return student;
+};
+
+export const createTestUser = async (
+  roleName: RoleName = RoleName.Parent,
+  assignment: { schoolId?: number; regionId?: number } = {}
+): Promise<SafeUser> => {
+  userCounter += 1;
+
+  const role = await roleService.getRoleByName(roleName);
+  if (!role) throw new Error(`Role ${roleName} is not seeded`);
+
+  const user = await userService.createUser({
+    email: `test.user${userCounter}.${Date.now()}@test.example`,
+    password: TEST_USER_PASSWORD,
+    roleId: role.id,
+    ...assignment,
+  });
+
+  if (!user) throw new Error('Failed to create test user');
+
+  return user;
+};
+
+export const createTestAcademicYear = async (
+  name: string,
+  startDate: Date,
+  endDate: Date,
+  isCurrent = false
+): Promise<AcademicYear> => {
+  const academicYear = await academicYearService.createAcademicYear({
+    name,
+    startDate,
+    endDate,
+    isCurrent,
+  });
+
+  if (!academicYear) throw new Error('Failed to create test academic year');
+
+  return academicYear;
+};
+
+export const createTestTerm = async (
+  academicYear: AcademicYear,
+  name: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Term> => {
+  const term = await academicYearService.createTerm(academicYear.id, {
+    name,
+    startDate,
+    endDate,
+    isCurrent: false,
+  });
+
+  if (!term) throw new Error('Failed to create test term');
+
+  return term;
+};
+
+export const createTestClass = async (
+  school: School,
+  academicYear: AcademicYear,
+  section = 'A',
+  capacity = 30
+): Promise<Class> => {
+  const createdClass = await classService.createClass(school.id, {
+    academicYearId: academicYear.id,
+    gradeLevel: 1,
+    section,
+    homeroomTeacherId: null,
+    capacity,
+  });
+
+  if (!createdClass) throw new Error('Failed to create test class');
+
+  return createdClass;
+};
+
+// Students and users reference schools without cascading, so they are removed first
+// Creates the subject and adds it to the timetable of the class
+export const createTestClassSubject = async (
+  schoolClass: Class,
+  name: string,
+  code: string
+): Promise<ClassSubject> => {
+  const subject = await subjectService.createSubject({
+    name,
+    code,
+    description: '',
+  });
+
+  if (!subject) throw new Error('Failed to create test subject');
+
+  const result = await classService.assignSubject(schoolClass.id, {
+    subjectId: subject.id,
+    teacherId: null,
+  });
+
+  if (!result?.classSubject) {
+    throw new Error('Failed to assign test subject');
+  }
+
+  return result.classSubject;
+};
+
+export const linkTestGuardian = async (
+  student: Student,
+  emergencyContactPriority: number | null = null
+): Promise<StudentGuardianDetails> => {
+  guardianCounter += 1;
+
+  const result = await guardianService.linkGuardian(student.id, {
+    guardian: {
+      firstName: 'Test',
+      lastName: `Test Guardian ${guardianCounter}`,
+      email: `test.guardian${guardianCounter}.${Date.now()}@test.example`,
+      phone: '38267123456',
+      mobile: null,
+      address: null,
+    },
+    relationship: GuardianRelationship.Mother,
+    hasLegalCustody: true,
+    canPickup: true,
+    emergencyContactPriority,
+  });
+
+  if (!result?.guardian) {
+    throw new Error('Failed to link test guardian');
+  }
+
+  return result.guardian;
+};
+
+export const cleanupTestData = async (): Promise<void> => {
+  await db
+    .deleteFrom('students')
+    .where('studentNumber', 'like', 'TEST-%')
+    .execute();
+  // Parent accounts and links to students are removed together with the guardian
+  await db
+    .deleteFrom('guardians')
+    .where('lastName', 'like', 'Test %')
+    .execute();
+  await db.deleteFrom('users').where('email', 'like', 'test%').execute();
+  await db.deleteFrom('schools').where('name', 'like', 'Test %').execute();
+  await db.deleteFrom('regions').where('name', 'like', 'Test %').execute();
+  await db
+    .deleteFrom('academicYears')
+    .where('name', 'like', 'Test %')
+    .execute();
+  await db.deleteFrom('subjects').where('name', 'like', 'Test %').execute();
+};
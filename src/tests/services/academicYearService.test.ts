@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { academicYearService } from '../../services/academicYearService';
+import {
+  cleanupTestData,
+  createTestAcademicYear,
+  createTestTerm,
+} from '../fixtures';
+
+describe('AcademicYearService', () => {
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('createAcademicYear', () => {
+    it('should keep a single current academic year', async () => {
+      const first = await createTestAcademicYear(
+        'Test 2090/2091',
+        new Date('2090-09-01'),
+        new Date('2091-06-30'),
+        true
+      );
+      const second = await createTestAcademicYear(
+        'Test 2091/2092',
+        new Date('2091-09-01'),
+        new Date('2092-06-30'),
+        true
+      );
+
+      expect((await academicYearService.getCurrentAcademicYear())?.id).toBe(
+        second.id
+      );
+      expect(
+        (await academicYearService.getAcademicYearById(first.id))?.isCurrent
+      ).toBe(false);
+    });
+
+    it('should reject duplicate names', async () => {
+      await createTestAcademicYear(
+        'Test 2090/2091',
+        new Date('2090-09-01'),
+        new Date('2091-06-30')
+      );
+
+      await expect(
+        createTestAcademicYear(
+          'Test 2090/2091',
+          new Date('2091-09-01'),
+          new Date('2092-06-30')
+        )
+      ).rejects.toThrow('Academic year name already exists');
+    });
+  });
+
+  describe('findOverlappingAcademicYear', () => {
+    it('should find academic years sharing a date', async () => {
+      const academicYear = await createTestAcademicYear(
+        'Test 2090/2091',
+        new Date('2090-09-01'),
+        new Date('2091-06-30')
+      );
+
+      expect(
+        (
+          await academicYearService.findOverlappingAcademicYear(
+            new Date('2091-06-30'),
+            new Date('2092-06-30')
+          )
+        )?.id
+      ).toBe(academicYear.id);
+      expect(
+        await academicYearService.findOverlappingAcademicYear(
+          new Date('2091-07-01'),
+          new Date('2092-06-30')
+        )
+      ).toBeUndefined();
+      expect(
+        await academicYearService.findOverlappingAcademicYear(
+          academicYear.startDate,
+          academicYear.endDate,
+          academicYear.id
+        )
+      ).toBeUndefined();
+    });
+  });
+
+  describe('terms', () => {
+    it('should check terms against their academic year and each other', async () => {
+      const academicYear = await createTestAcademicYear(
+        'Test 2090/2091',
+        new Date('2090-09-01'),
+        new Date('2091-06-30')
+      );
+      const term = await createTestTerm(
+        academicYear,
+        'First term',
+        new Date('2090-09-01'),
+        new Date('2091-01-31')
+      );
+
+      expect(
+        await academicYearService.isWithinAcademicYear(
+          academicYear.id,
+          new Date('2091-02-01'),
+          new Date('2091-07-31')
+        )
+      ).toBe(false);
+      expect(
+        (
+          await academicYearService.findOverlappingTerm(
+            academicYear.id,
+            new Date('2091-01-15'),
+            new Date('2091-06-30')
+          )
+        )?.id
+      ).toBe(term.id);
+      expect(
+        await academicYearService.hasTermsOutside(
+          academicYear.id,
+          new Date('2090-10-01'),
+          new Date('2091-06-30')
+        )
+      ).toBe(true);
+      expect(
+        await academicYearService.isWithinTerm(term.id, new Date('2090-12-01'))
+      ).toBe(true);
+      expect(
+        await academicYearService.isWithinTerm(term.id, new Date('2091-02-01'))
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '../../config/database';
+import { apiKeyService } from '../../services/apiKeyService';
+import { RoleName, type School, type SafeUser } from '../../types/database';
+import { resolveApiKeyScope } from '../../utils/scopeUtils';
+import {
+  cleanupTestData,
+  createTestRegion,
+  createTestSchool,
+  createTestUser,
+} from '../fixtures';
+
+describe('ApiKeyService', () => {
+  let creator: SafeUser;
+  let school: School;
+  let otherSchool: School;
+
+  beforeEach(async () => {
+    const region = await createTestRegion('Test Region');
+    school = await createTestSchool(region.id, 'Test School');
+    otherSchool = await createTestSchool(region.id, 'Test Other School');
+    creator = await createTestUser(RoleName.MinistryAdmin);
+  });
+
+  afterEach(async () => {
+    await db.deleteFrom('apiKeys').where('name', 'like', 'Test %').execute();
+    await cleanupTestData();
+  });
+
+  describe('createApiKey', () => {
+    it('should only store a hash of the key', async () => {
+      const created = await apiKeyService.createApiKey(
+        { name: 'Test Key', permissions: ['students:read'] },
+        creator.id
+      );
+
+      expect(created?.key.startsWith('sms_')).toBe(true);
+      expect(created?.apiKey.keyPrefix).toBe(created?.key.slice(0, 12));
+
+      const stored = await db
+        .selectFrom('apiKeys')
+        .select('keyHash')
+        .where('id', '=', created?.apiKey.id ?? 0)
+        .executeTakeFirst();
+
+      expect(stored?.keyHash).not.toContain(created?.key);
+    });
+  });
+
+  describe('getActiveApiKey', () => {
+    it('should not return revoked or expired keys', async () => {
+      const active = await apiKeyService.createApiKey(
+        { name: 'Test Active Key', permissions: ['students:read'] },
+        creator.id
+      );
+      const expired = await apiKeyService.createApiKey(
+        {
+          name: 'Test Expired Key',
+          permissions: ['students:read'],
+          expiresAt: new Date(Date.now() - 1000),
+        },
+        creator.id
+      );
+
+      expect((await apiKeyService.getActiveApiKey(active?.key ?? ''))?.id).toBe(
+        active?.apiKey.id
+      );
+      expect(
+        await apiKeyService.getActiveApiKey(expired?.key ?? '')
+      ).toBeUndefined();
+
+      await apiKeyService.revokeApiKey(active?.apiKey.id ?? 0);
+
+      expect(
+        await apiKeyService.getActiveApiKey(active?.key ?? '')
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getPermissionNames', () => {
+    it('should use the permissions of the role when the key has one', async () => {
+      const permissions = await apiKeyService.getPermissionNames({
+        roleId: creator.roleId,
+        permissions: ['students:read'],
+        createdBy: creator.id,
+      });
+
+      expect(permissions).toContain('users:write');
+    });
+
+    it('should use the permissions of the key without a role', async () => {
+      const permissions = await apiKeyService.getPermissionNames({
+        roleId: null,
+        permissions: ['students:read'],
+        createdBy: creator.id,
+      });
+
+      expect(permissions).toEqual(['students:read']);
+    });
+
+    it('should not give the key more permissions than its creator has now', async () => {
+      const schoolAdmin = await createTestUser(RoleName.SchoolAdmin, {
+        schoolId: school.id,
+      });
+
+      const permissions = await apiKeyService.getPermissionNames({
+        roleId: creator.roleId,
+        permissions: null,
+        createdBy: schoolAdmin.id,
+      });
+
+      expect(permissions).toContain('students:read');
+      expect(permissions).not.toContain('roles:write');
+      expect(
+        await apiKeyService.getPermissionNames({
+          roleId: null,
+          permissions: ['students:read'],
+          createdBy: null,
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('scoping', () => {
+    it('should limit school keys to their school', async () => {
+      const created = await apiKeyService.createApiKey(
+        {
+          name: 'Test School Key',
+          permissions: ['students:read'],
+          schoolId: school.id,
+        },
+        creator.id
+      );
+      const apiKey = created?.apiKey;
+
+      expect(apiKey && resolveApiKeyScope(apiKey)).toEqual({
+        level: 'school',
+        schoolId: school.id,
+      });
+      expect(
+        await apiKeyService.getApiKeyById(apiKey?.id ?? 0, {
+          level: 'school',
+          schoolId: otherSchool.id,
+        })
+      ).toBeUndefined();
+      expect(
+        await apiKeyService.revokeApiKey(apiKey?.id ?? 0, {
+          level: 'school',
+          schoolId: otherSchool.id,
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('consumeRateLimit', () => {
+    it('should reject requests over the limit of the key', async () => {
+      const created = await apiKeyService.createApiKey(
+        {
+          name: 'Test Limited Key',
+          permissions: ['students:read'],
+          rateLimit: 2,
+        },
+        creator.id
+      );
+      const apiKey = { id: created?.apiKey.id ?? 0, rateLimit: 2 };
+
+      expect(await apiKeyService.consumeRateLimit(apiKey)).toBe(0);
+      expect(await apiKeyService.consumeRateLimit(apiKey)).toBe(0);
+      expect(await apiKeyService.consumeRateLimit(apiKey)).toBeGreaterThan(0);
+
+      const used = await apiKeyService.getApiKeyById(apiKey.id);
+
+      expect(used?.lastUsedAt).toBeInstanceOf(Date);
+    });
+  });
+});
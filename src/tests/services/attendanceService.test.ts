@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { attendanceService } from '../../services/attendanceService';
+import { classService } from '../../services/classService';
+import {
+  AttendanceStatus,
+  type School,
+  type Student,
+} from '../../types/database';
+import {
+  cleanupTestData,
+  createTestAcademicYear,
+  createTestClass,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+} from '../fixtures';
+
+describe('AttendanceService', () => {
+  let school: School;
+  let otherSchool: School;
+  let student: Student;
+
+  beforeEach(async () => {
+    const region = await createTestRegion('Test Region');
+    school = await createTestSchool(region.id, 'Test School');
+    otherSchool = await createTestSchool(region.id, 'Test Other School');
+    student = await createTestStudent(school);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  // Records a single status for the student on each of the days
+  const recordDays = async (
+    days: [string, AttendanceStatus][],
+    recordedStudent = student,
+    period: number | null = null
+  ): Promise<void> => {
+    for (const [date, status] of days) {
+      await attendanceService.recordAttendance(
+        recordedStudent.schoolId ?? 0,
+        null,
+        { date: new Date(date), period },
+        [{ studentId: recordedStudent.id, status, excuseNote: null }]
+      );
+    }
+  };
+
+  describe('recordAttendance', () => {
+    it('should replace the record of the same day and period', async () => {
+      const day = { date: new Date('2024-03-04'), period: null };
+
+      const first = await attendanceService.recordAttendance(
+        school.id,
+        null,
+        day,
+        [
+          {
+            studentId: student.id,
+            status: AttendanceStatus.Absent,
+            excuseNote: null,
+          },
+        ]
+      );
+      const second = await attendanceService.recordAttendance(
+        school.id,
+        null,
+        day,
+        [
+          {
+            studentId: student.id,
+            status: AttendanceStatus.Excused,
+            excuseNote: 'Doctor appointment',
+          },
+        ]
+      );
+
+      expect(second?.records?.[0]?.id).toBe(first?.records?.[0]?.id);
+      expect(second?.records?.[0]?.status).toBe(AttendanceStatus.Excused);
+      expect(second?.records?.[0]?.excuseNote).toBe('Doctor appointment');
+
+      const records = await attendanceService.getStudentAttendance(
+        student.id,
+        {}
+      );
+
+      expect(records).toHaveLength(1);
+    });
+
+    it('should keep separate records per period', async () => {
+      await recordDays([['2024-03-04', AttendanceStatus.Present]], student, 1);
+      await recordDays([['2024-03-04', AttendanceStatus.Late]], student, 2);
+
+      const records = await attendanceService.getStudentAttendance(
+        student.id,
+        {}
+      );
+
+      expect(records?.map(record => record.period)).toEqual([1, 2]);
+    });
+  });
+
+  describe('getClassAttendance', () => {
+    it('should include students who have not been recorded yet', async () => {
+      const academicYear = await createTestAcademicYear(
+        'Test 2023/2024',
+        new Date('2023-09-01'),
+        new Date('2024-06-30')
+      );
+      const schoolClass = await createTestClass(school, academicYear);
+      const classmate = await createTestStudent(school);
+
+      await classService.placeStudents(schoolClass.id, [
+        student.id,
+        classmate.id,
+      ]);
+      await recordDays([['2024-03-04', AttendanceStatus.Absent]]);
+
+      const register = await attendanceService.getClassAttendance(
+        schoolClass.id,
+        { date: new Date('2024-03-04'), period: null }
+      );
+
+      expect(register?.map(entry => [entry.studentId, entry.status])).toEqual([
+        [student.id, AttendanceStatus.Absent],
+        [classmate.id, null],
+      ]);
+    });
+  });
+
+  describe('getStudentAttendanceSummary', () => {
+    it('should count the absent days and the current run of absences', async () => {
+      await recordDays([
+        ['2024-03-04', AttendanceStatus.Absent],
+        ['2024-03-05', AttendanceStatus.Late],
+        ['2024-03-06', AttendanceStatus.Absent],
+        ['2024-03-07', AttendanceStatus.Excused],
+      ]);
+
+      const summary = await attendanceService.getStudentAttendanceSummary(
+        student.id,
+        {}
+      );
+      const [absentSince] =
+        (await attendanceService.getStudentAttendance(student.id, {
+          from: new Date('2024-03-06'),
+          to: new Date('2024-03-06'),
+        })) ?? [];
+
+      expect(summary?.byStatus).toEqual({
+        present: 0,
+        absent: 2,
+        late: 1,
+        excused: 1,
+      });
+      expect(summary?.daysRecorded).toBe(4);
+      expect(summary?.daysAbsent).toBe(3);
+      expect(summary?.absenceRate).toBe(75);
+      expect(summary?.consecutiveAbsences).toBe(2);
+      expect(summary?.longestConsecutiveAbsences).toBe(2);
+      expect(summary?.absentSince).toEqual(absentSince?.date);
+    });
+
+    it('should not count a day with an attended period as an absence', async () => {
+      await recordDays([['2024-03-04', AttendanceStatus.Absent]], student, 1);
+      await recordDays([['2024-03-04', AttendanceStatus.Present]], student, 2);
+
+      const summary = await attendanceService.getStudentAttendanceSummary(
+        student.id,
+        {}
+      );
+
+      expect(summary?.daysRecorded).toBe(1);
+      expect(summary?.daysAbsent).toBe(0);
+      expect(summary?.consecutiveAbsences).toBe(0);
+    });
+  });
+
+  describe('getAttendanceSummary', () => {
+    it('should summarize the schools inside the scope', async () => {
+      const classmate = await createTestStudent(school);
+      const otherStudent = await createTestStudent(otherSchool);
+
+      await recordDays([
+        ['2024-03-04', AttendanceStatus.Absent],
+        ['2024-03-05', AttendanceStatus.Absent],
+      ]);
+      await recordDays(
+        [
+          ['2024-03-04', AttendanceStatus.Present],
+          ['2024-03-05', AttendanceStatus.Present],
+        ],
+        classmate
+      );
+      await recordDays(
+        [
+          ['2024-03-04', AttendanceStatus.Absent],
+          ['2024-03-05', AttendanceStatus.Absent],
+        ],
+        otherStudent
+      );
+
+      const summary = await attendanceService.getAttendanceSummary(
+        {
+          from: new Date('2024-03-01'),
+          to: new Date('2024-03-31'),
+          consecutiveAbsences: 2,
+          page: 1,
+          limit: 20,
+        },
+        { level: 'school', schoolId: school.id }
+      );
+
+      expect(summary?.bySchool).toEqual([
+        {
+          schoolId: school.id,
+          byStatus: { present: 2, absent: 2, late: 0, excused: 0 },
+          studentDaysRecorded: 4,
+          studentDaysAbsent: 2,
+          absenceRate: 50,
+        },
+      ]);
+      expect(
+        summary?.consecutiveAbsences.map(absence => absence.studentId)
+      ).toEqual([student.id]);
+    });
+
+    it('should only count the absences after the last attended day', async () => {
+      const classmate = await createTestStudent(school);
+
+      await recordDays([
+        ['2024-03-04', AttendanceStatus.Absent],
+        ['2024-03-05', AttendanceStatus.Late],
+        ['2024-03-06', AttendanceStatus.Absent],
+        ['2024-03-07', AttendanceStatus.Excused],
+        ['2024-03-08', AttendanceStatus.Absent],
+      ]);
+      await recordDays(
+        [
+          ['2024-03-04', AttendanceStatus.Absent],
+          ['2024-03-05', AttendanceStatus.Absent],
+          ['2024-03-06', AttendanceStatus.Absent],
+          ['2024-03-07', AttendanceStatus.Absent],
+          ['2024-03-08', AttendanceStatus.Present],
+        ],
+        classmate
+      );
+
+      const summary = await attendanceService.getAttendanceSummary(
+        { schoolId: school.id, consecutiveAbsences: 2, page: 1, limit: 20 },
+        { level: 'school', schoolId: school.id }
+      );
+      const [absentSince] =
+        (await attendanceService.getStudentAttendance(student.id, {
+          from: new Date('2024-03-06'),
+          to: new Date('2024-03-06'),
+        })) ?? [];
+
+      expect(summary?.consecutiveAbsencesTotal).toBe(1);
+      expect(summary?.consecutiveAbsences).toEqual([
+        {
+          studentId: student.id,
+          firstName: student.firstName,
+          lastName: student.lastName,
+          schoolId: school.id,
+          consecutiveAbsences: 3,
+          absentSince: absentSince?.date,
+        },
+      ]);
+    });
+
+    it('should page through the students absent in a row', async () => {
+      const classmate = await createTestStudent(school);
+
+      for (const absentStudent of [student, classmate]) {
+        await recordDays(
+          [
+            ['2024-03-04', AttendanceStatus.Absent],
+            ['2024-03-05', AttendanceStatus.Absent],
+          ],
+          absentStudent
+        );
+      }
+
+      const summary = await attendanceService.getAttendanceSummary(
+        { consecutiveAbsences: 2, page: 2, limit: 1 },
+        { level: 'school', schoolId: school.id }
+      );
+
+      expect(summary?.consecutiveAbsencesTotal).toBe(2);
+      expect(
+        summary?.consecutiveAbsences.map(absence => absence.studentId)
+      ).toEqual([Math.max(student.id, classmate.id)]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '../../config/database';
+import { auditService } from '../../services/auditService';
+import { regionService } from '../../services/regionService';
+import { schoolService } from '../../services/schoolService';
+import { userService } from '../../services/userService';
+import {
+  OwnershipType,
+  RoleName,
+  type AuditEntityType,
+  type AuditLogEntry,
+  type Region,
+  type SafeUser,
+} from '../../types/database';
+import type { AuditContext } from '../../types/general';
+import { cleanupTestData, createTestRegion, createTestUser } from '../fixtures';
+
+describe('AuditService', () => {
+  let actor: SafeUser;
+  let region: Region;
+  let audit: AuditContext;
+
+  beforeEach(async () => {
+    actor = await createTestUser(RoleName.MinistryAdmin);
+    region = await createTestRegion('Test Region');
+    audit = {
+      actorUserId: actor.id,
+      impersonatorUserId: null,
+      apiKeyId: null,
+      ip: '127.0.0.1',
+      requestId: `test-request-${Date.now()}`,
+    };
+  });
+
+  afterEach(async () => {
+    await db
+      .deleteFrom('auditLog')
+      .where('requestId', 'like', 'test-request-%')
+      .execute();
+    await cleanupTestData();
+  });
+
+  const getEntries = async (
+    entityType: AuditEntityType,
+    id: number
+  ): Promise<AuditLogEntry[]> => {
+    const result = await auditService.getAuditLog({
+      page: 1,
+      limit: 20,
+      entityType,
+      entityId: id,
+    });
+
+    return result?.entries ?? [];
+  };
+
+  it('should record who created a record and how it looked', async () => {
+    const school = await schoolService.createSchool(
+      {
+        name: 'Test School',
+        address: 'Test Street 1',
+        regionId: region.id,
+        email: 'school@test.example',
+        phone: '38220123456',
+        ownershipType: OwnershipType.Public,
+      },
+      audit
+    );
+
+    const [entry] = await getEntries('schools', school?.id ?? 0);
+
+    expect(entry?.action).toBe('create');
+    expect(entry?.actorUserId).toBe(actor.id);
+    expect(entry?.requestId).toBe(audit.requestId);
+    expect(entry?.after?.['name']).toBe('Test School');
+  });
+
+  it('should only record the changed fields of an update', async () => {
+    const updated = await regionService.updateRegion(
+      region.id,
+      { name: 'Test Renamed Region', isCity: region.isCity },
+      audit
+    );
+
+    expect(updated?.name).toBe('Test Renamed Region');
+
+    const [entry] = await getEntries('regions', region.id);
+
+    expect(entry?.action).toBe('update');
+    expect(entry?.before).toEqual({ name: 'Test Region' });
+    expect(entry?.after).toEqual({ name: 'Test Renamed Region' });
+  });
+
+  it('should redact password hashes', async () => {
+    await userService.updatePassword(actor.id, 'Second-Password-2024!', audit);
+
+    const [entry] = await getEntries('users', actor.id);
+
+    expect(entry?.before?.['passwordHash']).toBe('[redacted]');
+    expect(entry?.after?.['passwordHash']).toBe('[redacted]');
+  });
+});
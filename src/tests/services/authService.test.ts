@@ -0,0 +1,460 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuthService } from '../../services/authService';
+import {
+  JwtKeyring,
+  type JwtKeyStatus,
+  type JwtSigningKey,
+} from '../../jwt/jwtKeyring';
+import { InMemoryMailTransport } from '../../mail/mailTransport';
+import { InMemoryNotificationTransport } from '../../notifications/notificationTransport';
+import { getRedisClient } from '../../redis/redisClient';
+import { roleService } from '../../services/roleService';
+import { userService } from '../../services/userService';
+import { RoleName } from '../../types/database';
+import {
+  cleanupTestData,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+  createTestUser,
+  linkTestGuardian,
+} from '../fixtures';
+
+describe('AuthService', () => {
+  const redis = getRedisClient();
+  const mailTransport = new InMemoryMailTransport();
+  const notificationTransport = new InMemoryNotificationTransport();
+  const authService = new AuthService(
+    redis,
+    mailTransport,
+    notificationTransport,
+    new JwtKeyring([])
+  );
+
+  beforeEach(() => {
+    mailTransport.clear();
+    notificationTransport.clear();
+  });
+
+  afterAll(async () => {
+    await cleanupTestData();
+  });
+
+  describe('password reset tokens', () => {
+    it('should redeem a token only once', async () => {
+      const token = await authService.createPasswordResetToken(42);
+
+      expect(await authService.getPasswordResetTokenUserId(token)).toBe('42');
+      expect(await authService.consumePasswordResetToken(token)).toBe('42');
+      expect(await authService.consumePasswordResetToken(token)).toBeNull();
+    });
+
+    it('should only store a hash of the token', async () => {
+      const token = await authService.createPasswordResetToken(42);
+
+      expect(await redis.get(`password_reset_token:${token}`)).toBeNull();
+
+      await authService.consumePasswordResetToken(token);
+    });
+
+    it('should mail the reset link to the user', async () => {
+      const token = await authService.createPasswordResetToken(42);
+
+      await authService.sendPasswordResetEmail('test@test.example', token);
+
+      expect(mailTransport.outbox).toHaveLength(1);
+      expect(mailTransport.outbox[0]?.to).toBe('test@test.example');
+      expect(mailTransport.outbox[0]?.text).toContain(`?token=${token}`);
+
+      await authService.consumePasswordResetToken(token);
+    });
+  });
+
+  describe('email verification', () => {
+    it('should verify the user the token was issued for', async () => {
+      const user = await createTestUser();
+      const token = await authService.createEmailVerificationToken(user.id);
+
+      await authService.sendVerificationEmail(user.email, token);
+
+      expect(mailTransport.outbox[0]?.to).toBe(user.email);
+      expect(mailTransport.outbox[0]?.text).toContain(`?token=${token}`);
+      expect(user.emailVerifiedAt).toBeNull();
+
+      const userId = await authService.consumeEmailVerificationToken(token);
+
+      expect(userId).toBe(user.id.toString());
+
+      const verified = await userService.markEmailVerified(user.id);
+
+      expect(verified?.emailVerifiedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not accept a verification token twice', async () => {
+      const token = await authService.createEmailVerificationToken(42);
+
+      expect(await authService.consumeEmailVerificationToken(token)).toBe('42');
+      expect(await authService.consumeEmailVerificationToken(token)).toBeNull();
+    });
+
+    it('should not accept a password reset token for verification', async () => {
+      const token = await authService.createPasswordResetToken(42);
+
+      expect(await authService.consumeEmailVerificationToken(token)).toBeNull();
+
+      await authService.consumePasswordResetToken(token);
+    });
+  });
+
+  describe('account invitations', () => {
+    it('should send the invitation through the notification transport', async () => {
+      const region = await createTestRegion();
+      const school = await createTestSchool(region.id);
+      const guardian = await linkTestGuardian(await createTestStudent(school));
+      const parentRole = await roleService.getRoleByName(RoleName.Parent);
+      const result = await userService.createGuardianUser(
+        guardian,
+        parentRole?.id ?? 0
+      );
+      const user = result?.user;
+
+      expect(user?.guardianId).toBe(guardian.id);
+
+      const token = await authService.createAccountInvitationToken(
+        user?.id ?? 0
+      );
+
+      await authService.sendAccountInvitation(guardian, token);
+
+      expect(mailTransport.outbox).toHaveLength(0);
+      expect(notificationTransport.outbox).toHaveLength(1);
+      expect(notificationTransport.outbox[0]?.to.email).toBe(guardian.email);
+      expect(notificationTransport.outbox[0]?.text).toContain(
+        `?token=${token}`
+      );
+
+      expect(await authService.consumeAccountInvitationToken(token)).toBe(
+        user?.id.toString()
+      );
+      expect(await authService.consumeAccountInvitationToken(token)).toBeNull();
+
+      const activated = await userService.activateInvitedUser(
+        user?.id ?? 0,
+        'Chosen-Password-2024!'
+      );
+
+      expect(activated?.emailVerifiedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('account lockout', () => {
+    const email = `test.lockout.${Date.now()}@test.example`;
+
+    const failLogins = async (count: number): Promise<number> => {
+      let lockedFor = 0;
+      for (let attempt = 0; attempt < count; attempt++) {
+        lockedFor = await authService.recordFailedLogin(email);
+      }
+      return lockedFor;
+    };
+
+    afterEach(async () => {
+      await authService.unlockAccount(email);
+    });
+
+    it('should lock the account after too many failed logins', async () => {
+      expect(await failLogins(4)).toBe(0);
+      expect(await authService.getLoginLockoutTtl(email)).toBe(0);
+
+      expect(await failLogins(1)).toBe(300);
+      expect(
+        await authService.getLoginLockoutTtl(email.toUpperCase())
+      ).toBeGreaterThan(0);
+    });
+
+    it('should double the lockout on every repeated lockout', async () => {
+      expect(await failLogins(5)).toBe(300);
+      expect(await failLogins(5)).toBe(600);
+      expect(await failLogins(5)).toBe(1200);
+    });
+
+    it('should start over after a successful login', async () => {
+      expect(await failLogins(5)).toBe(300);
+
+      await authService.clearFailedLogins(email);
+
+      expect(await failLogins(4)).toBe(0);
+      expect(await failLogins(1)).toBe(300);
+    });
+
+    it('should lift the lockout when the account is unlocked', async () => {
+      await failLogins(5);
+      await authService.unlockAccount(email);
+
+      expect(await authService.getLoginLockoutTtl(email)).toBe(0);
+    });
+  });
+
+  describe('sessions', () => {
+    const metadata = { userAgent: 'vitest', ip: '127.0.0.1' };
+
+    it('should list the sessions of a user', async () => {
+      const user = await createTestUser();
+      const first = await authService.createSession(
+        user.id,
+        authService.generateTokens(user.id).refreshToken,
+        metadata
+      );
+      const second = await authService.createSession(
+        user.id,
+        authService.generateTokens(user.id).refreshToken,
+        metadata
+      );
+
+      const sessions = await authService.getUserSessions(user.id);
+
+      expect(sessions.map(session => session.id).sort()).toEqual(
+        [first, second].sort()
+      );
+      expect(sessions[0]?.userAgent).toBe('vitest');
+
+      await authService.revokeAllUserSessions(user.id);
+    });
+
+    it('should only revoke sessions of their owner', async () => {
+      const user = await createTestUser();
+      const otherUser = await createTestUser();
+      const { refreshToken } = authService.generateTokens(user.id);
+      const sessionId = await authService.createSession(
+        user.id,
+        refreshToken,
+        metadata
+      );
+
+      expect(await authService.revokeSession(otherUser.id, sessionId)).toBe(
+        false
+      );
+      expect(await authService.revokeSession(user.id, sessionId)).toBe(true);
+      expect(await authService.getUserSessions(user.id)).toEqual([]);
+      expect(await authService.getRefreshTokenSession(refreshToken)).toBeNull();
+    });
+
+    it('should revoke all sessions of a user', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = authService.generateTokens(user.id);
+      await authService.createSession(user.id, refreshToken, metadata);
+
+      await authService.revokeAllUserSessions(user.id);
+
+      expect(await authService.getUserSessions(user.id)).toEqual([]);
+      expect(await authService.getRefreshTokenSession(refreshToken)).toBeNull();
+    });
+  });
+
+  describe('refreshTokens', () => {
+    const metadata = { userAgent: 'vitest', ip: '127.0.0.1' };
+
+    it('should give every token its own id', async () => {
+      const user = await createTestUser();
+      const first = authService.generateTokens(user.id);
+      const second = authService.generateTokens(user.id);
+
+      const firstId = authService.verifyAccessToken(first.accessToken)?.jti;
+      const secondId = authService.verifyAccessToken(second.accessToken)?.jti;
+
+      expect(firstId).toBeTypeOf('string');
+      expect(firstId).not.toBe(secondId);
+      expect(first.refreshToken).not.toBe(second.refreshToken);
+    });
+
+    it('should rotate the refresh token of the session', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = authService.generateTokens(user.id);
+      const sessionId = await authService.createSession(
+        user.id,
+        refreshToken,
+        metadata
+      );
+
+      const result = await authService.refreshTokens(refreshToken);
+
+      expect(result.success).toBe(true);
+      expect(result.userId).toBe(user.id);
+      expect(
+        await authService.getRefreshTokenSession(
+          result.tokens?.refreshToken ?? ''
+        )
+      ).toEqual({ sessionId, userId: user.id });
+
+      await authService.revokeAllUserSessions(user.id);
+    });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = authService.generateTokens(user.id);
+      await authService.createSession(user.id, refreshToken, metadata);
+
+      const rotated = await authService.refreshTokens(refreshToken);
+      const reused = await authService.refreshTokens(refreshToken);
+
+      expect(reused).toEqual({
+        success: false,
+        error: 'Refresh token reuse detected',
+        userId: user.id,
+      });
+      expect(await authService.getUserSessions(user.id)).toEqual([]);
+
+      const afterReuse = await authService.refreshTokens(
+        rotated.tokens?.refreshToken ?? ''
+      );
+
+      expect(afterReuse.success).toBe(false);
+    });
+
+    it('should let only one of two concurrent refreshes rotate the token', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = authService.generateTokens(user.id);
+      await authService.createSession(user.id, refreshToken, metadata);
+
+      const results = await Promise.all([
+        authService.refreshTokens(refreshToken),
+        authService.refreshTokens(refreshToken),
+      ]);
+      const rotated = results.find(result => result.success);
+
+      expect(results.filter(result => result.success)).toHaveLength(1);
+      expect(results.find(result => !result.success)?.error).toBe(
+        'Refresh token reuse detected'
+      );
+      expect(await authService.getUserSessions(user.id)).toEqual([]);
+      expect(
+        (await authService.refreshTokens(rotated?.tokens?.refreshToken ?? ''))
+          .success
+      ).toBe(false);
+    });
+
+    it('should reject refresh tokens that were never issued for a session', async () => {
+      const user = await createTestUser();
+      const { refreshToken } = authService.generateTokens(user.id);
+
+      const result = await authService.refreshTokens(refreshToken);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid refresh token',
+      });
+    });
+  });
+
+  describe('signing keys', () => {
+    const createKey = (kid: string, status: JwtKeyStatus): JwtSigningKey => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'prime256v1',
+      });
+      return { kid, algorithm: 'ES256', status, privateKey, publicKey };
+    };
+
+    const createKeyringService = (keys: JwtSigningKey[]): AuthService => {
+      return new AuthService(
+        redis,
+        mailTransport,
+        notificationTransport,
+        new JwtKeyring(keys)
+      );
+    };
+
+    it('should sign tokens with the kid of the active key', () => {
+      const keyringService = createKeyringService([
+        createKey('test-key-1', 'active'),
+      ]);
+      const { accessToken } = keyringService.generateTokens(42);
+
+      expect(jwt.decode(accessToken, { complete: true })?.header.kid).toBe(
+        'test-key-1'
+      );
+      expect(keyringService.verifyAccessToken(accessToken)?.['userId']).toBe(
+        42
+      );
+    });
+
+    it('should not accept a refresh token as an access token', () => {
+      const keyringService = createKeyringService([
+        createKey('test-key-1', 'active'),
+      ]);
+      const { refreshToken } = keyringService.generateTokens(42);
+
+      expect(keyringService.verifyAccessToken(refreshToken)).toBeNull();
+      expect(keyringService.verifyRefreshToken(refreshToken)).not.toBeNull();
+    });
+
+    it('should verify tokens of demoted keys until they are retired', () => {
+      const oldKey = createKey('test-key-1', 'active');
+      const newKey = createKey('test-key-2', 'active');
+      const { accessToken } = createKeyringService([oldKey]).generateTokens(42);
+
+      const rotatedService = createKeyringService([
+        newKey,
+        { ...oldKey, status: 'verify' },
+      ]);
+      const retiredService = createKeyringService([
+        newKey,
+        { ...oldKey, status: 'retired' },
+      ]);
+
+      expect(rotatedService.verifyAccessToken(accessToken)).not.toBeNull();
+      expect(retiredService.verifyAccessToken(accessToken)).toBeNull();
+      expect(retiredService.getJwks().keys.map(key => key['kid'])).toEqual([
+        'test-key-2',
+      ]);
+    });
+
+    it('should only accept legacy HS256 tokens until the cutoff', () => {
+      const { accessToken } = authService.generateTokens(42);
+      const keys = [createKey('test-key-1', 'active')];
+
+      expect(
+        createKeyringService(keys).verifyAccessToken(accessToken)
+      ).toBeNull();
+
+      process.env['JWT_LEGACY_SECRET_UNTIL'] = new Date(
+        Date.now() + 60000
+      ).toISOString();
+      const beforeCutoffService = createKeyringService(keys);
+      process.env['JWT_LEGACY_SECRET_UNTIL'] = new Date(
+        Date.now() - 60000
+      ).toISOString();
+      const afterCutoffService = createKeyringService(keys);
+      delete process.env['JWT_LEGACY_SECRET_UNTIL'];
+
+      expect(beforeCutoffService.verifyAccessToken(accessToken)).not.toBeNull();
+      expect(afterCutoffService.verifyAccessToken(accessToken)).toBeNull();
+    });
+  });
+
+  describe('generateImpersonationToken', () => {
+    it('should record the impersonator in a short-lived access token', () => {
+      const { accessToken, expiresIn } = authService.generateImpersonationToken(
+        1,
+        42
+      );
+      const payload = authService.verifyAccessToken(accessToken);
+
+      expect(payload?.['userId']).toBe(42);
+      expect(payload?.['impersonatorId']).toBe(1);
+      expect(expiresIn).toBe(900);
+      expect((payload?.exp ?? 0) - (payload?.iat ?? 0)).toBe(900);
+    });
+
+    it('should not be usable as a refresh token', () => {
+      const { accessToken } = authService.generateImpersonationToken(1, 42);
+
+      expect(authService.verifyRefreshToken(accessToken)).toBeNull();
+    });
+
+    it('should only allow reads while impersonating by default', () => {
+      expect(authService.allowsImpersonationWrites()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { classService } from '../../services/classService';
+import type { AcademicYear, School } from '../../types/database';
+import {
+  cleanupTestData,
+  createTestAcademicYear,
+  createTestClass,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+} from '../fixtures';
+
+describe('ClassService', () => {
+  let school: School;
+  let academicYear: AcademicYear;
+
+  beforeEach(async () => {
+    const region = await createTestRegion('Test Region');
+    school = await createTestSchool(region.id, 'Test School');
+    academicYear = await createTestAcademicYear(
+      'Test 2090/2091',
+      new Date('2090-09-01'),
+      new Date('2091-06-30')
+    );
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('createClass', () => {
+    it('should reject a second class with the same grade and section', async () => {
+      await createTestClass(school, academicYear, 'A');
+
+      await expect(createTestClass(school, academicYear, 'A')).rejects.toThrow(
+        'Class already exists for this grade and section'
+      );
+    });
+  });
+
+  describe('placeStudents', () => {
+    it('should not place students beyond the capacity of the class', async () => {
+      const smallClass = await createTestClass(school, academicYear, 'A', 1);
+      const first = await createTestStudent(school);
+      const second = await createTestStudent(school);
+
+      const result = await classService.placeStudents(smallClass.id, [
+        first.id,
+        second.id,
+      ]);
+
+      expect(result?.error).toBe('Class has 1 of 1 places left');
+      expect(await classService.countClassStudents(smallClass.id)).toBe(0);
+    });
+
+    it('should keep a student in one class per academic year', async () => {
+      const classA = await createTestClass(school, academicYear, 'A');
+      const classB = await createTestClass(school, academicYear, 'B');
+      const student = await createTestStudent(school);
+
+      await classService.placeStudents(classA.id, [student.id]);
+      const result = await classService.placeStudents(classB.id, [student.id]);
+
+      expect(result?.error).toBe(
+        `Students are already in a class this academic year: ${student.id}`
+      );
+    });
+  });
+
+  describe('moveStudent', () => {
+    it('should move the student within the academic year', async () => {
+      const classA = await createTestClass(school, academicYear, 'A');
+      const classB = await createTestClass(school, academicYear, 'B');
+      const student = await createTestStudent(school);
+
+      await classService.placeStudents(classA.id, [student.id]);
+      const result = await classService.moveStudent(
+        classA.id,
+        classB.id,
+        student.id
+      );
+
+      expect(result?.placement?.classId).toBe(classB.id);
+      expect(
+        (await classService.getClassStudents(classB.id))?.map(s => s.id)
+      ).toEqual([student.id]);
+      expect(await classService.countClassStudents(classA.id)).toBe(0);
+    });
+
+    it('should not move a student into a full class', async () => {
+      const classA = await createTestClass(school, academicYear, 'A');
+      const fullClass = await createTestClass(school, academicYear, 'B', 1);
+      const student = await createTestStudent(school);
+      const otherStudent = await createTestStudent(school);
+
+      await classService.placeStudents(classA.id, [student.id]);
+      await classService.placeStudents(fullClass.id, [otherStudent.id]);
+
+      const result = await classService.moveStudent(
+        classA.id,
+        fullClass.id,
+        student.id
+      );
+
+      expect(result?.error).toBe('Target class is full');
+    });
+  });
+
+  describe('getStudentsOutsideSchool', () => {
+    it('should return the students enrolled at another school', async () => {
+      const otherSchool = await createTestSchool(
+        school.regionId,
+        'Test Other School'
+      );
+      const student = await createTestStudent(school);
+      const otherStudent = await createTestStudent(otherSchool);
+
+      expect(
+        await classService.getStudentsOutsideSchool(school.id, [
+          student.id,
+          otherStudent.id,
+        ])
+      ).toEqual([otherStudent.id]);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { classService } from '../../services/classService';
+import { gradeService } from '../../services/gradeService';
+import { gradingScaleService } from '../../services/gradingScaleService';
+import {
+  AssessmentType,
+  type Assessment,
+  type Class,
+  type ClassSubject,
+  type Student,
+  type Term,
+} from '../../types/database';
+import {
+  cleanupTestData,
+  createTestAcademicYear,
+  createTestClass,
+  createTestClassSubject,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+  createTestTerm,
+} from '../fixtures';
+
+describe('GradeService', () => {
+  let schoolClass: Class;
+  let term: Term;
+  let mathematics: ClassSubject;
+  let physics: ClassSubject;
+  let student: Student;
+  let classmate: Student;
+
+  beforeEach(async () => {
+    const region = await createTestRegion('Test Region');
+    const school = await createTestSchool(region.id, 'Test School');
+    const academicYear = await createTestAcademicYear(
+      'Test 2090/2091',
+      new Date('2090-09-01'),
+      new Date('2091-06-30')
+    );
+
+    term = await createTestTerm(
+      academicYear,
+      'Test First Term',
+      new Date('2090-09-01'),
+      new Date('2091-01-31')
+    );
+    schoolClass = await createTestClass(school, academicYear);
+    mathematics = await createTestClassSubject(
+      schoolClass,
+      'Test Mathematics',
+      'TESTMATH'
+    );
+    physics = await createTestClassSubject(
+      schoolClass,
+      'Test Physics',
+      'TESTPHYS'
+    );
+    student = await createTestStudent(school);
+    classmate = await createTestStudent(school);
+
+    await classService.placeStudents(schoolClass.id, [
+      student.id,
+      classmate.id,
+    ]);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  const createAssessment = async (
+    classSubject: ClassSubject,
+    weight: number,
+    maxScore: number
+  ): Promise<Assessment> => {
+    const assessment = await gradeService.createAssessment({
+      classSubjectId: classSubject.id,
+      termId: term.id,
+      name: 'Test assessment',
+      type: AssessmentType.Test,
+      weight,
+      date: new Date('2090-10-01'),
+      maxScore,
+    });
+
+    if (!assessment) throw new Error('Failed to create test assessment');
+
+    return assessment;
+  };
+
+  const grade = async (
+    assessment: Assessment,
+    score: number,
+    gradedStudent = student
+  ): Promise<void> => {
+    await gradeService.enterGrades(assessment.id, [
+      { studentId: gradedStudent.id, score, comment: null },
+    ]);
+  };
+
+  describe('enterGrades', () => {
+    it('should replace the grade of a student who was already graded', async () => {
+      const assessment = await createAssessment(mathematics, 1, 20);
+
+      await grade(assessment, 12);
+      await grade(assessment, 17);
+
+      const grades = await gradeService.getAssessmentGrades(
+        schoolClass.id,
+        assessment.id
+      );
+
+      expect(grades?.map(entry => [entry.studentId, entry.score])).toEqual([
+        [student.id, 17],
+        [classmate.id, null],
+      ]);
+    });
+  });
+
+  describe('updateAssessment', () => {
+    it('should not lower the max score below a given score', async () => {
+      const assessment = await createAssessment(mathematics, 1, 20);
+
+      await grade(assessment, 18);
+
+      const result = await gradeService.updateAssessment(assessment.id, {
+        maxScore: 15,
+      });
+
+      expect(result?.error).toBe(
+        'Max score is lower than a score which was already given'
+      );
+    });
+  });
+
+  describe('getStudentTermAverages', () => {
+    it('should weigh the scores as percentages of their max score', async () => {
+      const exam = await createAssessment(mathematics, 2, 50);
+      const oral = await createAssessment(mathematics, 1, 20);
+      const quiz = await createAssessment(physics, 1, 20);
+
+      await grade(exam, 40);
+      await grade(oral, 10);
+      await grade(quiz, 19);
+
+      const averages = await gradeService.getStudentTermAverages(
+        student.id,
+        term.id
+      );
+
+      expect(averages?.subjects).toEqual([
+        {
+          subjectId: mathematics.subjectId,
+          subjectName: 'Test Mathematics',
+          gradesRecorded: 2,
+          average: 70,
+          grade: null,
+        },
+        {
+          subjectId: physics.subjectId,
+          subjectName: 'Test Physics',
+          gradesRecorded: 1,
+          average: 95,
+          grade: null,
+        },
+      ]);
+      expect(averages?.average).toBe(82.5);
+      expect(averages?.grade).toBeNull();
+    });
+
+    it('should grade the averages with the grading scale', async () => {
+      const exam = await createAssessment(mathematics, 2, 50);
+      const quiz = await createAssessment(physics, 1, 20);
+
+      await grade(exam, 35);
+      await grade(quiz, 19);
+
+      const scale = await gradingScaleService.getDefaultGradingScale();
+      const averages = await gradeService.getStudentTermAverages(
+        student.id,
+        term.id,
+        scale?.bands
+      );
+
+      expect(averages?.subjects.map(subject => subject.grade)).toEqual([
+        '3',
+        '5',
+      ]);
+      expect(averages?.average).toBe(82.5);
+      expect(averages?.grade).toBe('4');
+    });
+  });
+
+  describe('getClassTermAverages', () => {
+    it('should include students without grades', async () => {
+      const exam = await createAssessment(mathematics, 1, 10);
+
+      await grade(exam, 9);
+
+      const averages = await gradeService.getClassTermAverages(
+        schoolClass.id,
+        term.id
+      );
+
+      expect(averages?.map(entry => [entry.studentId, entry.average])).toEqual([
+        [student.id, 90],
+        [classmate.id, null],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { db } from '../../config/database';
+import { gradingScaleService } from '../../services/gradingScaleService';
+
+describe('GradingScaleService', () => {
+  afterEach(async () => {
+    await db
+      .deleteFrom('gradingScales')
+      .where('name', 'like', 'Test %')
+      .execute();
+  });
+
+  describe('getDefaultGradingScale', () => {
+    it('should return the five point scale with the highest grade first', async () => {
+      const scale = await gradingScaleService.getDefaultGradingScale();
+
+      expect(scale?.name).toBe('1-5');
+      expect(scale?.bands).toEqual([
+        { grade: '5', minPercentage: 90 },
+        { grade: '4', minPercentage: 75 },
+        { grade: '3', minPercentage: 60 },
+        { grade: '2', minPercentage: 50 },
+        { grade: '1', minPercentage: 0 },
+      ]);
+    });
+  });
+
+  describe('createGradingScale', () => {
+    it('should order the bands and reject duplicate names', async () => {
+      const input = {
+        name: 'Test Pass/Fail',
+        description: null,
+        isDefault: false,
+        bands: [
+          { grade: 'Fail', minPercentage: 0 },
+          { grade: 'Pass', minPercentage: 50 },
+        ],
+      };
+
+      const result = await gradingScaleService.createGradingScale(input);
+
+      expect(result?.gradingScale?.bands.map(band => band.grade)).toEqual([
+        'Pass',
+        'Fail',
+      ]);
+      expect((await gradingScaleService.getDefaultGradingScale())?.name).toBe(
+        '1-5'
+      );
+      expect(await gradingScaleService.createGradingScale(input)).toEqual({
+        error: 'Grading scale name already exists',
+      });
+    });
+  });
+
+  describe('updateGradingScale', () => {
+    it('should replace all bands of the scale', async () => {
+      const created = await gradingScaleService.createGradingScale({
+        name: 'Test Letters',
+        description: null,
+        isDefault: false,
+        bands: [
+          { grade: 'B', minPercentage: 0 },
+          { grade: 'A', minPercentage: 80 },
+        ],
+      });
+
+      const result = await gradingScaleService.updateGradingScale(
+        created?.gradingScale?.id ?? 0,
+        {
+          bands: [
+            { grade: 'C', minPercentage: 0 },
+            { grade: 'B', minPercentage: 60 },
+            { grade: 'A', minPercentage: 85 },
+          ],
+        }
+      );
+
+      expect(result?.gradingScale?.bands).toEqual([
+        { grade: 'A', minPercentage: 85 },
+        { grade: 'B', minPercentage: 60 },
+        { grade: 'C', minPercentage: 0 },
+      ]);
+    });
+  });
+});
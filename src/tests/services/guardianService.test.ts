@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { guardianService } from '../../services/guardianService';
+import { GuardianRelationship, type Student } from '../../types/database';
+import {
+  cleanupTestData,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+  linkTestGuardian,
+} from '../fixtures';
+
+describe('GuardianService', () => {
+  let student: Student;
+  let sibling: Student;
+
+  beforeEach(async () => {
+    const region = await createTestRegion();
+    const school = await createTestSchool(region.id);
+
+    student = await createTestStudent(school);
+    sibling = await createTestStudent(school);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('linkGuardian', () => {
+    it('should list emergency contacts first in the order they are called', async () => {
+      const other = await linkTestGuardian(student);
+      const second = await linkTestGuardian(student, 2);
+      const first = await linkTestGuardian(student, 1);
+
+      const guardians = await guardianService.getStudentGuardians(student.id);
+
+      expect(guardians?.map(guardian => guardian.id)).toEqual([
+        first.id,
+        second.id,
+        other.id,
+      ]);
+    });
+
+    it('should link an existing guardian to another student', async () => {
+      const guardian = await linkTestGuardian(student);
+
+      const result = await guardianService.linkGuardian(sibling.id, {
+        guardianId: guardian.id,
+        relationship: GuardianRelationship.Father,
+        hasLegalCustody: false,
+        canPickup: true,
+        emergencyContactPriority: null,
+      });
+
+      expect(result?.guardian?.id).toBe(guardian.id);
+      expect(result?.guardian?.relationship).toBe(GuardianRelationship.Father);
+      expect(
+        (await guardianService.getStudentGuardian(student.id, guardian.id))
+          ?.relationship
+      ).toBe(GuardianRelationship.Mother);
+    });
+
+    it('should not link the same guardian twice', async () => {
+      const guardian = await linkTestGuardian(student);
+
+      const result = await guardianService.linkGuardian(student.id, {
+        guardianId: guardian.id,
+        relationship: GuardianRelationship.Mother,
+        hasLegalCustody: true,
+        canPickup: true,
+        emergencyContactPriority: null,
+      });
+
+      expect(result?.error).toBe('Guardian is already linked to the student');
+    });
+
+    it('should not use an emergency contact priority twice', async () => {
+      await linkTestGuardian(student, 1);
+
+      const result = await guardianService.linkGuardian(student.id, {
+        guardian: {
+          firstName: 'Test',
+          lastName: 'Test Guardian',
+          email: null,
+          phone: '38267123456',
+          mobile: null,
+          address: null,
+        },
+        relationship: GuardianRelationship.Father,
+        hasLegalCustody: false,
+        canPickup: false,
+        emergencyContactPriority: 1,
+      });
+
+      expect(result?.error).toBe('Emergency contact priority is already used');
+
+      const guardian = await linkTestGuardian(student, 2);
+      const update = await guardianService.updateStudentGuardian(
+        student.id,
+        guardian.id,
+        { emergencyContactPriority: 1 }
+      );
+
+      expect(update?.error).toBe('Emergency contact priority is already used');
+    });
+  });
+
+  describe('getStudentGuardians', () => {
+    it('should only return their own record to a guardian', async () => {
+      const guardian = await linkTestGuardian(student, 1);
+      const coGuardian = await linkTestGuardian(student, 2);
+      const scope = { level: 'guardian' as const, guardianId: guardian.id };
+
+      const guardians = await guardianService.getStudentGuardians(
+        student.id,
+        scope
+      );
+
+      expect(guardians?.map(entry => entry.id)).toEqual([guardian.id]);
+      expect(
+        await guardianService.getStudentGuardian(
+          student.id,
+          coGuardian.id,
+          scope
+        )
+      ).toBeUndefined();
+      expect(
+        (await guardianService.getStudentGuardians(student.id))?.length
+      ).toBe(2);
+    });
+  });
+
+  describe('unlinkGuardian', () => {
+    it('should keep a guardian who still has other students', async () => {
+      const guardian = await linkTestGuardian(student);
+      await guardianService.linkGuardian(sibling.id, {
+        guardianId: guardian.id,
+        relationship: GuardianRelationship.Mother,
+        hasLegalCustody: true,
+        canPickup: true,
+        emergencyContactPriority: null,
+      });
+
+      expect(
+        await guardianService.unlinkGuardian(student.id, guardian.id)
+      ).toBe(true);
+      expect(await guardianService.getGuardianById(guardian.id)).toBeDefined();
+    });
+
+    it('should delete a guardian left without students', async () => {
+      const guardian = await linkTestGuardian(student);
+
+      expect(
+        await guardianService.unlinkGuardian(student.id, guardian.id)
+      ).toBe(true);
+      expect(
+        await guardianService.getGuardianById(guardian.id)
+      ).toBeUndefined();
+      expect(
+        await guardianService.unlinkGuardian(student.id, guardian.id)
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { oidcService } from '../../services/oidcService';
+import { roleService } from '../../services/roleService';
+import { userService } from '../../services/userService';
+import { RoleName } from '../../types/database';
+import { cleanupTestData, createTestUser } from '../fixtures';
+
+describe('OidcService', () => {
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('resolveUser', () => {
+    it('should create a user with the default role for a new identity', async () => {
+      const subject = `test-subject-${Date.now()}`;
+      const user = await oidcService.resolveUser({
+        subject,
+        email: `test.oidc.${Date.now()}@test.example`,
+        emailVerified: true,
+      });
+      const teacherRole = await roleService.getRoleByName(RoleName.Teacher);
+
+      expect(user?.roleId).toBe(teacherRole?.id);
+      expect(user?.emailVerifiedAt).toBeInstanceOf(Date);
+
+      const again = await oidcService.resolveUser({
+        subject,
+        email: 'test.changed@test.example',
+        emailVerified: true,
+      });
+
+      expect(again?.id).toBe(user?.id);
+    });
+
+    it('should link an existing account by its verified email', async () => {
+      const existingUser = await createTestUser(RoleName.Teacher);
+
+      const user = await oidcService.resolveUser({
+        subject: `test-subject-${Date.now()}`,
+        email: existingUser.email,
+        emailVerified: true,
+      });
+
+      expect(user?.id).toBe(existingUser.id);
+      expect(user?.emailVerifiedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not link an existing account by an unverified email', async () => {
+      const existingUser = await createTestUser(RoleName.Teacher);
+
+      const user = await oidcService.resolveUser({
+        subject: `test-subject-${Date.now()}`,
+        email: existingUser.email,
+        emailVerified: false,
+      });
+
+      expect(user).toBeNull();
+    });
+
+    it('should not create a user for an unverified email', async () => {
+      const email = `test.oidc.${Date.now()}@test.example`;
+
+      const user = await oidcService.resolveUser({
+        subject: `test-subject-${Date.now()}`,
+        email,
+        emailVerified: false,
+      });
+
+      expect(user).toBeNull();
+      expect(await userService.getUserByEmail(email)).toBeUndefined();
+    });
+
+    it('should not link an account already linked to another identity', async () => {
+      const existingUser = await createTestUser(RoleName.Teacher);
+
+      await oidcService.resolveUser({
+        subject: `test-subject-${Date.now()}`,
+        email: existingUser.email,
+        emailVerified: true,
+      });
+
+      const user = await oidcService.resolveUser({
+        subject: `test-other-subject-${Date.now()}`,
+        email: existingUser.email,
+        emailVerified: true,
+      });
+
+      expect(user).toBeNull();
+    });
+  });
+});
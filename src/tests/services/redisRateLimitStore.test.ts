@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Options } from 'express-rate-limit';
+import { getRedisClient } from '../../redis/redisClient';
+import { RedisRateLimitStore } from '../../redis/redisRateLimitStore';
+
+describe('RedisRateLimitStore', () => {
+  const redis = getRedisClient();
+  const key = `user:test-${Date.now()}`;
+
+  let store: RedisRateLimitStore;
+
+  beforeEach(() => {
+    store = new RedisRateLimitStore(redis, 'rate_limit:test:');
+    store.init({ windowMs: 60 * 1000 } as Options);
+  });
+
+  afterEach(async () => {
+    await store.resetKey(key);
+  });
+
+  describe('increment', () => {
+    it('should count the hits within the window', async () => {
+      await store.increment(key);
+      const { totalHits, resetTime } = await store.increment(key);
+
+      expect(totalHits).toBe(2);
+      expect(resetTime?.getTime()).toBeGreaterThan(Date.now());
+      expect(resetTime?.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+    });
+
+    it('should start the window on the first hit', async () => {
+      await store.increment(key);
+
+      const ttl = await redis.pttl(`rate_limit:test:${key}`);
+
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(60 * 1000);
+    });
+
+    it('should keep separate counters per policy', async () => {
+      const otherStore = new RedisRateLimitStore(redis, 'rate_limit:other:');
+      otherStore.init({ windowMs: 60 * 1000 } as Options);
+
+      await store.increment(key);
+      const { totalHits } = await otherStore.increment(key);
+
+      expect(totalHits).toBe(1);
+
+      await otherStore.resetKey(key);
+    });
+  });
+
+  describe('get', () => {
+    it('should return nothing for keys without hits', async () => {
+      expect(await store.get(key)).toBeUndefined();
+    });
+
+    it('should return the hits after a decrement', async () => {
+      await store.increment(key);
+      await store.increment(key);
+      await store.decrement(key);
+
+      expect((await store.get(key))?.totalHits).toBe(1);
+    });
+  });
+
+  describe('resetKey', () => {
+    it('should clear the counter', async () => {
+      await store.increment(key);
+      await store.resetKey(key);
+
+      expect(await store.get(key)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { attendanceService } from '../../services/attendanceService';
+import { classService } from '../../services/classService';
+import { gradeService } from '../../services/gradeService';
+import { gradingScaleService } from '../../services/gradingScaleService';
+import {
+  type ReportCard,
+  reportCardService,
+} from '../../services/reportCardService';
+import {
+  AssessmentType,
+  AttendanceStatus,
+  type Class,
+  type ClassSubject,
+  type School,
+  type Student,
+  type Term,
+} from '../../types/database';
+import {
+  cleanupTestData,
+  createTestAcademicYear,
+  createTestClass,
+  createTestClassSubject,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+  createTestTerm,
+} from '../fixtures';
+
+describe('ReportCardService', () => {
+  let school: School;
+  let schoolClass: Class;
+  let term: Term;
+  let mathematics: ClassSubject;
+  let student: Student;
+  let classmate: Student;
+
+  beforeEach(async () => {
+    const region = await createTestRegion('Test Region');
+    school = await createTestSchool(region.id, 'Test School');
+    const academicYear = await createTestAcademicYear(
+      'Test 2090/2091',
+      new Date('2090-09-01'),
+      new Date('2091-06-30')
+    );
+
+    term = await createTestTerm(
+      academicYear,
+      'Test First Term',
+      new Date('2090-09-01'),
+      new Date('2091-01-31')
+    );
+    schoolClass = await createTestClass(school, academicYear, 'B');
+    mathematics = await createTestClassSubject(
+      schoolClass,
+      'Test Mathematics',
+      'TESTMATH'
+    );
+    await createTestClassSubject(schoolClass, 'Test Physics', 'TESTPHYS');
+    student = await createTestStudent(school);
+    classmate = await createTestStudent(school);
+
+    await classService.placeStudents(schoolClass.id, [
+      student.id,
+      classmate.id,
+    ]);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  const getCards = async (): Promise<ReportCard[]> => {
+    const scale = await gradingScaleService.getDefaultGradingScale();
+
+    return (
+      (await reportCardService.getReportCards(schoolClass, term, scale)) ?? []
+    );
+  };
+
+  describe('getReportCards', () => {
+    it('should collect the grades, attendance and remarks of the term', async () => {
+      const assessment = await gradeService.createAssessment({
+        classSubjectId: mathematics.id,
+        termId: term.id,
+        name: 'Test exam',
+        type: AssessmentType.Exam,
+        weight: 1,
+        date: new Date('2090-10-01'),
+        maxScore: 20,
+      });
+      await gradeService.enterGrades(assessment?.id ?? 0, [
+        { studentId: student.id, score: 19, comment: null },
+      ]);
+      await attendanceService.recordAttendance(
+        school.id,
+        schoolClass.id,
+        { date: new Date('2090-10-01'), period: null },
+        [
+          {
+            studentId: student.id,
+            status: AttendanceStatus.Present,
+            excuseNote: null,
+          },
+        ]
+      );
+      await attendanceService.recordAttendance(
+        school.id,
+        schoolClass.id,
+        { date: new Date('2090-10-02'), period: null },
+        [
+          {
+            studentId: student.id,
+            status: AttendanceStatus.Excused,
+            excuseNote: 'Flu',
+          },
+        ]
+      );
+      await reportCardService.enterRemarks(term.id, [
+        { studentId: student.id, remarks: 'Works hard in class' },
+      ]);
+
+      const [card, classmateCard] = await getCards();
+
+      expect(card?.student.id).toBe(student.id);
+      expect(card?.className).toBe('1B');
+      expect(card?.academicYearName).toBe('Test 2090/2091');
+      expect(card?.gradingScaleName).toBe('1-5');
+      expect(
+        card?.subjects.map(subject => [subject.subjectName, subject.grade])
+      ).toEqual([
+        ['Test Mathematics', '5'],
+        ['Test Physics', null],
+      ]);
+      expect(card?.average).toBe(95);
+      expect(card?.attendance).toMatchObject({
+        present: 1,
+        excused: 1,
+        daysRecorded: 2,
+        daysAbsent: 1,
+        absenceRate: 50,
+      });
+      expect(card?.remarks).toBe('Works hard in class');
+
+      expect(classmateCard?.average).toBeNull();
+      expect(classmateCard?.remarks).toBeNull();
+    });
+
+    it('should only return the card of the requested student', async () => {
+      const cards = await reportCardService.getReportCards(
+        schoolClass,
+        term,
+        undefined,
+        classmate.id
+      );
+
+      expect(cards?.map(card => card.student.id)).toEqual([classmate.id]);
+    });
+  });
+
+  describe('findUnprintableCharacters', () => {
+    it('should list the characters the PDF font cannot print', async () => {
+      const [card] = await getCards();
+
+      if (!card) throw new Error('Missing report card');
+
+      expect(reportCardService.findUnprintableCharacters(card)).toEqual([]);
+      expect(
+        reportCardService.findUnprintableCharacters({
+          ...card,
+          student: { ...card.student, firstName: 'Đorđe', lastName: 'Šćekić' },
+          remarks: 'Résumé of the term',
+        })
+      ).toEqual(['Đ', 'đ', 'ć']);
+    });
+  });
+
+  describe('renderReportCard', () => {
+    it('should render the card as a PDF document', async () => {
+      const [card] = await getCards();
+
+      if (!card) throw new Error('Missing report card');
+
+      const pdf = reportCardService.renderReportCard(card, {
+        title: 'Test Report Card',
+        headerText: 'Test header',
+        footerText: 'Test footer',
+        remarksTitle: 'Remarks',
+        showAttendance: false,
+        showSubjectTeachers: false,
+      });
+
+      expect(pdf.subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+      expect(pdf.toString('latin1').trimEnd().endsWith('%%EOF')).toBe(true);
+    });
+  });
+
+  describe('renderReportCardArchive', () => {
+    it('should put one PDF per student in the ZIP archive', async () => {
+      const cards = await getCards();
+
+      const archive = reportCardService.renderReportCardArchive(cards);
+      const content = archive.toString('latin1');
+      // End of central directory record, it holds the number of entries
+      const endOfDirectory = archive.lastIndexOf(
+        Buffer.from([0x50, 0x4b, 0x05, 0x06])
+      );
+
+      expect(archive.subarray(0, 4)).toEqual(
+        Buffer.from([0x50, 0x4b, 0x03, 0x04])
+      );
+      expect(archive.readUInt16LE(endOfDirectory + 10)).toBe(2);
+      for (const card of cards) {
+        expect(content).toContain(`${reportCardService.getFileName(card)}.pdf`);
+      }
+    });
+  });
+
+  describe('getFileName', () => {
+    it('should only use ASCII letters, digits and dashes', async () => {
+      const [card] = await getCards();
+
+      if (!card) throw new Error('Missing report card');
+
+      expect(
+        reportCardService.getFileName({
+          ...card,
+          term: { ...card.term, name: 'Prvo polugođe' },
+        })
+      ).toBe(
+        `report-card-prvo-polugo-e-${card.student.studentNumber.toLowerCase()}`
+      );
+    });
+  });
+});
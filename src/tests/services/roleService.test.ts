@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '../../config/database';
+import { roleService } from '../../services/roleService';
+import { RoleName, type Role } from '../../types/database';
+import type { DataScope } from '../../types/general';
+import { isRoleInScope } from '../../utils/scopeUtils';
+
+describe('RoleService', () => {
+  const getPermissionsOf = async (roleName: RoleName): Promise<string[]> => {
+    const role = await roleService.getRoleByName(roleName);
+
+    expect(role).toBeDefined();
+
+    return await roleService.getPermissionNames(role?.id ?? 0);
+  };
+
+  describe('getPermissionNames', () => {
+    it('should resolve the permissions granted to the seeded roles', async () => {
+      const ministryPermissions = await getPermissionsOf(
+        RoleName.MinistryAdmin
+      );
+
+      expect(ministryPermissions).toContain('users:write');
+      expect(ministryPermissions).toContain('roles:write');
+      expect(ministryPermissions).toContain('users:impersonate');
+    });
+
+    it('should limit teachers to reading and grading', async () => {
+      const teacherPermissions = await getPermissionsOf(RoleName.Teacher);
+
+      expect(teacherPermissions).toContain('students:read');
+      expect(teacherPermissions).toContain('grades:write');
+      expect(teacherPermissions).not.toContain('students:write');
+      expect(teacherPermissions).not.toContain('users:write');
+    });
+
+    it('should return an empty list for an unknown role', async () => {
+      const permissions = await roleService.getPermissionNames(999999);
+
+      expect(permissions).toEqual([]);
+    });
+  });
+
+  describe('grantPermission and revokePermission', () => {
+    let role: Role;
+
+    beforeEach(async () => {
+      const created = await roleService.createRole({ name: 'Test Role' });
+
+      expect(created).toBeDefined();
+
+      role = created as Role;
+    });
+
+    afterEach(async () => {
+      await roleService.deleteRole(role.id);
+    });
+
+    it('should return undefined for an unknown permission', async () => {
+      const permission = await roleService.grantPermission(
+        role.id,
+        'unknown:read'
+      );
+
+      expect(permission).toBeUndefined();
+    });
+
+    it('should refresh the cached permissions when a permission is granted', async () => {
+      expect(await roleService.getPermissionNames(role.id)).toEqual([]);
+
+      await roleService.grantPermission(role.id, 'students:read');
+
+      expect(await roleService.getPermissionNames(role.id)).toEqual([
+        'students:read',
+      ]);
+    });
+
+    it('should refresh the cached permissions when a permission is revoked', async () => {
+      await roleService.grantPermission(role.id, 'students:read');
+      await roleService.grantPermission(role.id, 'schools:read');
+
+      expect(await roleService.getPermissionNames(role.id)).toEqual([
+        'schools:read',
+        'students:read',
+      ]);
+
+      expect(await roleService.revokePermission(role.id, 'schools:read')).toBe(
+        true
+      );
+      expect(await roleService.getPermissionNames(role.id)).toEqual([
+        'students:read',
+      ]);
+    });
+
+    it('should serve the cached permissions until the cache is invalidated', async () => {
+      expect(await roleService.getPermissionNames(role.id)).toEqual([]);
+
+      // Bypasses the service, so the cache is not invalidated
+      await db
+        .insertInto('rolePermissions')
+        .columns(['roleId', 'permissionId'])
+        .expression(eb =>
+          eb
+            .selectFrom('permissions')
+            .select([eb.val(role.id).as('roleId'), 'permissions.id'])
+            .where('permissions.name', '=', 'students:read')
+        )
+        .execute();
+
+      expect(await roleService.getPermissionNames(role.id)).toEqual([]);
+
+      await roleService.invalidatePermissionCache(role.id);
+
+      expect(await roleService.getPermissionNames(role.id)).toEqual([
+        'students:read',
+      ]);
+    });
+
+    it('should report revoking a permission the role does not have', async () => {
+      expect(await roleService.revokePermission(role.id, 'students:read')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('isRoleInScope', () => {
+    const getRoleId = async (roleName: RoleName): Promise<number> => {
+      const role = await roleService.getRoleByName(roleName);
+
+      expect(role).toBeDefined();
+
+      return role?.id ?? 0;
+    };
+
+    it('should not let school users assign roles with a wider scope', async () => {
+      const scope: DataScope = { level: 'school', schoolId: 1 };
+      const permissions = await getPermissionsOf(RoleName.SchoolAdmin);
+
+      expect(
+        await isRoleInScope(
+          scope,
+          await getRoleId(RoleName.MinistryAdmin),
+          permissions
+        )
+      ).toBe(false);
+      expect(
+        await isRoleInScope(
+          scope,
+          await getRoleId(RoleName.RegionalAdmin),
+          permissions
+        )
+      ).toBe(false);
+      expect(
+        await isRoleInScope(
+          scope,
+          await getRoleId(RoleName.Teacher),
+          permissions
+        )
+      ).toBe(true);
+      expect(
+        await isRoleInScope(
+          scope,
+          await getRoleId(RoleName.Parent),
+          permissions
+        )
+      ).toBe(true);
+    });
+
+    it('should let regional users assign regional roles only', async () => {
+      const scope: DataScope = { level: 'region', regionId: 1 };
+      const permissions = await getPermissionsOf(RoleName.RegionalAdmin);
+
+      expect(
+        await isRoleInScope(
+          scope,
+          await getRoleId(RoleName.MinistryAdmin),
+          permissions
+        )
+      ).toBe(false);
+      expect(
+        await isRoleInScope(
+          scope,
+          await getRoleId(RoleName.RegionalAdmin),
+          permissions
+        )
+      ).toBe(true);
+    });
+
+    it('should not let users assign roles with permissions they do not have', async () => {
+      const created = await roleService.createRole({ name: 'Test Role' });
+      const role = created as Role;
+      const permissions = await getPermissionsOf(RoleName.SchoolAdmin);
+
+      try {
+        await roleService.grantPermission(role.id, 'students:read');
+
+        expect(
+          await isRoleInScope(
+            { level: 'school', schoolId: 1 },
+            role.id,
+            permissions
+          )
+        ).toBe(true);
+
+        await roleService.grantPermission(role.id, 'roles:write');
+
+        expect(
+          await isRoleInScope(
+            { level: 'school', schoolId: 1 },
+            role.id,
+            permissions
+          )
+        ).toBe(false);
+        expect(await isRoleInScope(undefined, role.id, ['students:read'])).toBe(
+          false
+        );
+      } finally {
+        await roleService.deleteRole(role.id);
+      }
+    });
+
+    it('should reject unknown roles in a restricted scope', async () => {
+      expect(
+        await isRoleInScope({ level: 'school', schoolId: 1 }, 999999, [])
+      ).toBe(false);
+    });
+  });
+});
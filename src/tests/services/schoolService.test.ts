@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { schoolService } from '../../services/schoolService';
+import type { SchoolQuery } from '../../schemas/schoolSchema';
+import type { Region, School } from '../../types/database';
+import { isSchoolInScope } from '../../utils/scopeUtils';
+import {
+  cleanupTestData,
+  createTestRegion,
+  createTestSchool,
+} from '../fixtures';
+
+describe('SchoolService', () => {
+  const query: SchoolQuery = { page: 1, limit: 10 };
+
+  let region: Region;
+  let otherRegion: Region;
+  let school: School;
+  let neighbourSchool: School;
+  let otherSchool: School;
+
+  beforeEach(async () => {
+    await cleanupTestData();
+
+    region = await createTestRegion('Test Region');
+    otherRegion = await createTestRegion('Test Other Region');
+    school = await createTestSchool(region.id, 'Test School');
+    neighbourSchool = await createTestSchool(
+      region.id,
+      'Test Neighbour School'
+    );
+    otherSchool = await createTestSchool(otherRegion.id, 'Test Other School');
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('getSchools', () => {
+    it('should only list the own school in school scope', async () => {
+      const result = await schoolService.getSchools(query, {
+        level: 'school',
+        schoolId: school.id,
+      });
+
+      expect(result?.total).toBe(1);
+      expect(result?.schools.map(s => s.id)).toEqual([school.id]);
+    });
+
+    it('should list the schools of the region in region scope', async () => {
+      const result = await schoolService.getSchools(query, {
+        level: 'region',
+        regionId: region.id,
+      });
+
+      expect(result?.total).toBe(2);
+      expect(result?.schools.map(s => s.id).sort()).toEqual(
+        [school.id, neighbourSchool.id].sort()
+      );
+    });
+
+    it('should not list any schools in guardian scope', async () => {
+      const result = await schoolService.getSchools(query, {
+        level: 'guardian',
+        guardianId: 1,
+      });
+
+      expect(result?.total).toBe(0);
+      expect(
+        await isSchoolInScope({ level: 'guardian', guardianId: 1 }, school.id)
+      ).toBe(false);
+    });
+  });
+
+  describe('getSchoolById', () => {
+    it('should not return schools outside of the scope', async () => {
+      const result = await schoolService.getSchoolById(otherSchool.id, {
+        level: 'region',
+        regionId: region.id,
+      });
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('updateSchool', () => {
+    it('should not update schools outside of the scope', async () => {
+      const result = await schoolService.updateSchool(
+        neighbourSchool.id,
+        {
+          name: 'Test Renamed School',
+          address: neighbourSchool.address,
+          regionId: neighbourSchool.regionId,
+          email: neighbourSchool.email,
+          phone: neighbourSchool.phone,
+          ownershipType: neighbourSchool.ownershipType,
+        },
+        { level: 'school', schoolId: school.id }
+      );
+
+      expect(result).toBeUndefined();
+
+      const unchanged = await schoolService.getSchoolById(neighbourSchool.id);
+
+      expect(unchanged?.name).toBe('Test Neighbour School');
+    });
+  });
+
+  describe('deleteSchool', () => {
+    it('should not delete schools outside of the scope', async () => {
+      const deleted = await schoolService.deleteSchool(otherSchool.id, {
+        level: 'region',
+        regionId: region.id,
+      });
+
+      expect(deleted).toBe(false);
+      expect(await schoolService.getSchoolById(otherSchool.id)).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { type Request } from 'express';
+import { db } from '../../config/database';
+import { securityEventService } from '../../services/securityEventService';
+import type { SafeUser } from '../../types/database';
+import { cleanupTestData, createTestUser } from '../fixtures';
+
+describe('SecurityEventService', () => {
+  // Only the parts of the request the service reads
+  const req = {
+    ip: '127.0.0.1',
+    get: (header: string) => (header === 'user-agent' ? 'vitest' : undefined),
+  } as unknown as Request;
+
+  let user: SafeUser;
+
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+
+  afterEach(async () => {
+    await db
+      .deleteFrom('securityEvents')
+      .where('email', 'like', 'test%')
+      .execute();
+    await cleanupTestData();
+  });
+
+  describe('record', () => {
+    it('should record the event with the request details', async () => {
+      await securityEventService.record(req, {
+        eventType: 'loginFailed',
+        userId: user.id,
+        email: user.email,
+        metadata: { reason: 'invalidPassword' },
+      });
+
+      const result = await securityEventService.getUserEvents(user.id, {
+        page: 1,
+        limit: 20,
+      });
+
+      expect(result?.total).toBe(1);
+      expect(result?.events[0]).toMatchObject({
+        eventType: 'loginFailed',
+        ip: '127.0.0.1',
+        userAgent: 'vitest',
+        metadata: { reason: 'invalidPassword' },
+      });
+    });
+  });
+
+  describe('getUserEvents', () => {
+    it('should filter the events of the user by type', async () => {
+      await securityEventService.record(req, {
+        eventType: 'login',
+        userId: user.id,
+        email: user.email,
+      });
+      await securityEventService.record(req, {
+        eventType: 'logout',
+        userId: user.id,
+        email: user.email,
+      });
+
+      const result = await securityEventService.getUserEvents(user.id, {
+        page: 1,
+        limit: 20,
+        eventType: 'logout',
+      });
+
+      expect(result?.events.map(event => event.eventType)).toEqual(['logout']);
+    });
+  });
+
+  describe('purgeExpiredEvents', () => {
+    it('should delete events older than the retention period', async () => {
+      await db
+        .insertInto('securityEvents')
+        .values({
+          userId: user.id,
+          email: user.email,
+          eventType: 'login',
+          createdAt: new Date(Date.now() - 91 * 24 * 60 * 60 * 1000),
+        })
+        .execute();
+      await securityEventService.record(req, {
+        eventType: 'login',
+        userId: user.id,
+        email: user.email,
+      });
+
+      expect(await securityEventService.purgeExpiredEvents()).toBeGreaterThan(
+        0
+      );
+
+      const result = await securityEventService.getUserEvents(user.id, {
+        page: 1,
+        limit: 20,
+      });
+
+      expect(result?.total).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { guardianService } from '../../services/guardianService';
+import { studentService } from '../../services/studentService';
+import { GuardianRelationship, type School } from '../../types/database';
+import type { DataScope } from '../../types/general';
+import {
+  cleanupTestData,
+  createTestAcademicYear,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+  linkTestGuardian,
+} from '../fixtures';
+
+describe('StudentService', () => {
+  let school: School;
+  let otherSchool: School;
+
+  beforeEach(async () => {
+    const region = await createTestRegion('Test Region');
+    school = await createTestSchool(region.id, 'Test School');
+    otherSchool = await createTestSchool(region.id, 'Test Other School');
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('createStudent', () => {
+    it('should enroll the student at the school from the enrollment date', async () => {
+      const student = await createTestStudent(school, new Date('2020-09-01'));
+
+      const enrollment = await studentService.getCurrentEnrollment(student.id);
+
+      expect(enrollment?.schoolId).toBe(school.id);
+      expect(enrollment?.startDate).toEqual(student.enrollmentDate);
+      expect(enrollment?.endDate).toBeNull();
+    });
+  });
+
+  describe('transferStudent', () => {
+    it('should end the current enrollment and start one at the new school', async () => {
+      const student = await createTestStudent(school, new Date('2020-09-01'));
+
+      const transferred = await studentService.transferStudent(student.id, {
+        newSchoolId: otherSchool.id,
+        newRegionId: otherSchool.regionId,
+        transferDate: new Date('2022-02-01'),
+        reason: 'Family moved',
+      });
+
+      expect(transferred?.schoolId).toBe(otherSchool.id);
+
+      const history = await studentService.getStudentEnrollmentHistory(
+        student.id
+      );
+
+      expect(history?.map(enrollment => enrollment.schoolId)).toEqual([
+        otherSchool.id,
+        school.id,
+      ]);
+      expect(history?.[0]?.isCurrent).toBe(true);
+      expect(history?.[1]?.isCurrent).toBe(false);
+      expect(history?.[1]?.endReason).toBe('Family moved');
+      expect(history?.[1]?.endDate).toEqual(history?.[0]?.startDate);
+    });
+
+    it('should only end the enrollment when leaving for no school', async () => {
+      const student = await createTestStudent(school, new Date('2020-09-01'));
+
+      await studentService.transferStudent(student.id, {
+        newSchoolId: null,
+        transferDate: new Date('2022-02-01'),
+      });
+
+      expect(
+        await studentService.getCurrentEnrollment(student.id)
+      ).toBeUndefined();
+      expect(
+        await studentService.getStudentEnrollmentHistory(student.id)
+      ).toHaveLength(1);
+    });
+
+    it('should not transfer students outside of the scope', async () => {
+      const student = await createTestStudent(school, new Date('2020-09-01'));
+
+      const transferred = await studentService.transferStudent(
+        student.id,
+        { newSchoolId: otherSchool.id, transferDate: new Date('2022-02-01') },
+        { level: 'school', schoolId: otherSchool.id }
+      );
+
+      expect(transferred).toBeUndefined();
+      expect(
+        (await studentService.getCurrentEnrollment(student.id))?.schoolId
+      ).toBe(school.id);
+    });
+  });
+
+  describe('getStudents', () => {
+    it('should filter by enrollments running during the academic year', async () => {
+      const academicYear = await createTestAcademicYear(
+        'Test 1990/1991',
+        new Date('1990-09-01'),
+        new Date('1991-06-30')
+      );
+
+      const enrolledDuringYear = await createTestStudent(
+        school,
+        new Date('1990-10-01')
+      );
+      const leftBeforeYear = await createTestStudent(
+        school,
+        new Date('1989-01-01')
+      );
+      const transferredDuringYear = await createTestStudent(
+        school,
+        new Date('1989-01-01')
+      );
+      const enrolledAfterYear = await createTestStudent(
+        school,
+        new Date('1991-09-01')
+      );
+
+      await studentService.transferStudent(leftBeforeYear.id, {
+        newSchoolId: null,
+        transferDate: new Date('1990-03-01'),
+      });
+      await studentService.transferStudent(transferredDuringYear.id, {
+        newSchoolId: otherSchool.id,
+        transferDate: new Date('1990-12-01'),
+      });
+
+      const result = await studentService.getStudents({
+        page: 1,
+        limit: 100,
+        academicYearId: academicYear.id,
+        search: 'TEST-',
+        sortBy: 'lastName',
+        sortOrder: 'asc',
+      });
+      const studentIds = result?.students.map(student => student.id);
+
+      expect(studentIds).toContain(enrolledDuringYear.id);
+      expect(studentIds).toContain(transferredDuringYear.id);
+      expect(studentIds).not.toContain(leftBeforeYear.id);
+      expect(studentIds).not.toContain(enrolledAfterYear.id);
+    });
+  });
+
+  describe('guardian scope', () => {
+    it('should only return the children of the guardian', async () => {
+      const child = await createTestStudent(school);
+      const sibling = await createTestStudent(otherSchool);
+      const classmate = await createTestStudent(school);
+      const guardian = await linkTestGuardian(child);
+
+      await linkTestGuardian(classmate);
+      await guardianService.linkGuardian(sibling.id, {
+        guardianId: guardian.id,
+        relationship: GuardianRelationship.Mother,
+        hasLegalCustody: true,
+        canPickup: true,
+        emergencyContactPriority: null,
+      });
+
+      const result = await studentService.getStudents(
+        {
+          page: 1,
+          limit: 100,
+          sortBy: 'lastName',
+          sortOrder: 'asc',
+        },
+        { level: 'guardian', guardianId: guardian.id }
+      );
+
+      expect(result?.total).toBe(2);
+      expect(result?.students.map(student => student.id).sort()).toEqual(
+        [child.id, sibling.id].sort()
+      );
+    });
+
+    it('should not return other students by id', async () => {
+      const child = await createTestStudent(school);
+      const classmate = await createTestStudent(school);
+      const guardian = await linkTestGuardian(child);
+      const scope: DataScope = { level: 'guardian', guardianId: guardian.id };
+
+      expect((await studentService.getStudentById(child.id, scope))?.id).toBe(
+        child.id
+      );
+      expect(
+        await studentService.getStudentById(classmate.id, scope)
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { twoFactorService } from '../../services/twoFactorService';
+import { RoleName, type SafeUser } from '../../types/database';
+import { generateTotp, getCurrentTimeStep } from '../../utils/totpUtils';
+import { cleanupTestData, createTestUser } from '../fixtures';
+
+describe('TwoFactorService', () => {
+  let user: SafeUser;
+
+  // Enrolls the user and returns the secret together with the recovery codes
+  const enroll = async (): Promise<{
+    secret: string;
+    recoveryCodes: string[];
+  }> => {
+    const enrollment = await twoFactorService.beginEnrollment(
+      user.id,
+      user.email
+    );
+
+    expect(enrollment).toBeDefined();
+
+    const secret = enrollment?.secret ?? '';
+    const recoveryCodes = await twoFactorService.confirmEnrollment(
+      user.id,
+      generateTotp(secret, getCurrentTimeStep() - 1)
+    );
+
+    expect(recoveryCodes).toHaveLength(10);
+
+    return { secret, recoveryCodes: recoveryCodes ?? [] };
+  };
+
+  beforeEach(async () => {
+    user = await createTestUser(RoleName.SchoolAdmin);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('enrollment', () => {
+    it('should not enable two-factor authentication without a valid code', async () => {
+      await twoFactorService.beginEnrollment(user.id, user.email);
+
+      expect(
+        await twoFactorService.confirmEnrollment(user.id, 'not-a-code')
+      ).toBeUndefined();
+      expect(await twoFactorService.verifyCode(user.id, 'not-a-code')).toBe(
+        false
+      );
+    });
+
+    it('should not start a new enrollment while enabled', async () => {
+      await enroll();
+
+      expect(
+        await twoFactorService.beginEnrollment(user.id, user.email)
+      ).toBeUndefined();
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should not accept the same TOTP code twice', async () => {
+      const { secret } = await enroll();
+      const code = generateTotp(secret, getCurrentTimeStep());
+
+      expect(await twoFactorService.verifyCode(user.id, code)).toBe(true);
+      expect(await twoFactorService.verifyCode(user.id, code)).toBe(false);
+    });
+
+    it('should consume recovery codes', async () => {
+      const { recoveryCodes } = await enroll();
+      const recoveryCode = recoveryCodes[0] ?? '';
+
+      expect(
+        await twoFactorService.verifyCode(
+          user.id,
+          recoveryCode.replace('-', '').toUpperCase()
+        )
+      ).toBe(true);
+      expect(await twoFactorService.verifyCode(user.id, recoveryCode)).toBe(
+        false
+      );
+    });
+
+    it('should reject all codes once disabled', async () => {
+      const { recoveryCodes } = await enroll();
+
+      expect(await twoFactorService.disable(user.id)).toBe(true);
+      expect(
+        await twoFactorService.verifyCode(user.id, recoveryCodes[0] ?? '')
+      ).toBe(false);
+    });
+  });
+
+  describe('completeChallenge', () => {
+    it('should return the user of the challenge for a valid code', async () => {
+      const { secret } = await enroll();
+      const challengeToken = await twoFactorService.createChallenge(user.id);
+
+      expect(await twoFactorService.getChallengeUserId(challengeToken)).toBe(
+        user.id
+      );
+
+      const result = await twoFactorService.completeChallenge(
+        challengeToken,
+        generateTotp(secret, getCurrentTimeStep())
+      );
+
+      expect(result).toEqual({ userId: user.id });
+      expect(
+        await twoFactorService.getChallengeUserId(challengeToken)
+      ).toBeUndefined();
+    });
+
+    it('should drop the challenge after too many invalid codes', async () => {
+      await enroll();
+      const challengeToken = await twoFactorService.createChallenge(user.id);
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        const result = await twoFactorService.completeChallenge(
+          challengeToken,
+          'wrong-code'
+        );
+
+        expect(result.error).toBe('Invalid two-factor authentication code');
+      }
+
+      const result = await twoFactorService.completeChallenge(
+        challengeToken,
+        'wrong-code'
+      );
+
+      expect(result.error).toBe('Too many invalid codes, please log in again');
+      expect(
+        await twoFactorService.getChallengeUserId(challengeToken)
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { db } from '../../config/database';
+import { roleService } from '../../services/roleService';
+import { userService } from '../../services/userService';
+import { RoleName } from '../../types/database';
+import type { PasswordPolicy } from '../../types/general';
+import {
+  getPasswordPolicyViolations,
+  isPasswordExpired,
+} from '../../utils/passwordPolicy';
+import {
+  cleanupTestData,
+  createTestRegion,
+  createTestSchool,
+  createTestStudent,
+  createTestUser,
+  linkTestGuardian,
+  TEST_USER_PASSWORD,
+} from '../fixtures';
+
+describe('UserService', () => {
+  afterEach(async () => {
+    await cleanupTestData();
+  });
+
+  describe('updatePassword', () => {
+    it('should not allow reusing the current or a recent password', async () => {
+      const user = await createTestUser();
+
+      expect(
+        await userService.isPasswordReused(user.id, TEST_USER_PASSWORD)
+      ).toBe(true);
+
+      await userService.updatePassword(user.id, 'Second-Password-2024!');
+
+      expect(
+        await userService.isPasswordReused(user.id, TEST_USER_PASSWORD)
+      ).toBe(true);
+      expect(
+        await userService.isPasswordReused(user.id, 'Never-Used-Password-1')
+      ).toBe(false);
+    });
+
+    it('should only keep the configured number of passwords', async () => {
+      const user = await createTestUser();
+
+      for (let change = 1; change <= 5; change++) {
+        await userService.updatePassword(user.id, `Changed-Password-${change}`);
+      }
+
+      const history = await db
+        .selectFrom('passwordHistory')
+        .select('id')
+        .where('userId', '=', user.id)
+        .execute();
+
+      expect(history).toHaveLength(5);
+      expect(
+        await userService.isPasswordReused(user.id, TEST_USER_PASSWORD)
+      ).toBe(false);
+    });
+
+    it('should record when the password was changed', async () => {
+      const user = await createTestUser();
+
+      expect(
+        await userService.updatePassword(user.id, 'Second-Password-2024!')
+      ).toBe(true);
+
+      const updated = await userService.getFullUserById(user.id);
+
+      expect(updated?.passwordChangedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('createGuardianUser', () => {
+    it('should create a single parent account for a guardian with an email', async () => {
+      const region = await createTestRegion();
+      const school = await createTestSchool(region.id);
+      const guardian = await linkTestGuardian(await createTestStudent(school));
+      const parentRole = await roleService.getRoleByName(RoleName.Parent);
+      const roleId = parentRole?.id ?? 0;
+
+      const result = await userService.createGuardianUser(guardian, roleId);
+
+      expect(result?.user?.guardianId).toBe(guardian.id);
+      expect(result?.user?.schoolId).toBeNull();
+      expect(result?.user?.emailVerifiedAt).toBeNull();
+      expect((await userService.getUserByGuardianId(guardian.id))?.id).toBe(
+        result?.user?.id
+      );
+
+      expect(
+        await userService.createGuardianUser(
+          { ...guardian, email: `test.other.${Date.now()}@test.example` },
+          roleId
+        )
+      ).toEqual({ error: 'Guardian already has an account' });
+      expect(
+        await userService.createGuardianUser(
+          { ...guardian, email: null },
+          roleId
+        )
+      ).toEqual({ error: 'Guardian has no email address' });
+    });
+  });
+
+  describe('password policy', () => {
+    const policy: PasswordPolicy = {
+      minLength: 10,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      historySize: 5,
+      maxAgeDays: 90,
+    };
+
+    it('should list every rule the password breaks', () => {
+      expect(getPasswordPolicyViolations('short', policy)).toEqual([
+        'Password must be at least 10 characters',
+        'Password must contain an uppercase letter',
+        'Password must contain a digit',
+        'Password must contain a symbol',
+      ]);
+      expect(getPasswordPolicyViolations(TEST_USER_PASSWORD, policy)).toEqual(
+        []
+      );
+    });
+
+    it('should reject common passwords', () => {
+      expect(getPasswordPolicyViolations('password', policy)).toContain(
+        'Password is too common'
+      );
+    });
+
+    it('should expire passwords older than the maximum age', () => {
+      const changedAt = new Date(Date.now() - 91 * 24 * 60 * 60 * 1000);
+
+      expect(isPasswordExpired(changedAt, policy)).toBe(true);
+      expect(isPasswordExpired(new Date(), policy)).toBe(false);
+      expect(isPasswordExpired(changedAt, { ...policy, maxAgeDays: 0 })).toBe(
+        false
+      );
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import {
+  type ColumnType,
   type Generated,
   type Insertable,
   type Selectable,
@@ -22,6 +23,44 @@ export enum EmploymentType {
   Contract = 'contract',
 }
 
+export enum GuardianRelationship {
+  Mother = 'mother',
+  Father = 'father',
+  Stepmother = 'stepmother',
+  Stepfather = 'stepfather',
+  Grandparent = 'grandparent',
+  Sibling = 'sibling',
+  LegalGuardian = 'legal-guardian',
+  FosterParent = 'foster-parent',
+  Other = 'other',
+}
+
+export enum AttendanceStatus {
+  Present = 'present',
+  Absent = 'absent',
+  Late = 'late',
+  Excused = 'excused',
+}
+
+export enum AssessmentType {
+  Exam = 'exam',
+  Test = 'test',
+  Quiz = 'quiz',
+  Homework = 'homework',
+  Project = 'project',
+  Oral = 'oral',
+  Other = 'other',
+}
+
+// Names of the built-in roles, they must match rows in the roles table
+export enum RoleName {
+  MinistryAdmin = 'Ministry Admin',
+  RegionalAdmin = 'Regional Admin',
+  SchoolAdmin = 'School Admin',
+  Teacher = 'Teacher',
+  Parent = 'Parent',
+}
+
 // Interfaces
 export interface RegionTable {
   id: Generated<number>;
@@ -55,6 +94,14 @@ export interface UserTable {
   passwordHash: string;
   roleId: number;
   schoolId: number | null; // nullable for ministry or regional users
+  regionId: number | null; // set for regional users only
+  emailVerifiedAt: Date | null; // null until the user confirms their email address
+  twoFactorSecret: string | null; // base32 TOTP secret, set during enrollment
+  twoFactorEnabledAt: Date | null; // null until enrollment is confirmed
+  oidcSubject: string | null; // set once the user signs in through single sign-on
+  guardianId: number | null; // set for parent portal accounts only
+  teacherId: number | null; // set for staff accounts of teachers
+  passwordChangedAt: Generated<Date>;
   createdAt: Generated<Date>;
   updatedAt: Generated<Date>;
 }
@@ -64,6 +111,11 @@ export type SafeUserNonTable = {
   email: string;
   roleId: number;
   schoolId: number | null;
+  regionId: number | null;
+  guardianId: number | null;
+  teacherId: number | null;
+  emailVerifiedAt: Date | null;
+  twoFactorEnabledAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -72,10 +124,127 @@ export interface RoleTable {
   id: Generated<number>;
   name: string;
   description: string;
+  twoFactorRequired: Generated<boolean>;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface PermissionTable {
+  id: Generated<number>;
+  name: string;
+  description: string;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface RolePermissionTable {
+  roleId: number;
+  permissionId: number;
+  createdAt: Generated<Date>;
+}
+
+export interface UserRecoveryCodeTable {
+  id: Generated<number>;
+  userId: number;
+  codeHash: string;
+  usedAt: Date | null;
+  createdAt: Generated<Date>;
+}
+
+export interface PasswordHistoryTable {
+  id: Generated<number>;
+  userId: number;
+  passwordHash: string;
+  createdAt: Generated<Date>;
+}
+
+export interface ApiKeyTable {
+  id: Generated<number>;
+  name: string;
+  keyPrefix: string; // first characters of the key, to recognise it without storing it
+  keyHash: string;
+  roleId: number | null; // set when the key acts with the permissions of a role
+  permissions: string[] | null; // set when the key has its own permission set
+  schoolId: number | null;
+  regionId: number | null;
+  rateLimit: Generated<number>; // requests per minute
+  createdBy: number | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
   createdAt: Generated<Date>;
   updatedAt: Generated<Date>;
 }
 
+export type AuditEntityType =
+  | 'academicYears'
+  | 'assessments'
+  | 'attendanceRecords'
+  | 'classes'
+  | 'classStudents'
+  | 'classSubjects'
+  | 'grades'
+  | 'gradingScales'
+  | 'guardians'
+  | 'regions'
+  | 'reportCardRemarks'
+  | 'reportCardTemplates'
+  | 'roles'
+  | 'rolePermissions'
+  | 'schools'
+  | 'studentGuardians'
+  | 'students'
+  | 'subjects'
+  | 'teachers'
+  | 'teacherSchools'
+  | 'terms'
+  | 'users';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// JSON values are written serialized and read back parsed
+type JsonColumn = ColumnType<
+  Record<string, unknown> | null,
+  string | null,
+  string | null
+>;
+
+export interface AuditLogTable {
+  id: Generated<string>; // bigserial, returned as a string by pg
+  actorUserId: number | null; // null for system changes
+  impersonatorUserId: number | null; // real user when the actor was impersonated
+  apiKeyId: number | null; // set when the change was made with an API key
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before: JsonColumn; // changed fields before an update, or the deleted record
+  after: JsonColumn; // changed fields after an update, or the created record
+  ip: string | null;
+  requestId: string | null;
+  createdAt: Generated<Date>;
+}
+
+export type SecurityEventType =
+  | 'login'
+  | 'loginFailed'
+  | 'tokenRefresh'
+  | 'tokenRefreshFailed'
+  | 'logout'
+  | 'logoutAll'
+  | 'csrfFailure'
+  | 'roleChange';
+
+export interface SecurityEventTable {
+  id: Generated<string>; // bigserial, returned as a string by pg
+  userId: number | null; // null when the user is unknown, e.g. a failed login with an unknown email
+  email: string | null; // email given on login attempts
+  eventType: SecurityEventType;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: JsonColumn; // event details, e.g. the reason of a failure
+  createdAt: Generated<Date>;
+}
+
 export interface StudentTable {
   id: Generated<number>;
   firstName: string;
@@ -97,6 +266,43 @@ export interface StudentTable {
   updatedAt: Generated<Date>;
 }
 
+export interface StudentEnrollmentTable {
+  id: Generated<number>;
+  studentId: number;
+  schoolId: number;
+  startDate: Date;
+  endDate: Date | null; // null while the student is at the school
+  endReason: string | null; // reason given when the student was transferred away
+  createdBy: number | null; // user who enrolled or transferred the student in
+  endedBy: number | null; // user who transferred the student away
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface GuardianTable {
+  id: Generated<number>;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string;
+  mobile: string | null;
+  address: string | null;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface StudentGuardianTable {
+  id: Generated<number>;
+  studentId: number;
+  guardianId: number;
+  relationship: GuardianRelationship;
+  hasLegalCustody: Generated<boolean>;
+  canPickup: Generated<boolean>; // allowed to collect the student from school
+  emergencyContactPriority: number | null; // 1 is called first, null if not an emergency contact
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
 export interface TeacherTable {
   id: Generated<number>;
   firstName: string;
@@ -133,16 +339,168 @@ export interface SubjectTable {
   createdAt: Generated<Date>;
   updatedAt: Generated<Date>;
 }
+
+export interface AcademicYearTable {
+  id: Generated<number>;
+  name: string; // e.g. 2025/2026
+  startDate: Date;
+  endDate: Date;
+  isCurrent: Generated<boolean>;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface TermTable {
+  id: Generated<number>;
+  academicYearId: number;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  isCurrent: Generated<boolean>;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface ClassTable {
+  id: Generated<number>;
+  schoolId: number;
+  academicYearId: number;
+  gradeLevel: number;
+  section: string; // e.g. B for Grade 3B
+  homeroomTeacherId: number | null;
+  capacity: number;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface ClassStudentTable {
+  id: Generated<number>;
+  classId: number;
+  studentId: number;
+  academicYearId: number; // copied from the class, a student is in one class per year
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface AttendanceRecordTable {
+  id: Generated<number>;
+  studentId: number;
+  schoolId: number; // school the student attended on the day
+  classId: number | null; // set when taken with the class register
+  date: Date;
+  period: number | null; // null for a whole day record
+  status: AttendanceStatus;
+  excuseNote: string | null;
+  recordedBy: number | null;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface ClassSubjectTable {
+  id: Generated<number>;
+  classId: number;
+  subjectId: number;
+  teacherId: number | null; // teacher of the subject in the class, null until assigned
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface AssessmentTable {
+  id: Generated<number>;
+  classSubjectId: number;
+  termId: number;
+  name: string;
+  type: AssessmentType;
+  weight: Generated<number>; // relative weight in the term average
+  date: Date;
+  maxScore: number;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface GradeTable {
+  id: Generated<number>;
+  assessmentId: number;
+  studentId: number;
+  score: number; // between 0 and the max score of the assessment
+  comment: string | null;
+  gradedBy: number | null;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface GradingScaleTable {
+  id: Generated<number>;
+  name: string;
+  description: string | null;
+  isDefault: Generated<boolean>; // used for term averages when no scale is requested
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface GradingScaleBandTable {
+  id: Generated<number>;
+  gradingScaleId: number;
+  grade: string; // e.g. 5
+  minPercentage: number; // lowest average percentage which gets the grade
+}
+
+export interface ReportCardTemplateTable {
+  id: Generated<number>;
+  schoolId: number;
+  title: Generated<string>;
+  headerText: string | null; // printed under the school name, e.g. the school motto
+  footerText: string | null;
+  remarksTitle: Generated<string>; // heading of the homeroom teacher remarks
+  showAttendance: Generated<boolean>;
+  showSubjectTeachers: Generated<boolean>;
+  gradingScaleId: number | null; // null to grade with the default scale
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
+export interface ReportCardRemarkTable {
+  id: Generated<number>;
+  studentId: number;
+  termId: number;
+  remarks: string;
+  writtenBy: number | null;
+  createdAt: Generated<Date>;
+  updatedAt: Generated<Date>;
+}
+
 export interface Database {
   regions: RegionTable;
   schools: SchoolTable;
   migrations: MigrationTable;
   users: UserTable;
   roles: RoleTable;
+  permissions: PermissionTable;
+  rolePermissions: RolePermissionTable;
+  userRecoveryCodes: UserRecoveryCodeTable;
+  passwordHistory: PasswordHistoryTable;
+  apiKeys: ApiKeyTable;
+  auditLog: AuditLogTable;
+  securityEvents: SecurityEventTable;
   students: StudentTable;
+  studentEnrollments: StudentEnrollmentTable;
+  guardians: GuardianTable;
+  studentGuardians: StudentGuardianTable;
   teachers: TeacherTable;
   teacherSchools: TeacherSchoolTable;
   subjects: SubjectTable;
+  academicYears: AcademicYearTable;
+  terms: TermTable;
+  classes: ClassTable;
+  classStudents: ClassStudentTable;
+  attendanceRecords: AttendanceRecordTable;
+  classSubjects: ClassSubjectTable;
+  assessments: AssessmentTable;
+  grades: GradeTable;
+  gradingScales: GradingScaleTable;
+  gradingScaleBands: GradingScaleBandTable;
+  reportCardTemplates: ReportCardTemplateTable;
+  reportCardRemarks: ReportCardRemarkTable;
 }
 
 export type Region = Selectable<RegionTable>;
@@ -165,10 +523,53 @@ export type Role = Selectable<RoleTable>;
 export type NewRole = Insertable<RoleTable>;
 export type RoleUpdate = Updateable<RoleTable>;
 
+export type Permission = Selectable<PermissionTable>;
+export type NewPermission = Insertable<PermissionTable>;
+export type PermissionUpdate = Updateable<PermissionTable>;
+
+export type RolePermission = Selectable<RolePermissionTable>;
+export type NewRolePermission = Insertable<RolePermissionTable>;
+
+export type UserRecoveryCode = Selectable<UserRecoveryCodeTable>;
+export type NewUserRecoveryCode = Insertable<UserRecoveryCodeTable>;
+
+export type PasswordHistory = Selectable<PasswordHistoryTable>;
+export type NewPasswordHistory = Insertable<PasswordHistoryTable>;
+
+export type ApiKey = Selectable<ApiKeyTable>;
+export type SafeApiKey = Omit<ApiKey, 'keyHash'>;
+export type NewApiKey = Insertable<ApiKeyTable>;
+export type ApiKeyUpdate = Updateable<ApiKeyTable>;
+
+export type AuditLogEntry = Selectable<AuditLogTable>;
+export type NewAuditLogEntry = Insertable<AuditLogTable>;
+
+export type SecurityEvent = Selectable<SecurityEventTable>;
+export type NewSecurityEvent = Insertable<SecurityEventTable>;
+
 export type Student = Selectable<StudentTable>;
 export type NewStudent = Insertable<StudentTable>;
 export type StudentUpdate = Updateable<StudentTable>;
 
+export type StudentEnrollment = Selectable<StudentEnrollmentTable>;
+export type NewStudentEnrollment = Insertable<StudentEnrollmentTable>;
+
+export type Guardian = Selectable<GuardianTable>;
+export type NewGuardian = Insertable<GuardianTable>;
+export type GuardianUpdate = Updateable<GuardianTable>;
+
+export type StudentGuardian = Selectable<StudentGuardianTable>;
+export type NewStudentGuardian = Insertable<StudentGuardianTable>;
+export type StudentGuardianUpdate = Updateable<StudentGuardianTable>;
+export type StudentGuardianDetails = Guardian &
+  Pick<
+    StudentGuardian,
+    | 'relationship'
+    | 'hasLegalCustody'
+    | 'canPickup'
+    | 'emergencyContactPriority'
+  >;
+
 export type Teacher = Selectable<TeacherTable>;
 export type NewTeacher = Insertable<TeacherTable>;
 export type TeacherUpdate = Updateable<TeacherTable>;
@@ -180,3 +581,58 @@ export type TeacherSchoolUpdate = Updateable<TeacherSchoolTable>;
 export type Subject = Selectable<SubjectTable>;
 export type NewSubject = Insertable<SubjectTable>;
 export type SubjectUpdate = Updateable<SubjectTable>;
+
+export type AcademicYear = Selectable<AcademicYearTable>;
+export type NewAcademicYear = Insertable<AcademicYearTable>;
+export type AcademicYearUpdate = Updateable<AcademicYearTable>;
+
+export type Term = Selectable<TermTable>;
+export type NewTerm = Insertable<TermTable>;
+export type TermUpdate = Updateable<TermTable>;
+
+export type Class = Selectable<ClassTable>;
+export type NewClass = Insertable<ClassTable>;
+export type ClassUpdate = Updateable<ClassTable>;
+
+export type ClassStudent = Selectable<ClassStudentTable>;
+export type NewClassStudent = Insertable<ClassStudentTable>;
+export type StudentClassDetails = Class & { academicYearName: string };
+
+export type AttendanceRecord = Selectable<AttendanceRecordTable>;
+export type NewAttendanceRecord = Insertable<AttendanceRecordTable>;
+export type AttendanceRecordUpdate = Updateable<AttendanceRecordTable>;
+
+export type ClassSubject = Selectable<ClassSubjectTable>;
+export type NewClassSubject = Insertable<ClassSubjectTable>;
+export type ClassSubjectUpdate = Updateable<ClassSubjectTable>;
+export type ClassSubjectDetails = ClassSubject & {
+  subjectName: string;
+  subjectCode: string;
+};
+
+export type Assessment = Selectable<AssessmentTable>;
+export type NewAssessment = Insertable<AssessmentTable>;
+export type AssessmentUpdate = Updateable<AssessmentTable>;
+export type AssessmentDetails = Assessment &
+  Pick<ClassSubject, 'classId' | 'subjectId' | 'teacherId'>;
+
+export type Grade = Selectable<GradeTable>;
+export type NewGrade = Insertable<GradeTable>;
+export type GradeUpdate = Updateable<GradeTable>;
+
+export type GradingScale = Selectable<GradingScaleTable>;
+export type NewGradingScale = Insertable<GradingScaleTable>;
+export type GradingScaleUpdate = Updateable<GradingScaleTable>;
+
+export type GradingScaleBand = Selectable<GradingScaleBandTable>;
+export type NewGradingScaleBand = Insertable<GradingScaleBandTable>;
+export type GradingScaleDetails = GradingScale & {
+  bands: Pick<GradingScaleBand, 'grade' | 'minPercentage'>[];
+};
+
+export type ReportCardTemplate = Selectable<ReportCardTemplateTable>;
+export type NewReportCardTemplate = Insertable<ReportCardTemplateTable>;
+export type ReportCardTemplateUpdate = Updateable<ReportCardTemplateTable>;
+
+export type ReportCardRemark = Selectable<ReportCardRemarkTable>;
+export type NewReportCardRemark = Insertable<ReportCardRemarkTable>;
@@ -1,4 +1,4 @@
-import type { SafeUser } from './database';
+import type { Role, SafeApiKey, SafeUser } from './database';
 import { type Request } from 'express';
 
 export interface AppConfig {
@@ -10,6 +10,20 @@ export interface AppConfig {
   appVersion?: string;
 }
 
+// global limits every request by IP, the other policies are applied per route
+export type RateLimitPolicyName =
+  | 'global'
+  | 'general'
+  | 'auth'
+  | 'account'
+  | 'bulk';
+
+export interface RateLimitPolicy {
+  max: number; // requests per window
+  windowSeconds: number;
+  message: string;
+}
+
 export interface HealthResponse {
   status: 'OK' | 'ERROR';
   timestamp: string;
@@ -33,7 +47,100 @@ export interface JwtPayload {
   exp?: number;
 }
 
+export interface SessionMetadata {
+  userAgent: string;
+  ip: string;
+}
+
+export interface SessionInfo extends SessionMetadata {
+  id: string;
+  createdAt: string;
+  lastRefreshedAt: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number; // number of previous passwords which cannot be reused, 0 disables the check
+  maxAgeDays: number; // days after which a password change is flagged on login, 0 disables rotation
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Contact details a notification can be delivered to, each transport uses the one it supports
+export interface NotificationRecipient {
+  email: string | null;
+  phone: string | null;
+}
+
+export interface NotificationMessage {
+  to: NotificationRecipient;
+  subject: string;
+  text: string;
+}
+
+// Identity of a user as asserted by the OIDC identity provider
+export interface OidcClaims {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+}
+
+// Who made a change and from where, recorded with every audit log entry
+export interface AuditContext {
+  actorUserId: number | null;
+  impersonatorUserId: number | null;
+  apiKeyId: number | null;
+  ip: string | null;
+  requestId: string | null;
+}
+
+export type PermissionResource =
+  | 'academic-years'
+  | 'api-keys'
+  | 'attendance'
+  | 'audit'
+  | 'classes'
+  | 'grades'
+  | 'grading-scales'
+  | 'regions'
+  | 'report-card-templates'
+  | 'report-cards'
+  | 'roles'
+  | 'schools'
+  | 'security-events'
+  | 'students'
+  | 'subjects'
+  | 'teachers'
+  | 'users';
+
+export type PermissionAction = 'read' | 'write' | 'delete' | 'impersonate';
+
+// Permissions are expressed as '<resource>:<action>', e.g. 'schools:delete'
+export type PermissionName = `${PermissionResource}:${PermissionAction}`;
+
+// Rows a user is allowed to see, resolved from the user's role
+// Ministry users see everything, regional users see schools in their region and school users see their own school
+// Parents see only the students linked to their guardian and those students' schools
+export type DataScope =
+  | { level: 'ministry' }
+  | { level: 'region'; regionId: number }
+  | { level: 'school'; schoolId: number }
+  | { level: 'guardian'; guardianId: number };
+
 export interface AuthenticatedRequest extends Request {
   user?: SafeUser;
+  impersonator?: SafeUser; // real user behind an impersonation token, user is the impersonated user
+  apiKey?: SafeApiKey; // set instead of user when authenticated with an API key
+  role?: Role;
+  permissions?: string[];
+  dataScope?: DataScope;
   csrfToken?: string;
 }
@@ -0,0 +1,15 @@
+import { db } from '../config/database';
+
+// Subqueries returning the first and last day of an academic year, meant to be used as where(column, op, subquery)
+// Comparing in SQL keeps the date columns clear of time zone conversions
+export const academicYearStart = (academicYearId: number) =>
+  db
+    .selectFrom('academicYears')
+    .select('academicYears.startDate')
+    .where('academicYears.id', '=', academicYearId);
+
+export const academicYearEnd = (academicYearId: number) =>
+  db
+    .selectFrom('academicYears')
+    .select('academicYears.endDate')
+    .where('academicYears.id', '=', academicYearId);
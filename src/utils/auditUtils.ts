@@ -0,0 +1,49 @@
+import type { AuditContext, AuthenticatedRequest } from '../types/general';
+
+// Fields which are never written to the audit log, a change is recorded without the value
+const REDACTED_FIELDS = ['passwordHash', 'twoFactorSecret', 'keyHash'];
+
+// Timestamps which change on every update and would only add noise
+const IGNORED_FIELDS = ['updatedAt'];
+
+export const getAuditContext = (req: AuthenticatedRequest): AuditContext => ({
+  actorUserId: req.user?.id ?? null,
+  impersonatorUserId: req.impersonator?.id ?? null,
+  apiKeyId: req.apiKey?.id ?? null,
+  ip: req.ip ?? null,
+  requestId: req.get('x-request-id') ?? null,
+});
+
+export const redactRecord = (
+  record: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(record).map(([field, value]) => [
+      field,
+      REDACTED_FIELDS.includes(field) ? '[redacted]' : value,
+    ])
+  );
+
+// Returns the fields which differ between the two versions of a record, with their old and new values
+// Only fields of the new version are compared, so it may be a subset of the columns
+export const diffRecords = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } => {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const field of Object.keys(after)) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changedBefore[field] = before[field];
+      changedAfter[field] = after[field];
+    }
+  }
+
+  return {
+    before: redactRecord(changedBefore),
+    after: redactRecord(changedAfter),
+  };
+};
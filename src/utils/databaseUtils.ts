@@ -8,3 +8,24 @@ export const testDatabaseConnection = async (): Promise<boolean> => {
     return false;
   }
 };
+
+interface PostgresError {
+  code: string;
+  constraint?: string;
+}
+
+// Errors raised by Postgres carry the SQLSTATE code and, for constraint violations, the constraint name
+const isPostgresError = (error: unknown): error is PostgresError =>
+  typeof error === 'object' &&
+  error !== null &&
+  'code' in error &&
+  typeof error.code === 'string';
+
+// Returns true if the error is a Postgres unique violation of the given constraint or unique index
+export const isUniqueViolation = (
+  error: unknown,
+  constraint: string
+): boolean =>
+  isPostgresError(error) &&
+  error.code === '23505' &&
+  error.constraint === constraint;
@@ -0,0 +1,62 @@
+import type { PasswordPolicy } from '../types/general';
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+const readNumber = (name: string, defaultValue: number): number => {
+  const value = process.env[name];
+  return value ? parseInt(value, 10) : defaultValue;
+};
+
+const readBoolean = (name: string, defaultValue: boolean): boolean => {
+  const value = process.env[name];
+  return value ? value === 'true' : defaultValue;
+};
+
+export const passwordPolicy: PasswordPolicy = {
+  // Login only accepts passwords of at least 8 characters, so the policy cannot go below that
+  minLength: Math.max(readNumber('PASSWORD_MIN_LENGTH', 10), 8),
+  requireUppercase: readBoolean('PASSWORD_REQUIRE_UPPERCASE', true),
+  requireLowercase: readBoolean('PASSWORD_REQUIRE_LOWERCASE', true),
+  requireDigit: readBoolean('PASSWORD_REQUIRE_DIGIT', true),
+  requireSymbol: readBoolean('PASSWORD_REQUIRE_SYMBOL', false),
+  historySize: readNumber('PASSWORD_HISTORY_SIZE', 5),
+  maxAgeDays: readNumber('PASSWORD_MAX_AGE_DAYS', 0),
+};
+
+// Returns a message for every rule the password breaks, an empty list means the password is accepted
+export function getPasswordPolicyViolations(
+  password: string,
+  policy: PasswordPolicy = passwordPolicy
+): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push('Password must contain a digit');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('Password must contain a symbol');
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    violations.push('Password is too common');
+  }
+
+  return violations;
+}
+
+export function isPasswordExpired(
+  passwordChangedAt: Date,
+  policy: PasswordPolicy = passwordPolicy
+): boolean {
+  if (policy.maxAgeDays <= 0) return false;
+
+  const maxAgeMs = policy.maxAgeDays * 24 * 60 * 60 * 1000;
+  return Date.now() - passwordChangedAt.getTime() > maxAgeMs;
+}
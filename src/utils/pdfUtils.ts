@@ -0,0 +1,292 @@
+import zlib from 'zlib';
+
+// Minimal PDF 1.4 writer for text documents, using the standard Helvetica fonts so no font has to be embedded
+// Text is encoded as WinAnsi, callers check it with findUnencodableCharacters as anything else is printed as '?'
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right'; // relative to x
+}
+
+// Widths of the printable ASCII characters (32-126) in 1/1000 of the font size, from the Helvetica font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// Width used for characters outside printable ASCII
+const DEFAULT_CHAR_WIDTH = 556;
+
+// Characters WinAnsi places outside the Latin-1 range
+const WIN_ANSI_EXTRAS = new Map<string, number>([
+  ['€', 0x80],
+  ['‚', 0x82],
+  ['„', 0x84],
+  ['…', 0x85],
+  ['Š', 0x8a],
+  ['Œ', 0x8c],
+  ['Ž', 0x8e],
+  ['‘', 0x91],
+  ['’', 0x92],
+  ['“', 0x93],
+  ['”', 0x94],
+  ['•', 0x95],
+  ['–', 0x96],
+  ['—', 0x97],
+  ['š', 0x9a],
+  ['œ', 0x9c],
+  ['ž', 0x9e],
+  ['Ÿ', 0x9f],
+]);
+
+// Characters are composed first, so a letter followed by a combining accent matches the accented letter
+const toPrintableChars = (text: string): string[] => {
+  return [...text.normalize('NFC').replace(/\s/g, ' ')];
+};
+
+const encodeChar = (char: string): number | undefined => {
+  const code = char.charCodeAt(0);
+
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+    return code;
+  }
+
+  return WIN_ANSI_EXTRAS.get(char);
+};
+
+const encodeText = (text: string): number[] => {
+  return toPrintableChars(text).map(char => encodeChar(char) ?? 0x3f);
+};
+
+// Distinct characters of the text the standard fonts cannot print, such as č, ć and đ
+export const findUnencodableCharacters = (text: string): string[] => {
+  return [
+    ...new Set(
+      toPrintableChars(text).filter(char => encodeChar(char) === undefined)
+    ),
+  ];
+};
+
+// String literal with the characters PDF treats specially escaped
+const toPdfString = (text: string): string => {
+  return (
+    '(' +
+    encodeText(text)
+      .map(byte => {
+        if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+          return '\\' + String.fromCharCode(byte);
+        }
+        return byte < 128
+          ? String.fromCharCode(byte)
+          : '\\' + byte.toString(8).padStart(3, '0');
+      })
+      .join('') +
+    ')'
+  );
+};
+
+const formatNumber = (value: number): string => {
+  return (Math.round(value * 100) / 100).toString();
+};
+
+export const measureText = (
+  text: string,
+  size: number,
+  bold = false
+): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+
+  const total = encodeText(text).reduce(
+    (sum, byte) => sum + (widths[byte - 32] ?? DEFAULT_CHAR_WIDTH),
+    0
+  );
+
+  return (total * size) / 1000;
+};
+
+// Splits the text into lines no wider than maxWidth, words longer than a line are broken
+export const wrapText = (
+  text: string,
+  maxWidth: number,
+  size: number,
+  bold = false
+): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = '';
+
+      for (const char of word) {
+        if (line && measureText(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+// Content stream operators drawing the text with its baseline at y
+export const pdfText = (
+  x: number,
+  y: number,
+  text: string,
+  options: PdfTextOptions = {}
+): string => {
+  const size = options.size ?? 10;
+  const bold = options.bold ?? false;
+  const width = measureText(text, size, bold);
+  const left =
+    options.align === 'right'
+      ? x - width
+      : options.align === 'center'
+        ? x - width / 2
+        : x;
+
+  return `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(y)} Td ${toPdfString(text)} Tj ET`;
+};
+
+export const pdfLine = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  lineWidth = 0.5
+): string => {
+  return `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`;
+};
+
+// Filled rectangle, gray is 0 for black and 1 for white
+export const pdfRect = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  gray = 0.9
+): string => {
+  return `q ${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f Q`;
+};
+
+// Builds the document from the content stream operators of each page
+export const renderPdf = (pages: string[][], title: string): Buffer => {
+  const objects: Buffer[] = [];
+  const addObject = (content: string | Buffer): number => {
+    objects.push(
+      typeof content === 'string' ? Buffer.from(content, 'latin1') : content
+    );
+    return objects.length;
+  };
+
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const regularFontId = addObject(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  );
+  const boldFontId = addObject(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  );
+  const infoId = addObject(
+    `<< /Title ${toPdfString(title)} /Producer (School Management System) >>`
+  );
+
+  const pageIds = pages.map(operators => {
+    const stream = zlib.deflateSync(
+      Buffer.from(operators.join('\n'), 'latin1')
+    );
+    const contentId = addObject(
+      Buffer.concat([
+        Buffer.from(
+          `<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+          'latin1'
+        ),
+        stream,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[catalogId - 1] = Buffer.from(
+    `<< /Type /Catalog /Pages ${pagesId} 0 R >>`,
+    'latin1'
+  );
+  objects[pagesId - 1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    'latin1'
+  );
+
+  // The cross-reference table lists the byte offset of every object
+  const chunks: Buffer[] = [
+    Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1'),
+  ];
+  let offset = chunks[0]?.length ?? 0;
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      object,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(
+      objectOffset => `${objectOffset.toString().padStart(10, '0')} 00000 n `
+    ),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    offset.toString(),
+    '%%EOF',
+  ];
+  chunks.push(Buffer.from(xref.join('\n') + '\n', 'latin1'));
+
+  return Buffer.concat(chunks);
+};
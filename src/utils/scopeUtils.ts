@@ -0,0 +1,186 @@
+import { sql } from 'kysely';
+import { db } from '../config/database';
+import { roleService } from '../services/roleService';
+import { RoleName, type SafeApiKey, type SafeUser } from '../types/database';
+import type { DataScope } from '../types/general';
+
+export type RestrictedDataScope = Exclude<DataScope, { level: 'ministry' }>;
+
+// Resolves the data scope of a user from their role
+// Returns null if the user is not assigned to the school or region their role requires
+export const resolveDataScope = (
+  user: SafeUser,
+  roleName: string
+): DataScope | null => {
+  switch (roleName as RoleName) {
+    case RoleName.MinistryAdmin:
+      return { level: 'ministry' };
+    case RoleName.RegionalAdmin:
+      return user.regionId
+        ? { level: 'region', regionId: user.regionId }
+        : null;
+    case RoleName.Parent:
+      return user.guardianId
+        ? { level: 'guardian', guardianId: user.guardianId }
+        : null;
+    default:
+      // School admins, teachers and any custom roles are limited to their school
+      return user.schoolId
+        ? { level: 'school', schoolId: user.schoolId }
+        : null;
+  }
+};
+
+// API keys are limited to the school or region set on them, keys without either have ministry scope
+export const resolveApiKeyScope = (
+  apiKey: Pick<SafeApiKey, 'schoolId' | 'regionId'>
+): DataScope => {
+  if (apiKey.schoolId) return { level: 'school', schoolId: apiKey.schoolId };
+  if (apiKey.regionId) return { level: 'region', regionId: apiKey.regionId };
+  return { level: 'ministry' };
+};
+
+export const isRestrictedScope = (
+  scope: DataScope | undefined
+): scope is RestrictedDataScope => {
+  return scope !== undefined && scope.level !== 'ministry';
+};
+
+// Subquery returning ids of the students linked to the guardian
+export const guardianStudentIds = (guardianId: number) => {
+  return db
+    .selectFrom('studentGuardians')
+    .select('studentGuardians.studentId')
+    .where('studentGuardians.guardianId', '=', guardianId);
+};
+
+// Subquery returning ids of all schools inside the scope, meant to be used as where(column, 'in', subquery)
+// Guardians have no school-level access, queries filtering by student use guardianStudentIds instead
+export const schoolIdsInScope = (scope: RestrictedDataScope) => {
+  const query = db.selectFrom('schools').select('schools.id');
+
+  switch (scope.level) {
+    case 'school':
+      return query.where('schools.id', '=', scope.schoolId);
+    case 'region':
+      return query.where('schools.regionId', '=', scope.regionId);
+    case 'guardian':
+      return query.where(sql<boolean>`false`);
+  }
+};
+
+export const isSchoolInScope = async (
+  scope: DataScope | undefined,
+  schoolId: number | null | undefined
+): Promise<boolean> => {
+  if (!isRestrictedScope(scope)) return true;
+  if (!schoolId) return false;
+
+  if (scope.level === 'school') {
+    return scope.schoolId === schoolId;
+  }
+
+  if (scope.level === 'guardian') return false;
+
+  const school = await db
+    .selectFrom('schools')
+    .select('regionId')
+    .where('id', '=', schoolId)
+    .executeTakeFirst();
+
+  return school?.regionId === scope.regionId;
+};
+
+export const isRegionInScope = (
+  scope: DataScope | undefined,
+  regionId: number | null | undefined
+): boolean => {
+  if (!isRestrictedScope(scope)) return true;
+
+  return scope.level === 'region' && scope.regionId === regionId;
+};
+
+// Data scope level each role resolves to, mirrors resolveDataScope
+const roleScopeLevel = (roleName: string): DataScope['level'] => {
+  switch (roleName as RoleName) {
+    case RoleName.MinistryAdmin:
+      return 'ministry';
+    case RoleName.RegionalAdmin:
+      return 'region';
+    case RoleName.Parent:
+      return 'guardian';
+    default:
+      return 'school';
+  }
+};
+
+// Wider scope levels rank higher
+const SCOPE_LEVEL_RANK: Record<DataScope['level'], number> = {
+  guardian: 0,
+  school: 1,
+  region: 2,
+  ministry: 3,
+};
+
+// Users may only assign roles whose data scope is not wider than their own and whose permissions they hold
+// themselves, as custom roles resolve to the school scope whatever permissions they are granted
+export const isRoleInScope = async (
+  scope: DataScope | undefined,
+  roleId: number,
+  permissions: string[]
+): Promise<boolean> => {
+  const rolePermissions = await roleService.getPermissionNames(roleId);
+  if (rolePermissions.some(permission => !permissions.includes(permission))) {
+    return false;
+  }
+
+  if (!isRestrictedScope(scope)) return true;
+
+  const role = await db
+    .selectFrom('roles')
+    .select('name')
+    .where('id', '=', roleId)
+    .executeTakeFirst();
+
+  if (!role) return false;
+
+  return (
+    SCOPE_LEVEL_RANK[roleScopeLevel(role.name)] <= SCOPE_LEVEL_RANK[scope.level]
+  );
+};
+
+// Users are assigned either to a school or, for regional users, to a region
+export const isUserAssignmentInScope = async (
+  scope: DataScope | undefined,
+  schoolId: number | null | undefined,
+  regionId: number | null | undefined
+): Promise<boolean> => {
+  if (schoolId) {
+    return await isSchoolInScope(scope, schoolId);
+  }
+
+  return isRegionInScope(scope, regionId);
+};
+
+// Teachers may only grade the subjects they teach, other roles are limited by their data scope alone
+// API keys of the Teacher role are not linked to a teacher, so they cannot grade at all
+export const canGradeSubject = (
+  roleName: string | undefined,
+  user: SafeUser | undefined,
+  teacherId: number | null
+): boolean => {
+  if (roleName !== RoleName.Teacher) return true;
+
+  return teacherId !== null && user?.teacherId === teacherId;
+};
+
+// Teachers may only write the report card remarks of their homeroom class
+export const canWriteClassRemarks = (
+  roleName: string | undefined,
+  user: SafeUser | undefined,
+  homeroomTeacherId: number | null
+): boolean => {
+  if (roleName !== RoleName.Teacher) return true;
+
+  return homeroomTeacherId !== null && user?.teacherId === homeroomTeacherId;
+};
@@ -5,6 +5,8 @@ export default defineConfig({
     environment: 'node',
     setupFiles: ['./src/tests/setup.ts'],
     testTimeout: 10000,
+    // Test files share the test database, so they run one at a time
+    fileParallelism: false,
     // Optional: coverage settings
     coverage: {
       provider: 'v8',